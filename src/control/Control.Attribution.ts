@@ -0,0 +1,127 @@
+import { setOptions } from '@/core/Util';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { Map } from '@/map/Map';
+import { Control, ControlOptions } from './Control';
+
+/*
+ * @class Control.Attribution
+ * @aka L.Control.Attribution
+ * @inherits Control
+ *
+ * The attribution control allows you to display attribution data in a small text box on a map. It is put on the map by default unless you set its [`attributionControl` option](#map-attributioncontrol) to `false`, and it fetches attribution texts from layers with the [`getAttribution` method](#layer-getattribution) automatically. Extends Control.
+ */
+
+export interface ControlAttributionOptions extends ControlOptions {
+  prefix: string | false;
+}
+
+export class ControlAttribution extends Control {
+  // @section
+  // @aka Control.Attribution options
+  public options: ControlAttributionOptions = {
+    ...this.options,
+
+    position: 'bottomright',
+
+    // @option prefix: String = 'Leaflet'
+    // The HTML text shown before the attributions. Pass `false` to disable.
+    prefix:
+      '<a href="https://leafletjs.com" title="A JS library for interactive maps">Leaflet</a>',
+  };
+
+  // number of layers currently contributing each attribution text
+  private _attributions: Record<string, number> = {};
+
+  constructor(options?: Partial<ControlAttributionOptions>) {
+    super();
+    setOptions(this, options);
+  }
+
+  public onAdd(map: Map): HTMLElement {
+    map.attributionControl = this;
+    this._container = DomUtil.create('div', 'leaflet-control-attribution');
+    DomEvent.disableClickPropagation(this._container);
+
+    map.eachLayer((layer) => {
+      this.addAttribution(layer.getAttribution());
+    });
+
+    this._update();
+
+    return this._container;
+  }
+
+  // @method setPrefix(prefix: String): this
+  // Sets the text before the attributions.
+  public setPrefix(prefix: string | false): this {
+    this.options.prefix = prefix;
+    this._update();
+    return this;
+  }
+
+  // @method addAttribution(text: String): this
+  // Adds an attribution text (e.g. `'Vector data &copy; Mapbox'`).
+  public addAttribution(text?: string): this {
+    if (!text) {
+      return this;
+    }
+
+    if (!this._attributions[text]) {
+      this._attributions[text] = 0;
+    }
+    this._attributions[text]++;
+
+    this._update();
+
+    return this;
+  }
+
+  // @method removeAttribution(text: String): this
+  // Removes an attribution text.
+  public removeAttribution(text?: string): this {
+    if (!text) {
+      return this;
+    }
+
+    if (this._attributions[text]) {
+      this._attributions[text]--;
+      this._update();
+    }
+
+    return this;
+  }
+
+  private _update(): void {
+    if (!this._map || !this._container) {
+      return;
+    }
+
+    const attribs = [];
+
+    for (const i in this._attributions) {
+      if (this._attributions[i]) {
+        attribs.push(i);
+      }
+    }
+
+    const prefixAndAttribs = [];
+
+    if (this.options.prefix) {
+      prefixAndAttribs.push(this.options.prefix);
+    }
+    if (attribs.length) {
+      prefixAndAttribs.push(attribs.join(', '));
+    }
+
+    this._container.innerHTML = prefixAndAttribs.join(' | ');
+  }
+}
+
+// @factory L.control.attribution(options: Control.Attribution options)
+// Creates an attribution control.
+export function controlAttribution(
+  options?: Partial<ControlAttributionOptions>,
+): ControlAttribution {
+  return new ControlAttribution(options);
+}
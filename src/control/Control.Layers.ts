@@ -0,0 +1,515 @@
+import * as Browser from '@/core/Browser';
+import { LeafletEvent } from '@/core/Events';
+import { setOptions, stamp } from '@/core/Util';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { Layer } from '@/layer/Layer';
+import { Map } from '@/map/Map';
+import { Control, ControlOptions } from './Control';
+
+/*
+ * @class Control.Layers
+ * @aka L.Control.Layers
+ * @inherits Control
+ *
+ * The layers control gives users the ability to switch between different base layers and switch overlays on/off (check out the [detailed example](http://leafletjs.com/examples/layers-control/)). Extends `Control`.
+ *
+ * @example
+ *
+ * ```js
+ * var baseLayers = {
+ * 	"Mapbox": mapbox,
+ * 	"OpenStreetMap": osm
+ * };
+ *
+ * var overlays = {
+ * 	"Marker": marker,
+ * 	"Roads": roadsLayer
+ * };
+ *
+ * L.control.layers(baseLayers, overlays).addTo(map);
+ * ```
+ *
+ * The `baseLayers` and `overlays` parameters are object literals with layer names as keys and `Layer` objects as values:
+ *
+ * ```js
+ * {
+ *     "<someName1>": layer1,
+ *     "<someName2>": layer2
+ * }
+ * ```
+ *
+ * The layer names can contain HTML, which allows you to add additional styling to the items:
+ *
+ * ```js
+ * {"<img src='my-layer-icon' /> <span class='my-layer-item'>My Layer</span>": myLayer}
+ * ```
+ */
+
+export interface ControlLayersOptions extends ControlOptions {
+  collapsed: boolean;
+  autoZIndex: boolean;
+  hideSingleBase: boolean;
+  sortLayers: boolean;
+  sortFunction: (
+    layerA: Layer,
+    layerB: Layer,
+    nameA: string,
+    nameB: string,
+  ) => number;
+}
+
+export interface LayersObject {
+  [name: string]: Layer;
+}
+
+interface LayerItem {
+  layer: Layer;
+  name: string;
+  overlay: boolean;
+}
+
+// layers may be restricted to a zoom range and stacked through `setZIndex`
+type ControlledLayer = Layer & {
+  options: { minZoom?: number; maxZoom?: number };
+  setZIndex?(zIndex: number): Layer;
+};
+
+// inputs remember the stamp of the layer they toggle
+type LayerInput = HTMLInputElement & { layerId: number };
+
+export class ControlLayers extends Control {
+  // @section
+  // @aka Control.Layers options
+  public options: ControlLayersOptions = {
+    ...this.options,
+
+    // @option collapsed: Boolean = true
+    // If `true`, the control will be collapsed into an icon and expanded on mouse hover or touch.
+    collapsed: true,
+    position: 'topright',
+
+    // @option autoZIndex: Boolean = true
+    // If `true`, the control will assign zIndexes in increasing order to all of its layers so that the order is preserved when switching them on/off.
+    autoZIndex: true,
+
+    // @option hideSingleBase: Boolean = false
+    // If `true`, the base layers in the control will be hidden when there is only one.
+    hideSingleBase: false,
+
+    // @option sortLayers: Boolean = false
+    // Whether to sort the layers. When `false`, layers will keep the order
+    // in which they were added to the control.
+    sortLayers: false,
+
+    // @option sortFunction: Function = *
+    // A [compare function](https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/Array/sort)
+    // that will be used for sorting the layers, when `sortLayers` is `true`.
+    // The function receives both the `L.Layer` instances and their names, as in
+    // `sortFunction(layerA, layerB, nameA, nameB)`.
+    // By default, it sorts layers alphabetically by their name.
+    sortFunction: (_layerA, _layerB, nameA, nameB) =>
+      nameA < nameB ? -1 : nameB < nameA ? 1 : 0,
+  };
+
+  private _layerControlInputs: LayerInput[] = [];
+  private _layers: LayerItem[] = [];
+  private _lastZIndex = 0;
+  private _handlingClick = false;
+  private _section!: HTMLElement;
+  protected _layersLink!: HTMLAnchorElement;
+  private _baseLayersList!: HTMLElement;
+  private _separator!: HTMLElement;
+  private _overlaysList!: HTMLElement;
+
+  constructor(
+    baseLayers?: LayersObject,
+    overlays?: LayersObject,
+    options?: Partial<ControlLayersOptions>,
+  ) {
+    super();
+    setOptions(this, options);
+
+    for (const i in baseLayers) {
+      this._addLayer(baseLayers[i], i);
+    }
+
+    for (const i in overlays) {
+      this._addLayer(overlays[i], i, true);
+    }
+  }
+
+  public onAdd(map: Map): HTMLElement {
+    this._initLayout();
+    this._update();
+
+    map.on('zoomend', this._checkDisabledLayers, this);
+
+    for (let i = 0; i < this._layers.length; i++) {
+      this._layers[i].layer.on('add remove', this._onLayerChange, this);
+    }
+
+    return this._container as HTMLElement;
+  }
+
+  public addTo(map: Map): this {
+    super.addTo(map);
+    // Trigger expand after Layers Control has been inserted into DOM so that is now has an actual height.
+    return this._expandIfNotCollapsed();
+  }
+
+  public onRemove(map: Map): void {
+    map.off('zoomend', this._checkDisabledLayers, this);
+    map.off('click', this.collapse, this);
+
+    for (let i = 0; i < this._layers.length; i++) {
+      this._layers[i].layer.off('add remove', this._onLayerChange, this);
+    }
+  }
+
+  // @method addBaseLayer(layer: Layer, name: String): this
+  // Adds a base layer (radio button entry) with the given name to the control.
+  public addBaseLayer(layer: Layer, name: string): this {
+    this._addLayer(layer, name);
+    return this._map ? this._update() : this;
+  }
+
+  // @method addOverlay(layer: Layer, name: String): this
+  // Adds an overlay (checkbox entry) with the given name to the control.
+  public addOverlay(layer: Layer, name: string): this {
+    this._addLayer(layer, name, true);
+    return this._map ? this._update() : this;
+  }
+
+  // @method removeLayer(layer: Layer): this
+  // Remove the given layer from the control.
+  public removeLayer(layer: Layer): this {
+    layer.off('add remove', this._onLayerChange, this);
+
+    const obj = this._getLayer(stamp(layer));
+    if (obj) {
+      this._layers.splice(this._layers.indexOf(obj), 1);
+    }
+    return this._map ? this._update() : this;
+  }
+
+  // @method expand(): this
+  // Expand the control container if collapsed.
+  public expand(): this {
+    const container = this._container as HTMLElement;
+    const section = this._section;
+
+    DomUtil.addClass(container, 'leaflet-control-layers-expanded');
+    section.style.height = '';
+
+    const acceptableHeight =
+      (this._map as Map).getSize().y - (container.offsetTop + 50);
+
+    if (acceptableHeight < section.clientHeight) {
+      DomUtil.addClass(section, 'leaflet-control-layers-scrollbar');
+      section.style.height = acceptableHeight + 'px';
+    } else {
+      DomUtil.removeClass(section, 'leaflet-control-layers-scrollbar');
+    }
+    this._checkDisabledLayers();
+    return this;
+  }
+
+  // @method collapse(): this
+  // Collapse the control container if expanded.
+  public collapse(): this {
+    if (this._container) {
+      DomUtil.removeClass(this._container, 'leaflet-control-layers-expanded');
+    }
+    return this;
+  }
+
+  private _initLayout(): void {
+    const className = 'leaflet-control-layers';
+    const container = (this._container = DomUtil.create('div', className));
+    const collapsed = this.options.collapsed;
+
+    // makes this work on IE touch devices by stopping it from firing a mouseout event when the touch is released
+    container.setAttribute('aria-haspopup', 'true');
+
+    DomEvent.disableClickPropagation(container);
+    DomEvent.disableScrollPropagation(container);
+
+    const section = (this._section = DomUtil.create(
+      'section',
+      className + '-list',
+    ));
+
+    if (collapsed) {
+      (this._map as Map).on('click', this.collapse, this);
+
+      if (!Browser.android) {
+        DomEvent.on(
+          container,
+          {
+            mouseenter: this.expand,
+            mouseleave: this.collapse,
+          },
+          this,
+        );
+      }
+    }
+
+    const link = (this._layersLink = DomUtil.create(
+      'a',
+      className + '-toggle',
+      container,
+    ) as HTMLAnchorElement);
+    link.href = '#';
+    link.title = 'Layers';
+
+    if (Browser.touch) {
+      DomEvent.on(link, 'click', DomEvent.stop);
+      DomEvent.on(link, 'click', this.expand, this);
+    } else {
+      DomEvent.on(link, 'focus', this.expand, this);
+    }
+
+    if (!collapsed) {
+      this.expand();
+    }
+
+    this._baseLayersList = DomUtil.create('div', className + '-base', section);
+    this._separator = DomUtil.create('div', className + '-separator', section);
+    this._overlaysList = DomUtil.create(
+      'div',
+      className + '-overlays',
+      section,
+    );
+
+    container.appendChild(section);
+  }
+
+  private _getLayer(id: number): LayerItem | undefined {
+    for (let i = 0; i < this._layers.length; i++) {
+      if (this._layers[i] && stamp(this._layers[i].layer) === id) {
+        return this._layers[i];
+      }
+    }
+    return undefined;
+  }
+
+  private _addLayer(layer: Layer, name: string, overlay = false): void {
+    if (this._map) {
+      layer.on('add remove', this._onLayerChange, this);
+    }
+
+    this._layers.push({
+      layer: layer,
+      name: name,
+      overlay: overlay,
+    });
+
+    if (this.options.sortLayers) {
+      this._layers.sort((a, b) =>
+        this.options.sortFunction(a.layer, b.layer, a.name, b.name),
+      );
+    }
+
+    const controlled = layer as ControlledLayer;
+    if (this.options.autoZIndex && controlled.setZIndex) {
+      this._lastZIndex++;
+      controlled.setZIndex(this._lastZIndex);
+    }
+
+    this._expandIfNotCollapsed();
+  }
+
+  private _update(): this {
+    if (!this._container) {
+      return this;
+    }
+
+    DomUtil.empty(this._baseLayersList);
+    DomUtil.empty(this._overlaysList);
+
+    this._layerControlInputs = [];
+    let baseLayersPresent = false;
+    let overlaysPresent = false;
+    let baseLayersCount = 0;
+
+    for (let i = 0; i < this._layers.length; i++) {
+      const obj = this._layers[i];
+      this._addItem(obj);
+      overlaysPresent = overlaysPresent || obj.overlay;
+      baseLayersPresent = baseLayersPresent || !obj.overlay;
+      baseLayersCount += !obj.overlay ? 1 : 0;
+    }
+
+    // Hide base layers section if there's only one layer.
+    if (this.options.hideSingleBase) {
+      baseLayersPresent = baseLayersPresent && baseLayersCount > 1;
+      this._baseLayersList.style.display = baseLayersPresent ? '' : 'none';
+    }
+
+    this._separator.style.display =
+      overlaysPresent && baseLayersPresent ? '' : 'none';
+
+    return this;
+  }
+
+  private _onLayerChange(e: LeafletEvent): void {
+    if (!this._handlingClick) {
+      this._update();
+    }
+
+    const obj = this._getLayer(stamp(e.target));
+    if (!obj || !this._map) {
+      return;
+    }
+
+    // @namespace Map
+    // @section Layer events
+    // @event baselayerchange: LayersControlEvent
+    // Fired when the base layer is changed through the [layers control](#control-layers).
+    // @event overlayadd: LayersControlEvent
+    // Fired when an overlay is selected through the [layers control](#control-layers).
+    // @event overlayremove: LayersControlEvent
+    // Fired when an overlay is deselected through the [layers control](#control-layers).
+    // @namespace Control.Layers
+    const type = obj.overlay
+      ? e.type === 'add'
+        ? 'overlayadd'
+        : 'overlayremove'
+      : e.type === 'add'
+      ? 'baselayerchange'
+      : null;
+
+    if (type) {
+      this._map.fire(type, { ...obj });
+    }
+  }
+
+  // IE7 bugs out if you create a radio dynamically, so you have to do it this hacky way (see http://bit.ly/PqYLBe)
+  private _createRadioElement(name: string, checked: boolean): LayerInput {
+    const radioHtml =
+      '<input type="radio" class="leaflet-control-layers-selector" name="' +
+      name +
+      '"' +
+      (checked ? ' checked="checked"' : '') +
+      '/>';
+
+    const radioFragment = document.createElement('div');
+    radioFragment.innerHTML = radioHtml;
+
+    return radioFragment.firstChild as LayerInput;
+  }
+
+  private _addItem(obj: LayerItem): HTMLElement {
+    const label = document.createElement('label');
+    const checked = (this._map as Map).hasLayer(obj.layer);
+    let input: LayerInput;
+
+    if (obj.overlay) {
+      input = document.createElement('input') as LayerInput;
+      input.type = 'checkbox';
+      input.className = 'leaflet-control-layers-selector';
+      input.defaultChecked = checked;
+    } else {
+      input = this._createRadioElement(
+        'leaflet-base-layers_' + stamp(this),
+        checked,
+      );
+    }
+
+    this._layerControlInputs.push(input);
+    input.layerId = stamp(obj.layer);
+
+    DomEvent.on(input, 'click', this._onInputClick, this);
+
+    const name = document.createElement('span');
+    name.innerHTML = ' ' + obj.name;
+
+    // Helps from preventing layer control flicker when checkboxes are disabled
+    // https://github.com/Leaflet/Leaflet/issues/2771
+    const holder = document.createElement('div');
+
+    label.appendChild(holder);
+    holder.appendChild(input);
+    holder.appendChild(name);
+
+    const container = obj.overlay ? this._overlaysList : this._baseLayersList;
+    container.appendChild(label);
+
+    this._checkDisabledLayers();
+    return label;
+  }
+
+  private _onInputClick(e: MouseEvent): void {
+    const map = this._map as Map;
+    const inputs = this._layerControlInputs;
+    const addedLayers = [];
+    const removedLayers = [];
+
+    this._handlingClick = true;
+
+    for (let i = inputs.length - 1; i >= 0; i--) {
+      const input = inputs[i];
+      const layer = (this._getLayer(input.layerId) as LayerItem).layer;
+
+      if (input.checked) {
+        addedLayers.push(layer);
+      } else {
+        removedLayers.push(layer);
+      }
+    }
+
+    // Bugfix issue 2318: Should remove all old layers before readding new ones
+    for (let i = 0; i < removedLayers.length; i++) {
+      if (map.hasLayer(removedLayers[i])) {
+        map.removeLayer(removedLayers[i]);
+      }
+    }
+    for (let i = 0; i < addedLayers.length; i++) {
+      if (!map.hasLayer(addedLayers[i])) {
+        map.addLayer(addedLayers[i]);
+      }
+    }
+
+    this._handlingClick = false;
+
+    this._refocusOnMap(e);
+  }
+
+  private _checkDisabledLayers(): void {
+    if (!this._map) {
+      return;
+    }
+
+    const inputs = this._layerControlInputs;
+    const zoom = this._map.getZoom();
+
+    for (let i = inputs.length - 1; i >= 0; i--) {
+      const input = inputs[i];
+      const layer = (this._getLayer(input.layerId) as LayerItem)
+        .layer as ControlledLayer;
+      const { minZoom, maxZoom } = layer.options;
+
+      input.disabled =
+        (minZoom !== undefined && zoom < minZoom) ||
+        (maxZoom !== undefined && zoom > maxZoom);
+    }
+  }
+
+  private _expandIfNotCollapsed(): this {
+    if (this._map && !this.options.collapsed) {
+      this.expand();
+    }
+    return this;
+  }
+}
+
+// @factory L.control.layers(baselayers?: Object, overlays?: Object, options?: Control.Layers options)
+// Creates a layers control with the given layers. Base layers will be switched with radio buttons, while overlays will be switched with checkboxes. Note that all base layers should be passed in the base layers object, but only one should be added to the map during map instantiation.
+export function controlLayers(
+  baseLayers?: LayersObject,
+  overlays?: LayersObject,
+  options?: Partial<ControlLayersOptions>,
+): ControlLayers {
+  return new ControlLayers(baseLayers, overlays, options);
+}
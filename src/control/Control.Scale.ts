@@ -0,0 +1,156 @@
+import { setOptions } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { Map } from '@/map/Map';
+import { Control, ControlOptions } from './Control';
+
+/*
+ * @class Control.Scale
+ * @aka L.Control.Scale
+ * @inherits Control
+ *
+ * A simple scale control that shows the scale of the current center of screen in metric (m/km) and imperial (mi/ft) systems. Extends `Control`.
+ *
+ * @example
+ *
+ * ```js
+ * L.control.scale().addTo(map);
+ * ```
+ */
+
+export interface ControlScaleOptions extends ControlOptions {
+  maxWidth: number;
+  metric: boolean;
+  imperial: boolean;
+  updateWhenIdle: boolean;
+}
+
+export class ControlScale extends Control {
+  // @section
+  // @aka Control.Scale options
+  public options: ControlScaleOptions = {
+    ...this.options,
+
+    position: 'bottomleft',
+
+    // @option maxWidth: Number = 100
+    // Maximum width of the control in pixels. The width is set dynamically to show round values (e.g. 100, 200, 500).
+    maxWidth: 100,
+
+    // @option metric: Boolean = True
+    // Whether to show the metric scale line (m/km).
+    metric: true,
+
+    // @option imperial: Boolean = True
+    // Whether to show the imperial scale line (mi/ft).
+    imperial: true,
+
+    // @option updateWhenIdle: Boolean = false
+    // If `true`, the control is updated on [`moveend`](#map-moveend), otherwise it's always up-to-date (updated on [`move`](#map-move)).
+    updateWhenIdle: false,
+  };
+
+  private _mScale?: HTMLElement;
+  private _iScale?: HTMLElement;
+
+  constructor(options?: Partial<ControlScaleOptions>) {
+    super();
+    setOptions(this, options);
+  }
+
+  public onAdd(map: Map): HTMLElement {
+    const className = 'leaflet-control-scale';
+    const container = DomUtil.create('div', className);
+    const options = this.options;
+
+    this._addScales(options, className + '-line', container);
+
+    map.on(options.updateWhenIdle ? 'moveend' : 'move', this._update, this);
+    map.whenReady(this._update, this);
+
+    return container;
+  }
+
+  public onRemove(map: Map): void {
+    map.off(
+      this.options.updateWhenIdle ? 'moveend' : 'move',
+      this._update,
+      this,
+    );
+  }
+
+  private _addScales(
+    options: ControlScaleOptions,
+    className: string,
+    container: HTMLElement,
+  ): void {
+    if (options.metric) {
+      this._mScale = DomUtil.create('div', className, container);
+    }
+    if (options.imperial) {
+      this._iScale = DomUtil.create('div', className, container);
+    }
+  }
+
+  private _update(): void {
+    const map = this._map as Map;
+    const y = map.getSize().y / 2;
+
+    const maxMeters = map.distance(
+      map.containerPointToLatLng([0, y]),
+      map.containerPointToLatLng([this.options.maxWidth, y]),
+    );
+
+    this._updateScales(maxMeters);
+  }
+
+  private _updateScales(maxMeters: number): void {
+    if (this._mScale && maxMeters) {
+      this._updateMetric(this._mScale, maxMeters);
+    }
+    if (this._iScale && maxMeters) {
+      this._updateImperial(this._iScale, maxMeters);
+    }
+  }
+
+  private _updateMetric(scale: HTMLElement, maxMeters: number): void {
+    const meters = this._getRoundNum(maxMeters);
+    const label = meters < 1000 ? meters + ' m' : meters / 1000 + ' km';
+
+    this._updateScale(scale, label, meters / maxMeters);
+  }
+
+  private _updateImperial(scale: HTMLElement, maxMeters: number): void {
+    const maxFeet = maxMeters * 3.2808399;
+
+    if (maxFeet > 5280) {
+      const maxMiles = maxFeet / 5280;
+      const miles = this._getRoundNum(maxMiles);
+      this._updateScale(scale, miles + ' mi', miles / maxMiles);
+    } else {
+      const feet = this._getRoundNum(maxFeet);
+      this._updateScale(scale, feet + ' ft', feet / maxFeet);
+    }
+  }
+
+  private _updateScale(scale: HTMLElement, text: string, ratio: number): void {
+    scale.style.width = Math.round(this.options.maxWidth * ratio) + 'px';
+    scale.innerHTML = text;
+  }
+
+  private _getRoundNum(num: number): number {
+    const pow10 = Math.pow(10, (Math.floor(num) + '').length - 1);
+    let d = num / pow10;
+
+    d = d >= 10 ? 10 : d >= 5 ? 5 : d >= 3 ? 3 : d >= 2 ? 2 : 1;
+
+    return pow10 * d;
+  }
+}
+
+// @factory L.control.scale(options?: Control.Scale options)
+// Creates an scale control with the given options.
+export function controlScale(
+  options?: Partial<ControlScaleOptions>,
+): ControlScale {
+  return new ControlScale(options);
+}
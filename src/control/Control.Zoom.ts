@@ -0,0 +1,160 @@
+import { setOptions } from '@/core/Util';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { Map } from '@/map/Map';
+import { Control, ControlOptions } from './Control';
+
+/*
+ * @class Control.Zoom
+ * @aka L.Control.Zoom
+ * @inherits Control
+ *
+ * A basic zoom control with two buttons (zoom in and zoom out). It is put on the map by default unless you set its [`zoomControl` option](#map-zoomcontrol) to `false`. Extends `Control`.
+ */
+
+export interface ControlZoomOptions extends ControlOptions {
+  zoomInText: string;
+  zoomInTitle: string;
+  zoomOutText: string;
+  zoomOutTitle: string;
+}
+
+export class ControlZoom extends Control {
+  // @section
+  // @aka Control.Zoom options
+  public options: ControlZoomOptions = {
+    ...this.options,
+
+    position: 'topleft',
+
+    // @option zoomInText: String = '+'
+    // The text set on the 'zoom in' button.
+    zoomInText: '+',
+
+    // @option zoomInTitle: String = 'Zoom in'
+    // The title set on the 'zoom in' button.
+    zoomInTitle: 'Zoom in',
+
+    // @option zoomOutText: String = '&#x2212;'
+    // The text set on the 'zoom out' button.
+    zoomOutText: '&#x2212;',
+
+    // @option zoomOutTitle: String = 'Zoom out'
+    // The title set on the 'zoom out' button.
+    zoomOutTitle: 'Zoom out',
+  };
+
+  private _disabled = false;
+  private _zoomInButton!: HTMLElement;
+  private _zoomOutButton!: HTMLElement;
+
+  constructor(options?: Partial<ControlZoomOptions>) {
+    super();
+    setOptions(this, options);
+  }
+
+  public onAdd(map: Map): HTMLElement {
+    const zoomName = 'leaflet-control-zoom';
+    const container = DomUtil.create('div', zoomName + ' leaflet-bar');
+    const options = this.options;
+
+    this._zoomInButton = this._createButton(
+      options.zoomInText,
+      options.zoomInTitle,
+      zoomName + '-in',
+      container,
+      this._zoomIn,
+    );
+    this._zoomOutButton = this._createButton(
+      options.zoomOutText,
+      options.zoomOutTitle,
+      zoomName + '-out',
+      container,
+      this._zoomOut,
+    );
+
+    this._updateDisabled();
+    map.on('zoomend zoomlevelschange', this._updateDisabled, this);
+
+    return container;
+  }
+
+  public onRemove(map: Map): void {
+    map.off('zoomend zoomlevelschange', this._updateDisabled, this);
+  }
+
+  public disable(): this {
+    this._disabled = true;
+    this._updateDisabled();
+    return this;
+  }
+
+  public enable(): this {
+    this._disabled = false;
+    this._updateDisabled();
+    return this;
+  }
+
+  private _zoomIn(e: MouseEvent): void {
+    const map = this._map as Map;
+    if (!this._disabled && map.getZoom() < map.getMaxZoom()) {
+      map.zoomIn(map.options.zoomDelta * (e.shiftKey ? 3 : 1));
+    }
+  }
+
+  private _zoomOut(e: MouseEvent): void {
+    const map = this._map as Map;
+    if (!this._disabled && map.getZoom() > map.getMinZoom()) {
+      map.zoomOut(map.options.zoomDelta * (e.shiftKey ? 3 : 1));
+    }
+  }
+
+  private _createButton(
+    html: string,
+    title: string,
+    className: string,
+    container: HTMLElement,
+    fn: (e: MouseEvent) => void,
+  ): HTMLElement {
+    const link = DomUtil.create('a', className, container) as HTMLAnchorElement;
+    link.innerHTML = html;
+    link.href = '#';
+    link.title = title;
+
+    /*
+     * Will force screen readers like VoiceOver to read this as "Zoom in - button"
+     */
+    link.setAttribute('role', 'button');
+    link.setAttribute('aria-label', title);
+
+    DomEvent.disableClickPropagation(link);
+    DomEvent.on(link, 'click', DomEvent.stop);
+    DomEvent.on(link, 'click', fn, this);
+    DomEvent.on(link, 'click', this._refocusOnMap, this);
+
+    return link;
+  }
+
+  private _updateDisabled(): void {
+    const map = this._map as Map;
+    const className = 'leaflet-disabled';
+
+    DomUtil.removeClass(this._zoomInButton, className);
+    DomUtil.removeClass(this._zoomOutButton, className);
+
+    if (this._disabled || map.getZoom() === map.getMinZoom()) {
+      DomUtil.addClass(this._zoomOutButton, className);
+    }
+    if (this._disabled || map.getZoom() === map.getMaxZoom()) {
+      DomUtil.addClass(this._zoomInButton, className);
+    }
+  }
+}
+
+// @factory L.control.zoom(options: Control.Zoom options)
+// Creates a zoom control
+export function controlZoom(
+  options?: Partial<ControlZoomOptions>,
+): ControlZoom {
+  return new ControlZoom(options);
+}
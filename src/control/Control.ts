@@ -0,0 +1,135 @@
+import { setOptions, stamp } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { Map } from '@/map/Map';
+
+/*
+ * @class Control
+ * @aka L.Control
+ *
+ * L.Control is a base class for implementing map controls. Handles positioning.
+ * All other controls extend from this class.
+ */
+
+export type ControlPosition =
+  | 'topleft'
+  | 'topright'
+  | 'bottomleft'
+  | 'bottomright';
+
+export interface ControlOptions {
+  position: ControlPosition;
+}
+
+export abstract class Control {
+  // @section
+  // @aka Control options
+  public options: ControlOptions = {
+    // @option position: String = 'topright'
+    // The position of the control (one of the map corners). Possible values are `'topleft'`,
+    // `'topright'`, `'bottomleft'` or `'bottomright'`
+    position: 'topright',
+  };
+
+  protected _map?: Map;
+  protected _container?: HTMLElement;
+
+  constructor(options?: Partial<ControlOptions>) {
+    setOptions(this, options);
+  }
+
+  // @section Extension methods
+  // Classes extending L.Control will inherit the following methods:
+
+  // @method onAdd(map: Map): HTMLElement
+  // Should return the container DOM element for the control and add listeners on relevant map events. Called on [`control.addTo(map)`](#control-addTo).
+  public abstract onAdd(map: Map): HTMLElement;
+
+  // @method onRemove(map: Map)
+  // Optional method. Should contain all clean up code that removes the listeners previously added in [`onAdd`](#control-onadd). Called on [`control.remove()`](#control-remove).
+  public onRemove?(map: Map): void;
+
+  /* @section
+   * Classes extending L.Control will inherit the following methods:
+   *
+   * @method getPosition: string
+   * Returns the position of the control.
+   */
+  public getPosition(): ControlPosition {
+    return this.options.position;
+  }
+
+  // @method setPosition(position: string): this
+  // Sets the position of the control.
+  public setPosition(position: ControlPosition): this {
+    const map = this._map;
+
+    if (map) {
+      map.removeControl(this);
+    }
+
+    this.options.position = position;
+
+    if (map) {
+      map.addControl(this);
+    }
+
+    return this;
+  }
+
+  // @method getContainer: HTMLElement
+  // Returns the HTMLElement that contains the control.
+  public getContainer(): HTMLElement | undefined {
+    return this._container;
+  }
+
+  // @method addTo(map: Map): this
+  // Adds the control to the given map.
+  public addTo(map: Map): this {
+    this.remove();
+    this._map = map;
+
+    const container = (this._container = this.onAdd(map));
+    const pos = this.getPosition();
+    const corner = map._controlCorners[pos];
+
+    DomUtil.addClass(container, 'leaflet-control');
+
+    if (pos.indexOf('bottom') !== -1) {
+      corner.insertBefore(container, corner.firstChild);
+    } else {
+      corner.appendChild(container);
+    }
+
+    map._controls[stamp(this)] = this;
+
+    return this;
+  }
+
+  // @method remove: this
+  // Removes the control from the map it is currently active on.
+  public remove(): this {
+    if (!this._map) {
+      return this;
+    }
+
+    if (this._container) {
+      DomUtil.remove(this._container);
+    }
+
+    if (this.onRemove) {
+      this.onRemove(this._map);
+    }
+
+    delete this._map._controls[stamp(this)];
+    this._map = undefined;
+
+    return this;
+  }
+
+  protected _refocusOnMap(e: MouseEvent): void {
+    // if map exists and event is not a keyboard event
+    if (this._map && e && e.screenX > 0 && e.screenY > 0) {
+      this._map.getContainer().focus();
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export { Control } from './Control';
+export { ControlZoom, controlZoom } from './Control.Zoom';
+export { ControlAttribution, controlAttribution } from './Control.Attribution';
+export { ControlScale, controlScale } from './Control.Scale';
+export { ControlLayers, controlLayers } from './Control.Layers';
@@ -162,9 +162,10 @@ export const canvas = (function () {
 
 // @property svg: Boolean
 // `true` when the browser supports [SVG](https://developer.mozilla.org/docs/Web/SVG).
-// export const svg = !!(
-//   document.createElementNS && svgCreate('svg').createSVGRect
-// );
+export const svg = !!(
+  document.createElementNS &&
+  document.createElementNS('http://www.w3.org/2000/svg', 'svg').createSVGRect
+);
 
 // @property vml: Boolean
 // `true` if the browser supports [VML](https://en.wikipedia.org/wiki/Vector_Markup_Language).
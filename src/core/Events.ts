@@ -1,12 +1,17 @@
 import { extend, falseFn, splitWords, stamp } from './Util';
 
-type Listener = (event: Record<string, unknown>) => void;
-type Event = {
+export type LeafletEvent = {
   type: string;
   target: Evented;
   sourceTarget: Evented;
 } & Record<string, unknown>;
 
+// declared through a method signature so that listeners may narrow the
+// event type they receive (method parameters are checked bivariantly)
+export type Listener = {
+  bivarianceHack(event: LeafletEvent): void;
+}['bivarianceHack'];
+
 export class Evented {
   private _events: Record<
     string,
@@ -21,9 +26,11 @@ export class Evented {
    * @method on(eventMap: Object): this
    * Adds a set of type/listener pairs, e.g. `{click: onClick, mousemove: onMouseMove}`
    */
+  public on(types: Record<string, Listener>, context?: unknown): this;
+  public on(types: string, fn: Listener, context?: unknown): this;
   public on(
     types: string | Record<string, Listener>,
-    fn: Listener,
+    fn?: unknown,
     context?: unknown,
   ): this {
     // types can be a map of types/handlers
@@ -38,7 +45,7 @@ export class Evented {
       const typeList = splitWords(types);
 
       for (let i = 0, len = typeList.length; i < len; i++) {
-        this._on(typeList[i], fn, context);
+        this._on(typeList[i], fn as Listener, context);
       }
     }
 
@@ -56,9 +63,11 @@ export class Evented {
    * @method off: this
    * Removes all listeners to all events on the object. This includes implicitly attached events.
    */
+  public off(types?: Record<string, Listener>, context?: unknown): this;
+  public off(types: string, fn?: Listener, context?: unknown): this;
   public off(
-    types: string | Record<string, Listener>,
-    fn: Listener,
+    types?: string | Record<string, Listener>,
+    fn?: unknown,
     context?: unknown,
   ): this {
     if (!types) {
@@ -72,7 +81,7 @@ export class Evented {
       const typeList = splitWords(types);
 
       for (let i = 0, len = typeList.length; i < len; i++) {
-        this._off(typeList[i], fn, context);
+        this._off(typeList[i], fn as Listener | undefined, context);
       }
     }
 
@@ -92,11 +101,11 @@ export class Evented {
       return this;
     }
 
-    const event: Event = extend({}, data || {}, {
+    const event: LeafletEvent = extend({}, data || {}, {
       type: type,
       target: this,
       sourceTarget: (data && data.sourceTarget) || this,
-    }) as Event;
+    }) as LeafletEvent;
 
     if (this._events) {
       const listeners = this._events[type];
@@ -112,8 +121,13 @@ export class Evented {
       }
     }
 
-    if (propagate) {
-      // propagate the event to parents (set with addEventParent)
+    const originalEvent = event.originalEvent as
+      | { _stopped?: boolean }
+      | undefined;
+
+    // propagate the event to parents (set with addEventParent), unless a
+    // listener stopped it with `DomEvent.stopPropagation`
+    if (propagate && !(originalEvent && originalEvent._stopped)) {
       this._propagateEvent(event);
     }
 
@@ -141,9 +155,11 @@ export class Evented {
 
   // @method once(…): this
   // Behaves as [`on(…)`](#evented-on), except the listener will only get fired once and then removed.
+  public once(types: Record<string, Listener>, context?: unknown): this;
+  public once(types: string, fn: Listener, context?: unknown): this;
   public once(
     types: string | Record<string, Listener>,
-    fn: Listener,
+    fn?: unknown,
     context?: unknown,
   ): this {
     if (typeof types === 'object') {
@@ -153,12 +169,13 @@ export class Evented {
       return this;
     }
 
+    const listener = fn as Listener;
     const handler = () => {
-      this.off(types, fn, context).off(types, handler, context);
+      this.off(types, listener, context).off(types, handler, context);
     };
 
     // add a listener that's executed once and removed after that
-    return this.on(types, fn, context).on(types, handler, context);
+    return this.on(types, listener, context).on(types, handler, context);
   }
 
   // attach listener (without syntactic sugar now)
@@ -206,7 +223,7 @@ export class Evented {
     return this;
   }
 
-  private _off(type: string, fn: Listener, context?: unknown): void {
+  private _off(type: string, fn?: Listener, context?: unknown): void {
     let listeners, i, len;
 
     if (!this._events) {
@@ -256,7 +273,7 @@ export class Evented {
     }
   }
 
-  private _propagateEvent(e: Event) {
+  private _propagateEvent(e: LeafletEvent) {
     for (const id in this._eventParents) {
       this._eventParents[id].fire(
         e.type,
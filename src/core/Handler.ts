@@ -0,0 +1,71 @@
+import { Map } from '@/map/Map';
+
+/*
+ * @class Handler
+ * @aka L.Handler
+ * Abstract class for map interaction handlers
+ */
+
+// constructor of a handler, as accepted by `Map.addHandler`
+export type HandlerClass = new (map: Map) => Handler;
+
+export abstract class Handler {
+  protected _map: Map;
+  private _enabled = false;
+
+  constructor(map: Map) {
+    this._map = map;
+  }
+
+  // @method enable(): this
+  // Enables the handler
+  public enable(): this {
+    if (this._enabled) {
+      return this;
+    }
+
+    this._enabled = true;
+    this.addHooks();
+    return this;
+  }
+
+  // @method disable(): this
+  // Disables the handler
+  public disable(): this {
+    if (!this._enabled) {
+      return this;
+    }
+
+    this._enabled = false;
+    this.removeHooks();
+    return this;
+  }
+
+  // @method enabled(): Boolean
+  // Returns `true` if the handler is enabled
+  public enabled(): boolean {
+    return !!this._enabled;
+  }
+
+  // @section Extension methods
+  // Classes inheriting from `Handler` must implement the two following methods:
+  // @method addHooks()
+  // Called when the handler is enabled, should add event hooks.
+  protected abstract addHooks(): void;
+
+  // @method removeHooks()
+  // Called when the handler is disabled, should remove the event hooks added previously.
+  protected abstract removeHooks(): void;
+
+  // @section There is static function which can be called without instantiating L.Handler:
+  // @function addTo(map: Map, name: String): this
+  // Adds a new Handler to the given map with the given name.
+  public static addTo(
+    this: HandlerClass,
+    map: Map,
+    name: string,
+  ): HandlerClass {
+    map.addHandler(name, this);
+    return this;
+  }
+}
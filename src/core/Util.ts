@@ -62,6 +62,103 @@ export function extend(
   }
   return dest;
 }
+// @function setOptions(obj: Object, options: Object): Object
+// Merges the given properties to the `options` of the `obj` object, returning the resulting options. See `Class options`. Has an `L.setOptions` shortcut.
+export function setOptions<T>(obj: { options: T }, options?: Partial<T>): T {
+  obj.options = { ...obj.options, ...options };
+  return obj.options;
+}
+
+// @function throttle(fn: Function, time: Number, context: Object): Function
+// Returns a function which executes function `fn` with the given scope `context`
+// (so that the `this` keyword refers to `context` inside `fn`'s code). The function
+// `fn` will be called no more than one time per given amount of `time`. The arguments
+// received by the bound function will be any arguments passed when binding the
+// function, followed by any arguments passed when invoking the bound function.
+// Has an `L.throttle` shortcut.
+export function throttle<A extends unknown[]>(
+  fn: (...args: A) => void,
+  time: number,
+  context?: unknown,
+): (...args: A) => void {
+  let lock = false;
+  let args: A | null = null;
+
+  const later = () => {
+    // reset lock and call if queued
+    lock = false;
+    if (args) {
+      wrapperFn(...args);
+      args = null;
+    }
+  };
+
+  const wrapperFn = (...wrapperArgs: A) => {
+    if (lock) {
+      // called too soon, queue to call later
+      args = wrapperArgs;
+    } else {
+      // call and lock until later
+      fn.apply(context, wrapperArgs);
+      setTimeout(later, time);
+      lock = true;
+    }
+  };
+
+  return wrapperFn;
+}
+
+const templateRe = /\{ *([\w_-]+) *\}/g;
+
+// @function template(str: String, data: Object): String
+// Simple templating facility, accepts a template string of the form `'Hello {a}, {b}'`
+// and a data object like `{a: 'foo', b: 'bar'}`, returns evaluated string
+// `('Hello foo, bar')`. You can also specify functions instead of strings for
+// data values — they will be evaluated passing `data` as an argument.
+export function template(str: string, data: Record<string, unknown>): string {
+  return str.replace(templateRe, function (match: string, key: string) {
+    let value = data[key];
+
+    if (value === undefined) {
+      throw new Error('No value provided for variable ' + match);
+    } else if (typeof value === 'function') {
+      value = value(data);
+    }
+    return String(value);
+  });
+}
+
+// @function getParamString(obj: Object, existingUrl?: String, uppercase?: Boolean): String
+// Converts an object into a parameter URL string, e.g. `{a: "foo", b: "bar"}`
+// translates to `'?a=foo&b=bar'`. If `existingUrl` is set, the parameters will
+// be appended at the end. If `uppercase` is `true`, the parameter names will
+// be uppercased (e.g. `'?A=foo&B=bar'`)
+export function getParamString(
+  obj: Record<string, unknown>,
+  existingUrl?: string,
+  uppercase?: boolean,
+): string {
+  const params = [];
+  for (const i in obj) {
+    params.push(
+      encodeURIComponent(uppercase ? i.toUpperCase() : i) +
+        '=' +
+        encodeURIComponent(String(obj[i])),
+    );
+  }
+  return (
+    (!existingUrl || existingUrl.indexOf('?') === -1 ? '?' : '&') +
+    params.join('&')
+  );
+}
+
+// @property emptyImageUrl: String
+// Data URI string containing a base64-encoded empty GIF image.
+// Used as a hack to free memory from unused images on WebKit-powered
+// mobile devices (by setting image `src` to this string).
+export const emptyImageUrl =
+  'data:image/gif;base64,R0lGODlhAQABAAD/ACwAAAAAAQABAAACADs=';
+
 // @property lastId: Number
 // Last unique ID used by [`stamp()`](#util-stamp
 export let lastId = 0;
@@ -74,3 +171,80 @@ export function stamp(obj: any): number {
   return obj._leaflet_id;
   /* eslint-enable */
 }
+
+// @function bind(fn: Function, …): Function
+// Returns a new function bound to the arguments passed, like [Function.prototype.bind](https://developer.mozilla.org/docs/Web/JavaScript/Reference/Global_Objects/Function/bind).
+// Has a `L.bind()` shortcut.
+export function bind<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  obj: unknown,
+  ...args: unknown[]
+): (...args: A) => R {
+  return (fn as (...args: unknown[]) => R).bind(obj, ...args);
+}
+
+// @section Util
+// @function requestAnimFrame(fn: Function, context?: Object, immediate?: Boolean): Number
+// Schedules `fn` to be executed when the browser repaints. `fn` is bound to
+// `context` if given. When `immediate` is set, `fn` is called immediately if
+// the browser doesn't have native support for
+// [`window.requestAnimationFrame`](https://developer.mozilla.org/docs/Web/API/window/requestAnimationFrame),
+// otherwise it's delayed. Returns a request ID that can be used to cancel the request.
+
+type FrameRequest = (callback: FrameRequestCallback) => number;
+
+function getPrefixed<T>(name: string): T | undefined {
+  const w = (window as unknown) as Window & Record<string, unknown>;
+  return (w['webkit' + name] || w['moz' + name] || w['ms' + name]) as
+    | T
+    | undefined;
+}
+
+let lastTime = 0;
+
+// fallback for IE 7-8
+function timeoutDefer(fn: FrameRequestCallback): number {
+  const time = +new Date();
+  const timeToCall = Math.max(0, 16 - (time - lastTime));
+
+  lastTime = time + timeToCall;
+  return setTimeout(fn, timeToCall);
+}
+
+// `window` is missing outside of browsers, e.g. when using the geo and format
+// modules in Node, so the timeout fallback is used there
+const hasWindow = typeof window !== 'undefined';
+
+export const requestFn: FrameRequest =
+  (hasWindow &&
+    (window.requestAnimationFrame ||
+      getPrefixed<FrameRequest>('RequestAnimationFrame'))) ||
+  timeoutDefer;
+export const cancelFn: (id: number) => void =
+  (hasWindow &&
+    (window.cancelAnimationFrame ||
+      getPrefixed<(id: number) => void>('CancelAnimationFrame') ||
+      getPrefixed<(id: number) => void>('CancelRequestAnimationFrame'))) ||
+  function (id: number) {
+    clearTimeout(id);
+  };
+
+export function requestAnimFrame(
+  fn: (timestamp?: number) => void,
+  context?: unknown,
+  immediate?: boolean,
+): number | undefined {
+  if (immediate && requestFn === timeoutDefer) {
+    fn.call(context);
+    return undefined;
+  }
+  return requestFn.call(hasWindow ? window : undefined, bind(fn, context));
+}
+
+// @function cancelAnimFrame(id: Number): undefined
+// Cancels a previous `requestAnimFrame`. See also [window.cancelAnimationFrame](https://developer.mozilla.org/docs/Web/API/window/cancelAnimationFrame).
+export function cancelAnimFrame(id?: number): void {
+  if (id) {
+    cancelFn.call(hasWindow ? window : undefined, id);
+  }
+}
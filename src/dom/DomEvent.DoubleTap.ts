@@ -0,0 +1,133 @@
+import * as Browser from '@/core/Browser';
+import { DomEventHandler } from './DomEvent';
+
+/*
+ * Extends the event handling code with double tap support for mobile browsers.
+ */
+
+const TOUCHSTART = Browser.msPointer
+  ? 'MSPointerDown'
+  : Browser.pointer
+  ? 'pointerdown'
+  : 'touchstart';
+const TOUCHEND = Browser.msPointer
+  ? 'MSPointerUp'
+  : Browser.pointer
+  ? 'pointerup'
+  : 'touchend';
+const PRE = '_leaflet_';
+
+// element with the double tap listeners stored under `'_leaflet_' + type + id`
+type ListenerStore = Record<string, EventListener>;
+
+// touch (or pointer) event turned into the synthesized `dblclick`
+type TapEvent = Record<string, unknown> & {
+  type: string;
+  button: number;
+  cancelBubble: boolean;
+};
+
+// inspired by Zepto touch code by Thomas Fuchs
+export function addDoubleTapListener(
+  obj: HTMLElement,
+  handler: DomEventHandler,
+  id: string,
+): void {
+  let last: number | null = null;
+  let touch: TapEvent;
+  let doubleTap = false;
+  const delay = 250;
+
+  function onTouchStart(e: Event) {
+    if (Browser.pointer) {
+      const pointerEvent = e as PointerEvent;
+      if (!pointerEvent.isPrimary) {
+        return;
+      }
+      if (pointerEvent.pointerType === 'mouse') {
+        return;
+      } // mouse fires native dblclick
+    } else if ((e as TouchEvent).touches.length > 1) {
+      return;
+    }
+
+    const now = Date.now();
+    const delta = now - (last || now);
+
+    touch = (((e as TouchEvent).touches
+      ? (e as TouchEvent).touches[0]
+      : e) as unknown) as TapEvent;
+    doubleTap = delta > 0 && delta <= delay;
+    last = now;
+  }
+
+  function onTouchEnd(e: Event) {
+    if (doubleTap && !touch.cancelBubble) {
+      if (Browser.pointer) {
+        if ((e as PointerEvent).pointerType === 'mouse') {
+          return;
+        }
+        // work around .type being readonly with MSPointer* events
+        const newTouch: Record<string, unknown> = {};
+
+        for (const i in touch) {
+          const prop = touch[i];
+          newTouch[i] =
+            prop && (prop as () => void).bind
+              ? (prop as () => void).bind(touch)
+              : prop;
+        }
+        touch = newTouch as TapEvent;
+      }
+      touch.type = 'dblclick';
+      touch.button = 0;
+      handler((touch as unknown) as Event);
+      last = null;
+    }
+  }
+
+  const store = (obj as unknown) as ListenerStore;
+  store[PRE + TOUCHSTART + id] = onTouchStart;
+  store[PRE + TOUCHEND + id] = onTouchEnd;
+  store[PRE + 'dblclick' + id] = handler;
+
+  obj.addEventListener(
+    TOUCHSTART,
+    onTouchStart,
+    Browser.passiveEvents ? { passive: false } : false,
+  );
+  obj.addEventListener(
+    TOUCHEND,
+    onTouchEnd,
+    Browser.passiveEvents ? { passive: false } : false,
+  );
+
+  // On some platforms (notably, chrome<55 on win10 + touchscreen + mouse),
+  // the browser doesn't fire touchend/pointerup events but does fire
+  // native dblclicks. See #4127.
+  // Edge 14 also fires native dblclicks, but only for pointerType mouse, see #5180.
+  obj.addEventListener('dblclick', handler, false);
+}
+
+export function removeDoubleTapListener(obj: HTMLElement, id: string): void {
+  const store = (obj as unknown) as ListenerStore;
+  const touchstart = store[PRE + TOUCHSTART + id];
+  const touchend = store[PRE + TOUCHEND + id];
+  const dblclick = store[PRE + 'dblclick' + id];
+
+  obj.removeEventListener(
+    TOUCHSTART,
+    touchstart,
+    Browser.passiveEvents
+      ? ({ passive: false } as EventListenerOptions)
+      : false,
+  );
+  obj.removeEventListener(
+    TOUCHEND,
+    touchend,
+    Browser.passiveEvents
+      ? ({ passive: false } as EventListenerOptions)
+      : false,
+  );
+  obj.removeEventListener('dblclick', dblclick, false);
+}
@@ -0,0 +1,159 @@
+import * as Browser from '@/core/Browser';
+import { DomEventHandler } from './DomEvent';
+
+/*
+ * Extends L.DomEvent to provide touch support for Internet Explorer and Windows-based devices.
+ */
+
+const POINTER_DOWN = Browser.msPointer ? 'MSPointerDown' : 'pointerdown';
+const POINTER_MOVE = Browser.msPointer ? 'MSPointerMove' : 'pointermove';
+const POINTER_UP = Browser.msPointer ? 'MSPointerUp' : 'pointerup';
+const POINTER_CANCEL = Browser.msPointer ? 'MSPointerCancel' : 'pointercancel';
+
+// pointer event carrying the emulated `touches`/`changedTouches` lists
+type TouchLikePointerEvent = PointerEvent & {
+  touches: PointerEvent[];
+  changedTouches: PointerEvent[];
+  MSPOINTER_TYPE_TOUCH?: string;
+  MSPOINTER_TYPE_MOUSE?: string;
+};
+
+// element with the pointer listeners stored under `'_leaflet_' + type + id`
+type ListenerStore = Record<string, EventListener>;
+
+const pointers: Record<number, PointerEvent> = {};
+let pointerDocListener = false;
+
+// Provides a touch events wrapper for (ms)pointer events.
+// ref http://www.w3.org/TR/pointerevents/ https://www.w3.org/Bugs/Public/show_bug.cgi?id=22890
+
+export function addPointerListener(
+  obj: HTMLElement,
+  type: string,
+  handler: DomEventHandler,
+  id: string,
+): void {
+  if (type === 'touchstart') {
+    addPointerStart(obj, handler, id);
+  } else if (type === 'touchmove') {
+    addPointerMove(obj, handler, id);
+  } else if (type === 'touchend') {
+    addPointerEnd(obj, handler, id);
+  }
+}
+
+export function removePointerListener(
+  obj: HTMLElement,
+  type: string,
+  id: string,
+): void {
+  const handler = ((obj as unknown) as ListenerStore)['_leaflet_' + type + id];
+
+  if (type === 'touchstart') {
+    obj.removeEventListener(POINTER_DOWN, handler, false);
+  } else if (type === 'touchmove') {
+    obj.removeEventListener(POINTER_MOVE, handler, false);
+  } else if (type === 'touchend') {
+    obj.removeEventListener(POINTER_UP, handler, false);
+    obj.removeEventListener(POINTER_CANCEL, handler, false);
+  }
+}
+
+function addPointerStart(
+  obj: HTMLElement,
+  handler: DomEventHandler,
+  id: string,
+): void {
+  const onDown = (e: Event) => {
+    const pointerEvent = e as TouchLikePointerEvent;
+    // IE10 specific: MsTouch needs preventDefault. See #2000
+    if (
+      pointerEvent.MSPOINTER_TYPE_TOUCH &&
+      pointerEvent.pointerType === pointerEvent.MSPOINTER_TYPE_TOUCH
+    ) {
+      e.preventDefault();
+    }
+
+    handlePointer(pointerEvent, handler);
+  };
+
+  ((obj as unknown) as ListenerStore)['_leaflet_touchstart' + id] = onDown;
+  obj.addEventListener(POINTER_DOWN, onDown, false);
+
+  // need to keep track of what pointers and how many are active to provide e.touches emulation
+  if (!pointerDocListener) {
+    // we listen document as any drags that end by moving the touch off the screen get fired there
+    document.addEventListener(POINTER_DOWN, globalPointerDown, true);
+    document.addEventListener(POINTER_MOVE, globalPointerMove, true);
+    document.addEventListener(POINTER_UP, globalPointerUp, true);
+    document.addEventListener(POINTER_CANCEL, globalPointerUp, true);
+
+    pointerDocListener = true;
+  }
+}
+
+function globalPointerDown(e: Event): void {
+  const pointerEvent = e as PointerEvent;
+  pointers[pointerEvent.pointerId] = pointerEvent;
+}
+
+function globalPointerMove(e: Event): void {
+  const pointerEvent = e as PointerEvent;
+  if (pointers[pointerEvent.pointerId]) {
+    pointers[pointerEvent.pointerId] = pointerEvent;
+  }
+}
+
+function globalPointerUp(e: Event): void {
+  delete pointers[(e as PointerEvent).pointerId];
+}
+
+function handlePointer(
+  e: TouchLikePointerEvent,
+  handler: DomEventHandler,
+): void {
+  e.touches = [];
+  for (const i in pointers) {
+    e.touches.push(pointers[i]);
+  }
+  e.changedTouches = [e];
+
+  handler(e);
+}
+
+function addPointerMove(
+  obj: HTMLElement,
+  handler: DomEventHandler,
+  id: string,
+): void {
+  const onMove = (e: Event) => {
+    const pointerEvent = e as TouchLikePointerEvent;
+    // don't fire touch moves when mouse isn't down
+    if (
+      pointerEvent.pointerType ===
+        (pointerEvent.MSPOINTER_TYPE_MOUSE || 'mouse') &&
+      pointerEvent.buttons === 0
+    ) {
+      return;
+    }
+
+    handlePointer(pointerEvent, handler);
+  };
+
+  ((obj as unknown) as ListenerStore)['_leaflet_touchmove' + id] = onMove;
+  obj.addEventListener(POINTER_MOVE, onMove, false);
+}
+
+function addPointerEnd(
+  obj: HTMLElement,
+  handler: DomEventHandler,
+  id: string,
+): void {
+  const onUp = (e: Event) => {
+    handlePointer(e as TouchLikePointerEvent, handler);
+  };
+
+  ((obj as unknown) as ListenerStore)['_leaflet_touchend' + id] = onUp;
+  obj.addEventListener(POINTER_UP, onUp, false);
+  obj.addEventListener(POINTER_CANCEL, onUp, false);
+}
@@ -0,0 +1,414 @@
+import * as Browser from '@/core/Browser';
+import { LeafletEvent } from '@/core/Events';
+import { splitWords, stamp } from '@/core/Util';
+import { Point } from '@/geometry/Point';
+import {
+  addDoubleTapListener,
+  removeDoubleTapListener,
+} from './DomEvent.DoubleTap';
+import { addPointerListener, removePointerListener } from './DomEvent.Pointer';
+import { getScale } from './DomUtil';
+
+/*
+ * @namespace DomEvent
+ * Utility functions to work with the [DOM events](https://developer.mozilla.org/docs/Web/API/Event), used by Leaflet internally.
+ */
+
+// declared through a method signature so that handlers may narrow the
+// event type they receive (method parameters are checked bivariantly)
+export type DomEventHandler = {
+  bivarianceHack(event: Event): void;
+}['bivarianceHack'];
+
+// DOM element (or window/document) carrying the handlers registered through `on`
+type HandlerTarget = EventTarget & {
+  _leaflet_events?: Record<string, DomEventHandler | null>;
+};
+
+// Leaflet events wrapping a DOM event (e.g. a layer `click`) or the DOM event itself
+type StoppableEvent = Event | LeafletEvent;
+
+// Inspired by John Resig, Dean Edwards and YUI addEvent implementations.
+
+// @function on(el: HTMLElement, types: String, fn: Function, context?: Object)
+// Adds a listener function (`fn`) to a particular DOM event type of the
+// element `el`. You can optionally specify the context of the listener
+// (object the `this` keyword will point to). You can also pass several
+// space-separated types (e.g. `'click dblclick'`).
+
+// @alternative
+// @function on(el: HTMLElement, eventMap: Object, context?: Object)
+// Adds a set of type/listener pairs, e.g. `{click: onClick, mousemove: onMouseMove}`
+export function on(
+  obj: EventTarget,
+  types: Record<string, DomEventHandler>,
+  context?: unknown,
+): void;
+export function on(
+  obj: EventTarget,
+  types: string,
+  fn: DomEventHandler,
+  context?: unknown,
+): void;
+export function on(
+  obj: EventTarget,
+  types: string | Record<string, DomEventHandler>,
+  fn?: unknown,
+  context?: unknown,
+): void {
+  if (typeof types === 'object') {
+    for (const type in types) {
+      addOne(obj, type, types[type], fn);
+    }
+  } else {
+    const typeList = splitWords(types);
+
+    for (let i = 0, len = typeList.length; i < len; i++) {
+      addOne(obj, typeList[i], fn as DomEventHandler, context);
+    }
+  }
+}
+
+const eventsKey = '_leaflet_events';
+
+// @function off(el: HTMLElement, types: String, fn: Function, context?: Object)
+// Removes a previously added listener function.
+// Note that if you passed a custom context to on, you must pass the same
+// context to `off` in order to remove the listener.
+
+// @alternative
+// @function off(el: HTMLElement, eventMap: Object, context?: Object)
+// Removes a set of type/listener pairs, e.g. `{click: onClick, mousemove: onMouseMove}`
+
+// @alternative
+// @function off(el: HTMLElement)
+// Removes all known event listeners
+export function off(
+  obj: EventTarget,
+  types?: Record<string, DomEventHandler>,
+  context?: unknown,
+): void;
+export function off(
+  obj: EventTarget,
+  types: string,
+  fn: DomEventHandler,
+  context?: unknown,
+): void;
+export function off(
+  obj: EventTarget,
+  types?: string | Record<string, DomEventHandler>,
+  fn?: unknown,
+  context?: unknown,
+): void {
+  const target = obj as HandlerTarget;
+
+  if (typeof types === 'object') {
+    for (const type in types) {
+      removeOne(target, type, types[type], fn);
+    }
+  } else if (types) {
+    const typeList = splitWords(types);
+
+    for (let i = 0, len = typeList.length; i < len; i++) {
+      removeOne(target, typeList[i], fn as DomEventHandler, context);
+    }
+  } else {
+    const handlers = target[eventsKey] || {};
+    for (const id in handlers) {
+      const handler = handlers[id];
+      if (handler) {
+        removeHandler(target, id.replace(/\d.*$/, ''), handler, id);
+      }
+    }
+    delete target[eventsKey];
+  }
+}
+
+function browserFiresNativeDblClick(): boolean {
+  // See https://github.com/w3c/pointerevents/issues/171
+  if (Browser.pointer) {
+    return !(Browser.edge || Browser.safari);
+  }
+  return false;
+}
+
+const mouseSubst: Record<string, string | false> = {
+  mouseenter: 'mouseover',
+  mouseleave: 'mouseout',
+  wheel: !('onwheel' in window) && 'mousewheel',
+};
+
+function handlerId(type: string, fn: DomEventHandler, context?: unknown) {
+  return type + stamp(fn) + (context ? '_' + stamp(context) : '');
+}
+
+function addOne(
+  obj: HandlerTarget,
+  type: string,
+  fn: DomEventHandler,
+  context?: unknown,
+): void {
+  const id = handlerId(type, fn, context);
+  const handlers = obj[eventsKey] || {};
+
+  if (handlers[id]) {
+    return;
+  }
+
+  const handler: DomEventHandler = (e: Event) =>
+    fn.call(context || obj, e || window.event);
+
+  if (Browser.pointer && type.indexOf('touch') === 0) {
+    // touch events are emulated through pointer events
+    addPointerListener(obj as HTMLElement, type, handler, id);
+    handlers[id] = handler;
+  } else if (
+    Browser.touch &&
+    type === 'dblclick' &&
+    !browserFiresNativeDblClick()
+  ) {
+    addDoubleTapListener(obj as HTMLElement, handler, id);
+    handlers[id] = handler;
+  } else {
+    handlers[id] = addNativeListener(obj, type, handler);
+  }
+
+  obj[eventsKey] = handlers;
+}
+
+// registers the handler as a plain DOM listener and returns the registered function
+function addNativeListener(
+  obj: HandlerTarget,
+  type: string,
+  handler: DomEventHandler,
+): DomEventHandler {
+  if (
+    type === 'touchstart' ||
+    type === 'touchmove' ||
+    type === 'wheel' ||
+    type === 'mousewheel'
+  ) {
+    obj.addEventListener(
+      mouseSubst[type] || type,
+      handler,
+      Browser.passiveEvents ? { passive: false } : false,
+    );
+  } else if (type === 'mouseenter' || type === 'mouseleave') {
+    const originalHandler = handler;
+    handler = (e: Event) => {
+      e = e || window.event;
+      if (isExternalTarget(obj as HTMLElement, e as MouseEvent)) {
+        originalHandler(e);
+      }
+    };
+    obj.addEventListener(mouseSubst[type] as string, handler, false);
+  } else {
+    obj.addEventListener(type, handler, false);
+  }
+  return handler;
+}
+
+function removeOne(
+  obj: HandlerTarget,
+  type: string,
+  fn: DomEventHandler,
+  context?: unknown,
+): void {
+  const id = handlerId(type, fn, context);
+  const handlers = obj[eventsKey];
+  const handler = handlers && handlers[id];
+
+  if (!handlers || !handler) {
+    return;
+  }
+
+  removeHandler(obj, type, handler, id);
+  handlers[id] = null;
+}
+
+function removeHandler(
+  obj: HandlerTarget,
+  type: string,
+  handler: DomEventHandler,
+  id: string,
+): void {
+  if (Browser.pointer && type.indexOf('touch') === 0) {
+    removePointerListener(obj as HTMLElement, type, id);
+  } else if (
+    Browser.touch &&
+    type === 'dblclick' &&
+    !browserFiresNativeDblClick()
+  ) {
+    removeDoubleTapListener(obj as HTMLElement, id);
+  } else {
+    obj.removeEventListener(mouseSubst[type] || type, handler, false);
+  }
+}
+
+// @function stopPropagation(ev: DOMEvent)
+// Stop the given event from propagation to parent elements. Used inside the listener functions:
+// ```js
+// L.DomEvent.on(div, 'click', function (ev) {
+// 	L.DomEvent.stopPropagation(ev);
+// });
+// ```
+export function stopPropagation(e: StoppableEvent): void {
+  if (typeof (e as Event).stopPropagation === 'function') {
+    (e as Event).stopPropagation();
+  } else if ((e as LeafletEvent).originalEvent) {
+    // In case of Leaflet event.
+    ((e as LeafletEvent).originalEvent as Record<
+      string,
+      unknown
+    >)._stopped = true;
+  } else {
+    (e as Event).cancelBubble = true;
+  }
+  skipped(e as Event);
+}
+
+// @function disableScrollPropagation(el: HTMLElement)
+// Adds `stopPropagation` to the element's `'wheel'` events (plus browser variants).
+export function disableScrollPropagation(el: HTMLElement): void {
+  addOne(el, 'wheel', stopPropagation);
+}
+
+// @function disableClickPropagation(el: HTMLElement)
+// Adds `stopPropagation` to the element's `'click'`, `'doubleclick'`,
+// `'mousedown'` and `'touchstart'` events (plus browser variants).
+export function disableClickPropagation(el: HTMLElement): void {
+  on(el, 'mousedown touchstart dblclick', stopPropagation);
+  addOne(el, 'click', fakeStop);
+}
+
+// @function preventDefault(ev: DOMEvent)
+// Prevents the default action of the DOM Event `ev` from happening (such as
+// following a link in the href of the a element, or doing a POST request
+// with page reload when a `<form>` is submitted).
+// Use it inside listener functions.
+export function preventDefault(e: Event): void {
+  if (e.preventDefault) {
+    e.preventDefault();
+  } else {
+    e.returnValue = false;
+  }
+}
+
+// @function stop(ev: DOMEvent)
+// Does `stopPropagation` and `preventDefault` at the same time.
+export function stop(e: Event): void {
+  preventDefault(e);
+  stopPropagation(e);
+}
+
+// @function getMousePosition(ev: DOMEvent, container?: HTMLElement): Point
+// Gets normalized mouse position from a DOM event relative to the
+// `container` (border excluded) or to the whole page if not specified.
+export function getMousePosition(
+  e: MouseEvent | Touch,
+  container?: HTMLElement,
+): Point {
+  if (!container) {
+    return new Point(e.clientX, e.clientY);
+  }
+
+  const scale = getScale(container);
+  // left and top values are in page scale (like the event clientX/Y)
+  const offset = scale.boundingClientRect;
+
+  return new Point(
+    // offset.left/top values are in page scale (like clientX/Y),
+    // whereas clientLeft/Top (border width) values are the original values (before CSS scale applies).
+    (e.clientX - offset.left) / scale.x - container.clientLeft,
+    (e.clientY - offset.top) / scale.y - container.clientTop,
+  );
+}
+
+// Chrome on Win scrolls double the pixels as in other platforms (see #4538),
+// and Firefox scrolls device pixels, not CSS pixels
+const wheelPxFactor =
+  Browser.win && Browser.chrome
+    ? 2 * window.devicePixelRatio
+    : Browser.gecko
+    ? window.devicePixelRatio
+    : 1;
+
+// wheel events of old browsers that predate the `WheelEvent` standard
+type LegacyWheelEvent = WheelEvent & {
+  wheelDelta?: number;
+  wheelDeltaY?: number;
+};
+
+// @function getWheelDelta(ev: DOMEvent): Number
+// Gets normalized wheel delta from a wheel DOM event, in vertical
+// pixels scrolled (negative if scrolling down).
+// Events from pointing devices without precise scrolling are mapped to
+// a best guess of 60 pixels.
+export function getWheelDelta(e: LegacyWheelEvent): number {
+  if (Browser.edge) {
+    return (e.wheelDeltaY as number) / 2; // Don't trust window-geometry-based delta
+  }
+  if (e.deltaY) {
+    switch (e.deltaMode) {
+      case 0:
+        return -e.deltaY / wheelPxFactor; // Pixels
+      case 1:
+        return -e.deltaY * 20; // Lines
+      case 2:
+        return -e.deltaY * 60; // Pages
+    }
+  }
+  if (e.deltaX || e.deltaZ) {
+    return 0; // Skip horizontal/depth wheel events
+  }
+  if (e.wheelDelta) {
+    return (e.wheelDeltaY || e.wheelDelta) / 2; // Legacy IE pixels
+  }
+  if (e.detail && Math.abs(e.detail) < 32765) {
+    return -e.detail * 20; // Legacy Moz lines
+  }
+  if (e.detail) {
+    return (e.detail / -32765) * 60; // Legacy Moz pages
+  }
+  return 0;
+}
+
+const skipEvents: Record<string, boolean> = {};
+
+// marks the given event type so that the next map handler skips it
+export function fakeStop(e: Event): void {
+  skipEvents[e.type] = true;
+}
+
+export function skipped(e: Event): boolean {
+  const events = skipEvents[e.type];
+  // reset when checking, as it's only used in map container and propagates outside of the map
+  skipEvents[e.type] = false;
+  return !!events;
+}
+
+// check if element really left/entered the event target (for mouseenter/mouseleave)
+export function isExternalTarget(el: HTMLElement, e: MouseEvent): boolean {
+  let related = e.relatedTarget as Node | null;
+
+  if (!related) {
+    return true;
+  }
+
+  try {
+    while (related && related !== el) {
+      related = related.parentNode;
+    }
+  } catch (err) {
+    return false;
+  }
+  return related !== el;
+}
+
+// @function addListener(…)
+// Alias to [`L.DomEvent.on`](#domevent-on)
+export { on as addListener };
+
+// @function removeListener(…)
+// Alias to [`L.DomEvent.off`](#domevent-off)
+export { off as removeListener };
@@ -1,6 +1,7 @@
 import { any3d, ie3d } from '@/core/Browser';
 import { splitWords, trim } from '@/core/Util';
 import { Point } from '@/geometry/Point';
+import * as DomEvent from './DomEvent';
 
 /*
  * @namespace DomUtil
@@ -86,7 +87,7 @@ export function create(
 
 // @function remove(el: HTMLElement)
 // Removes `el` from its parent element
-export function remove(el: HTMLElement): void {
+export function remove(el: HTMLElement | SVGElement): void {
   const parent = el.parentNode;
   if (parent) {
     parent.removeChild(el);
@@ -103,7 +104,7 @@ export function empty(el: HTMLElement): void {
 
 // @function toFront(el: HTMLElement)
 // Makes `el` the last child of its parent, so it renders in front of the other children.
-export function toFront(el: HTMLElement): void {
+export function toFront(el: HTMLElement | SVGElement): void {
   const parent = el.parentNode;
   if (parent && parent.lastChild !== el) {
     parent.appendChild(el);
@@ -112,7 +113,7 @@ export function toFront(el: HTMLElement): void {
 
 // @function toBack(el: HTMLElement)
 // Makes `el` the first child of its parent, so it renders behind the other children.
-export function toBack(el: HTMLElement): void {
+export function toBack(el: HTMLElement | SVGElement): void {
   const parent = el.parentNode;
   if (parent && parent.firstChild !== el) {
     parent.insertBefore(el, parent.firstChild);
@@ -121,7 +122,7 @@ export function toBack(el: HTMLElement): void {
 
 // @function hasClass(el: HTMLElement, name: String): Boolean
 // Returns `true` if the element's class attribute contains `name`.
-export function hasClass(el: HTMLElement, name: string): boolean {
+export function hasClass(el: HTMLElement | SVGElement, name: string): boolean {
   if (el.classList !== undefined) {
     return el.classList.contains(name);
   }
@@ -134,7 +135,7 @@ export function hasClass(el: HTMLElement, name: string): boolean {
 
 // @function addClass(el: HTMLElement, name: String)
 // Adds `name` to the element's class attribute.
-export function addClass(el: HTMLElement, name: string): void {
+export function addClass(el: HTMLElement | SVGElement, name: string): void {
   if (el.classList !== undefined) {
     const classes = splitWords(name);
     for (let i = 0, len = classes.length; i < len; i++) {
@@ -148,7 +149,7 @@ export function addClass(el: HTMLElement, name: string): void {
 
 // @function removeClass(el: HTMLElement, name: String)
 // Removes `name` from the element's class attribute.
-export function removeClass(el: HTMLElement, name: string): void {
+export function removeClass(el: HTMLElement | SVGElement, name: string): void {
   if (el.classList !== undefined) {
     el.classList.remove(name);
   } else {
@@ -241,7 +242,7 @@ export function testProp(props: string[]): string | false {
 // and optionally scaled by `scale`. Does not have an effect if the
 // browser doesn't support 3D CSS transforms.
 export function setTransform(
-  el: HTMLElement,
+  el: HTMLElement | SVGElement,
   offset: Point,
   scale?: number,
 ): void {
@@ -261,7 +262,7 @@ export function setTransform(
 // Sets the position of `el` to coordinates specified by `position`,
 // using CSS translate or top/left positioning depending on the browser
 // (used by Leaflet internally to position its layers).
-export function setPosition(el: HTMLElement, point: Point): void {
+export function setPosition(el: HTMLElement | SVGElement, point: Point): void {
   /*eslint-disable */
   (el as any)._leaflet_pos = point;
   /* eslint-enable */
@@ -276,7 +277,7 @@ export function setPosition(el: HTMLElement, point: Point): void {
 
 // @function getPosition(el: HTMLElement): Point
 // Returns the coordinates of an element previously positioned with setPosition.
-export function getPosition(el: HTMLElement): Point {
+export function getPosition(el: HTMLElement | SVGElement): Point {
   // this method is only used for elements previously positioned using setPosition,
   // so it's safe to cache the position for performance
 
@@ -312,3 +313,100 @@ export function getScale(
     boundingClientRect: rect,
   };
 }
+
+// @function disableTextSelection()
+// Prevents the user from generating `selectstart` DOM events, usually generated
+// when the user drags the mouse through a page with text. Used internally
+// by Leaflet to override the behaviour of any click-and-drag interaction on
+// the map. Affects drag interactions on the whole document.
+
+// @function enableTextSelection()
+// Cancels the effects of a previous [`L.DomUtil.disableTextSelection`](#domutil-disabletextselection).
+export let disableTextSelection: () => void;
+export let enableTextSelection: () => void;
+let userSelect: string | undefined;
+
+if ('onselectstart' in document) {
+  disableTextSelection = function () {
+    DomEvent.on(window, 'selectstart', DomEvent.preventDefault);
+  };
+  enableTextSelection = function () {
+    DomEvent.off(window, 'selectstart', DomEvent.preventDefault);
+  };
+} else {
+  const userSelectProperty = testProp([
+    'userSelect',
+    'WebkitUserSelect',
+    'OUserSelect',
+    'MozUserSelect',
+    'msUserSelect',
+  ]) as CSSStyleKeys | false;
+
+  disableTextSelection = function () {
+    if (userSelectProperty) {
+      const style = document.documentElement.style as Record<
+        CSSStyleKeys,
+        unknown
+      >;
+      userSelect = style[userSelectProperty] as string;
+      style[userSelectProperty] = 'none';
+    }
+  };
+  enableTextSelection = function () {
+    if (userSelectProperty) {
+      const style = document.documentElement.style as Record<
+        CSSStyleKeys,
+        unknown
+      >;
+      style[userSelectProperty] = userSelect;
+      userSelect = undefined;
+    }
+  };
+}
+
+// @function disableImageDrag()
+// As [`L.DomUtil.disableTextSelection`](#domutil-disabletextselection), but
+// for `dragstart` DOM events, usually generated when the user drags an image.
+export function disableImageDrag(): void {
+  DomEvent.on(window, 'dragstart', DomEvent.preventDefault);
+}
+
+// @function enableImageDrag()
+// Cancels the effects of a previous [`L.DomUtil.disableImageDrag`](#domutil-disabletextselection).
+export function enableImageDrag(): void {
+  DomEvent.off(window, 'dragstart', DomEvent.preventDefault);
+}
+
+let outlineElement: HTMLElement | undefined;
+let outlineStyle: string | undefined;
+
+// @function preventOutline(el: HTMLElement)
+// Makes the [outline](https://developer.mozilla.org/docs/Web/CSS/outline)
+// of the element `el` invisible. Used internally by Leaflet to prevent
+// focusable elements from displaying an outline when the user performs a
+// drag interaction on them.
+export function preventOutline(element: HTMLElement): void {
+  while (element.tabIndex === -1) {
+    element = element.parentNode as HTMLElement;
+  }
+  if (!element.style) {
+    return;
+  }
+  restoreOutline();
+  outlineElement = element;
+  outlineStyle = element.style.outline;
+  element.style.outline = 'none';
+  DomEvent.on(window, 'keydown', restoreOutline);
+}
+
+// @function restoreOutline()
+// Cancels the effects of a previous [`L.DomUtil.preventOutline`]().
+export function restoreOutline(): void {
+  if (!outlineElement) {
+    return;
+  }
+  outlineElement.style.outline = outlineStyle as string;
+  outlineElement = undefined;
+  outlineStyle = undefined;
+  DomEvent.off(window, 'keydown', restoreOutline);
+}
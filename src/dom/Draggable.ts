@@ -0,0 +1,299 @@
+import * as Browser from '@/core/Browser';
+import { Evented } from '@/core/Events';
+import { cancelAnimFrame, requestAnimFrame, setOptions } from '@/core/Util';
+import { Point } from '@/geometry/Point';
+import * as DomEvent from './DomEvent';
+import * as DomUtil from './DomUtil';
+
+/*
+ * @class Draggable
+ * @aka L.Draggable
+ * @inherits Evented
+ *
+ * A class for making DOM elements draggable (including touch support).
+ * Used internally for map and marker dragging. Only works for elements
+ * that were positioned with [`L.DomUtil.setPosition`](#domutil-setposition).
+ *
+ * @example
+ * ```js
+ * var draggable = new L.Draggable(elementToDrag);
+ * draggable.enable();
+ * ```
+ */
+
+export interface DraggableOptions {
+  clickTolerance: number;
+}
+
+// mouse or touch event starting, continuing or ending a drag
+type DragEvent = (MouseEvent | TouchEvent) & { _simulated?: boolean };
+
+const START = Browser.touch ? 'touchstart mousedown' : 'mousedown';
+const END: Record<string, string> = {
+  mousedown: 'mouseup',
+  touchstart: 'touchend',
+  pointerdown: 'touchend',
+  MSPointerDown: 'touchend',
+};
+const MOVE: Record<string, string> = {
+  mousedown: 'mousemove',
+  touchstart: 'touchmove',
+  pointerdown: 'touchmove',
+  MSPointerDown: 'touchmove',
+};
+
+export class Draggable extends Evented {
+  // the draggable being dragged, only one object can be dragged at once
+  public static _dragging: Draggable | false = false;
+
+  public options: DraggableOptions = {
+    // @section
+    // @aka Draggable options
+    // @option clickTolerance: Number = 3
+    // The max number of pixels a user can shift the mouse pointer during a click
+    // for it to be considered a valid click (as opposed to a mouse drag).
+    clickTolerance: 3,
+  };
+
+  public _moved = false;
+  public _moving = false;
+  public _startPos!: Point;
+  public _newPos!: Point;
+  public _absPos?: Point;
+  private _element: HTMLElement;
+  private _dragStartTarget: HTMLElement;
+  private _preventOutline?: boolean;
+  private _enabled = false;
+  private _startPoint!: Point;
+  private _parentScale!: { x: number; y: number };
+  private _lastTarget?: HTMLElement;
+  private _lastEvent?: Event;
+  private _animRequest?: number;
+
+  // @constructor L.Draggable(el: HTMLElement, dragHandle?: HTMLElement, preventOutline?: Boolean, options?: Draggable options)
+  // Creates a `Draggable` object for moving `el` when you start dragging the `dragHandle` element (equals `el` itself by default).
+  constructor(
+    element: HTMLElement,
+    dragStartTarget?: HTMLElement,
+    preventOutline?: boolean,
+    options?: Partial<DraggableOptions>,
+  ) {
+    super();
+    setOptions(this, options);
+
+    this._element = element;
+    this._dragStartTarget = dragStartTarget || element;
+    this._preventOutline = preventOutline;
+  }
+
+  // @method enable()
+  // Enables the dragging ability
+  public enable(): void {
+    if (this._enabled) {
+      return;
+    }
+
+    DomEvent.on(this._dragStartTarget, START, this._onDown, this);
+
+    this._enabled = true;
+  }
+
+  // @method disable()
+  // Disables the dragging ability
+  public disable(): void {
+    if (!this._enabled) {
+      return;
+    }
+
+    // If we're currently dragging this draggable,
+    // disabling it counts as first ending the drag.
+    if (Draggable._dragging === this) {
+      this.finishDrag();
+    }
+
+    DomEvent.off(this._dragStartTarget, START, this._onDown, this);
+
+    this._enabled = false;
+    this._moved = false;
+  }
+
+  public finishDrag(): void {
+    DomUtil.removeClass(document.body, 'leaflet-dragging');
+
+    if (this._lastTarget) {
+      DomUtil.removeClass(this._lastTarget, 'leaflet-drag-target');
+      this._lastTarget = undefined;
+    }
+
+    for (const i in MOVE) {
+      DomEvent.off(document, MOVE[i], this._onMove, this);
+      DomEvent.off(document, END[i], this._onUp, this);
+    }
+
+    DomUtil.enableImageDrag();
+    DomUtil.enableTextSelection();
+
+    if (this._moved && this._moving) {
+      // ensure drag is not fired after dragend
+      cancelAnimFrame(this._animRequest);
+
+      // @event dragend: DragEndEvent
+      // Fired when the drag ends.
+      this.fire('dragend', {
+        distance: this._newPos.distanceTo(this._startPos),
+      });
+    }
+
+    this._moving = false;
+    Draggable._dragging = false;
+  }
+
+  private _onDown(e: DragEvent): void {
+    // Ignore simulated events, since we handle both touch and
+    // mouse explicitly; otherwise we risk getting duplicates of
+    // touch events, see #4315.
+    // Also ignore the event if disabled; this happens in IE11
+    // under some circumstances, see #3666.
+    if (e._simulated || !this._enabled) {
+      return;
+    }
+
+    this._moved = false;
+
+    if (DomUtil.hasClass(this._element, 'leaflet-zoom-anim')) {
+      return;
+    }
+
+    const touches = (e as TouchEvent).touches;
+    const mouseEvent = e as MouseEvent;
+    if (
+      Draggable._dragging ||
+      e.shiftKey ||
+      (mouseEvent.which !== 1 && mouseEvent.button !== 1 && !touches)
+    ) {
+      return;
+    }
+    Draggable._dragging = this; // Prevent dragging multiple objects at once.
+
+    if (this._preventOutline) {
+      DomUtil.preventOutline(this._element);
+    }
+
+    DomUtil.disableImageDrag();
+    DomUtil.disableTextSelection();
+
+    if (this._moving) {
+      return;
+    }
+
+    // @event down: Event
+    // Fired when a drag is about to start.
+    this.fire('down');
+
+    const first = touches ? touches[0] : mouseEvent;
+    const sizedParent = DomUtil.getSizedParentNode(this._element);
+
+    this._startPoint = new Point(first.clientX, first.clientY);
+    this._startPos = DomUtil.getPosition(this._element);
+
+    // Cache the scale, so that we can continuously compensate for it during drag (_onMove).
+    this._parentScale = DomUtil.getScale(sizedParent);
+
+    DomEvent.on(document, MOVE[e.type], this._onMove, this);
+    DomEvent.on(document, END[e.type], this._onUp, this);
+  }
+
+  private _onMove(e: DragEvent): void {
+    // Ignore simulated events, since we handle both touch and
+    // mouse explicitly; otherwise we risk getting duplicates of
+    // touch events, see #4315.
+    // Also ignore the event if disabled; this happens in IE11
+    // under some circumstances, see #3666.
+    if (e._simulated || !this._enabled) {
+      return;
+    }
+
+    const touches = (e as TouchEvent).touches;
+    if (touches && touches.length > 1) {
+      this._moved = true;
+      return;
+    }
+
+    const first =
+      touches && touches.length === 1 ? touches[0] : (e as MouseEvent);
+    const offset = new Point(first.clientX, first.clientY)._subtract(
+      this._startPoint,
+    );
+
+    if (!offset.x && !offset.y) {
+      return;
+    }
+    if (Math.abs(offset.x) + Math.abs(offset.y) < this.options.clickTolerance) {
+      return;
+    }
+
+    // We assume that the parent container's position, border and scale do not change for the duration of the drag.
+    // Therefore there is no need to account for the position and border (they are eliminated by the subtraction)
+    // and we can use the cached value for the scale.
+    offset.x /= this._parentScale.x;
+    offset.y /= this._parentScale.y;
+
+    DomEvent.preventDefault(e);
+
+    if (!this._moved) {
+      // @event dragstart: Event
+      // Fired when a drag starts
+      this.fire('dragstart');
+
+      this._moved = true;
+      this._startPos = DomUtil.getPosition(this._element).subtract(offset);
+
+      DomUtil.addClass(document.body, 'leaflet-dragging');
+
+      this._lastTarget = this._getEventTarget(e);
+      DomUtil.addClass(this._lastTarget, 'leaflet-drag-target');
+    }
+
+    this._newPos = this._startPos.add(offset);
+    this._moving = true;
+
+    cancelAnimFrame(this._animRequest);
+    this._lastEvent = e;
+    this._animRequest = requestAnimFrame(this._updatePosition, this, true);
+  }
+
+  private _getEventTarget(e: Event): HTMLElement {
+    const target = e.target as HTMLElement & {
+      correspondingUseElement?: HTMLElement;
+    };
+
+    // IE and Edge do not give the <use> element, so fetch it if necessary
+    return target.correspondingUseElement || target;
+  }
+
+  private _updatePosition(): void {
+    const e = { originalEvent: this._lastEvent };
+
+    // @event predrag: Event
+    // Fired continuously during dragging *before* each corresponding
+    // update of the element's position.
+    this.fire('predrag', e);
+    DomUtil.setPosition(this._element, this._newPos);
+
+    // @event drag: Event
+    // Fired continuously during dragging.
+    this.fire('drag', e);
+  }
+
+  private _onUp(e: DragEvent): void {
+    // Ignore simulated events, since we handle both touch and
+    // mouse explicitly; otherwise we risk getting duplicates of
+    // touch events, see #4315.
+    // Also ignore the event if disabled; this happens in IE11
+    // under some circumstances, see #3666.
+    if (e._simulated || !this._enabled) {
+      return;
+    }
+    this.finishDrag();
+  }
+}
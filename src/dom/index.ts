@@ -0,0 +1,8 @@
+export { PosAnimation } from './PosAnimation';
+export { Draggable } from './Draggable';
+
+import * as DomUtil from './DomUtil';
+export { DomUtil };
+
+import * as DomEvent from './DomEvent';
+export { DomEvent };
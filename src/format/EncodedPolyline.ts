@@ -0,0 +1,91 @@
+import { LatLng, LatLngLike, toLatLng } from '@/geo/LatLng';
+
+/*
+ * @namespace EncodedPolyline
+ *
+ * Encodes and decodes lines in the [Encoded Polyline Algorithm Format](https://developers.google.com/maps/documentation/utilities/polylinealgorithm)
+ * used by Google Maps and by routing engines such as OSRM or Valhalla, which
+ * use a precision of 6 decimals instead of 5. The format has no altitudes.
+ *
+ * ```js
+ * L.polyline(L.EncodedPolyline.decode('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).addTo(map);
+ * ```
+ */
+
+// @function encode(latlngs: LatLng[], precision?: Number): String
+// Encodes the given points, rounded to `precision` decimals (5 by default).
+export function encode(latlngs: LatLngLike[], precision = 5): string {
+  const factor = Math.pow(10, precision);
+  let result = '';
+  let lastLat = 0;
+  let lastLng = 0;
+
+  for (let i = 0, len = latlngs.length; i < len; i++) {
+    const latlng = toLatLng(latlngs[i]);
+    if (!latlng) {
+      continue;
+    }
+    const lat = round(latlng.lat * factor);
+    const lng = round(latlng.lng * factor);
+
+    result += encodeValue(lat - lastLat) + encodeValue(lng - lastLng);
+    lastLat = lat;
+    lastLng = lng;
+  }
+  return result;
+}
+
+// rounds half away from zero, as the reference implementation
+function round(value: number): number {
+  return value < 0 ? -Math.round(-value) : Math.round(value);
+}
+
+// zigzag-encoded value in chunks of 5 bits, least significant first, each
+// offset by 63 and flagged with 0x20 if another chunk follows
+function encodeValue(value: number): string {
+  let rest = value < 0 ? -2 * value - 1 : 2 * value;
+  let result = '';
+
+  while (rest >= 0x20) {
+    result += String.fromCharCode((0x20 | rest % 0x20) + 63);
+    rest = Math.floor(rest / 0x20);
+  }
+  return result + String.fromCharCode(rest + 63);
+}
+
+// @function decode(encoded: String, precision?: Number): LatLng[]
+// Decodes a line encoded with the given `precision` (5 by default).
+// Throws an error if the string is not a valid encoded polyline.
+export function decode(encoded: string, precision = 5): LatLng[] {
+  const factor = Math.pow(10, precision);
+  const latlngs: LatLng[] = [];
+  const state = { index: 0 };
+  let lat = 0;
+  let lng = 0;
+
+  while (state.index < encoded.length) {
+    lat += decodeValue(encoded, state);
+    lng += decodeValue(encoded, state);
+    latlngs.push(new LatLng(lat / factor, lng / factor));
+  }
+  return latlngs;
+}
+
+function decodeValue(encoded: string, state: { index: number }): number {
+  let result = 0;
+  let shift = 1;
+  let chunk: number;
+
+  do {
+    chunk = encoded.charCodeAt(state.index++) - 63;
+    if (!(chunk >= 0 && chunk < 0x40)) {
+      throw new Error(
+        'Invalid encoded polyline at character ' + state.index + '.',
+      );
+    }
+    result += (chunk % 0x20) * shift;
+    shift *= 0x20;
+  } while (chunk >= 0x20);
+
+  return result % 2 ? -(result + 1) / 2 : result / 2;
+}
@@ -0,0 +1,66 @@
+import { Feature, GeoJSONObject, Geometry, Position } from '@/layer/GeoJSON';
+
+/*
+ * Helpers shared by the vector formats for reading and writing GeoJSON.
+ *
+ * Per-point timestamps (of GPX tracks and KML `gx:Track`s) are kept the way
+ * most GeoJSON tools do, as a `coordTimes` property holding ISO 8601 strings,
+ * shaped like the coordinates of the feature (an array for a `LineString`,
+ * an array of arrays for a `MultiLineString`).
+ */
+
+export type CoordTimes = (string | null)[] | (string | null)[][];
+
+// the features of a feature collection, or the object itself as a feature
+export function toFeatures(geojson: GeoJSONObject): Feature[] {
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      return geojson.features;
+    case 'Feature':
+      return [geojson];
+    default:
+      return [{ type: 'Feature', properties: {}, geometry: geojson }];
+  }
+}
+
+// the geometries of (possibly nested) geometry collections
+export function flattenGeometry(
+  geometry: Geometry | null,
+  result: Geometry[] = [],
+): Geometry[] {
+  if (!geometry) {
+    return result;
+  }
+  if (geometry.type !== 'GeometryCollection') {
+    result.push(geometry);
+    return result;
+  }
+
+  const geometries = geometry.geometries || [];
+  for (let i = 0, len = geometries.length; i < len; i++) {
+    flattenGeometry(geometries[i], result);
+  }
+  return result;
+}
+
+// a position from parsed coordinates, with the altitude only if there is one
+export function toPosition(lng: number, lat: number, alt?: number): Position {
+  return alt === undefined || isNaN(alt) ? [lng, lat] : [lng, lat, alt];
+}
+
+// `coordTimes` for a single line of a feature (the `index`th one for a `MultiLineString`)
+export function lineTimes(
+  feature: Feature,
+  index: number,
+): (string | null)[] | undefined {
+  const times = (feature.properties || {}).coordTimes as CoordTimes | undefined;
+  if (!times || !times.length) {
+    return undefined;
+  }
+  return (Array.isArray(times[0]) ? times[index] : times) as (string | null)[];
+}
+
+// timestamps may also be given as `Date`s when writing
+export function toTime(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
@@ -0,0 +1,287 @@
+import {
+  Feature,
+  FeatureCollection,
+  GeoJSONObject,
+  Geometry,
+  Position,
+} from '@/layer/GeoJSON';
+import {
+  flattenGeometry,
+  lineTimes,
+  toFeatures,
+  toPosition,
+  toTime,
+} from './FeatureUtil';
+import {
+  XMLDocumentLike,
+  XMLNode,
+  attribute,
+  children,
+  childText,
+  localName,
+  parseXML,
+  tag,
+  textTag,
+} from './XML';
+
+/*
+ * @namespace GPX
+ *
+ * Reads and writes [GPX](https://www.topografix.com/gpx.asp) 1.0/1.1 files,
+ * as GeoJSON feature collections that can be displayed with `L.geoJSON`:
+ *
+ * - waypoints become `Point` features,
+ * - routes and tracks become `LineString` features (`MultiLineString` for
+ * tracks with several segments).
+ *
+ * Elevations are kept as the third coordinate of the positions (`LatLng.alt`
+ * once converted), the `name`, `cmt`, `desc`, `src`, `sym` and `type` of
+ * each element as properties. The `time` of waypoints is kept as a property,
+ * the times of route and track points in a `coordTimes` property shaped like
+ * the coordinates.
+ *
+ * ```js
+ * L.geoJSON(L.GPX.parse(text)).addTo(map);
+ * ```
+ */
+
+export interface GPXOptions {
+  // Value of the `creator` attribute of the written document.
+  creator?: string;
+}
+
+const WAYPOINT_PROPERTIES = ['name', 'cmt', 'desc', 'src', 'sym', 'type'];
+const TRACK_PROPERTIES = ['name', 'cmt', 'desc', 'src', 'type'];
+
+// @function parse(source: String|Document): Object
+// Reads a GPX document, given as text or already parsed (see `setXMLParser`),
+// into a GeoJSON `FeatureCollection`.
+export function parse(source: string | XMLDocumentLike): FeatureCollection {
+  const root = parseXML(source);
+  if (localName(root) !== 'gpx') {
+    throw new Error('Invalid GPX document.');
+  }
+
+  const features: Feature[] = [];
+
+  const waypoints = children(root, 'wpt');
+  for (let i = 0, len = waypoints.length; i < len; i++) {
+    features.push(waypointFeature(waypoints[i]));
+  }
+
+  const routes = children(root, 'rte');
+  for (let i = 0, len = routes.length; i < len; i++) {
+    features.push(lineFeature(routes[i], [children(routes[i], 'rtept')]));
+  }
+
+  const tracks = children(root, 'trk');
+  for (let i = 0, len = tracks.length; i < len; i++) {
+    const segments = children(tracks[i], 'trkseg');
+    const points: XMLNode[][] = [];
+    for (let j = 0; j < segments.length; j++) {
+      points.push(children(segments[j], 'trkpt'));
+    }
+    features.push(lineFeature(tracks[i], points));
+  }
+
+  return { type: 'FeatureCollection', features: features };
+}
+
+function readPosition(node: XMLNode): Position {
+  const lat = parseFloat(attribute(node, 'lat') || '');
+  const lng = parseFloat(attribute(node, 'lon') || '');
+
+  if (isNaN(lat) || isNaN(lng)) {
+    throw new Error('Invalid GPX point: missing lat or lon.');
+  }
+  return toPosition(lng, lat, parseFloat(childText(node, 'ele') || ''));
+}
+
+function readProperties(
+  node: XMLNode,
+  names: string[],
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (let i = 0, len = names.length; i < len; i++) {
+    const text = childText(node, names[i]);
+    if (text !== undefined) {
+      properties[names[i]] = text;
+    }
+  }
+  return properties;
+}
+
+function waypointFeature(node: XMLNode): Feature {
+  return {
+    type: 'Feature',
+    properties: readProperties(node, ['time'].concat(WAYPOINT_PROPERTIES)),
+    geometry: { type: 'Point', coordinates: readPosition(node) },
+  };
+}
+
+// a route or track, with the points of each of its segments
+function lineFeature(node: XMLNode, segments: XMLNode[][]): Feature {
+  const lines: Position[][] = [];
+  const times: (string | null)[][] = [];
+  let timed = false;
+
+  for (let i = 0, len = segments.length; i < len; i++) {
+    if (!segments[i].length) {
+      continue;
+    }
+    const line: Position[] = [];
+    const segmentTimes: (string | null)[] = [];
+
+    for (let j = 0; j < segments[i].length; j++) {
+      const time = childText(segments[i][j], 'time');
+      line.push(readPosition(segments[i][j]));
+      segmentTimes.push(time || null);
+      timed = timed || !!time;
+    }
+    lines.push(line);
+    times.push(segmentTimes);
+  }
+
+  const properties = readProperties(node, TRACK_PROPERTIES);
+  if (timed) {
+    properties.coordTimes = lines.length === 1 ? times[0] : times;
+  }
+
+  let geometry: Geometry | null = null;
+  if (lines.length === 1) {
+    geometry = { type: 'LineString', coordinates: lines[0] };
+  } else if (lines.length) {
+    geometry = { type: 'MultiLineString', coordinates: lines };
+  }
+
+  return { type: 'Feature', properties: properties, geometry: geometry };
+}
+
+// @function stringify(geojson: Object, options?: GPX options): String
+// Writes a GeoJSON object as a GPX 1.1 document. Points become waypoints,
+// lines become tracks (with a segment per line, using their `coordTimes`),
+// polygons become tracks with a segment per ring.
+export function stringify(
+  geojson: GeoJSONObject,
+  options: GPXOptions = {},
+): string {
+  const features = toFeatures(geojson);
+  let waypoints = '';
+  let tracks = '';
+
+  for (let i = 0, len = features.length; i < len; i++) {
+    const properties = features[i].properties || {};
+    const geometries = flattenGeometry(features[i].geometry);
+    let segments = '';
+
+    for (let j = 0; j < geometries.length; j++) {
+      const positions = pointPositions(geometries[j]);
+      for (let k = 0; k < positions.length; k++) {
+        waypoints += writeWaypoint(positions[k], properties);
+      }
+      segments += writeSegments(features[i], geometries[j]);
+    }
+
+    if (segments) {
+      tracks += tag(
+        'trk',
+        writeProperties(properties, TRACK_PROPERTIES) + segments,
+      );
+    }
+  }
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    tag('gpx', waypoints + tracks, {
+      version: '1.1',
+      creator: options.creator || 'Leaflet',
+      xmlns: 'http://www.topografix.com/GPX/1/1',
+    })
+  );
+}
+
+function pointPositions(geometry: Geometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates as Position];
+    case 'MultiPoint':
+      return geometry.coordinates as Position[];
+    default:
+      return [];
+  }
+}
+
+function writeProperties(
+  properties: Record<string, unknown>,
+  names: string[],
+): string {
+  let result = '';
+  for (let i = 0, len = names.length; i < len; i++) {
+    result += textTag(names[i], properties[names[i]]);
+  }
+  return result;
+}
+
+function writePoint(
+  name: string,
+  position: Position,
+  time: unknown,
+  content = '',
+): string {
+  return tag(
+    name,
+    (position.length > 2 ? tag('ele', String(position[2])) : '') +
+      textTag('time', toTime(time)) +
+      content,
+    { lat: position[1], lon: position[0] },
+  );
+}
+
+function writeWaypoint(
+  position: Position,
+  properties: Record<string, unknown>,
+): string {
+  return writePoint(
+    'wpt',
+    position,
+    properties.time,
+    writeProperties(properties, WAYPOINT_PROPERTIES),
+  );
+}
+
+// track segments for the lines (or polygon rings) of a geometry
+function writeSegments(feature: Feature, geometry: Geometry): string {
+  let lines: Position[][];
+  switch (geometry.type) {
+    case 'LineString':
+      lines = [geometry.coordinates as Position[]];
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      lines = geometry.coordinates as Position[][];
+      break;
+    case 'MultiPolygon':
+      lines = ([] as Position[][]).concat(
+        ...(geometry.coordinates as Position[][][]),
+      );
+      break;
+    default:
+      return '';
+  }
+
+  // timestamps only apply to the lines of the feature's own geometry
+  const timed =
+    feature.geometry === geometry &&
+    (geometry.type === 'LineString' || geometry.type === 'MultiLineString');
+  let result = '';
+
+  for (let i = 0, len = lines.length; i < len; i++) {
+    const times = (timed && lineTimes(feature, i)) || [];
+    let points = '';
+    for (let j = 0; j < lines[i].length; j++) {
+      points += writePoint('trkpt', lines[i][j], times[j]);
+    }
+    result += tag('trkseg', points);
+  }
+  return result;
+}
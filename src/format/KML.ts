@@ -0,0 +1,432 @@
+import {
+  Feature,
+  FeatureCollection,
+  GeoJSONObject,
+  Geometry,
+  Position,
+  Positions,
+} from '@/layer/GeoJSON';
+import { toFeatures, toPosition, toTime } from './FeatureUtil';
+import {
+  XMLDocumentLike,
+  XMLNode,
+  attribute,
+  child,
+  children,
+  childText,
+  descendants,
+  localName,
+  parseXML,
+  tag,
+  textTag,
+} from './XML';
+
+/*
+ * @namespace KML
+ *
+ * Reads and writes [KML](https://developers.google.com/kml/documentation/kmlreference)
+ * files, e.g. exported from Google Earth, as GeoJSON feature collections that
+ * can be displayed with `L.geoJSON`.
+ *
+ * Each `Placemark` (in any folder) becomes a feature, with its `Point`,
+ * `LineString`, `LinearRing`, `Polygon`, `MultiGeometry` and `gx:Track`
+ * geometries. Altitudes are kept as the third coordinate of the positions
+ * (`LatLng.alt` once converted), the `name`, `description`, `styleUrl`,
+ * `TimeStamp`, `TimeSpan` and `ExtendedData` of placemarks as properties, the
+ * times of `gx:Track`s in a `coordTimes` property shaped like the coordinates.
+ * Styles are not read.
+ *
+ * ```js
+ * L.geoJSON(L.KML.parse(text)).addTo(map);
+ * ```
+ */
+
+export interface KMLOptions {
+  // Name of the written document.
+  name?: string;
+}
+
+// properties written as KML elements rather than `ExtendedData`
+const OWN_PROPERTIES = ['name', 'description', 'time', 'coordTimes'];
+
+// @function parse(source: String|Document): Object
+// Reads a KML document, given as text or already parsed (see `setXMLParser`),
+// into a GeoJSON `FeatureCollection`.
+export function parse(source: string | XMLDocumentLike): FeatureCollection {
+  const root = parseXML(source);
+  if (localName(root) !== 'kml') {
+    throw new Error('Invalid KML document.');
+  }
+
+  const placemarks = descendants(root, 'Placemark');
+  const features: Feature[] = [];
+
+  for (let i = 0, len = placemarks.length; i < len; i++) {
+    features.push(placemarkFeature(placemarks[i]));
+  }
+  return { type: 'FeatureCollection', features: features };
+}
+
+function placemarkFeature(node: XMLNode): Feature {
+  const properties = readProperties(node);
+  const times: (string | null)[][] = [];
+  const geometries = readGeometries(node, times);
+
+  if (times.length) {
+    properties.coordTimes = times.length === 1 ? times[0] : times;
+  }
+
+  const feature: Feature = {
+    type: 'Feature',
+    properties: properties,
+    geometry:
+      geometries.length > 1
+        ? { type: 'GeometryCollection', geometries: geometries }
+        : geometries[0] || null,
+  };
+
+  const id = attribute(node, 'id');
+  if (id) {
+    feature.id = id;
+  }
+  return feature;
+}
+
+function readProperties(node: XMLNode): Record<string, unknown> {
+  const properties = readExtendedData(child(node, 'ExtendedData'));
+  const names = ['name', 'description', 'address', 'styleUrl'];
+
+  for (let i = 0; i < names.length; i++) {
+    const text = childText(node, names[i]);
+    if (text !== undefined) {
+      properties[names[i]] = text;
+    }
+  }
+
+  const timeStamp = child(node, 'TimeStamp');
+  const time = timeStamp && childText(timeStamp, 'when');
+  if (time) {
+    properties.time = time;
+  }
+
+  const timeSpan = child(node, 'TimeSpan');
+  if (timeSpan) {
+    properties.timespan = {
+      begin: childText(timeSpan, 'begin'),
+      end: childText(timeSpan, 'end'),
+    };
+  }
+  return properties;
+}
+
+// `Data` and `SchemaData` values, as strings
+function readExtendedData(node: XMLNode | null): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  if (!node) {
+    return properties;
+  }
+
+  const data = children(node, 'Data');
+  for (let i = 0, len = data.length; i < len; i++) {
+    const name = attribute(data[i], 'name');
+    if (name) {
+      properties[name] = childText(data[i], 'value') || '';
+    }
+  }
+
+  const simpleData = descendants(node, 'SimpleData');
+  for (let i = 0, len = simpleData.length; i < len; i++) {
+    const name = attribute(simpleData[i], 'name');
+    if (name) {
+      properties[name] = (simpleData[i].textContent || '').trim();
+    }
+  }
+  return properties;
+}
+
+// the geometries among the children of the node, adding the times of tracks to `times`
+function readGeometries(node: XMLNode, times: (string | null)[][]): Geometry[] {
+  const elements = children(node);
+  const geometries: Geometry[] = [];
+
+  for (let i = 0, len = elements.length; i < len; i++) {
+    const geometry = readGeometry(elements[i], times);
+    if (geometry) {
+      geometries.push(geometry);
+    }
+  }
+  return geometries;
+}
+
+function readGeometry(
+  node: XMLNode,
+  times: (string | null)[][],
+): Geometry | null {
+  switch (localName(node)) {
+    case 'Point':
+      return { type: 'Point', coordinates: readCoordinates(node)[0] || [] };
+    case 'LineString':
+    case 'LinearRing':
+      return { type: 'LineString', coordinates: readCoordinates(node) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: readRings(node) };
+    case 'Track':
+      return { type: 'LineString', coordinates: readTrack(node, times) };
+    case 'MultiTrack':
+      return { type: 'MultiLineString', coordinates: readTracks(node, times) };
+    case 'MultiGeometry':
+      return toMultiGeometry(readGeometries(node, times));
+    default:
+      return null;
+  }
+}
+
+// KML coordinates are `lng,lat[,alt]` tuples separated by whitespace
+function readCoordinates(node: XMLNode): Position[] {
+  const text = (childText(node, 'coordinates') || '').replace(/\s*,\s*/g, ',');
+  const tuples = text ? text.split(/\s+/) : [];
+  const positions: Position[] = [];
+
+  for (let i = 0, len = tuples.length; i < len; i++) {
+    const values = tuples[i].split(',');
+    const lng = parseFloat(values[0]);
+    const lat = parseFloat(values[1]);
+    if (!isNaN(lng) && !isNaN(lat)) {
+      positions.push(toPosition(lng, lat, parseFloat(values[2])));
+    }
+  }
+  return positions;
+}
+
+function readRings(node: XMLNode): Position[][] {
+  const rings: Position[][] = [];
+  const boundaries = children(node, 'outerBoundaryIs').concat(
+    children(node, 'innerBoundaryIs'),
+  );
+
+  for (let i = 0, len = boundaries.length; i < len; i++) {
+    const linearRings = children(boundaries[i], 'LinearRing');
+    for (let j = 0; j < linearRings.length; j++) {
+      rings.push(readCoordinates(linearRings[j]));
+    }
+  }
+  return rings;
+}
+
+// `gx:Track`s have their coordinates in `gx:coord` elements (`lng lat alt`),
+// matching the `when` elements
+function readTrack(node: XMLNode, times: (string | null)[][]): Position[] {
+  const coords = children(node, 'coord');
+  const whens = children(node, 'when');
+  const positions: Position[] = [];
+  const trackTimes: (string | null)[] = [];
+
+  for (let i = 0, len = coords.length; i < len; i++) {
+    const values = (coords[i].textContent || '').trim().split(/\s+/);
+    positions.push(
+      toPosition(
+        parseFloat(values[0]),
+        parseFloat(values[1]),
+        parseFloat(values[2]),
+      ),
+    );
+    trackTimes.push(whens[i] ? (whens[i].textContent || '').trim() : null);
+  }
+
+  times.push(trackTimes);
+  return positions;
+}
+
+function readTracks(node: XMLNode, times: (string | null)[][]): Position[][] {
+  const tracks = children(node, 'Track');
+  const lines: Position[][] = [];
+
+  for (let i = 0, len = tracks.length; i < len; i++) {
+    lines.push(readTrack(tracks[i], times));
+  }
+  return lines;
+}
+
+// a `Multi*` geometry if all the geometries have the same type, or a `GeometryCollection`
+function toMultiGeometry(geometries: Geometry[]): Geometry {
+  const type = geometries.length ? geometries[0].type : null;
+  const multiTypes: Partial<Record<string, Geometry['type']>> = {
+    Point: 'MultiPoint',
+    LineString: 'MultiLineString',
+    Polygon: 'MultiPolygon',
+  };
+  const multiType = type && multiTypes[type];
+
+  for (let i = 1, len = geometries.length; i < len; i++) {
+    if (geometries[i].type !== type) {
+      return { type: 'GeometryCollection', geometries: geometries };
+    }
+  }
+
+  if (!multiType) {
+    return { type: 'GeometryCollection', geometries: geometries };
+  }
+
+  const coordinates: Position[] = [];
+  for (let i = 0, len = geometries.length; i < len; i++) {
+    coordinates.push(geometries[i].coordinates as Position);
+  }
+  return { type: multiType, coordinates: coordinates };
+}
+
+// @function stringify(geojson: Object, options?: KML options): String
+// Writes a GeoJSON object as a KML 2.2 document, with a `Placemark` per
+// feature. Lines with `coordTimes` are written as `gx:Track`s.
+export function stringify(
+  geojson: GeoJSONObject,
+  options: KMLOptions = {},
+): string {
+  const features = toFeatures(geojson);
+  let placemarks = '';
+
+  for (let i = 0, len = features.length; i < len; i++) {
+    placemarks += writePlacemark(features[i]);
+  }
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    tag('kml', tag('Document', textTag('name', options.name) + placemarks), {
+      xmlns: 'http://www.opengis.net/kml/2.2',
+      'xmlns:gx': 'http://www.google.com/kml/ext/2.2',
+    })
+  );
+}
+
+function writePlacemark(feature: Feature): string {
+  const properties = feature.properties || {};
+  const time = properties.time;
+  const attributes: Record<string, string | number> = {};
+
+  if (feature.id !== undefined) {
+    attributes.id = feature.id;
+  }
+
+  return tag(
+    'Placemark',
+    textTag('name', properties.name) +
+      textTag('description', properties.description) +
+      (time ? tag('TimeStamp', textTag('when', toTime(time))) : '') +
+      writeExtendedData(properties) +
+      (feature.geometry
+        ? writeGeometry(feature.geometry, properties.coordTimes)
+        : ''),
+    attributes,
+  );
+}
+
+function writeExtendedData(properties: Record<string, unknown>): string {
+  let data = '';
+
+  for (const name in properties) {
+    const value = properties[name];
+    if (
+      OWN_PROPERTIES.indexOf(name) === -1 &&
+      value !== undefined &&
+      value !== null
+    ) {
+      data += tag(
+        'Data',
+        textTag(
+          'value',
+          typeof value === 'object' ? JSON.stringify(value) : value,
+        ),
+        { name: name },
+      );
+    }
+  }
+  return data ? tag('ExtendedData', data) : '';
+}
+
+// `coordTimes` are the times of the positions of the geometry, if any
+function writeGeometry(geometry: Geometry, coordTimes?: unknown): string {
+  switch (geometry.type) {
+    case 'Point':
+      return tag('Point', writeCoordinates([geometry.coordinates as Position]));
+    case 'LineString':
+      return writeLine(geometry.coordinates as Position[], coordTimes);
+    case 'Polygon':
+      return writePolygon(geometry.coordinates as Position[][]);
+    case 'GeometryCollection':
+      return writeMultiGeometry(geometry.geometries || []);
+    default:
+      return writeMultiPart(geometry, coordTimes);
+  }
+}
+
+// `MultiPoint`, `MultiLineString` and `MultiPolygon` geometries, as a
+// `gx:MultiTrack` for lines with a time for every point
+function writeMultiPart(geometry: Geometry, coordTimes?: unknown): string {
+  const type = geometry.type.replace('Multi', '') as Geometry['type'];
+  const parts = (geometry.coordinates || []) as (Position | Positions)[];
+  const times = Array.isArray(coordTimes) ? coordTimes : [];
+
+  let tracks = type === 'LineString';
+  for (let i = 0, len = parts.length; i < len && tracks; i++) {
+    tracks = isTimed(parts[i] as Position[], times[i]);
+  }
+
+  let result = '';
+  for (let i = 0, len = parts.length; i < len; i++) {
+    result += writeGeometry(
+      { type: type, coordinates: parts[i] },
+      tracks ? times[i] : undefined,
+    );
+  }
+  return tag(tracks ? 'gx:MultiTrack' : 'MultiGeometry', result);
+}
+
+function writeMultiGeometry(geometries: Geometry[]): string {
+  let result = '';
+  for (let i = 0, len = geometries.length; i < len; i++) {
+    result += writeGeometry(geometries[i]);
+  }
+  return tag('MultiGeometry', result);
+}
+
+function writeCoordinates(positions: Position[]): string {
+  const tuples: string[] = [];
+  for (let i = 0, len = positions.length; i < len; i++) {
+    tuples.push(positions[i].join(','));
+  }
+  return tag('coordinates', tuples.join(' '));
+}
+
+// whether there is a time for every position
+function isTimed(positions: Position[], times: unknown): boolean {
+  return (
+    Array.isArray(times) &&
+    times.length === positions.length &&
+    times.indexOf(null) === -1
+  );
+}
+
+// a `gx:Track` if there is a time for every position, a `LineString` otherwise
+function writeLine(positions: Position[], times?: unknown): string {
+  if (!isTimed(positions, times)) {
+    return tag('LineString', writeCoordinates(positions));
+  }
+
+  let whens = '';
+  let coords = '';
+  for (let i = 0, len = positions.length; i < len; i++) {
+    whens += textTag('when', toTime((times as unknown[])[i]));
+    coords += tag('gx:coord', positions[i].join(' '));
+  }
+  return tag('gx:Track', whens + coords);
+}
+
+function writePolygon(rings: Position[][]): string {
+  let result = '';
+  for (let i = 0, len = rings.length; i < len; i++) {
+    result += tag(
+      i ? 'innerBoundaryIs' : 'outerBoundaryIs',
+      tag('LinearRing', writeCoordinates(rings[i])),
+    );
+  }
+  return tag('Polygon', result);
+}
@@ -0,0 +1,265 @@
+import { Feature, Geometry, Position, Positions } from '@/layer/GeoJSON';
+import { toPosition } from './FeatureUtil';
+
+/*
+ * @namespace WKT
+ *
+ * Reads and writes [Well-known text](https://en.wikipedia.org/wiki/Well-known_text_representation_of_geometry)
+ * geometries, as emitted by spatial databases, e.g. PostGIS' `ST_AsText` or
+ * `ST_AsEWKT` (the `SRID=…;` prefix is ignored), as GeoJSON geometries.
+ *
+ * `Z` coordinates are kept as the third coordinate of the positions
+ * (`LatLng.alt` once converted), `M` coordinates are dropped.
+ *
+ * ```js
+ * L.geoJSON(L.WKT.parse('LINESTRING Z (30 10 5, 10 30 8, 40 40 12)')).addTo(map);
+ * ```
+ */
+
+const TYPES: Record<string, Geometry['type']> = {
+  POINT: 'Point',
+  MULTIPOINT: 'MultiPoint',
+  LINESTRING: 'LineString',
+  MULTILINESTRING: 'MultiLineString',
+  POLYGON: 'Polygon',
+  MULTIPOLYGON: 'MultiPolygon',
+  GEOMETRYCOLLECTION: 'GeometryCollection',
+};
+
+// nesting of the coordinates of each type, as lists of positions
+const DEPTHS: Partial<Record<Geometry['type'], number>> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+const TOKEN = /[A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|\S/g;
+const NUMBER = /^[-+.\d]/;
+
+class WKTReader {
+  private _tokens: string[];
+  private _index = 0;
+
+  constructor(text: string) {
+    this._tokens = text.match(TOKEN) || [];
+  }
+
+  // the current token, upper-cased, or an empty string at the end of the text
+  public peek(): string {
+    return (this._tokens[this._index] || '').toUpperCase();
+  }
+
+  public next(): string {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Invalid WKT: unexpected end of text.');
+    }
+    this._index++;
+    return token;
+  }
+
+  // skips the current token if it is the given one
+  public accept(token: string): boolean {
+    if (this.peek() !== token) {
+      return false;
+    }
+    this._index++;
+    return true;
+  }
+
+  public expect(token: string): void {
+    if (!this.accept(token)) {
+      throw this.unexpected('"' + token + '"');
+    }
+  }
+
+  public unexpected(expected: string): Error {
+    const token = this._tokens[this._index];
+    return new Error(
+      'Invalid WKT: expected ' +
+        expected +
+        ' but found ' +
+        (token ? '"' + token + '"' : 'end of text') +
+        '.',
+    );
+  }
+}
+
+// @function parse(text: String): Object
+// Reads a WKT (or EWKT) geometry into a GeoJSON geometry. Empty geometries
+// have empty `coordinates`. Throws an error if the text is not valid WKT.
+export function parse(text: string): Geometry {
+  const reader = new WKTReader(text.replace(/^\s*SRID=\d+\s*;/i, ''));
+  const geometry = readGeometry(reader);
+
+  if (reader.peek()) {
+    throw reader.unexpected('end of text');
+  }
+  return geometry;
+}
+
+function readGeometry(reader: WKTReader): Geometry {
+  const type = TYPES[reader.peek()];
+  if (!type) {
+    throw reader.unexpected('a geometry type');
+  }
+  reader.next();
+
+  // the third value is a measure in `M` geometries, not an altitude
+  const measured = reader.accept('M');
+  if (!measured && !reader.accept('Z')) {
+    reader.accept('ZM');
+  }
+
+  const empty = reader.accept('EMPTY');
+
+  if (type === 'GeometryCollection') {
+    return { type: type, geometries: empty ? [] : readGeometries(reader) };
+  }
+  if (empty) {
+    return { type: type, coordinates: [] };
+  }
+
+  const depth = DEPTHS[type] || 0;
+  return {
+    type: type,
+    coordinates: depth
+      ? readList(reader, depth, measured)
+      : readPoint(reader, measured),
+  };
+}
+
+function readGeometries(reader: WKTReader): Geometry[] {
+  const geometries: Geometry[] = [];
+  reader.expect('(');
+  do {
+    geometries.push(readGeometry(reader));
+  } while (reader.accept(','));
+  reader.expect(')');
+  return geometries;
+}
+
+// a parenthesized list of positions (for `depth` 1) or of lists
+function readList(
+  reader: WKTReader,
+  depth: number,
+  measured: boolean,
+): Positions {
+  const items: (Position | Positions)[] = [];
+  reader.expect('(');
+  do {
+    items.push(
+      depth > 1
+        ? readList(reader, depth - 1, measured)
+        : readPosition(reader, measured),
+    );
+  } while (reader.accept(','));
+  reader.expect(')');
+  return items as Positions;
+}
+
+function readPoint(reader: WKTReader, measured: boolean): Position {
+  reader.expect('(');
+  const position = readPosition(reader, measured);
+  reader.expect(')');
+  return position;
+}
+
+// the points of a `MULTIPOINT` may be parenthesized, i.e. `(1 2, 3 4)` or `((1 2), (3 4))`
+function readPosition(reader: WKTReader, measured: boolean): Position {
+  if (reader.peek() === '(') {
+    return readPoint(reader, measured);
+  }
+
+  const values: number[] = [];
+  while (NUMBER.test(reader.peek())) {
+    values.push(parseFloat(reader.next()));
+  }
+  if (values.length < 2 || values.length > 4) {
+    throw reader.unexpected('2 to 4 coordinates');
+  }
+  return toPosition(values[0], values[1], measured ? undefined : values[2]);
+}
+
+// @function stringify(geojson: Object): String
+// Writes a GeoJSON geometry (or the geometry of a feature) as WKT, with `Z`
+// coordinates if all its positions have an altitude. A feature without
+// geometry is written as an empty `GEOMETRYCOLLECTION`.
+export function stringify(geojson: Geometry | Feature): string {
+  const geometry = geojson.type === 'Feature' ? geojson.geometry : geojson;
+  return writeGeometry(
+    geometry || { type: 'GeometryCollection', geometries: [] },
+  );
+}
+
+function writeGeometry(geometry: Geometry): string {
+  const name = geometry.type.toUpperCase();
+
+  if (geometry.type === 'GeometryCollection') {
+    const geometries = geometry.geometries || [];
+    const parts: string[] = [];
+    for (let i = 0, len = geometries.length; i < len; i++) {
+      parts.push(writeGeometry(geometries[i]));
+    }
+    return name + (parts.length ? ' (' + parts.join(', ') + ')' : ' EMPTY');
+  }
+
+  let coordinates = geometry.coordinates || [];
+  let depth = DEPTHS[geometry.type] || 0;
+  if (!coordinates.length) {
+    return name + ' EMPTY';
+  }
+
+  // points are written as lists of a single position, i.e. `(1 2)`
+  if (geometry.type === 'Point') {
+    coordinates = [coordinates as Position];
+    depth = 1;
+  } else if (geometry.type === 'MultiPoint') {
+    coordinates = (coordinates as Position[]).map(function (position) {
+      return [position];
+    });
+    depth = 2;
+  }
+
+  const positions = flatten(coordinates, depth, []);
+  let z = true;
+  for (let i = 0, len = positions.length; i < len; i++) {
+    z = z && positions[i].length > 2;
+  }
+
+  return name + (z ? ' Z ' : ' ') + writeList(coordinates, depth, z);
+}
+
+function flatten(
+  coordinates: Position | Positions,
+  depth: number,
+  result: Position[],
+): Position[] {
+  if (!depth) {
+    result.push(coordinates as Position);
+    return result;
+  }
+  for (let i = 0, len = coordinates.length; i < len; i++) {
+    flatten((coordinates as Positions)[i], depth - 1, result);
+  }
+  return result;
+}
+
+function writeList(
+  coordinates: Position | Positions,
+  depth: number,
+  z: boolean,
+): string {
+  if (!depth) {
+    return coordinates.slice(0, z ? 3 : 2).join(' ');
+  }
+
+  const parts: string[] = [];
+  for (let i = 0, len = coordinates.length; i < len; i++) {
+    parts.push(writeList((coordinates as Positions)[i], depth - 1, z));
+  }
+  return '(' + parts.join(', ') + ')';
+}
@@ -0,0 +1,150 @@
+/*
+ * @namespace XML
+ *
+ * Minimal XML plumbing shared by the `GPX` and `KML` formats. Parsing is done
+ * by an injectable parser, so that the formats work outside of browsers, e.g.
+ * in Node with [xmldom](https://github.com/xmldom/xmldom):
+ *
+ * ```js
+ * var DOMParser = require('@xmldom/xmldom').DOMParser;
+ *
+ * L.setXMLParser(function (text) {
+ * 	return new DOMParser().parseFromString(text, 'application/xml');
+ * });
+ * ```
+ *
+ * Serializing doesn't need a parser, documents are written as strings.
+ */
+
+// the subset of the DOM `Node` interface the formats rely on
+export interface XMLNode {
+  nodeType: number;
+  nodeName: string;
+  textContent: string | null;
+  childNodes: ArrayLike<XMLNode>;
+  getAttribute?(name: string): string | null;
+}
+
+export interface XMLDocumentLike {
+  documentElement: XMLNode | null;
+}
+
+export type XMLParser = (text: string) => XMLDocumentLike;
+
+const ELEMENT_NODE = 1;
+
+let xmlParser: XMLParser | undefined;
+
+// @function setXMLParser(parser: Function): undefined
+// Sets the function used to parse XML text into a document, e.g. wrapping
+// xmldom's `DOMParser`. Defaults to the browser's `DOMParser`.
+export function setXMLParser(parser?: XMLParser): void {
+  xmlParser = parser;
+}
+
+function defaultParser(text: string): XMLDocumentLike {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('No XML parser available, call setXMLParser() first.');
+  }
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+// Parses XML text with the current parser (or takes an already parsed
+// document) and returns its root element.
+export function parseXML(source: string | XMLDocumentLike): XMLNode {
+  const doc =
+    typeof source === 'string' ? (xmlParser || defaultParser)(source) : source;
+  const root = doc.documentElement;
+
+  // browsers report errors with a `parsererror` element instead of throwing
+  if (
+    !root ||
+    localName(root) === 'parsererror' ||
+    children(root, 'parsererror').length
+  ) {
+    throw new Error('Invalid XML document.');
+  }
+  return root;
+}
+
+// name of the node without its namespace prefix
+export function localName(node: XMLNode): string {
+  return node.nodeName.replace(/^.*:/, '');
+}
+
+// child elements of the node, optionally only those with the given local name
+export function children(node: XMLNode, name?: string): XMLNode[] {
+  const result: XMLNode[] = [];
+  const nodes = node.childNodes;
+
+  for (let i = 0, len = nodes.length; i < len; i++) {
+    if (
+      nodes[i].nodeType === ELEMENT_NODE &&
+      (!name || localName(nodes[i]) === name)
+    ) {
+      result.push(nodes[i]);
+    }
+  }
+  return result;
+}
+
+export function child(node: XMLNode, name: string): XMLNode | null {
+  return children(node, name)[0] || null;
+}
+
+// trimmed text of the first child element with the given name, if any
+export function childText(node: XMLNode, name: string): string | undefined {
+  const found = child(node, name);
+  const text = found && found.textContent;
+  return text ? text.trim() : undefined;
+}
+
+// elements with the given name below the node, in document order
+export function descendants(
+  node: XMLNode,
+  name: string,
+  result: XMLNode[] = [],
+): XMLNode[] {
+  const elements = children(node);
+
+  for (let i = 0, len = elements.length; i < len; i++) {
+    if (localName(elements[i]) === name) {
+      result.push(elements[i]);
+    }
+    descendants(elements[i], name, result);
+  }
+  return result;
+}
+
+export function attribute(node: XMLNode, name: string): string | null {
+  return node.getAttribute ? node.getAttribute(name) : null;
+}
+
+export function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Writes an element with the given (already serialized) content and
+// attributes, e.g. `tag('ele', '12')` gives `<ele>12</ele>`.
+export function tag(
+  name: string,
+  content: string,
+  attributes?: Record<string, string | number>,
+): string {
+  let attrs = '';
+  for (const key in attributes) {
+    attrs += ' ' + key + '="' + escapeXML(String(attributes[key])) + '"';
+  }
+  return '<' + name + attrs + '>' + content + '</' + name + '>';
+}
+
+// like `tag`, for text content, omitting the element if there is no text
+export function textTag(name: string, text: unknown): string {
+  return text === undefined || text === null || text === ''
+    ? ''
+    : tag(name, escapeXML(String(text)));
+}
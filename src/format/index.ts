@@ -0,0 +1,7 @@
+import * as EncodedPolyline from './EncodedPolyline';
+import * as GPX from './GPX';
+import * as KML from './KML';
+import * as WKT from './WKT';
+export { EncodedPolyline, GPX, KML, WKT };
+
+export { setXMLParser } from './XML';
@@ -0,0 +1,499 @@
+import { Point } from '@/geometry/Point';
+import { LatLng } from './LatLng';
+import { LatLngBounds } from './LatLngBounds';
+import { Projection } from './projection/index';
+import {
+  transverseMercator,
+  utmOptions,
+  utmZone,
+} from './projection/Projection.TransverseMercator';
+
+/*
+ * @namespace CoordFormat
+ *
+ * Parsing and formatting of geographical coordinates in the notations
+ * commonly typed by people or used as keys: degrees-minutes-seconds, UTM,
+ * MGRS (on the WGS84 ellipsoid, without the polar UPS areas) and geohash.
+ *
+ * ```js
+ * L.CoordFormat.formatDMS(L.latLng(51.5, -0.12)); // '51°30'00"N 0°07'12"W'
+ * L.CoordFormat.parse('31U DQ 48251 11943'); // LatLng(48.8583, 2.2945)
+ * ```
+ *
+ * The parsing functions are strict: they throw an error explaining what is
+ * wrong with the text instead of guessing.
+ */
+
+export interface DMSOptions {
+  // Units to format to: degrees, minutes and seconds (`'DMS'`), degrees and
+  // decimal minutes (`'DM'`) or decimal degrees (`'D'`).
+  format?: 'DMS' | 'DM' | 'D';
+  // Number of decimals of the last unit.
+  precision?: number;
+}
+
+function invalid(text: string, reason: string): Error {
+  return new Error('Invalid coordinates "' + text + '": ' + reason);
+}
+
+// @function formatDMS(latlng: LatLng, options?: DMS options): String
+// Formats a point with hemisphere letters, e.g. `51°30'00"N 0°07'12"W`.
+export function formatDMS(latlng: LatLng, options: DMSOptions = {}): string {
+  return (
+    formatAngle(latlng.lat, 'NS', options) +
+    ' ' +
+    formatAngle(latlng.lng, 'EW', options)
+  );
+}
+
+function formatAngle(
+  angle: number,
+  hemispheres: string,
+  options: DMSOptions,
+): string {
+  const format = options.format || 'DMS';
+  const precision = options.precision || 0;
+  const factor = Math.pow(10, precision);
+  const units = format === 'DMS' ? 3600 : format === 'DM' ? 60 : 1;
+  const hemisphere = hemispheres[angle < 0 ? 1 : 0];
+
+  // rounded once in the last unit, so that e.g. 59.9999" carries over
+  const total = Math.round(Math.abs(angle) * units * factor);
+  const degrees = Math.floor(total / (units * factor));
+  const rest = total - degrees * units * factor;
+
+  if (format === 'D') {
+    return (
+      degrees + (rest / factor).toFixed(precision).slice(1) + '°' + hemisphere
+    );
+  }
+  if (format === 'DM') {
+    return degrees + '°' + pad(rest / factor, precision) + "'" + hemisphere;
+  }
+
+  const minutes = Math.floor(rest / (60 * factor));
+  const seconds = (rest - minutes * 60 * factor) / factor;
+
+  return (
+    degrees +
+    '°' +
+    pad(minutes, 0) +
+    "'" +
+    pad(seconds, precision) +
+    '"' +
+    hemisphere
+  );
+}
+
+function pad(value: number, precision: number): string {
+  const text = value.toFixed(precision);
+  return value < 10 ? '0' + text : text;
+}
+
+// a number, a unit mark, a hemisphere letter, a separator between the
+// latitude and the longitude or between units; tokens must follow each other
+// without gaps, which `splitDMS` checks
+const dmsToken = /\s*(?:([-+]?\d+(?:\.\d+)?)|([°º'′"″])|([NSEW])|([,;])|:)\s*/gi;
+
+interface DMSPart {
+  values: string[];
+  sign: number;
+  hemisphere?: string;
+  // whether the part ended with a hemisphere letter
+  closed?: boolean;
+}
+
+// @function parseDMS(text: String): LatLng
+// Parses a point in degrees, minutes and seconds, degrees and decimal
+// minutes or decimal degrees, with hemisphere letters (before or after each
+// coordinate) or signs, e.g. `51°30'N 0°7'12"W`, `N 51 30.0 W 0 7.2` or
+// `51.5, -0.12`. Without hemisphere letters, the latitude comes first.
+export function parseDMS(text: string): LatLng {
+  const parts = splitDMS(text);
+  let lat = parts[0];
+  let lng = parts[1];
+
+  if (isHemisphere(lat, 'EW') || isHemisphere(lng, 'NS')) {
+    lat = parts[1];
+    lng = parts[0];
+  }
+  if (isHemisphere(lat, 'EW') || isHemisphere(lng, 'NS')) {
+    throw invalid(text, 'expected a latitude and a longitude');
+  }
+
+  const latValue = toDegrees(text, lat);
+  const lngValue = toDegrees(text, lng);
+
+  if (Math.abs(latValue) > 90) {
+    throw invalid(text, 'latitude out of range');
+  }
+  if (Math.abs(lngValue) > 180) {
+    throw invalid(text, 'longitude out of range');
+  }
+  return new LatLng(latValue, lngValue);
+}
+
+function isHemisphere(part: DMSPart, letters: string): boolean {
+  return !!part.hemisphere && letters.indexOf(part.hemisphere) >= 0;
+}
+
+// splits the text into a latitude and a longitude part
+function splitDMS(text: string): DMSPart[] {
+  const parts: DMSPart[] = [{ values: [], sign: 1 }];
+
+  dmsToken.lastIndex = 0;
+  while (dmsToken.lastIndex < text.length) {
+    const start = dmsToken.lastIndex;
+    const match = dmsToken.exec(text);
+    if (!match || match.index !== start) {
+      throw invalid(text, 'unexpected character at ' + (start + 1));
+    }
+    addToken(text, parts, match);
+  }
+
+  if (parts.length === 1 && !parts[0].hemisphere) {
+    // bare numbers, split evenly
+    const values = parts[0].values;
+    const half = values.length / 2;
+    if (half === 1 || half === 2 || half === 3) {
+      return [
+        { values: values.slice(0, half), sign: 1 },
+        { values: values.slice(half), sign: 1 },
+      ];
+    }
+  }
+  if (parts.length !== 2) {
+    throw invalid(text, 'expected a latitude and a longitude');
+  }
+  return parts;
+}
+
+function addToken(text: string, parts: DMSPart[], match: string[]): void {
+  let part = parts[parts.length - 1];
+  const value = match[1];
+  const letter = match[3] && match[3].toUpperCase();
+
+  if (startsPart(part, value, letter) || match[4]) {
+    if (!part.values.length) {
+      throw invalid(text, 'missing degrees');
+    }
+    part = { values: [], sign: 1 };
+    parts.push(part);
+  }
+
+  if (value) {
+    part.values.push(value);
+  } else if (match[2]) {
+    const expected = ['°º', "'′", '"″'][part.values.length - 1];
+    if (part.closed || !expected || expected.indexOf(match[2]) < 0) {
+      throw invalid(text, 'misplaced ' + match[2]);
+    }
+  } else if (letter) {
+    part.hemisphere = letter;
+    part.sign = letter === 'S' || letter === 'W' ? -1 : 1;
+    part.closed = part.values.length > 0;
+  }
+}
+
+// whether a number or a letter can't belong to the current part: signed
+// numbers can only be degrees, and a letter following a leading one starts
+// the next part
+function startsPart(part: DMSPart, value?: string, letter?: string): boolean {
+  if (value) {
+    return !!part.closed || (!!part.values.length && /^[-+]/.test(value));
+  }
+  return !!letter && (!!part.closed || !!part.hemisphere);
+}
+
+function toDegrees(text: string, part: DMSPart): number {
+  const values = part.values;
+  if (!values.length || values.length > 3) {
+    throw invalid(text, 'expected degrees, minutes and seconds');
+  }
+  if (part.hemisphere && /[-+]/.test(values[0])) {
+    throw invalid(text, 'both a sign and a hemisphere letter');
+  }
+  if (values.slice(0, -1).join('').indexOf('.') >= 0) {
+    throw invalid(text, 'only the last unit can have decimals');
+  }
+
+  let degrees = 0;
+  for (let i = values.length - 1; i >= 0; i--) {
+    const value = Math.abs(parseFloat(values[i]));
+    if (i > 0 && value >= 60) {
+      throw invalid(text, 'minutes and seconds must be below 60');
+    }
+    degrees = degrees / 60 + value;
+  }
+
+  return (values[0].charAt(0) === '-' ? -1 : 1) * part.sign * degrees;
+}
+
+// projections of the UTM zones, by zone number and hemisphere
+const utmProjections: { [key: string]: Projection } = {};
+
+function utmProjection(zone: number, south: boolean): Projection {
+  const key = zone + (south ? 'S' : 'N');
+  if (!utmProjections[key]) {
+    utmProjections[key] = transverseMercator(utmOptions(zone, south));
+  }
+  return utmProjections[key];
+}
+
+function checkUTMLatitude(latlng: LatLng): void {
+  if (latlng.lat < -80 || latlng.lat > 84) {
+    throw new Error('Latitude out of UTM range: ' + latlng.lat);
+  }
+}
+
+// @function formatUTM(latlng: LatLng, precision?: Number): String
+// Formats a point as UTM coordinates with the zone number, hemisphere
+// letter, easting and northing in meters (with `precision` decimals),
+// e.g. `31N 448252 5411944`.
+export function formatUTM(latlng: LatLng, precision = 0): string {
+  checkUTMLatitude(latlng);
+
+  const zone = utmZone(latlng);
+  const south = latlng.lat < 0;
+  const point = utmProjection(zone, south).project(latlng);
+
+  return (
+    zone +
+    (south ? 'S ' : 'N ') +
+    point.x.toFixed(precision) +
+    ' ' +
+    point.y.toFixed(precision)
+  );
+}
+
+// @function parseUTM(text: String): LatLng
+// Parses UTM coordinates in the format of `formatUTM`.
+export function parseUTM(text: string): LatLng {
+  const match = /^\s*(\d{1,2})\s*([NS])\s+(\d+(?:\.\d+)?)\s*[,\s]\s*(\d+(?:\.\d+)?)\s*$/i.exec(
+    text,
+  );
+  if (!match) {
+    throw invalid(text, 'expected zone, hemisphere, easting and northing');
+  }
+
+  const zone = +match[1];
+  const easting = +match[3];
+  const northing = +match[4];
+
+  if (zone < 1 || zone > 60) {
+    throw invalid(text, 'zone out of range');
+  }
+  if (easting < 100000 || easting >= 1000000) {
+    throw invalid(text, 'easting out of range');
+  }
+  if (northing > 10000000) {
+    throw invalid(text, 'northing out of range');
+  }
+
+  return utmProjection(zone, match[2].toUpperCase() === 'S').unproject(
+    new Point(easting, northing),
+  );
+}
+
+// latitude bands of 8° from 80°S, the last one extending to 84°N
+const mgrsBands = 'CDEFGHJKLMNPQRSTUVWX';
+// column letters of the 100 km squares, for zones 1, 2 and 3 modulo 3
+const mgrsColumns = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+// row letters of the 100 km squares, repeating every 2000 km
+const mgrsRows = 'ABCDEFGHJKLMNPQRSTUV';
+// lowest northing of each latitude band, in hundreds of kilometers
+const mgrsMinNorthings = [
+  11,
+  20,
+  28,
+  37,
+  46,
+  55,
+  64,
+  73,
+  82,
+  91,
+  0,
+  8,
+  17,
+  26,
+  35,
+  44,
+  53,
+  62,
+  70,
+  79,
+];
+
+// @function formatMGRS(latlng: LatLng, precision?: Number): String
+// Formats a point as an MGRS grid reference, with `precision` digits (0 to
+// 5, 5 by default for 1 m) for each of the easting and northing, e.g.
+// `31U DQ 48251 11943`.
+export function formatMGRS(latlng: LatLng, precision = 5): string {
+  checkUTMLatitude(latlng);
+  if (precision < 0 || precision > 5 || Math.floor(precision) !== precision) {
+    throw new Error('Invalid MGRS precision: ' + precision);
+  }
+
+  const zone = utmZone(latlng);
+  const point = utmProjection(zone, latlng.lat < 0).project(latlng);
+  const band = mgrsBands[Math.min(Math.floor((latlng.lat + 80) / 8), 19)];
+  const column = mgrsColumns[(zone - 1) % 3][Math.floor(point.x / 1e5) - 1];
+  const row = mgrsRows[(Math.floor(point.y / 1e5) + (zone % 2 ? 0 : 5)) % 20];
+
+  // grid references are truncated, not rounded
+  const divisor = Math.pow(10, 5 - precision);
+  const easting = Math.floor((point.x % 1e5) / divisor);
+  const northing = Math.floor((point.y % 1e5) / divisor);
+
+  return (
+    zone +
+    band +
+    ' ' +
+    column +
+    row +
+    (precision
+      ? ' ' +
+        padDigits(easting, precision) +
+        ' ' +
+        padDigits(northing, precision)
+      : '')
+  );
+}
+
+function padDigits(value: number, digits: number): string {
+  let text = String(value);
+  while (text.length < digits) {
+    text = '0' + text;
+  }
+  return text;
+}
+
+// @function parseMGRS(text: String): LatLng
+// Parses an MGRS grid reference, with or without spaces, returning the
+// center of the square it designates.
+export function parseMGRS(text: string): LatLng {
+  const match = /^\s*(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d*)\s*(\d*)\s*$/i.exec(
+    text,
+  );
+  if (!match) {
+    throw invalid(text, 'expected zone, band, square and digits');
+  }
+
+  const zone = +match[1];
+  const band = mgrsBands.indexOf(match[2].toUpperCase());
+  const column = mgrsColumns[(zone - 1) % 3].indexOf(match[3].toUpperCase());
+  const row = mgrsRows.indexOf(match[4].toUpperCase());
+  const digits = match[5] + match[6];
+  const precision = digits.length / 2;
+
+  if (zone < 1 || zone > 60) {
+    throw invalid(text, 'zone out of range');
+  }
+  if (column < 0) {
+    throw invalid(text, 'column letter not used in zone ' + zone);
+  }
+  if (
+    precision > 5 ||
+    Math.floor(precision) !== precision ||
+    (match[6] && match[5].length !== match[6].length)
+  ) {
+    throw invalid(text, 'expected as many easting as northing digits');
+  }
+
+  const size = Math.pow(10, 5 - precision);
+  const easting =
+    (column + 1) * 1e5 + (+digits.slice(0, precision) || 0) * size + size / 2;
+  let northing =
+    ((row - (zone % 2 ? 0 : 5) + 20) % 20) * 1e5 +
+    (+digits.slice(precision) || 0) * size +
+    size / 2;
+
+  // the row letters repeat every 2000 km, the band tells which cycle it is
+  while (northing < mgrsMinNorthings[band] * 1e5) {
+    northing += 2e6;
+  }
+
+  return utmProjection(zone, band < 10).unproject(new Point(easting, northing));
+}
+
+const geohashAlphabet = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// @function formatGeohash(latlng: LatLng, precision?: Number): String
+// Encodes a point as a geohash of `precision` characters (9 by default,
+// about 5 m).
+export function formatGeohash(latlng: LatLng, precision = 9): string {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let index = 0;
+
+  // bits alternate between longitude and latitude, starting with longitude
+  for (let even = true; hash.length < precision; even = !even) {
+    const range = even ? lng : lat;
+    const value = even ? latlng.lng : latlng.lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    index *= 2;
+    if (value >= mid) {
+      index += 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    if (++bits === 5) {
+      hash += geohashAlphabet[index];
+      bits = 0;
+      index = 0;
+    }
+  }
+  return hash;
+}
+
+// @function geohashBounds(hash: String): LatLngBounds
+// Returns the bounds of the cell designated by a geohash.
+export function geohashBounds(hash: string): LatLngBounds {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let even = true;
+
+  if (!hash) {
+    throw invalid(hash, 'empty geohash');
+  }
+
+  for (let i = 0; i < hash.length; i++) {
+    const index = geohashAlphabet.indexOf(hash.charAt(i).toLowerCase());
+    if (index < 0) {
+      throw invalid(hash, 'unexpected character at ' + (i + 1));
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = even ? lng : lat;
+      range[(index >> bit) & 1 ? 0 : 1] = (range[0] + range[1]) / 2;
+      even = !even;
+    }
+  }
+
+  return new LatLngBounds([lat[0], lng[0]], [lat[1], lng[1]]);
+}
+
+// @function parseGeohash(hash: String): LatLng
+// Decodes a geohash, returning the center of its cell.
+export function parseGeohash(hash: string): LatLng {
+  return geohashBounds(hash).getCenter();
+}
+
+// @function parse(text: String): LatLng
+// Parses a point written as an MGRS grid reference, UTM coordinates or in
+// degrees, telling them apart by their format.
+export function parse(text: string): LatLng {
+  if (/^\s*\d{1,2}\s*[A-Z]\s*[A-Z]{2}/i.test(text)) {
+    return parseMGRS(text);
+  }
+  if (/^\s*\d{1,2}\s*[NS]\s+\d{6}/i.test(text)) {
+    return parseUTM(text);
+  }
+  return parseDMS(text);
+}
@@ -0,0 +1,409 @@
+import { LatLng } from './LatLng';
+import {
+  Ellipsoid,
+  WGS84,
+  eccentricity,
+} from './projection/Projection.Ellipsoid';
+
+/*
+ * @namespace Geodesic
+ *
+ * Distances, bearings, destinations and areas on the Earth, either on a
+ * sphere (fast, within about 0.5%) or on an ellipsoid using T. Vincenty's
+ * inverse and direct solutions, "Direct and Inverse Solutions of Geodesics on
+ * the Ellipsoid with application of nested equations" (1975), accurate to
+ * less than a millimeter. Bearings are in degrees clockwise from north, in
+ * the `[0, 360)` range; distances and areas are in meters and square meters.
+ */
+
+const rad = Math.PI / 180;
+
+export interface GeodesicInverse {
+  // length of the geodesic between the two points
+  distance: number;
+  // bearing at the first point
+  initialBearing: number;
+  // bearing at the second point
+  finalBearing: number;
+}
+
+export interface GeodesicDirect {
+  // point reached at the end of the geodesic
+  latlng: LatLng;
+  // bearing at that point
+  finalBearing: number;
+}
+
+function toBearing(angle: number): number {
+  return (angle / rad + 360) % 360;
+}
+
+// @function sphericalDistance(latlng1: LatLng, latlng2: LatLng, radius: Number): Number
+// Returns the great circle distance between two points, using the haversine formula.
+export function sphericalDistance(
+  latlng1: LatLng,
+  latlng2: LatLng,
+  radius: number,
+): number {
+  const lat1 = latlng1.lat * rad;
+  const lat2 = latlng2.lat * rad;
+  const sinDLat = Math.sin(((latlng2.lat - latlng1.lat) * rad) / 2);
+  const sinDLon = Math.sin(((latlng2.lng - latlng1.lng) * rad) / 2);
+  const a =
+    sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return radius * c;
+}
+
+// @function sphericalBearing(latlng1: LatLng, latlng2: LatLng): Number
+// Returns the initial bearing of the great circle from `latlng1` to `latlng2`.
+export function sphericalBearing(latlng1: LatLng, latlng2: LatLng): number {
+  const lat1 = latlng1.lat * rad;
+  const lat2 = latlng2.lat * rad;
+  const dLng = (latlng2.lng - latlng1.lng) * rad;
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return toBearing(Math.atan2(y, x));
+}
+
+// @function sphericalDestination(latlng: LatLng, bearing: Number, distance: Number, radius: Number): LatLng
+// Returns the point reached by following the great circle starting at
+// `latlng` in the direction of `bearing` for `distance` meters.
+export function sphericalDestination(
+  latlng: LatLng,
+  bearing: number,
+  distance: number,
+  radius: number,
+): LatLng {
+  const delta = distance / radius;
+  const theta = bearing * rad;
+  const lat1 = latlng.lat * rad;
+  const sinLat2 =
+    Math.sin(lat1) * Math.cos(delta) +
+    Math.cos(lat1) * Math.sin(delta) * Math.cos(theta);
+  const dLng = Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+    Math.cos(delta) - Math.sin(lat1) * sinLat2,
+  );
+  return new LatLng(Math.asin(sinLat2) / rad, latlng.lng + dLng / rad);
+}
+
+// @function sphericalArea(latlngs: LatLng[], radius: Number): Number
+// Returns the area of the polygon with the given vertices, whose edges are
+// great circle arcs. The ring is closed implicitly and may wind either way.
+// For a ring going around a pole, returns the area of the smaller of the two
+// caps it splits the sphere into.
+export function sphericalArea(latlngs: LatLng[], radius: number): number {
+  const len = latlngs.length;
+  if (len < 3) {
+    return 0;
+  }
+
+  // sum of the signed spherical excesses of the areas between each edge and
+  // the equator, and of the longitude differences along the ring
+  let excess = 0;
+  let winding = 0;
+  for (let i = 0; i < len; i++) {
+    const p1 = latlngs[i];
+    const p2 = latlngs[(i + 1) % len];
+    const t1 = Math.tan((p1.lat * rad) / 2);
+    const t2 = Math.tan((p2.lat * rad) / 2);
+    const dLng = ((((p2.lng - p1.lng) % 360) + 540) % 360) - 180;
+    excess +=
+      2 * Math.atan2(Math.tan((dLng * rad) / 2) * (t1 + t2), 1 + t1 * t2);
+    winding += dLng;
+  }
+
+  // for a ring winding around the poles, the excess is the difference between
+  // a hemisphere and the smaller of the two caps
+  if (Math.abs(winding) > 180) {
+    excess = 2 * Math.PI - Math.abs(excess);
+  }
+
+  return Math.abs(excess) * radius * radius;
+}
+
+// Vincenty's series coefficients A and B for the given `u²`
+function vincentyAB(uSq: number): [number, number] {
+  return [
+    1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq))),
+    (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq))),
+  ];
+}
+
+// Vincenty's Δσ
+function vincentyDeltaSigma(
+  B: number,
+  sinSigma: number,
+  cosSigma: number,
+  cos2SigmaM: number,
+): number {
+  const cos2 = cos2SigmaM * cos2SigmaM;
+  return (
+    B *
+    sinSigma *
+    (cos2SigmaM +
+      (B / 4) *
+        (cosSigma * (-1 + 2 * cos2) -
+          (B / 6) *
+            cos2SigmaM *
+            (-3 + 4 * sinSigma * sinSigma) *
+            (-3 + 4 * cos2)))
+  );
+}
+
+// difference between the longitude on the auxiliary sphere and on the ellipsoid
+function vincentyLambdaOffset(
+  f: number,
+  sinAlpha: number,
+  cosSqAlpha: number,
+  sigma: number,
+  sinSigma: number,
+  cosSigma: number,
+  cos2SigmaM: number,
+): number {
+  const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+  return (
+    (1 - C) *
+    f *
+    sinAlpha *
+    (sigma +
+      C *
+        sinSigma *
+        (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)))
+  );
+}
+
+// @function geodesicInverse(latlng1: LatLng, latlng2: LatLng, ellipsoid?: Ellipsoid): Object
+// Solves the inverse geodesic problem between two points on the ellipsoid
+// (`WGS84` by default), returning an object with the `distance` and the
+// `initialBearing` and `finalBearing` of the geodesic. Returns `null` for
+// nearly antipodal points, for which Vincenty's iteration doesn't converge.
+export function geodesicInverse(
+  latlng1: LatLng,
+  latlng2: LatLng,
+  ellipsoid: Ellipsoid = WGS84,
+): GeodesicInverse | null {
+  const f = ellipsoid.f;
+  const b = ellipsoid.a * (1 - f);
+  const L = (latlng2.lng - latlng1.lng) * rad;
+
+  // reduced latitudes
+  const tanU1 = (1 - f) * Math.tan(latlng1.lat * rad);
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const tanU2 = (1 - f) * Math.tan(latlng2.lat * rad);
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let prevLambda;
+  let sinLambda = 0;
+  let cosLambda = 1;
+  let sigma = 0;
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let cos2SigmaM = 0;
+  let cosSqAlpha = 1;
+  let iterations = 0;
+
+  do {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const x = cosU1 * sinU2 - sinU1 * cosU2 * cosLambda;
+    sinSigma = Math.sqrt(cosU2 * sinLambda * (cosU2 * sinLambda) + x * x);
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    if (sinSigma === 0) {
+      // coincident or exactly antipodal points
+      return cosSigma > 0
+        ? { distance: 0, initialBearing: 0, finalBearing: 0 }
+        : null;
+    }
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // equatorial lines have cos²α = 0
+    cos2SigmaM = cosSqAlpha ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    prevLambda = lambda;
+    lambda =
+      L +
+      vincentyLambdaOffset(
+        f,
+        sinAlpha,
+        cosSqAlpha,
+        sigma,
+        sinSigma,
+        cosSigma,
+        cos2SigmaM,
+      );
+  } while (Math.abs(lambda - prevLambda) > 1e-12 && ++iterations < 200);
+
+  if (iterations >= 200) {
+    return null;
+  }
+
+  const a2 = ellipsoid.a * ellipsoid.a;
+  const [A, B] = vincentyAB((cosSqAlpha * (a2 - b * b)) / (b * b));
+  const deltaSigma = vincentyDeltaSigma(B, sinSigma, cosSigma, cos2SigmaM);
+
+  return {
+    distance: b * A * (sigma - deltaSigma),
+    initialBearing: toBearing(
+      Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda),
+    ),
+    finalBearing: toBearing(
+      Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda),
+    ),
+  };
+}
+
+// @function geodesicDirect(latlng: LatLng, bearing: Number, distance: Number, ellipsoid?: Ellipsoid): Object
+// Solves the direct geodesic problem on the ellipsoid (`WGS84` by default),
+// returning an object with the `latlng` reached by following the geodesic
+// starting at `latlng` in the direction of `bearing` for `distance` meters,
+// and the `finalBearing` there.
+export function geodesicDirect(
+  latlng: LatLng,
+  bearing: number,
+  distance: number,
+  ellipsoid: Ellipsoid = WGS84,
+): GeodesicDirect {
+  const f = ellipsoid.f;
+  const b = ellipsoid.a * (1 - f);
+  const sinAlpha1 = Math.sin(bearing * rad);
+  const cosAlpha1 = Math.cos(bearing * rad);
+
+  const tanU1 = (1 - f) * Math.tan(latlng.lat * rad);
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+
+  // angular distance on the sphere from the equator to the starting point
+  const sigma1 = Math.atan2(tanU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const a2 = ellipsoid.a * ellipsoid.a;
+  const [A, B] = vincentyAB((cosSqAlpha * (a2 - b * b)) / (b * b));
+
+  let sigma = distance / (b * A);
+  let prevSigma;
+  let sinSigma;
+  let cosSigma;
+  let cos2SigmaM;
+  let iterations = 0;
+
+  do {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    prevSigma = sigma;
+    sigma =
+      distance / (b * A) +
+      vincentyDeltaSigma(B, sinSigma, cosSigma, cos2SigmaM);
+  } while (Math.abs(sigma - prevSigma) > 1e-12 && ++iterations < 100);
+
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const lat2 = Math.atan2(
+    sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+    (1 - f) * Math.sqrt(sinAlpha * sinAlpha + x * x),
+  );
+  const lambda = Math.atan2(
+    sinSigma * sinAlpha1,
+    cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1,
+  );
+  const L =
+    lambda -
+    vincentyLambdaOffset(
+      f,
+      sinAlpha,
+      cosSqAlpha,
+      sigma,
+      sinSigma,
+      cosSigma,
+      cos2SigmaM,
+    );
+
+  return {
+    latlng: new LatLng(lat2 / rad, latlng.lng + L / rad),
+    finalBearing: toBearing(Math.atan2(sinAlpha, -x)),
+  };
+}
+
+// authalic (equal area) latitude function `q` (Snyder eq. 3-12)
+function qsfn(sinPhi: number, e: number): number {
+  const con = e * sinPhi;
+  return (
+    (1 - e * e) *
+    (sinPhi / (1 - con * con) - Math.log((1 - con) / (1 + con)) / (2 * e))
+  );
+}
+
+// longest edge between two vertices passed to `sphericalArea`, in meters
+const AREA_SEGMENT = 50000;
+
+// @function geodesicArea(latlngs: LatLng[], ellipsoid?: Ellipsoid): Number
+// Returns the area of the polygon with the given vertices on the ellipsoid
+// (`WGS84` by default), whose edges are geodesics. The ring is closed
+// implicitly and may wind either way.
+export function geodesicArea(
+  latlngs: LatLng[],
+  ellipsoid: Ellipsoid = WGS84,
+): number {
+  const len = latlngs.length;
+  if (len < 3) {
+    return 0;
+  }
+
+  // Maps the vertices onto the authalic sphere, which has the same area as
+  // the ellipsoid, after splitting long geodesic edges so that the great
+  // circle arcs between the mapped vertices follow them closely.
+  const e = eccentricity(ellipsoid);
+  const qp = qsfn(1, e);
+  const authalic: LatLng[] = [];
+
+  for (let i = 0; i < len; i++) {
+    const vertices = densifyGeodesic(
+      latlngs[i],
+      latlngs[(i + 1) % len],
+      ellipsoid,
+    );
+    for (let j = 0; j < vertices.length; j++) {
+      const q = qsfn(Math.sin(vertices[j].lat * rad), e);
+      const beta = Math.asin(Math.max(-1, Math.min(1, q / qp)));
+      authalic.push(new LatLng(beta / rad, vertices[j].lng));
+    }
+  }
+
+  return sphericalArea(authalic, ellipsoid.a * Math.sqrt(qp / 2));
+}
+
+// the start of a geodesic edge followed by points along it, without its end
+function densifyGeodesic(
+  latlng1: LatLng,
+  latlng2: LatLng,
+  ellipsoid: Ellipsoid,
+): LatLng[] {
+  const inverse = geodesicInverse(latlng1, latlng2, ellipsoid);
+  const vertices = [latlng1];
+  if (!inverse || inverse.distance <= AREA_SEGMENT) {
+    return vertices;
+  }
+
+  const steps = Math.ceil(inverse.distance / AREA_SEGMENT);
+  for (let i = 1; i < steps; i++) {
+    vertices.push(
+      geodesicDirect(
+        latlng1,
+        inverse.initialBearing,
+        (inverse.distance * i) / steps,
+        ellipsoid,
+      ).latlng,
+    );
+  }
+  return vertices;
+}
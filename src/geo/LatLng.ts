@@ -24,6 +24,31 @@
  */
 
 import { formatNum, isArray } from '@/core/Util';
+import type { CRS } from './crs/CRS';
+import type { Earth } from './crs/CRS.Earth';
+import type { LatLngBounds } from './LatLngBounds';
+
+// `CRS.EPSG3857` (the default CRS of the measurement methods) and
+// `LatLngBounds` depend on `LatLng`, so importing them here would make import
+// cycles. They are looked up lazily instead, once their modules have
+// registered them.
+let defaultCRS: Earth | undefined;
+let latLngBoundsClass: typeof LatLngBounds | undefined;
+
+export function registerDefaultCRS(crs: Earth): void {
+  defaultCRS = crs;
+}
+
+export function registerLatLngBounds(bounds: typeof LatLngBounds): void {
+  latLngBoundsClass = bounds;
+}
+
+function lookup<T>(value: T | undefined, name: string): T {
+  if (!value) {
+    throw new Error(name + ' is not loaded.');
+  }
+  return value;
+}
 
 export class LatLng {
   public lat: number;
@@ -81,6 +106,90 @@ export class LatLng {
     );
   }
 
+  // @method distanceTo(otherLatLng: LatLng, crs?: CRS): Number
+  // Returns the distance (in meters) to the given `LatLng`, as measured by
+  // the given CRS (`CRS.EPSG3857` by default). See `geodesicCRS`.
+  public distanceTo(
+    other: LatLngLike,
+    crs: CRS = lookup(defaultCRS, 'CRS.EPSG3857'),
+  ): number {
+    return crs.distance(this, toLatLng(other) as LatLng);
+  }
+
+  // @method wrap(crs?: CRS): LatLng
+  // Returns a new `LatLng` object with the longitude wrapped so it's always between -180 and +180 degrees.
+  public wrap(crs: CRS = lookup(defaultCRS, 'CRS.EPSG3857')): LatLng {
+    return crs.wrapLatLng(this);
+  }
+
+  // @method toBounds(sizeInMeters: Number): LatLngBounds
+  // Returns a new `LatLngBounds` object in which each boundary is `sizeInMeters/2` meters apart from the `LatLng`.
+  public toBounds(sizeInMeters: number): LatLngBounds {
+    const latAccuracy = (180 * sizeInMeters) / 40075017;
+    const lngAccuracy = latAccuracy / Math.cos((Math.PI / 180) * this.lat);
+
+    const BoundsClass = lookup(latLngBoundsClass, 'LatLngBounds');
+
+    return new BoundsClass(
+      [this.lat - latAccuracy, this.lng - lngAccuracy],
+      [this.lat + latAccuracy, this.lng + lngAccuracy],
+    );
+  }
+
+  // @method bearingTo(otherLatLng: LatLng, crs?: Earth): Number
+  // Returns the initial bearing (in degrees clockwise from north) of the
+  // shortest path to the given `LatLng`.
+  public bearingTo(
+    other: LatLngLike,
+    crs: Earth = lookup(defaultCRS, 'CRS.EPSG3857'),
+  ): number {
+    return crs.initialBearing(this, toLatLng(other) as LatLng);
+  }
+
+  // @method destinationPoint(bearing: Number, meters: Number, crs?: Earth): LatLng
+  // Returns the point reached by traveling `meters` along the shortest path
+  // starting in the direction of `bearing` (in degrees clockwise from north).
+  public destinationPoint(
+    bearing: number,
+    meters: number,
+    crs: Earth = lookup(defaultCRS, 'CRS.EPSG3857'),
+  ): LatLng {
+    return crs.destination(this, bearing, meters);
+  }
+
+  // @method midpoint(otherLatLng: LatLng, crs?: Earth): LatLng
+  // Returns the point halfway along the shortest path to the given `LatLng`.
+  public midpoint(
+    other: LatLngLike,
+    crs: Earth = lookup(defaultCRS, 'CRS.EPSG3857'),
+  ): LatLng {
+    return this.interpolate(other, 0.5, crs);
+  }
+
+  // @method interpolate(otherLatLng: LatLng, fraction: Number, crs?: Earth): LatLng
+  // Returns the point at the given `fraction` (`0` being this point and `1`
+  // the given one) of the shortest path to the given `LatLng`.
+  public interpolate(
+    other: LatLngLike,
+    fraction: number,
+    crs: Earth = lookup(defaultCRS, 'CRS.EPSG3857'),
+  ): LatLng {
+    const latlng = toLatLng(other) as LatLng;
+    const distance = crs.distance(this, latlng);
+
+    if (!distance || fraction === 0) {
+      return this.clone();
+    }
+    if (fraction === 1) {
+      return latlng.clone();
+    }
+    return crs.destination(
+      this,
+      crs.initialBearing(this, latlng),
+      distance * fraction,
+    );
+  }
+
   public clone(): LatLng {
     return new LatLng(this.lat, this.lng, this.alt);
   }
@@ -1,4 +1,5 @@
-import { LatLng, LatLngLike, toLatLng } from './LatLng';
+import { isArray } from '@/core/Util';
+import { LatLng, LatLngLike, registerLatLngBounds, toLatLng } from './LatLng';
 
 export type LatLngBoundsLike = LatLngBounds | LatLngLike[];
 
@@ -27,6 +28,15 @@ export type LatLngBoundsLike = LatLngBounds | LatLngLike[];
  *
  * Caution: if the area crosses the antimeridian (often confused with the International Date Line), you must specify corners _outside_ the [-180, 180] degrees longitude range.
  *
+ * The predicates (`contains`, `intersects`, `overlaps`, `equals`) and set
+ * operations (`intersection`, `union`) compare the raw coordinates, as needed
+ * for CRSs whose coordinates don't wrap, like `CRS.Simple`. Pass `wrap` to
+ * treat longitudes as angles instead: bounds and points are then compared
+ * after shifting them by multiples of 360°, so that e.g.
+ * `[[-10, 170], [10, 190]]` contains `[0, -175]`, and bounds spanning 360° or
+ * more cover every longitude. For bounds on a map, that's whether its CRS has
+ * a `wrapLng`.
+ *
  * Note that `LatLngBounds` does not inherit from Leaflet's `Class` object,
  * which means new classes can't inherit from it, and new methods
  * can't be added to it with the `include` function.
@@ -162,9 +172,254 @@ export class LatLngBounds {
   public getSouthEast(): LatLng {
     return new LatLng(this.getSouth(), this.getEast());
   }
+
+  // @method contains(otherBounds: LatLngBounds, wrap?: Boolean): Boolean
+  // Returns `true` if the rectangle contains the given one.
+  // @alternative
+  // @method contains(latlng: LatLng, wrap?: Boolean): Boolean
+  // Returns `true` if the rectangle contains the given point.
+  public contains(obj: LatLngBoundsLike | LatLngLike, wrap?: boolean): boolean {
+    const other = toBounds(obj);
+    if (!this.isValid() || !other.isValid()) {
+      return false;
+    }
+
+    return (
+      other.getSouth() >= this.getSouth() &&
+      other.getNorth() <= this.getNorth() &&
+      lngContains(this, other, wrap)
+    );
+  }
+
+  // @method intersects(otherBounds: LatLngBounds, wrap?: Boolean): Boolean
+  // Returns `true` if the rectangle intersects the given bounds. Two bounds
+  // intersect if they have at least one point in common.
+  public intersects(bounds: LatLngBoundsLike, wrap?: boolean): boolean {
+    return !!this.intersection(bounds, wrap);
+  }
+
+  // @method overlaps(otherBounds: LatLngBounds, wrap?: Boolean): Boolean
+  // Returns `true` if the rectangle overlaps the given bounds. Two bounds
+  // overlap if their intersection is an area.
+  public overlaps(bounds: LatLngBoundsLike, wrap?: boolean): boolean {
+    const intersection = this.intersection(bounds, wrap);
+
+    return (
+      !!intersection &&
+      intersection.getNorth() > intersection.getSouth() &&
+      intersection.getEast() > intersection.getWest()
+    );
+  }
+
+  // @method intersection(otherBounds: LatLngBounds, wrap?: Boolean): LatLngBounds|null
+  // Returns the bounds shared by the rectangle and the given bounds, in the
+  // longitude range of the rectangle, or `null` if they don't intersect.
+  // If the intersection is split in two (which happens when the bounds
+  // together span more than 360°), returns its widest part.
+  public intersection(
+    bounds: LatLngBoundsLike,
+    wrap?: boolean,
+  ): LatLngBounds | null {
+    const other = toLatLngBounds(bounds);
+    if (!this.isValid() || !other.isValid()) {
+      return null;
+    }
+
+    const south = Math.max(this.getSouth(), other.getSouth());
+    const north = Math.min(this.getNorth(), other.getNorth());
+    const lngs = lngIntersection(this, other, wrap);
+
+    if (south > north || !lngs) {
+      return null;
+    }
+    return new LatLngBounds([south, lngs[0]], [north, lngs[1]]);
+  }
+
+  // @method union(otherBounds: LatLngBounds, wrap?: Boolean): LatLngBounds
+  // Returns the smallest bounds containing both the rectangle and the given
+  // bounds, which crosses the antimeridian if that makes it narrower.
+  // Unlike `extend`, doesn't modify the rectangle.
+  public union(bounds: LatLngBoundsLike, wrap?: boolean): LatLngBounds {
+    const other = toLatLngBounds(bounds);
+    if (!this.isValid() || !other.isValid()) {
+      return new LatLngBounds([]).extend(this).extend(other);
+    }
+
+    const lngs = lngUnion(this, other, wrap);
+
+    return new LatLngBounds(
+      [Math.min(this.getSouth(), other.getSouth()), lngs[0]],
+      [Math.max(this.getNorth(), other.getNorth()), lngs[1]],
+    );
+  }
+
+  // @method equals(otherBounds: LatLngBounds, maxMargin?: Number, wrap?: Boolean): Boolean
+  // Returns `true` if the rectangle is equivalent (within a small margin of
+  // error) to the given bounds. The margin of error can be overridden by
+  // setting `maxMargin` to a small number.
+  public equals(
+    bounds: LatLngBoundsLike,
+    maxMargin?: number,
+    wrap?: boolean,
+  ): boolean {
+    if (!bounds || !this.isValid()) {
+      return false;
+    }
+
+    const other = toLatLngBounds(bounds);
+    if (!other.isValid()) {
+      return false;
+    }
+
+    const margin = maxMargin === undefined ? 1.0e-9 : maxMargin;
+    let dWest = other.getWest() - this.getWest();
+    if (wrap) {
+      dWest = wrapDegrees(dWest + 180) - 180;
+    }
+
+    return (
+      Math.max(
+        Math.abs(other.getSouth() - this.getSouth()),
+        Math.abs(other.getNorth() - this.getNorth()),
+        Math.abs(dWest),
+        Math.abs(lngSpan(other) - lngSpan(this)),
+      ) <= margin
+    );
+  }
+
+  // @method toBBoxString(): String
+  // Returns a string with bounding box coordinates in a 'southwest_lng,southwest_lat,northeast_lng,northeast_lat' format. Useful for sending requests to web services that return geo data.
+  public toBBoxString(): string {
+    return [
+      this.getWest(),
+      this.getSouth(),
+      this.getEast(),
+      this.getNorth(),
+    ].join(',');
+  }
+
+  // @method isValid(): Boolean
+  // Returns `true` if the bounds are properly initialized.
+  public isValid(): boolean {
+    return !!(this.southWest && this.northEast);
+  }
+}
+
+// `angle` in the `[0, 360)` range
+function wrapDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function lngSpan(bounds: LatLngBounds): number {
+  return bounds.getEast() - bounds.getWest();
+}
+
+// the bounds of a point, or the given bounds
+function toBounds(obj: LatLngBoundsLike | LatLngLike): LatLngBounds {
+  if (
+    obj instanceof LatLngBounds ||
+    (isArray(obj) && typeof obj[0] !== 'number')
+  ) {
+    return toLatLngBounds(obj as LatLngBoundsLike);
+  }
+
+  const latlng = toLatLng(obj as LatLngLike);
+  return new LatLngBounds(latlng ? [latlng] : []);
+}
+
+// Offset to add to the longitudes of `b` for them to be compared with the
+// ones of `a`: the multiple of 360° moving the west edge of `b` to the
+// closest longitude at or east of the west edge of `a`.
+function lngShift(a: LatLngBounds, b: LatLngBounds): number {
+  return a.getWest() + wrapDegrees(b.getWest() - a.getWest()) - b.getWest();
+}
+
+function lngContains(
+  a: LatLngBounds,
+  b: LatLngBounds,
+  wrap?: boolean,
+): boolean {
+  if (!wrap) {
+    return b.getWest() >= a.getWest() && b.getEast() <= a.getEast();
+  }
+  if (lngSpan(a) >= 360) {
+    return true;
+  }
+  return b.getEast() + lngShift(a, b) <= a.getEast();
 }
 
-// TODO International date line?
+// the widest longitude range shared by `a` and `b`, in the one of `a`
+function lngIntersection(
+  a: LatLngBounds,
+  b: LatLngBounds,
+  wrap?: boolean,
+): [number, number] | null {
+  const west = a.getWest();
+  const east = a.getEast();
+
+  if (!wrap) {
+    const lngs: [number, number] = [
+      Math.max(west, b.getWest()),
+      Math.min(east, b.getEast()),
+    ];
+    return lngs[0] <= lngs[1] ? lngs : null;
+  }
+  if (lngSpan(b) >= 360) {
+    return [west, east];
+  }
+  // `b` starts within or east of `a`, so the shared ranges are its start, and
+  // its end moved one turn back
+  const west2 = b.getWest() + lngShift(a, b);
+  const east2 = b.getEast() + lngShift(a, b);
+
+  if (lngSpan(a) >= 360) {
+    // all of `b` is shared, but it may stick out of the east of `a`, going on
+    // from the west of `a`
+    if (east2 <= east) {
+      return [west2, east2];
+    }
+    return east - west2 >= east2 - 360 - west
+      ? [west2, east]
+      : [west, east2 - 360];
+  }
+
+  const start = west2 <= east ? east2 - west2 : -1;
+  const end = east2 - 360 >= west ? east2 - 360 - west : -1;
+
+  if (start < 0 && end < 0) {
+    return null;
+  }
+  return start >= end
+    ? [west2, Math.min(east, east2)]
+    : [west, Math.min(east, east2 - 360)];
+}
+
+// the narrowest longitude range containing the ones of `a` and `b`
+function lngUnion(
+  a: LatLngBounds,
+  b: LatLngBounds,
+  wrap?: boolean,
+): [number, number] {
+  const west = a.getWest();
+  const east = a.getEast();
+
+  if (!wrap || lngSpan(a) >= 360 || lngSpan(b) >= 360) {
+    const lngs: [number, number] = [
+      Math.min(west, b.getWest()),
+      Math.max(east, b.getEast()),
+    ];
+    return !wrap || lngs[1] - lngs[0] < 360 ? lngs : [west, west + 360];
+  }
+
+  // either `b` follows `a` eastwards, or it precedes it one turn back
+  const west2 = b.getWest() + lngShift(a, b);
+  const east2 = b.getEast() + lngShift(a, b);
+  const after: [number, number] = [west, Math.max(east, east2)];
+  const before: [number, number] = [west2 - 360, Math.max(east, east2 - 360)];
+  const lngs = after[1] - after[0] <= before[1] - before[0] ? after : before;
+
+  return lngs[1] - lngs[0] < 360 ? lngs : [west, west + 360];
+}
 
 // @factory L.latLngBounds(corner1: LatLng, corner2: LatLng)
 // Creates a `LatLngBounds` object by defining two diagonally opposite corners of the rectangle.
@@ -181,3 +436,5 @@ export function toLatLngBounds(
   }
   return new LatLngBounds(a, b);
 }
+
+registerLatLngBounds(LatLngBounds);
@@ -0,0 +1,129 @@
+import { Earth } from './crs/CRS.Earth';
+import { EPSG3857 } from './crs/CRS.EPSG3857';
+import { LatLng } from './LatLng';
+
+/*
+ * @namespace TrackUtil
+ *
+ * Measurements along tracks, i.e. polylines given as arrays of geographical
+ * points, e.g. to compute the length of a route or locate a position on it.
+ * Distances are in meters, as measured by the given CRS (`CRS.EPSG3857` by
+ * default, see `geodesicCRS`).
+ */
+
+export interface TrackPosition {
+  // closest point of the track
+  latlng: LatLng;
+  // index in the track of the start of the segment containing `latlng`
+  index: number;
+  // distance from the start of the track to `latlng`, along the track
+  alongTrack: number;
+  // distance from the given point to `latlng`
+  crossTrack: number;
+}
+
+// @function length(latlngs: LatLng[], crs?: Earth): Number
+// Returns the length of the track.
+export function length(latlngs: LatLng[], crs: Earth = EPSG3857): number {
+  let total = 0;
+  for (let i = 1, len = latlngs.length; i < len; i++) {
+    total += crs.distance(latlngs[i - 1], latlngs[i]);
+  }
+  return total;
+}
+
+// @function pointAt(latlngs: LatLng[], meters: Number, crs?: Earth): LatLng
+// Returns the point at the given distance from the start of the track,
+// clamped to its ends, or `null` if the track is empty.
+export function pointAt(
+  latlngs: LatLng[],
+  meters: number,
+  crs: Earth = EPSG3857,
+): LatLng | null {
+  const len = latlngs.length;
+  if (!len) {
+    return null;
+  }
+
+  let remaining = meters;
+  for (let i = 1; i < len && remaining > 0; i++) {
+    const distance = crs.distance(latlngs[i - 1], latlngs[i]);
+    if (remaining < distance) {
+      return latlngs[i - 1].interpolate(latlngs[i], remaining / distance, crs);
+    }
+    remaining -= distance;
+  }
+  return remaining > 0 ? latlngs[len - 1] : latlngs[0];
+}
+
+// distance from the start of the segment to the point of it closest to `latlng`
+function alongSegment(
+  latlng: LatLng,
+  start: LatLng,
+  end: LatLng,
+  segmentLength: number,
+  crs: Earth,
+): number {
+  // angular distances on the sphere, the ellipsoid being close enough for a
+  // position (the distances returned are measured with the CRS)
+  const delta13 = crs.distance(start, latlng) / Earth.R;
+  const theta =
+    (crs.initialBearing(start, latlng) - crs.initialBearing(start, end)) *
+    (Math.PI / 180);
+  const crossTrack = Math.asin(Math.sin(delta13) * Math.sin(theta));
+  const cosRatio = Math.cos(delta13) / Math.cos(crossTrack);
+  const alongTrack =
+    Math.acos(Math.max(-1, Math.min(1, cosRatio))) *
+    (Math.cos(theta) < 0 ? -1 : 1) *
+    Earth.R;
+
+  return Math.max(0, Math.min(segmentLength, alongTrack));
+}
+
+// @function locate(latlngs: LatLng[], latlng: LatLng, crs?: Earth): TrackPosition
+// Returns the position of the track closest to the given point, as an
+// object with its `latlng`, the `index` of the segment it lies on, its
+// `alongTrack` distance from the start of the track and its `crossTrack`
+// distance from the given point. Returns `null` if the track is empty.
+export function locate(
+  latlngs: LatLng[],
+  latlng: LatLng,
+  crs: Earth = EPSG3857,
+): TrackPosition | null {
+  if (!latlngs.length) {
+    return null;
+  }
+
+  let closest: TrackPosition = {
+    latlng: latlngs[0],
+    index: 0,
+    alongTrack: 0,
+    crossTrack: crs.distance(latlng, latlngs[0]),
+  };
+
+  for (let i = 1, start = 0, len = latlngs.length; i < len; i++) {
+    const segmentLength = crs.distance(latlngs[i - 1], latlngs[i]);
+    const along = alongSegment(
+      latlng,
+      latlngs[i - 1],
+      latlngs[i],
+      segmentLength,
+      crs,
+    );
+    const point = segmentLength
+      ? latlngs[i - 1].interpolate(latlngs[i], along / segmentLength, crs)
+      : latlngs[i];
+    const crossTrack = crs.distance(latlng, point);
+
+    if (crossTrack < closest.crossTrack) {
+      closest = {
+        latlng: point,
+        index: i - 1,
+        alongTrack: start + along,
+        crossTrack,
+      };
+    }
+    start += segmentLength;
+  }
+  return closest;
+}
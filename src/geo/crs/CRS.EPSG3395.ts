@@ -3,7 +3,7 @@ import { Mercator, R } from '../projection/Projection.Mercator';
 import { Earth } from './CRS.Earth';
 
 class EPSG3395CRS extends Earth {
-  public code = '3395';
+  public code = 'EPSG:3395';
   constructor() {
     super(
       Mercator,
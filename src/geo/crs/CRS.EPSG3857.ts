@@ -3,10 +3,11 @@ import {
   SphericalMercator,
   R,
 } from '../projection/Projection.SphericalMercator';
+import { registerDefaultCRS } from '../LatLng';
 import { Earth } from './CRS.Earth';
 
 class EPSG3857CRS extends Earth {
-  public code = '3857';
+  public code = 'EPSG:3857';
   constructor() {
     super(
       SphericalMercator,
@@ -19,8 +20,11 @@ class EPSG3857CRS extends Earth {
 }
 
 class EPSG900913CRS extends EPSG3857CRS {
-  public code = '900913';
+  public code = 'EPSG:900913';
 }
 
 export const EPSG3857 = new EPSG3857CRS();
 export const EPSG900913 = new EPSG900913CRS();
+
+// the default CRS of `LatLng`'s measurement methods
+registerDefaultCRS(EPSG3857);
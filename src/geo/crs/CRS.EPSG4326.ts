@@ -3,7 +3,7 @@ import { LonLat } from './../projection/Projection.LonLat';
 import { Earth } from './CRS.Earth';
 
 class EPSG4326CRS extends Earth {
-  public code = '4326';
+  public code = 'EPSG:4326';
   constructor() {
     super(LonLat, toTransformation(1 / 180, 1, -1 / 180, 0.5));
   }
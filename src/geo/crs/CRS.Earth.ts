@@ -1,24 +1,87 @@
+import {
+  geodesicArea,
+  geodesicDirect,
+  geodesicInverse,
+  sphericalArea,
+  sphericalBearing,
+  sphericalDestination,
+  sphericalDistance,
+} from '../Geodesic';
 import { LatLng } from '../LatLng';
+import { WGS84 } from '../projection/Projection.Ellipsoid';
 import { CRS } from './CRS';
 
 export abstract class Earth extends CRS {
-  public wrapLng: [number, number] = [-180, 180];
+  public wrapLng?: [number, number] = [-180, 180];
 
   // Mean Earth Radius, as recommended for use by
   // the International Union of Geodesy and Geophysics,
   // see http://rosettacode.org/wiki/Haversine_formula
   public static R = 6371000;
 
-  // distance between two geographical points using spherical law of cosines approximation
+  // @property geodesic: Boolean = false
+  // Whether `distance`, `destination`, `initialBearing` and `area` are
+  // computed on the WGS84 ellipsoid instead of a sphere of radius `R`.
+  // Slower, but accurate to a millimeter instead of about 0.5%. Read-only, as
+  // CRSs are shared by maps: see `geodesicCRS` to get a geodesic CRS.
+  public readonly geodesic: boolean = false;
+
+  // distance between two geographical points using the haversine formula,
+  // or Vincenty's formulae on the WGS84 ellipsoid if `geodesic` is set
   public distance(latlng1: LatLng, latlng2: LatLng): number {
-    const rad = Math.PI / 180;
-    const lat1 = latlng1.lat * rad;
-    const lat2 = latlng2.lat * rad;
-    const sinDLat = Math.sin(((latlng2.lat - latlng1.lat) * rad) / 2);
-    const sinDLon = Math.sin(((latlng2.lng - latlng1.lng) * rad) / 2);
-    const a =
-      sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return Earth.R * c;
+    return this.geodesic
+      ? this.distanceGeodesic(latlng1, latlng2)
+      : sphericalDistance(latlng1, latlng2, Earth.R);
+  }
+
+  // @method distanceGeodesic(latlng1: LatLng, latlng2: LatLng): Number
+  // Returns the length in meters of the geodesic between two points on the
+  // WGS84 ellipsoid, regardless of `geodesic`. Falls back to the spherical
+  // distance for nearly antipodal points, where Vincenty's formulae fail.
+  public distanceGeodesic(latlng1: LatLng, latlng2: LatLng): number {
+    const inverse = geodesicInverse(latlng1, latlng2, WGS84);
+    return inverse
+      ? inverse.distance
+      : sphericalDistance(latlng1, latlng2, Earth.R);
   }
+
+  // @method initialBearing(latlng1: LatLng, latlng2: LatLng): Number
+  // Returns the bearing in degrees (clockwise from north) at `latlng1` of the
+  // shortest path to `latlng2`.
+  public initialBearing(latlng1: LatLng, latlng2: LatLng): number {
+    const inverse = this.geodesic
+      ? geodesicInverse(latlng1, latlng2, WGS84)
+      : null;
+    return inverse
+      ? inverse.initialBearing
+      : sphericalBearing(latlng1, latlng2);
+  }
+
+  // @method destination(latlng: LatLng, bearing: Number, meters: Number): LatLng
+  // Returns the point reached by traveling `meters` from `latlng` along the
+  // shortest path starting in the direction of `bearing` (in degrees).
+  public destination(latlng: LatLng, bearing: number, meters: number): LatLng {
+    return this.geodesic
+      ? geodesicDirect(latlng, bearing, meters, WGS84).latlng
+      : sphericalDestination(latlng, bearing, meters, Earth.R);
+  }
+
+  // @method area(latlngs: LatLng[]): Number
+  // Returns the area in square meters of the polygon with the given vertices.
+  // The ring is closed implicitly and may wind either way.
+  public area(latlngs: LatLng[]): number {
+    return this.geodesic
+      ? geodesicArea(latlngs, WGS84)
+      : sphericalArea(latlngs, Earth.R);
+  }
+}
+
+// @function geodesicCRS(crs: CRS.Earth): CRS.Earth
+// Returns a copy of the given CRS (e.g. `L.CRS.EPSG3857`) with `geodesic`
+// set, to be given to a map or to the measurement methods. The given CRS,
+// which other maps may use, is left unchanged.
+export function geodesicCRS<T extends Earth>(crs: T): T {
+  const copy: T = Object.create(crs);
+  (copy as { geodesic: boolean }).geodesic = true;
+  return copy;
 }
@@ -0,0 +1,28 @@
+import {
+  LambertConformalConicOptions,
+  lambertConformalConic,
+} from '../projection/Projection.LambertConformalConic';
+import { ProjectedCRS } from './CRS.Projected';
+
+/*
+ * @namespace CRS
+ * @crs L.CRS.LambertConformalConic
+ *
+ * CRS for a Lambert Conformal Conic projection.
+ *
+ * @example
+ *
+ * ```js
+ * // ETRS89 / LCC Europe
+ * var crs = new L.LambertConformalConicCRS('EPSG:3034', {
+ *   lat1: 35, lat2: 65, lat0: 52, lng0: 10,
+ *   falseEasting: 4000000, falseNorthing: 2800000
+ * });
+ * ```
+ */
+
+export class LambertConformalConicCRS extends ProjectedCRS {
+  constructor(code: string, options: LambertConformalConicOptions) {
+    super(code, lambertConformalConic(options));
+  }
+}
@@ -0,0 +1,35 @@
+import { LatLngBounds } from '../LatLngBounds';
+import {
+  PolarStereographicOptions,
+  polarStereographic,
+} from '../projection/Projection.PolarStereographic';
+import { ProjectedCRS } from './CRS.Projected';
+
+/*
+ * @namespace CRS
+ * @crs L.CRS.PolarStereographic
+ *
+ * CRS for a Polar Stereographic projection.
+ */
+
+export class PolarStereographicCRS extends ProjectedCRS {
+  constructor(code: string, options: PolarStereographicOptions) {
+    super(code, polarStereographic(options));
+  }
+}
+
+// @crs L.CRS.EPSG3413
+// NSIDC Sea Ice Polar Stereographic North, for Arctic maps.
+export const EPSG3413 = new PolarStereographicCRS('EPSG:3413', {
+  latTs: 70,
+  lng0: -45,
+});
+
+// @crs L.CRS.EPSG3031
+// Antarctic Polar Stereographic.
+export const EPSG3031 = new PolarStereographicCRS('EPSG:3031', {
+  south: true,
+  latTs: -71,
+  lng0: 0,
+  extent: new LatLngBounds([-90, -180], [-60, 180]),
+});
@@ -0,0 +1,209 @@
+import { Bounds } from '@/geometry/Bounds';
+import { Point, PointLike, toPoint } from '@/geometry/Point';
+import { Transformation, toTransformation } from '@/geometry/Transformation';
+import { LatLng } from '../LatLng';
+import { Projection } from '../projection';
+import { ProjectedCRS } from './CRS.Projected';
+
+/*
+ * @namespace CRS
+ * @crs L.CRS.Proj
+ *
+ * A CRS for arbitrary projected coordinate systems (e.g. national grids like
+ * `EPSG:27700` or `EPSG:2056`), with a zoom table given as `resolutions` or
+ * `scales` instead of the power-of-two zoom levels of the built-in CRSs.
+ *
+ * The projection is done by a `Projector`, either passed directly or created
+ * from a proj definition string by the factory registered with
+ * `setProjectorFactory`, which allows plugging in [proj4js](http://proj4js.org/):
+ *
+ * ```js
+ * L.setProjectorFactory(proj4);
+ *
+ * var crs = L.proj('EPSG:27700',
+ *   '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +units=m +no_defs', {
+ *     resolutions: [896, 448, 224, 112, 56, 28, 14, 7, 3.5, 1.75],
+ *     origin: [-238375, 1376256],
+ *     bounds: L.bounds([-238375, 0], [900000, 1376256])
+ *   });
+ * ```
+ */
+
+// converts `[lng, lat]` geographical coordinates to `[x, y]` projected
+// coordinates (`forward`) and back (`inverse`), like a proj4js converter
+export interface Projector {
+  forward(coordinates: [number, number]): [number, number];
+  inverse(coordinates: [number, number]): [number, number];
+}
+
+export type ProjectorFactory = (definition: string) => Projector;
+
+export type ProjDefinition = string | Projector | Projection;
+
+export interface ProjCRSOptions {
+  // Scale factors (pixels per projected unit) for each zoom level, indexed by zoom.
+  scales?: number[];
+  // Resolutions (projected units per pixel) for each zoom level, indexed by zoom.
+  // Ignored if `scales` is given.
+  resolutions?: number[];
+  // Top left corner of the tile grid, in projected units.
+  origin?: PointLike;
+  // Transformation from projected units to pixels at scale 1, used when no
+  // `origin` is given.
+  transformation?: Transformation;
+  // Extent of the projected coordinate system. The CRS is infinite without it.
+  bounds?: Bounds;
+}
+
+let projectorFactory: ProjectorFactory | undefined;
+
+// @function setProjectorFactory(factory: Function): undefined
+// Sets the function used to turn proj definition strings into `Projector`s,
+// e.g. `proj4` itself.
+export function setProjectorFactory(factory?: ProjectorFactory): void {
+  projectorFactory = factory;
+}
+
+function toProjector(definition: string | Projector): Projector {
+  if (typeof definition !== 'string') {
+    return definition;
+  }
+
+  if (!projectorFactory) {
+    throw new Error(
+      'No projector factory set, call setProjectorFactory() first.',
+    );
+  }
+  return projectorFactory(definition);
+}
+
+function toProjection(definition: ProjDefinition, bounds?: Bounds): Projection {
+  if (typeof definition !== 'string' && 'project' in definition) {
+    return definition;
+  }
+
+  const projector = toProjector(definition);
+
+  return {
+    project(latlng: LatLng): Point {
+      const p = projector.forward([latlng.lng, latlng.lat]);
+      return new Point(p[0], p[1]);
+    },
+
+    unproject(point: Point): LatLng {
+      const p = projector.inverse([point.x, point.y]);
+      return new LatLng(p[1], p[0]);
+    },
+
+    bounds: bounds || new Bounds([-Infinity, -Infinity], [Infinity, Infinity]),
+  };
+}
+
+// maps projected units to pixels at scale 1, with `y` growing downwards from the grid origin
+function toOriginTransformation(options: ProjCRSOptions): Transformation {
+  if (options.origin) {
+    const origin = toPoint(options.origin);
+    return toTransformation(1, -origin.x, -1, origin.y);
+  }
+  return options.transformation || toTransformation(1, 0, -1, 0);
+}
+
+export class ProjCRS extends ProjectedCRS {
+  private _scales?: number[];
+
+  constructor(
+    code: string,
+    definition: ProjDefinition,
+    options: ProjCRSOptions = {},
+  ) {
+    super(
+      code,
+      toProjection(definition, options.bounds),
+      toOriginTransformation(options),
+    );
+
+    this.infinite = !options.bounds;
+
+    if (options.scales) {
+      this._scales = options.scales;
+    } else if (options.resolutions) {
+      const resolutions = options.resolutions;
+      this._scales = [];
+      for (let i = resolutions.length - 1; i >= 0; i--) {
+        if (resolutions[i]) {
+          this._scales[i] = 1 / resolutions[i];
+        }
+      }
+    }
+  }
+
+  // interpolates between the scales of the zoom table for fractional zooms
+  public scale(zoom: number): number {
+    const scales = this._scales;
+    if (!scales) {
+      return super.scale(zoom);
+    }
+
+    const iZoom = Math.floor(zoom);
+    if (zoom === iZoom) {
+      return scales[zoom];
+    }
+
+    const baseScale = scales[iZoom];
+    const nextScale = scales[iZoom + 1];
+
+    return baseScale + (nextScale - baseScale) * (zoom - iZoom);
+  }
+
+  public zoom(scale: number): number {
+    const scales = this._scales;
+    if (!scales) {
+      return super.zoom(scale);
+    }
+
+    // find the closest scale of the zoom table below the given one
+    let downZoom = -1;
+    for (let i = 0, len = scales.length; i < len; i++) {
+      if (
+        scales[i] <= scale &&
+        (downZoom < 0 || scales[downZoom] < scales[i])
+      ) {
+        downZoom = i;
+      }
+    }
+
+    if (downZoom < 0) {
+      return -Infinity;
+    }
+
+    const downScale = scales[downZoom];
+    if (scale === downScale) {
+      return downZoom;
+    }
+
+    const nextScale = scales[downZoom + 1];
+    if (nextScale === undefined) {
+      return Infinity;
+    }
+
+    return (scale - downScale) / (nextScale - downScale) + downZoom;
+  }
+
+  // zooms outside of the zoom table have no projected bounds
+  public getProjectedBounds(zoom: number): Bounds | null {
+    if (this.infinite || isNaN(this.scale(zoom))) {
+      return null;
+    }
+    return super.getProjectedBounds(zoom);
+  }
+}
+
+// @factory L.proj(code: String, definition: String|Projector|Projection, options?: ProjCRS options)
+// Creates a CRS for the given proj definition, `Projector` or `Projection`.
+export function proj(
+  code: string,
+  definition: ProjDefinition,
+  options?: ProjCRSOptions,
+): ProjCRS {
+  return new ProjCRS(code, definition, options);
+}
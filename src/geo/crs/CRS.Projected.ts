@@ -0,0 +1,41 @@
+import { Bounds } from '@/geometry/Bounds';
+import { Transformation, toTransformation } from '@/geometry/Transformation';
+import { Projection } from '../projection';
+import { Earth } from './CRS.Earth';
+
+/*
+ * @namespace CRS
+ * @crs L.CRS.Projected
+ *
+ * Base class of the CRSs for projected coordinate systems on the Earth
+ * ellipsoid, like `TransverseMercatorCRS`. The bounds of the projection are
+ * fitted into a single tile at zoom 0, and each following zoom level doubles
+ * the scale, unless another `transformation` is given.
+ */
+
+// maps `bounds` to the unit square, keeping its aspect ratio and its top left corner
+function boundsTransformation(bounds: Bounds): Transformation {
+  const size = bounds.getSize();
+  const scale = 1 / Math.max(size.x, size.y);
+
+  return toTransformation(
+    scale,
+    -bounds.min.x * scale,
+    -scale,
+    bounds.max.y * scale,
+  );
+}
+
+export class ProjectedCRS extends Earth {
+  // projected systems don't wrap around the antimeridian
+  public wrapLng?: [number, number] = undefined;
+
+  constructor(
+    code: string,
+    projection: Projection,
+    transformation = boundsTransformation(projection.bounds),
+  ) {
+    super(projection, transformation);
+    this.code = code;
+  }
+}
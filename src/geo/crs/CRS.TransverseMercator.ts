@@ -0,0 +1,33 @@
+import {
+  TransverseMercatorOptions,
+  transverseMercator,
+  utmOptions,
+} from '../projection/Projection.TransverseMercator';
+import { ProjectedCRS } from './CRS.Projected';
+
+/*
+ * @namespace CRS
+ * @crs L.CRS.TransverseMercator
+ *
+ * CRS for a Transverse Mercator projection, e.g. an UTM zone.
+ *
+ * @example
+ *
+ * ```js
+ * var map = L.map('map', {crs: L.utmCRS(33)});
+ * ```
+ */
+
+export class TransverseMercatorCRS extends ProjectedCRS {
+  constructor(code: string, options: TransverseMercatorOptions) {
+    super(code, transverseMercator(options));
+  }
+}
+
+// @factory L.utmCRS(zone: Number, south?: Boolean)
+// Returns the CRS of the given WGS 84 UTM zone (`EPSG:326xx`, or `EPSG:327xx`
+// on the southern hemisphere).
+export function utmCRS(zone: number, south?: boolean): TransverseMercatorCRS {
+  const code = 'EPSG:' + ((south ? 32700 : 32600) + zone);
+  return new TransverseMercatorCRS(code, utmOptions(zone, south));
+}
@@ -125,9 +125,23 @@ export abstract class CRS {
 
   // @method wrapLatLngBounds(bounds: LatLngBounds): LatLngBounds
   // Returns a `LatLngBounds` with the same size as the given one, ensuring
-  // that its center is within the CRS's bounds.
+  // that its center is within the CRS's bounds. Bounds crossing the
+  // antimeridian keep one corner outside of the `wrapLng` range, as expected
+  // by `LatLngBounds`, and bounds wider than the `wrapLng` range are narrowed
+  // to it.
   // Only accepts actual `L.LatLngBounds` instances, not arrays.
   public wrapLatLngBounds(bounds: LatLngBounds): LatLngBounds {
+    const wrapLng = this.wrapLng;
+    if (
+      wrapLng &&
+      bounds.getEast() - bounds.getWest() > wrapLng[1] - wrapLng[0]
+    ) {
+      bounds = new LatLngBounds(
+        [bounds.getSouth(), wrapLng[0]],
+        [bounds.getNorth(), wrapLng[1]],
+      );
+    }
+
     const center = bounds.getCenter();
     const newCenter = this.wrapLatLng(center);
     const latShift = center.lat - newCenter.lat;
@@ -1,6 +1,15 @@
 export { CRS } from './CRS';
-export { Earth } from './CRS.Earth';
+export { Earth, geodesicCRS } from './CRS.Earth';
 export { EPSG3395 } from './CRS.EPSG3395';
 export { EPSG3857, EPSG900913 } from './CRS.EPSG3857';
 export { EPSG4326 } from './CRS.EPSG4326';
+export { ProjectedCRS } from './CRS.Projected';
+export { ProjCRS, proj, setProjectorFactory } from './CRS.Proj';
+export { TransverseMercatorCRS, utmCRS } from './CRS.TransverseMercator';
+export { LambertConformalConicCRS } from './CRS.LambertConformalConic';
+export {
+  PolarStereographicCRS,
+  EPSG3413,
+  EPSG3031,
+} from './CRS.PolarStereographic';
 export { Simple } from './CRS.Simple';
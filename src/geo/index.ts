@@ -2,6 +2,9 @@ export { LatLng, toLatLng as latLng } from './LatLng';
 export { LatLngBounds, toLatLngBounds as latLngBounds } from './LatLngBounds';
 
 import * as Projection from './projection/index';
-export { Projection };
+import * as CoordFormat from './CoordFormat';
+import * as Geodesic from './Geodesic';
+import * as TrackUtil from './TrackUtil';
+export { Projection, Geodesic, TrackUtil, CoordFormat };
 
 export * from './crs/index';
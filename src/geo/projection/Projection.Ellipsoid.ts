@@ -0,0 +1,84 @@
+import { Bounds } from '@/geometry/Bounds';
+import { LatLng } from '../LatLng';
+import { LatLngBounds } from '../LatLngBounds';
+import { Projection } from './index';
+
+/*
+ * @namespace Projection
+ *
+ * Ellipsoid definitions and helpers shared by the conformal projections
+ * (Transverse Mercator, Lambert Conformal Conic and Polar Stereographic).
+ * Formulas follow J. P. Snyder, "Map Projections: A Working Manual" (1987).
+ */
+
+export interface Ellipsoid {
+  // semi-major axis, in meters
+  a: number;
+  // flattening
+  f: number;
+}
+
+// @property WGS84: Ellipsoid
+// The ellipsoid of the World Geodetic System 1984, used by GPS.
+export const WGS84: Ellipsoid = {
+  a: 6378137,
+  f: 1 / 298.257223563,
+};
+
+// first eccentricity of the ellipsoid
+export function eccentricity(ellipsoid: Ellipsoid): number {
+  const f = ellipsoid.f;
+  return Math.sqrt(f * (2 - f));
+}
+
+// Snyder's `m`, eq. 14-15
+export function msfn(phi: number, e: number): number {
+  const sin = Math.sin(phi);
+  return Math.cos(phi) / Math.sqrt(1 - e * e * sin * sin);
+}
+
+// Snyder's `t`, eq. 15-9
+export function tsfn(phi: number, e: number): number {
+  const con = e * Math.sin(phi);
+  return (
+    Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - con) / (1 + con), e / 2)
+  );
+}
+
+// latitude of a given `t`, the inverse of `tsfn` (Snyder eq. 7-9)
+export function phi2(ts: number, e: number): number {
+  let phi = Math.PI / 2 - 2 * Math.atan(ts);
+
+  for (let i = 0, dphi = 0.1, con; i < 15 && Math.abs(dphi) > 1e-12; i++) {
+    con = e * Math.sin(phi);
+    con = Math.pow((1 - con) / (1 + con), e / 2);
+    dphi = Math.PI / 2 - 2 * Math.atan(ts * con) - phi;
+    phi += dphi;
+  }
+  return phi;
+}
+
+// projected bounds of a geographical extent, found by projecting points along
+// its edges (the edges of the extent are usually curved once projected)
+export function projectExtent(
+  project: Projection['project'],
+  extent: LatLngBounds,
+  steps = 32,
+): Bounds {
+  const sw = extent.getSouthWest();
+  const ne = extent.getNorthEast();
+  const dLat = (ne.lat - sw.lat) / steps;
+  const dLng = (ne.lng - sw.lng) / steps;
+  const bounds = new Bounds([]);
+
+  for (let i = 0; i <= steps; i++) {
+    const lat = sw.lat + dLat * i;
+    const lng = sw.lng + dLng * i;
+
+    bounds.extend(project(new LatLng(lat, sw.lng)));
+    bounds.extend(project(new LatLng(lat, ne.lng)));
+    bounds.extend(project(new LatLng(sw.lat, lng)));
+    bounds.extend(project(new LatLng(ne.lat, lng)));
+  }
+  return bounds;
+}
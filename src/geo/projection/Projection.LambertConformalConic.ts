@@ -0,0 +1,108 @@
+/*
+ * @namespace Projection
+ * @projection L.Projection.LambertConformalConic
+ *
+ * Ellipsoidal Lambert Conformal Conic projection with two standard parallels
+ * (Snyder, chapter 15). Suited to mid-latitude areas stretching from east to
+ * west, e.g. the `EPSG:3034` pan-European grid or many US state planes.
+ */
+
+import { Point } from '@/geometry/Point';
+import { LatLng } from '../LatLng';
+import { LatLngBounds } from '../LatLngBounds';
+import { Projection } from './index';
+import {
+  Ellipsoid,
+  WGS84,
+  eccentricity,
+  msfn,
+  phi2,
+  projectExtent,
+  tsfn,
+} from './Projection.Ellipsoid';
+
+export interface LambertConformalConicOptions {
+  // First standard parallel, in degrees.
+  lat1: number;
+  // Second standard parallel, in degrees. Defaults to `lat1`.
+  lat2?: number;
+  // Latitude of the origin, in degrees.
+  lat0?: number;
+  // Central meridian, in degrees.
+  lng0?: number;
+  // Easting of the origin, in meters.
+  falseEasting?: number;
+  // Northing of the origin, in meters.
+  falseNorthing?: number;
+  // Defaults to `WGS84`.
+  ellipsoid?: Ellipsoid;
+  // Geographical extent the projection is used in, determining its `bounds`.
+  // Defaults to the hemisphere of the standard parallels.
+  extent?: LatLngBounds;
+}
+
+// @function lambertConformalConic(options: LambertConformalConic options): Projection
+// Returns a Lambert Conformal Conic projection with the given parameters.
+export function lambertConformalConic(
+  options: LambertConformalConicOptions,
+): Projection {
+  const d = Math.PI / 180;
+  const ellipsoid = options.ellipsoid || WGS84;
+  const a = ellipsoid.a;
+  const e = eccentricity(ellipsoid);
+  const lat1 = options.lat1 * d;
+  const lat2 = (options.lat2 === undefined ? options.lat1 : options.lat2) * d;
+  const lng0 = (options.lng0 || 0) * d;
+  const e0 = options.falseEasting || 0;
+  const n0 = options.falseNorthing || 0;
+
+  const m1 = msfn(lat1, e);
+  const t1 = tsfn(lat1, e);
+  const n =
+    lat1 === lat2
+      ? Math.sin(lat1)
+      : (Math.log(m1) - Math.log(msfn(lat2, e))) /
+        (Math.log(t1) - Math.log(tsfn(lat2, e)));
+  const aF = (a * m1) / (n * Math.pow(t1, n));
+  const rho0 = aF * Math.pow(tsfn((options.lat0 || 0) * d, e), n);
+
+  // keep away from the pole the cone can't reach
+  const maxLat = 90 - 1e-9;
+
+  function project(latlng: LatLng): Point {
+    const lat = Math.max(Math.min(latlng.lat, maxLat), -maxLat) * d;
+    const rho = aF * Math.pow(tsfn(lat, e), n);
+    const theta = n * (latlng.lng * d - lng0);
+
+    return new Point(
+      e0 + rho * Math.sin(theta),
+      n0 + rho0 - rho * Math.cos(theta),
+    );
+  }
+
+  function unproject(point: Point): LatLng {
+    const sign = n < 0 ? -1 : 1;
+    const x = (point.x - e0) * sign;
+    const y = (rho0 - (point.y - n0)) * sign;
+    const rho = Math.sqrt(x * x + y * y) * sign;
+    const theta = Math.atan2(x, y);
+    const lat = rho ? phi2(Math.pow(rho / aF, 1 / n), e) : (sign * Math.PI) / 2;
+
+    return new LatLng(lat / d, (theta / n + lng0) / d);
+  }
+
+  const west = (options.lng0 || 0) - 180;
+  const east = (options.lng0 || 0) + 180;
+  const extent =
+    options.extent ||
+    new LatLngBounds(
+      n < 0 ? [-90, west] : [0, west],
+      n < 0 ? [0, east] : [90, east],
+    );
+
+  return {
+    project,
+    unproject,
+    bounds: projectExtent(project, extent),
+  };
+}
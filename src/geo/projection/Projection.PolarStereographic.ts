@@ -0,0 +1,103 @@
+/*
+ * @namespace Projection
+ * @projection L.Projection.PolarStereographic
+ *
+ * Ellipsoidal Polar Stereographic projection (Snyder, chapter 21), centered
+ * on the north or the south pole. Used for polar maps, e.g. the NSIDC sea ice
+ * grid (`EPSG:3413`) or the Antarctic grid (`EPSG:3031`).
+ */
+
+import { Point } from '@/geometry/Point';
+import { LatLng } from '../LatLng';
+import { LatLngBounds } from '../LatLngBounds';
+import { Projection } from './index';
+import {
+  Ellipsoid,
+  WGS84,
+  eccentricity,
+  msfn,
+  phi2,
+  projectExtent,
+  tsfn,
+} from './Projection.Ellipsoid';
+
+export interface PolarStereographicOptions {
+  // Centers the projection on the south pole instead of the north pole.
+  south?: boolean;
+  // Latitude of true scale, in degrees. When omitted, the scale factor `k0`
+  // applies at the pole.
+  latTs?: number;
+  // Scale factor at the pole, used when no `latTs` is given.
+  k0?: number;
+  // Meridian pointing down from the pole (up for the south pole), in degrees.
+  lng0?: number;
+  // Easting of the pole, in meters.
+  falseEasting?: number;
+  // Northing of the pole, in meters.
+  falseNorthing?: number;
+  // Defaults to `WGS84`.
+  ellipsoid?: Ellipsoid;
+  // Geographical extent the projection is used in, determining its `bounds`.
+  // Defaults to latitudes within 60° of the pole.
+  extent?: LatLngBounds;
+}
+
+// @function polarStereographic(options: PolarStereographic options): Projection
+// Returns a Polar Stereographic projection with the given parameters.
+export function polarStereographic(
+  options: PolarStereographicOptions = {},
+): Projection {
+  const d = Math.PI / 180;
+  const ellipsoid = options.ellipsoid || WGS84;
+  const a = ellipsoid.a;
+  const e = eccentricity(ellipsoid);
+  const sign = options.south ? -1 : 1;
+  const lng0 = (options.lng0 || 0) * d;
+  const e0 = options.falseEasting || 0;
+  const n0 = options.falseNorthing || 0;
+
+  // the south pole case is computed as the north one, with latitudes mirrored
+  const latTs = options.latTs === undefined ? 90 : sign * options.latTs;
+
+  // distance from the pole is `scale * tsfn(lat)`
+  let scale: number;
+  if (latTs === 90) {
+    const k0 = options.k0 === undefined ? 1 : options.k0;
+    scale =
+      (2 * a * k0) / Math.sqrt(Math.pow(1 + e, 1 + e) * Math.pow(1 - e, 1 - e));
+  } else {
+    scale = (a * msfn(latTs * d, e)) / tsfn(latTs * d, e);
+  }
+
+  function project(latlng: LatLng): Point {
+    const rho = scale * tsfn(sign * latlng.lat * d, e);
+    const theta = latlng.lng * d - lng0;
+
+    return new Point(
+      e0 + rho * Math.sin(theta),
+      n0 - sign * rho * Math.cos(theta),
+    );
+  }
+
+  function unproject(point: Point): LatLng {
+    const x = point.x - e0;
+    const y = sign * (n0 - point.y);
+    const lat = phi2(Math.sqrt(x * x + y * y) / scale, e);
+    const lng = lng0 + Math.atan2(x, y);
+
+    return new LatLng((sign * lat) / d, lng / d);
+  }
+
+  const extent =
+    options.extent ||
+    new LatLngBounds(
+      [sign * 30, (options.lng0 || 0) - 180],
+      [sign * 90, (options.lng0 || 0) + 180],
+    );
+
+  return {
+    project,
+    unproject,
+    bounds: projectExtent(project, extent),
+  };
+}
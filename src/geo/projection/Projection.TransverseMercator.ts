@@ -0,0 +1,173 @@
+/*
+ * @namespace Projection
+ * @projection L.Projection.TransverseMercator
+ *
+ * Ellipsoidal Transverse Mercator projection, using the Krüger series (to
+ * third order in the third flattening, accurate to a millimeter within a few
+ * degrees of the central meridian). Used by UTM and most national grids,
+ * e.g. the British National Grid (`EPSG:27700`).
+ */
+
+import { Point } from '@/geometry/Point';
+import { LatLng } from '../LatLng';
+import { LatLngBounds } from '../LatLngBounds';
+import { Projection } from './index';
+import { Ellipsoid, WGS84, projectExtent } from './Projection.Ellipsoid';
+
+export interface TransverseMercatorOptions {
+  // Central meridian, in degrees.
+  lng0: number;
+  // Latitude of the origin, in degrees.
+  lat0?: number;
+  // Scale factor on the central meridian.
+  k0?: number;
+  // Easting of the origin, in meters.
+  falseEasting?: number;
+  // Northing of the origin, in meters.
+  falseNorthing?: number;
+  // Defaults to `WGS84`.
+  ellipsoid?: Ellipsoid;
+  // Geographical extent the projection is used in, determining its `bounds`.
+  // Defaults to 3 degrees on each side of the central meridian, from 80°S to 84°N.
+  extent?: LatLngBounds;
+}
+
+// @function transverseMercator(options: TransverseMercator options): Projection
+// Returns a Transverse Mercator projection with the given parameters.
+export function transverseMercator(
+  options: TransverseMercatorOptions,
+): Projection {
+  const d = Math.PI / 180;
+  const ellipsoid = options.ellipsoid || WGS84;
+  const k0 = options.k0 === undefined ? 1 : options.k0;
+  const lng0 = options.lng0 * d;
+  const e0 = options.falseEasting || 0;
+
+  const f = ellipsoid.f;
+  const n = f / (2 - f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const e = (2 * Math.sqrt(n)) / (1 + n);
+
+  // radius of the rectifying sphere, scaled
+  const kA = ((k0 * ellipsoid.a) / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64);
+
+  const alpha = [
+    n / 2 - (2 * n2) / 3 + (5 * n3) / 16,
+    (13 * n2) / 48 - (3 * n3) / 5,
+    (61 * n3) / 240,
+  ];
+  const beta = [
+    n / 2 - (2 * n2) / 3 + (37 * n3) / 96,
+    n2 / 48 + n3 / 15,
+    (17 * n3) / 480,
+  ];
+  const delta = [
+    2 * n - (2 * n2) / 3 - 2 * n3,
+    (7 * n2) / 3 - (8 * n3) / 5,
+    (56 * n3) / 15,
+  ];
+
+  // coordinates relative to the central meridian on the equator
+  function forward(lat: number, lng: number): Point {
+    const sin = Math.sin(lat * d);
+    const t = Math.sinh(Math.atanh(sin) - e * Math.atanh(e * sin));
+    const dLng = lng * d - lng0;
+    const xi = Math.atan2(t, Math.cos(dLng));
+    const eta = Math.atanh(Math.sin(dLng) / Math.sqrt(1 + t * t));
+
+    let x = eta;
+    let y = xi;
+    for (let j = 1; j <= 3; j++) {
+      x += alpha[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+      y += alpha[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    }
+    return new Point(kA * x, kA * y);
+  }
+
+  const n0 =
+    (options.falseNorthing || 0) - forward(options.lat0 || 0, options.lng0).y;
+
+  function project(latlng: LatLng): Point {
+    const p = forward(latlng.lat, latlng.lng);
+    return new Point(p.x + e0, p.y + n0);
+  }
+
+  function unproject(point: Point): LatLng {
+    const xi = (point.y - n0) / kA;
+    const eta = (point.x - e0) / kA;
+
+    let xi1 = xi;
+    let eta1 = eta;
+    for (let j = 1; j <= 3; j++) {
+      xi1 -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+      eta1 -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+    }
+
+    const chi = Math.asin(Math.sin(xi1) / Math.cosh(eta1));
+    let phi = chi;
+    for (let j = 1; j <= 3; j++) {
+      phi += delta[j - 1] * Math.sin(2 * j * chi);
+    }
+    const lambda = lng0 + Math.atan2(Math.sinh(eta1), Math.cos(xi1));
+
+    return new LatLng(phi / d, lambda / d);
+  }
+
+  const extent =
+    options.extent ||
+    new LatLngBounds([-80, options.lng0 - 3], [84, options.lng0 + 3]);
+
+  return {
+    project,
+    unproject,
+    bounds: projectExtent(project, extent),
+  };
+}
+
+// @function utmZone(latlng: LatLng): Number
+// Returns the number of the UTM zone containing the given point, taking the
+// Norway and Svalbard exceptions into account.
+export function utmZone(latlng: LatLng): number {
+  const lat = latlng.lat;
+  const lng = ((((latlng.lng + 180) % 360) + 360) % 360) - 180;
+  let zone = Math.floor((lng + 180) / 6) + 1;
+
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) {
+    zone = 32;
+  } else if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+    zone = lng < 9 ? 31 : lng < 21 ? 33 : lng < 33 ? 35 : 37;
+  }
+  return Math.min(zone, 60);
+}
+
+// @function utmOptions(zone: Number, south?: Boolean): TransverseMercator options
+// Returns the Transverse Mercator parameters of the given UTM zone, on the
+// northern hemisphere unless `south` is set.
+export function utmOptions(
+  zone: number,
+  south?: boolean,
+): TransverseMercatorOptions {
+  if (zone < 1 || zone > 60 || Math.floor(zone) !== zone) {
+    throw new Error('Invalid UTM zone: ' + zone);
+  }
+
+  const lng0 = zone * 6 - 183;
+
+  return {
+    lng0,
+    k0: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: south ? 10000000 : 0,
+    extent: new LatLngBounds(
+      south ? [-80, lng0 - 3] : [0, lng0 - 3],
+      south ? [0, lng0 + 3] : [84, lng0 + 3],
+    ),
+  };
+}
+
+// @function utm(zone: Number, south?: Boolean): Projection
+// Returns the Transverse Mercator projection of the given UTM zone.
+export function utm(zone: number, south?: boolean): Projection {
+  return transverseMercator(utmOptions(zone, south));
+}
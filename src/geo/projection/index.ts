@@ -7,3 +7,16 @@ export interface Projection {
   project(laglng: LatLng): Point;
   unproject(point: Point): LatLng;
 }
+
+export { LonLat } from './Projection.LonLat';
+export { Mercator } from './Projection.Mercator';
+export { SphericalMercator } from './Projection.SphericalMercator';
+export { WGS84 } from './Projection.Ellipsoid';
+export {
+  transverseMercator,
+  utm,
+  utmOptions,
+  utmZone,
+} from './Projection.TransverseMercator';
+export { lambertConformalConic } from './Projection.LambertConformalConic';
+export { polarStereographic } from './Projection.PolarStereographic';
@@ -1,3 +1,4 @@
+import { isArray } from '@/core/Util';
 import { Bounds } from './Bounds';
 import { Point } from './Point';
 
@@ -248,7 +249,17 @@ export function clipSegment(
   // save 2nd code to avoid calculating it on the next segment
   lastCode = codeB;
 
-  while (!(codeA | codeB) || codeA & codeB) {
+  for (;;) {
+    // if a,b is inside the clip window (trivial accept)
+    if (!(codeA | codeB)) {
+      return [a, b];
+    }
+
+    // if a,b is outside the clip window (trivial reject)
+    if (codeA & codeB) {
+      return false;
+    }
+
     // other cases
     codeOut = codeA || codeB;
     p = getEdgeIntersection(a, b, codeOut, bounds, round);
@@ -262,16 +273,14 @@ export function clipSegment(
       codeB = newCode;
     }
   }
+}
 
-  // if a,b is inside the clip window (trivial accept)
-  if (!(codeA | codeB)) {
-    return [a, b];
-  }
-
-  // if a,b is outside the clip window (trivial reject)
-  if (codeA & codeB) {
-    return false;
-  }
-
-  return false;
+// @function isFlat(latlngs: LatLng[]): Boolean
+// Returns true if `latlngs` is a flat array, false is nested.
+export function isFlat(latlngs: unknown[]): boolean {
+  return (
+    !isArray(latlngs[0]) ||
+    (typeof (latlngs[0] as unknown[])[0] !== 'object' &&
+      typeof (latlngs[0] as unknown[])[0] !== 'undefined')
+  );
 }
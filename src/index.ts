@@ -1,2 +1,20 @@
 // geometry
 export * from './geometry/index';
+
+// geo
+export * from './geo/index';
+
+// dom
+export * from './dom/index';
+
+// map
+export * from './map/index';
+
+// layer
+export * from './layer/index';
+
+// format
+export * from './format/index';
+
+// control
+export * from './control/index';
@@ -0,0 +1,285 @@
+import { Listener } from '@/core/Events';
+import { setOptions } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng, LatLngLike, toLatLng } from '@/geo/LatLng';
+import { Point, PointLike, toPoint } from '@/geometry/Point';
+import { Map, ZoomAnimEvent } from '@/map/Map';
+import { Layer, LayerOptions } from './Layer';
+
+/*
+ * @class DivOverlay
+ * @inherits Layer
+ * @aka L.DivOverlay
+ * Base model for L.Popup and L.Tooltip. Inherit from it for custom popup like plugins.
+ */
+
+// content of a popup or tooltip, or a function returning it for the source layer
+export type DivOverlayContent =
+  | string
+  | HTMLElement
+  | ((source: Layer) => string | HTMLElement);
+
+export interface DivOverlayOptions extends LayerOptions {
+  offset: PointLike;
+  className: string;
+}
+
+// methods a source layer may implement to position the overlays bound to it
+export interface OverlaySource {
+  getCenter?(): LatLng | null;
+  getLatLng?(): LatLng;
+}
+
+export abstract class DivOverlay extends Layer {
+  // @section
+  // @aka DivOverlay options
+  public options: DivOverlayOptions = {
+    ...this.options,
+
+    // @option offset: Point = Point(0, 7)
+    // The offset of the popup position. Useful to control the anchor
+    // of the popup when opening it on some overlays.
+    offset: [0, 7],
+
+    // @option className: String = ''
+    // A custom CSS class name to assign to the popup.
+    className: '',
+
+    // @option pane: String = 'popupPane'
+    // `Map pane` where the popup will be added.
+    pane: 'popupPane',
+  };
+
+  public _source?: Layer;
+  public _container?: HTMLElement;
+  protected _contentNode!: HTMLElement;
+  protected _content?: DivOverlayContent;
+  protected _latlng!: LatLng;
+  protected _containerWidth = 0;
+  protected _containerLeft = 0;
+  protected _containerBottom = 0;
+  protected _removeTimeout?: number;
+
+  constructor(options?: Partial<DivOverlayOptions>, source?: Layer) {
+    super();
+    setOptions(this, options);
+    this._source = source;
+  }
+
+  public onAdd(map: Map): this {
+    this._zoomAnimated = map._zoomAnimated;
+
+    if (!this._container) {
+      this._initLayout();
+    }
+    const container = this._container as HTMLElement;
+
+    if (map._fadeAnimated) {
+      DomUtil.setOpacity(container, 0);
+    }
+
+    clearTimeout(this._removeTimeout);
+    (this.getPane() as HTMLElement).appendChild(container);
+    this.update();
+
+    if (map._fadeAnimated) {
+      DomUtil.setOpacity(container, 1);
+    }
+
+    this.bringToFront();
+    return this;
+  }
+
+  public onRemove(map: Map): this {
+    const container = this._container as HTMLElement;
+
+    if (map._fadeAnimated) {
+      DomUtil.setOpacity(container, 0);
+      this._removeTimeout = window.setTimeout(
+        () => DomUtil.remove(container),
+        200,
+      );
+    } else {
+      DomUtil.remove(container);
+    }
+    return this;
+  }
+
+  // @namespace Popup
+  // @method getLatLng: LatLng
+  // Returns the geographical point of popup.
+  public getLatLng(): LatLng {
+    return this._latlng;
+  }
+
+  // @method setLatLng(latlng: LatLng): this
+  // Sets the geographical point where the popup will open.
+  public setLatLng(latlng: LatLngLike): this {
+    this._latlng = toLatLng(latlng) as LatLng;
+    if (this._map) {
+      this._updatePosition();
+      this._adjustPan();
+    }
+    return this;
+  }
+
+  // @method getContent: String|HTMLElement
+  // Returns the content of the popup.
+  public getContent(): DivOverlayContent | undefined {
+    return this._content;
+  }
+
+  // @method setContent(htmlContent: String|HTMLElement|Function): this
+  // Sets the HTML content of the popup. If a function is passed the source layer will be passed to the function. The function should return a `String` or `HTMLElement` to be used in the popup.
+  public setContent(content: DivOverlayContent): this {
+    this._content = content;
+    this.update();
+    return this;
+  }
+
+  // @method getElement: String|HTMLElement
+  // Alias for [getContent()](#popup-getcontent)
+  public getElement(): HTMLElement | undefined {
+    return this._container;
+  }
+
+  // @method update: null
+  // Updates the popup content, layout and position. Useful for updating the popup after something inside changed, e.g. image loaded.
+  public update(): void {
+    if (!this._map) {
+      return;
+    }
+    const container = this._container as HTMLElement;
+
+    container.style.visibility = 'hidden';
+
+    this._updateContent();
+    this._updateLayout();
+    this._updatePosition();
+
+    container.style.visibility = '';
+
+    this._adjustPan();
+  }
+
+  public getEvents(): Record<string, Listener> {
+    const events: Record<string, Listener> = {
+      zoom: this._updatePosition,
+      viewreset: this._updatePosition,
+    };
+
+    if (this._zoomAnimated) {
+      events.zoomanim = this._animateZoom;
+    }
+    return events;
+  }
+
+  // @method isOpen: Boolean
+  // Returns `true` when the popup is visible on the map.
+  public isOpen(): boolean {
+    return !!this._map && this._map.hasLayer(this);
+  }
+
+  // @method bringToFront: this
+  // Brings this popup in front of other popups (in the same map pane).
+  public bringToFront(): this {
+    if (this._map && this._container) {
+      DomUtil.toFront(this._container);
+    }
+    return this;
+  }
+
+  // @method bringToBack: this
+  // Brings this popup to the back of other popups (in the same map pane).
+  public bringToBack(): this {
+    if (this._map && this._container) {
+      DomUtil.toBack(this._container);
+    }
+    return this;
+  }
+
+  // binds the overlay to the layer it opens on and finds out where to open it
+  public _prepareOpen(layer: Layer, latlng?: LatLngLike): LatLng {
+    if (!latlng) {
+      const source = layer as Layer & OverlaySource;
+
+      if (source.getCenter) {
+        latlng = source.getCenter() as LatLng;
+      } else if (source.getLatLng) {
+        latlng = source.getLatLng();
+      } else {
+        throw new Error('Unable to get source layer LatLng.');
+      }
+    }
+
+    // set overlay source to this layer
+    this._source = layer;
+
+    // update the overlay (content, layout, ect...)
+    this.update();
+
+    return toLatLng(latlng) as LatLng;
+  }
+
+  public abstract _close(): void;
+
+  protected abstract _initLayout(): void;
+
+  protected abstract _updateLayout(): void;
+
+  protected abstract _adjustPan(): void;
+
+  // moves the overlay along with a zoom animation of the map
+  protected abstract _animateZoom(e: ZoomAnimEvent): void;
+
+  protected _updateContent(): void {
+    if (!this._content) {
+      return;
+    }
+
+    const node = this._contentNode;
+    const content =
+      typeof this._content === 'function'
+        ? this._content(this._source || this)
+        : this._content;
+
+    if (typeof content === 'string') {
+      node.innerHTML = content;
+    } else {
+      while (node.firstChild) {
+        node.removeChild(node.firstChild);
+      }
+      node.appendChild(content);
+    }
+    this.fire('contentupdate');
+  }
+
+  protected _updatePosition(): void {
+    if (!this._map) {
+      return;
+    }
+
+    const container = this._container as HTMLElement;
+    const pos = this._map.latLngToLayerPoint(this._latlng);
+    let offset = toPoint(this.options.offset);
+    const anchor = this._getAnchor();
+
+    if (this._zoomAnimated) {
+      DomUtil.setPosition(container, pos.add(anchor));
+    } else {
+      offset = offset.add(pos).add(anchor);
+    }
+
+    const bottom = (this._containerBottom = -offset.y);
+    const left = (this._containerLeft =
+      -Math.round(this._containerWidth / 2) + offset.x);
+
+    // bottom position the popup in case the height of the popup changes (images loading etc)
+    container.style.bottom = bottom + 'px';
+    container.style.left = left + 'px';
+  }
+
+  protected _getAnchor(): Point {
+    return new Point(0, 0);
+  }
+}
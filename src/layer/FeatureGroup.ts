@@ -0,0 +1,109 @@
+import { LatLng } from '@/geo/LatLng';
+import { LatLngBounds } from '@/geo/LatLngBounds';
+import { Layer } from './Layer';
+import { LayerGroup } from './LayerGroup';
+import { PathOptions } from './vector/Path';
+
+/*
+ * @class FeatureGroup
+ * @aka L.FeatureGroup
+ * @inherits LayerGroup
+ *
+ * Extended `LayerGroup` that makes it easier to do the same thing to all its member layers:
+ *  * [`bindTooltip`](#layer-bindtooltip) binds a tooltip to all of the layers at once
+ *  * Events are propagated to the `FeatureGroup`, so if the group has an event
+ * handler, it will handle events from any of the layers. This includes mouse events
+ * and custom events.
+ *  * Has `layeradd` and `layerremove` events
+ *
+ * @example
+ *
+ * ```js
+ * L.featureGroup([marker1, marker2, polyline])
+ * 	.bindTooltip('Hello world!')
+ * 	.on('click', function() { alert('Clicked on a member of the group!'); })
+ * 	.addTo(map);
+ * ```
+ */
+
+// layers with a position or an extent
+type LocatedLayer = Layer & {
+  getBounds?(): LatLngBounds;
+  getLatLng?(): LatLng;
+};
+
+export class FeatureGroup extends LayerGroup {
+  public addLayer(layer: Layer): this {
+    if (this.hasLayer(layer)) {
+      return this;
+    }
+
+    layer.addEventParent(this);
+
+    super.addLayer(layer);
+
+    // @event layeradd: LayerEvent
+    // Fired when a layer is added to this `FeatureGroup`
+    return this.fire('layeradd', { layer: layer });
+  }
+
+  public removeLayer(layer: Layer | number): this {
+    if (!this.hasLayer(layer)) {
+      return this;
+    }
+    if (typeof layer === 'number') {
+      layer = this._layers[layer];
+    }
+
+    layer.removeEventParent(this);
+
+    super.removeLayer(layer);
+
+    // @event layerremove: LayerEvent
+    // Fired when a layer is removed from this `FeatureGroup`
+    return this.fire('layerremove', { layer: layer });
+  }
+
+  // @method setStyle(style: Path options): this
+  // Sets the given path options to each layer of the group that has a `setStyle` method.
+  public setStyle(style: Partial<PathOptions>): this {
+    return this.invoke('setStyle', style);
+  }
+
+  // @method bringToFront(): this
+  // Brings the layer group to the top of all other layers
+  public bringToFront(): this {
+    return this.invoke('bringToFront');
+  }
+
+  // @method bringToBack(): this
+  // Brings the layer group to the back of all other layers
+  public bringToBack(): this {
+    return this.invoke('bringToBack');
+  }
+
+  // @method getBounds(): LatLngBounds
+  // Returns the LatLngBounds of the Feature Group (created from bounds and coordinates of its children).
+  public getBounds(): LatLngBounds {
+    const bounds = new LatLngBounds([]);
+
+    for (const id in this._layers) {
+      const layer = this._layers[id] as LocatedLayer;
+      if (layer.getBounds) {
+        bounds.extend(layer.getBounds());
+      } else if (layer.getLatLng) {
+        bounds.extend(layer.getLatLng());
+      }
+    }
+    return bounds;
+  }
+}
+
+// @factory L.featureGroup(layers?: Layer[], options?: Object)
+// Create a feature group, optionally given an initial set of layers and an `options` object.
+export function featureGroup(
+  layers?: Layer[],
+  options?: Partial<LayerGroup['options']>,
+): FeatureGroup {
+  return new FeatureGroup(layers, options);
+}
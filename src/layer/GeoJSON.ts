@@ -0,0 +1,602 @@
+import { formatNum, isArray, setOptions } from '@/core/Util';
+import { LatLng } from '@/geo/LatLng';
+import * as LineUtil from '@/geometry/LineUtil';
+import { FeatureGroup } from './FeatureGroup';
+import { Layer, LayerOptions } from './Layer';
+import { LayerGroup } from './LayerGroup';
+import { Marker } from './marker/Marker';
+import { CircleMarker } from './vector/CircleMarker';
+import { PathOptions } from './vector/Path';
+import { Polygon } from './vector/Polygon';
+import { LatLngs, Polyline } from './vector/Polyline';
+
+/*
+ * @class GeoJSON
+ * @aka L.GeoJSON
+ * @inherits FeatureGroup
+ *
+ * Represents a GeoJSON object or an array of GeoJSON objects. Allows you to parse
+ * GeoJSON data and display it on the map. Extends `FeatureGroup`.
+ *
+ * @example
+ *
+ * ```js
+ * L.geoJSON(data, {
+ * 	style: function (feature) {
+ * 		return {color: feature.properties.color};
+ * 	}
+ * }).bindTooltip(function (layer) {
+ * 	return layer.feature.properties.description;
+ * }).addTo(map);
+ * ```
+ */
+
+// a position, as `[lng, lat]` or `[lng, lat, alt]`
+export type Position = number[];
+
+// (possibly nested) arrays of positions, as in lines and polygons
+export type Positions = Position[] | Positions[];
+
+export interface Geometry {
+  type:
+    | 'Point'
+    | 'MultiPoint'
+    | 'LineString'
+    | 'MultiLineString'
+    | 'Polygon'
+    | 'MultiPolygon'
+    | 'GeometryCollection';
+  coordinates?: Position | Positions;
+  geometries?: Geometry[];
+}
+
+export interface Feature {
+  type: 'Feature';
+  geometry: Geometry | null;
+  properties: Record<string, unknown> | null;
+  id?: string | number;
+}
+
+export interface FeatureCollection {
+  type: 'FeatureCollection';
+  features: Feature[];
+}
+
+export type GeoJSONObject = Geometry | Feature | FeatureCollection;
+
+export interface GeoJSONOptions extends LayerOptions {
+  pointToLayer?(feature: Feature, latlng: LatLng): Layer;
+  style?: Partial<PathOptions> | ((feature?: Feature) => Partial<PathOptions>);
+  onEachFeature?(feature: Feature, layer: Layer): void;
+  filter?(feature: Feature): boolean;
+  coordsToLatLng?(coords: Position): LatLng;
+  markersInheritOptions: boolean;
+}
+
+declare module './Layer' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface Layer {
+    // @property feature: Object
+    // The GeoJSON feature a layer was created from, set by `L.GeoJSON`.
+    feature?: Feature;
+    defaultOptions?: LayerOptions;
+    toGeoJSON?(precision?: number): Feature | FeatureCollection;
+  }
+}
+
+// layers whose style can be set, like paths
+type StylableLayer = Layer & { setStyle?(style: Partial<PathOptions>): Layer };
+
+export class GeoJSON extends FeatureGroup {
+  /* @section
+   * @aka GeoJSON options
+   *
+   * @option pointToLayer: Function = *
+   * A `Function` defining how GeoJSON points spawn Leaflet layers. It is internally
+   * called when data is added, passing the GeoJSON point feature and its `LatLng`.
+   * The default is to spawn a default `Marker`:
+   * ```js
+   * function(geoJsonPoint, latlng) {
+   * 	return L.marker(latlng);
+   * }
+   * ```
+   *
+   * @option style: Function = *
+   * A `Function` defining the `Path options` for styling GeoJSON lines and polygons,
+   * called internally when data is added.
+   * The default value is to not override any defaults:
+   * ```js
+   * function (geoJsonFeature) {
+   * 	return {}
+   * }
+   * ```
+   *
+   * @option onEachFeature: Function = *
+   * A `Function` that will be called once for each created `Feature`, after it has
+   * been created and styled. Useful for attaching events and popups to features.
+   * The default is to do nothing with the newly created layers:
+   * ```js
+   * function (feature, layer) {}
+   * ```
+   *
+   * @option filter: Function = *
+   * A `Function` that will be used to decide whether to include a feature or not.
+   * The default is to include all features:
+   * ```js
+   * function (geoJsonFeature) {
+   * 	return true;
+   * }
+   * ```
+   * Note: dynamically changing the `filter` option will have effect only on newly
+   * added data. It will _not_ re-evaluate already included features.
+   *
+   * @option coordsToLatLng: Function = *
+   * A `Function` that will be used for converting GeoJSON coordinates to `LatLng`s.
+   * The default is the `coordsToLatLng` static method.
+   *
+   * @option markersInheritOptions: Boolean = false
+   * Whether default Markers for "Point" type Features inherit from group options.
+   */
+  public options: GeoJSONOptions = {
+    ...this.options,
+    markersInheritOptions: false,
+  };
+
+  constructor(
+    geojson?: GeoJSONObject | GeoJSONObject[],
+    options?: Partial<GeoJSONOptions>,
+  ) {
+    super();
+    setOptions(this, options);
+
+    if (geojson) {
+      this.addData(geojson);
+    }
+  }
+
+  // @method addData( <GeoJSON> data ): this
+  // Adds a GeoJSON object to the layer.
+  public addData(geojson: GeoJSONObject | GeoJSONObject[]): this {
+    const features = isArray(geojson)
+      ? geojson
+      : (geojson as FeatureCollection).features;
+
+    if (features) {
+      for (let i = 0, len = features.length; i < len; i++) {
+        // only add this if geometry or geometries are set and not null
+        const feature = features[i] as Partial<
+          Record<
+            'geometries' | 'geometry' | 'features' | 'coordinates',
+            unknown
+          >
+        >;
+        if (
+          feature.geometries ||
+          feature.geometry ||
+          feature.features ||
+          feature.coordinates
+        ) {
+          this.addData(features[i]);
+        }
+      }
+      return this;
+    }
+
+    const options = this.options;
+    const feature = asFeature(geojson as GeoJSONObject) as Feature;
+
+    if (options.filter && !options.filter(feature)) {
+      return this;
+    }
+
+    const layer = geometryToLayer(feature, options);
+    if (!layer) {
+      return this;
+    }
+    layer.feature = feature;
+
+    layer.defaultOptions = layer.options;
+    this.resetStyle(layer);
+
+    if (options.onEachFeature) {
+      options.onEachFeature(feature, layer);
+    }
+
+    return this.addLayer(layer);
+  }
+
+  // @method resetStyle( <Path> layer? ): this
+  // Resets the given vector layer's style to the original GeoJSON style, useful for resetting style after hover events.
+  // If `layer` is omitted, the style of all features in the current layer is reset.
+  public resetStyle(layer?: Layer): this {
+    if (layer === undefined) {
+      return this.eachLayer(this.resetStyle, this);
+    }
+    // reset any custom styles
+    layer.options = { ...layer.defaultOptions } as LayerOptions;
+    this._setLayerStyle(layer, this.options.style);
+    return this;
+  }
+
+  // @method setStyle( <Function> style ): this
+  // Changes styles of GeoJSON vector layers with the given style function.
+  public setStyle(style: GeoJSONOptions['style']): this {
+    return this.eachLayer((layer) => {
+      this._setLayerStyle(layer, style);
+    });
+  }
+
+  private _setLayerStyle(layer: StylableLayer, style: GeoJSONOptions['style']) {
+    if (layer.setStyle) {
+      layer.setStyle(
+        typeof style === 'function' ? style(layer.feature) : style || {},
+      );
+    }
+  }
+
+  // @section
+  // There are several static functions which can be called without instantiating L.GeoJSON:
+
+  public static geometryToLayer = geometryToLayer;
+  public static coordsToLatLng = coordsToLatLng;
+  public static coordsToLatLngs = coordsToLatLngs;
+  public static latLngToCoords = latLngToCoords;
+  public static latLngsToCoords = latLngsToCoords;
+  public static getFeature = getFeature;
+  public static asFeature = asFeature;
+}
+
+// @function geometryToLayer(featureData: Object, options?: GeoJSON options): Layer
+// Creates a `Layer` from a given GeoJSON feature. Can use a custom
+// [`pointToLayer`](#geojson-pointtolayer) and/or [`coordsToLatLng`](#geojson-coordstolatlng)
+// functions if provided as options. Returns `null` for a feature without
+// geometry.
+export function geometryToLayer(
+  geojson: Feature | Geometry,
+  options: Partial<GeoJSONOptions> = {},
+): Layer | null {
+  const geometry = geojson.type === 'Feature' ? geojson.geometry : geojson;
+  const coords = geometry && geometry.coordinates;
+  const convert = options.coordsToLatLng || coordsToLatLng;
+
+  if (!geometry) {
+    return null;
+  }
+
+  if (coords) {
+    switch (geometry.type) {
+      case 'Point':
+        return pointToLayer(geojson, convert(coords as Position), options);
+
+      case 'MultiPoint':
+        return new FeatureGroup(
+          (coords as Position[]).map((position) =>
+            pointToLayer(geojson, convert(position), options),
+          ),
+        );
+    }
+
+    const levelsDeep = pathLevelsDeep[geometry.type];
+    if (levelsDeep !== undefined) {
+      const latlngs = coordsToLatLngs(coords as Positions, levelsDeep, convert);
+      return levelsDeep === 2 || geometry.type === 'Polygon'
+        ? new Polygon(latlngs, options)
+        : new Polyline(latlngs, options);
+    }
+  } else if (geometry.type === 'GeometryCollection' && geometry.geometries) {
+    return geometryCollectionToLayer(geojson, geometry, options);
+  }
+
+  throw new Error('Invalid GeoJSON object.');
+}
+
+// nesting levels of the coordinates of lines and polygons
+const pathLevelsDeep: Record<string, number> = {
+  LineString: 0,
+  MultiLineString: 1,
+  Polygon: 1,
+  MultiPolygon: 2,
+};
+
+function pointToLayer(
+  geojson: Feature | Geometry,
+  latlng: LatLng,
+  options: Partial<GeoJSONOptions>,
+): Layer {
+  return options.pointToLayer
+    ? options.pointToLayer(asFeature(geojson) as Feature, latlng)
+    : new Marker(latlng, options.markersInheritOptions ? options : undefined);
+}
+
+function geometryCollectionToLayer(
+  geojson: Feature | Geometry,
+  geometry: Geometry,
+  options: Partial<GeoJSONOptions>,
+): Layer {
+  const geometries = geometry.geometries || [];
+  const layers: Layer[] = [];
+
+  for (let i = 0, len = geometries.length; i < len; i++) {
+    const layer = geometryToLayer(
+      {
+        geometry: geometries[i],
+        type: 'Feature',
+        properties: geojson.type === 'Feature' ? geojson.properties : null,
+      },
+      options,
+    );
+
+    if (layer) {
+      layers.push(layer);
+    }
+  }
+
+  return new FeatureGroup(layers);
+}
+
+// @function coordsToLatLng(coords: Array): LatLng
+// Creates a `LatLng` object from an array of 2 numbers (longitude, latitude)
+// or 3 numbers (longitude, latitude, altitude) used in GeoJSON for points.
+export function coordsToLatLng(coords: Position): LatLng {
+  return new LatLng(coords[1], coords[0], coords[2]);
+}
+
+// @function coordsToLatLngs(coords: Array, levelsDeep?: Number, coordsToLatLng?: Function): Array
+// Creates a multidimensional array of `LatLng`s from a GeoJSON coordinates array.
+// `levelsDeep` specifies the nesting level (0 is for an array of points, 1 for an array of arrays of points, etc., 0 by default).
+// Can use a custom [`coordsToLatLng`](#geojson-coordstolatlng) function.
+export function coordsToLatLngs(
+  coords: Positions,
+  levelsDeep = 0,
+  convert: (coords: Position) => LatLng = coordsToLatLng,
+): LatLngs {
+  const latlngs: LatLngs[] = [];
+
+  for (let i = 0, len = coords.length; i < len; i++) {
+    latlngs.push(
+      levelsDeep
+        ? coordsToLatLngs(coords[i] as Positions, levelsDeep - 1, convert)
+        : ((convert(coords[i] as Position) as unknown) as LatLngs),
+    );
+  }
+
+  return latlngs;
+}
+
+// @function latLngToCoords(latlng: LatLng, precision?: Number): Array
+// Reverse of [`coordsToLatLng`](#geojson-coordstolatlng)
+export function latLngToCoords(latlng: LatLng, precision?: number): Position {
+  const digits = typeof precision === 'number' ? precision : 6;
+  return latlng.alt !== undefined
+    ? [
+        formatNum(latlng.lng, digits),
+        formatNum(latlng.lat, digits),
+        formatNum(latlng.alt, digits),
+      ]
+    : [formatNum(latlng.lng, digits), formatNum(latlng.lat, digits)];
+}
+
+// @function latLngsToCoords(latlngs: Array, levelsDeep?: Number, closed?: Boolean, precision?: Number): Array
+// Reverse of [`coordsToLatLngs`](#geojson-coordstolatlngs)
+// `closed` determines whether the first point should be appended to the end of the array to close the feature, only used when `levelsDeep` is 0. False by default.
+export function latLngsToCoords(
+  latlngs: LatLngs,
+  levelsDeep = 0,
+  closed = false,
+  precision?: number,
+): Positions {
+  const coords: Positions[] = [];
+
+  for (let i = 0, len = latlngs.length; i < len; i++) {
+    coords.push(
+      levelsDeep
+        ? latLngsToCoords(
+            latlngs[i] as LatLngs,
+            levelsDeep - 1,
+            closed,
+            precision,
+          )
+        : ((latLngToCoords(
+            latlngs[i] as LatLng,
+            precision,
+          ) as unknown) as Positions),
+    );
+  }
+
+  if (!levelsDeep && closed) {
+    coords.push(coords[0]);
+  }
+
+  return coords;
+}
+
+// @function getFeature(layer: Layer, newGeometry: Object): Object
+// Returns the GeoJSON feature of the layer with its geometry replaced by the given one,
+// or a new feature with the given geometry if the layer has no feature.
+export function getFeature(layer: Layer, newGeometry: Geometry): Feature {
+  return layer.feature
+    ? { ...layer.feature, geometry: newGeometry }
+    : (asFeature(newGeometry) as Feature);
+}
+
+// @function asFeature(geojson: Object): Object
+// Normalize GeoJSON geometries/features into GeoJSON features.
+export function asFeature(geojson: GeoJSONObject): Feature | FeatureCollection {
+  if (geojson.type === 'Feature' || geojson.type === 'FeatureCollection') {
+    return geojson;
+  }
+
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: geojson,
+  };
+}
+
+declare module './marker/Marker' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface Marker {
+    toGeoJSON(precision?: number): Feature;
+  }
+}
+
+declare module './vector/CircleMarker' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface CircleMarker {
+    toGeoJSON(precision?: number): Feature;
+  }
+}
+
+declare module './vector/Polyline' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface Polyline {
+    toGeoJSON(precision?: number): Feature;
+  }
+}
+
+declare module './LayerGroup' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface LayerGroup {
+    toMultiPoint(precision?: number): Feature;
+    toGeoJSON(precision?: number): Feature | FeatureCollection;
+  }
+}
+
+// @namespace Marker
+// @section Other methods
+// @method toGeoJSON(precision?: Number): Object
+// `precision` is the number of decimal places for coordinates.
+// The default value is 6 places.
+// Returns a [`GeoJSON`](http://en.wikipedia.org/wiki/GeoJSON) representation of the marker (as a GeoJSON `Point` Feature).
+Marker.prototype.toGeoJSON = function (precision) {
+  return getFeature(this, {
+    type: 'Point',
+    coordinates: latLngToCoords(this.getLatLng(), precision),
+  });
+};
+
+// @namespace CircleMarker
+// @method toGeoJSON(precision?: Number): Object
+// `precision` is the number of decimal places for coordinates.
+// The default value is 6 places.
+// Returns a [`GeoJSON`](http://en.wikipedia.org/wiki/GeoJSON) representation of the circle marker (as a GeoJSON `Point` Feature).
+CircleMarker.prototype.toGeoJSON = Marker.prototype.toGeoJSON as (
+  this: CircleMarker,
+  precision?: number,
+) => Feature;
+
+// @namespace Polyline
+// @method toGeoJSON(precision?: Number): Object
+// `precision` is the number of decimal places for coordinates.
+// The default value is 6 places.
+// Returns a [`GeoJSON`](http://en.wikipedia.org/wiki/GeoJSON) representation of the polyline (as a GeoJSON `LineString` or `MultiLineString` Feature).
+Polyline.prototype.toGeoJSON = function (precision) {
+  const multi = !LineUtil.isFlat(this._latlngs);
+  const coords = latLngsToCoords(
+    this._latlngs,
+    multi ? 1 : 0,
+    false,
+    precision,
+  );
+
+  return getFeature(this, {
+    type: multi ? 'MultiLineString' : 'LineString',
+    coordinates: coords,
+  });
+};
+
+// @namespace Polygon
+// @method toGeoJSON(precision?: Number): Object
+// `precision` is the number of decimal places for coordinates.
+// The default value is 6 places.
+// Returns a [`GeoJSON`](http://en.wikipedia.org/wiki/GeoJSON) representation of the polygon (as a GeoJSON `Polygon` or `MultiPolygon` Feature).
+Polygon.prototype.toGeoJSON = function (precision) {
+  const holes = !LineUtil.isFlat(this._latlngs);
+  const multi = holes && !LineUtil.isFlat(this._latlngs[0] as LatLngs);
+  let coords = latLngsToCoords(
+    this._latlngs,
+    multi ? 2 : holes ? 1 : 0,
+    true,
+    precision,
+  );
+
+  if (!holes) {
+    coords = [coords] as Positions;
+  }
+
+  return getFeature(this, {
+    type: multi ? 'MultiPolygon' : 'Polygon',
+    coordinates: coords,
+  });
+};
+
+// @namespace LayerGroup
+LayerGroup.prototype.toMultiPoint = function (precision) {
+  const coords: Position[] = [];
+
+  this.eachLayer((layer) => {
+    const feature = (layer.toGeoJSON && layer.toGeoJSON(precision)) as Feature;
+    coords.push((feature.geometry as Geometry).coordinates as Position);
+  });
+
+  return getFeature(this, {
+    type: 'MultiPoint',
+    coordinates: coords,
+  });
+};
+
+// @method toGeoJSON(precision?: Number): Object
+// `precision` is the number of decimal places for coordinates.
+// The default value is 6 places.
+// Returns a [`GeoJSON`](http://en.wikipedia.org/wiki/GeoJSON) representation of the layer group (as a GeoJSON `FeatureCollection`, `GeometryCollection`, or `MultiPoint`).
+LayerGroup.prototype.toGeoJSON = function (precision) {
+  const type =
+    this.feature && this.feature.geometry && this.feature.geometry.type;
+
+  if (type === 'MultiPoint') {
+    return this.toMultiPoint(precision);
+  }
+
+  const isGeometryCollection = type === 'GeometryCollection';
+  const geometries: Geometry[] = [];
+  const features: Feature[] = [];
+
+  this.eachLayer((layer) => {
+    if (!layer.toGeoJSON) {
+      return;
+    }
+    const json = layer.toGeoJSON(precision);
+
+    if (json.type === 'FeatureCollection') {
+      features.push(...json.features);
+    } else if (isGeometryCollection) {
+      geometries.push(json.geometry as Geometry);
+    } else {
+      features.push(json);
+    }
+  });
+
+  if (isGeometryCollection) {
+    return getFeature(this, {
+      geometries: geometries,
+      type: 'GeometryCollection',
+    });
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: features,
+  };
+};
+
+// @namespace GeoJSON
+// @factory L.geoJSON(geojson?: Object, options?: GeoJSON options)
+// Creates a GeoJSON layer. Optionally accepts an object in
+// [GeoJSON format](https://tools.ietf.org/html/rfc7946) to display on the map
+// (you can alternatively add it later with `addData` method) and an `options` object.
+export function geoJSON(
+  geojson?: GeoJSONObject | GeoJSONObject[],
+  options?: Partial<GeoJSONOptions>,
+): GeoJSON {
+  return new GeoJSON(geojson, options);
+}
@@ -0,0 +1,150 @@
+import { Evented, LeafletEvent, Listener } from '@/core/Events';
+import { stamp } from '@/core/Util';
+import { Map } from '@/map/Map';
+import { LayerGroup } from './LayerGroup';
+
+/*
+ * @class Layer
+ * @inherits Evented
+ * @aka L.Layer
+ * @aka ILayer
+ *
+ * A set of methods from the Layer base class that all Leaflet layers use.
+ * Inherits all methods, options and events from `L.Evented`.
+ *
+ * @example
+ *
+ * ```js
+ * var layer = L.marker(latlng).addTo(map);
+ * layer.addTo(map);
+ * layer.remove();
+ * ```
+ *
+ * @event add: Event
+ * Fired after the layer is added to a map
+ *
+ * @event remove: Event
+ * Fired after the layer is removed from a map
+ */
+
+export interface LayerOptions {
+  pane: string;
+  attribution?: string;
+}
+
+export abstract class Layer extends Evented {
+  // Classes extending `L.Layer` will inherit the following options:
+  public options: LayerOptions = {
+    // @option pane: String = 'overlayPane'
+    // By default the layer will be added to the map's [overlay pane](#map-overlaypane). Overriding this option will cause the layer to be placed on another pane by default.
+    pane: 'overlayPane',
+
+    // @option attribution: String = null
+    // String to be shown in the attribution control, e.g. "© OpenStreetMap contributors". It describes the layer data and is often a legal obligation towards copyright holders and tile providers.
+    attribution: undefined,
+  };
+
+  public _map?: Map;
+  public _mapToAdd?: Map;
+  protected _zoomAnimated = false;
+
+  // @section Extension methods
+  // Every layer should extend from `L.Layer` and (re-)implement the following methods.
+
+  // @method onAdd(map: Map): this
+  // Should contain code that creates DOM elements for the layer, adds them to `map panes` where they should belong and puts listeners on relevant map events. Called on [`map.addLayer(layer)`](#map-addlayer).
+  public abstract onAdd(map: Map): this;
+
+  // @method onRemove(map: Map): this
+  // Should contain all clean up code that removes the layer's elements from the DOM and removes listeners previously added in [`onAdd`](#layer-onadd). Called on [`map.removeLayer(layer)`](#map-removelayer).
+  public abstract onRemove(map: Map): this;
+
+  // @method getEvents(): Object
+  // This optional method should return an object like `{ viewreset: this._reset }` for [`addEventListener`](#evented-addeventlistener). The event handlers in this object will be automatically added and removed from the map with your layer.
+  public getEvents?(): Record<string, Listener>;
+
+  // @method beforeAdd(map: Map): this
+  // Optional method. Called on [`map.addLayer(layer)`](#map-addlayer), before the layer is added to the map, before events are initialized, without waiting until the map is in a usable state. Use for early initialization only.
+  public beforeAdd?(map: Map): this;
+
+  // @section
+  // @method addTo(map: Map|LayerGroup): this
+  // Adds the layer to the given map or layer group.
+  public addTo(map: Map | LayerGroup): this {
+    map.addLayer(this);
+    return this;
+  }
+
+  // @method remove: this
+  // Removes the layer from the map it is currently active on.
+  public remove(): this {
+    return this.removeFrom(this._map || this._mapToAdd);
+  }
+
+  // @method removeFrom(map: Map): this
+  // Removes the layer from the given map
+  // @alternative
+  // @method removeFrom(group: LayerGroup): this
+  // Removes the layer from the given `LayerGroup`
+  public removeFrom(obj?: Map | LayerGroup): this {
+    if (obj) {
+      obj.removeLayer(this);
+    }
+    return this;
+  }
+
+  // @method getPane(name? : String): HTMLElement
+  // Returns the `HTMLElement` representing the named pane on the map. If `name` is omitted, returns the pane for this layer.
+  public getPane(name?: string): HTMLElement | undefined {
+    const options = (this.options as unknown) as Record<string, unknown>;
+    const pane = name ? (options[name] as string) || name : this.options.pane;
+    return this._map && this._map.getPane(pane);
+  }
+
+  // @method getAttribution: String
+  // Used by the `attribution control`, returns the [attribution option](#gridlayer-attribution).
+  public getAttribution(): string | undefined {
+    return this.options.attribution;
+  }
+
+  public addInteractiveTarget(targetEl: HTMLElement | SVGElement): this {
+    (this._map as Map)._targets[stamp(targetEl)] = this;
+    return this;
+  }
+
+  public removeInteractiveTarget(targetEl: HTMLElement | SVGElement): this {
+    delete (this._map as Map)._targets[stamp(targetEl)];
+    return this;
+  }
+
+  public _layerAdd(e: LeafletEvent): void {
+    const map = e.target as Map;
+
+    // check in case layer gets added and then removed before the map is ready
+    if (!map.hasLayer(this)) {
+      return;
+    }
+
+    this._map = map;
+    this._zoomAnimated = map._zoomAnimated;
+
+    if (this.getEvents) {
+      const events = this.getEvents();
+      map.on(events, this);
+      this.once('remove', () => {
+        map.off(events, this);
+      });
+    }
+
+    this.onAdd(map);
+
+    if (map.attributionControl) {
+      map.attributionControl.addAttribution(this.getAttribution());
+    }
+
+    this.fire('add');
+    // @event layeradd: LayerEvent
+    // Fired when a new layer is added to the map.
+    map.fire('layeradd', { layer: this });
+  }
+}
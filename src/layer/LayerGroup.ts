@@ -0,0 +1,162 @@
+import { setOptions, stamp } from '@/core/Util';
+import { Map } from '@/map/Map';
+import { Layer, LayerOptions } from './Layer';
+
+/*
+ * @class LayerGroup
+ * @aka L.LayerGroup
+ * @inherits Layer
+ *
+ * Used to group several layers and handle them as one. If you add it to the map,
+ * any layers added or removed from the group will be added/removed on the map as
+ * well. Extends `Layer`.
+ *
+ * @example
+ *
+ * ```js
+ * L.layerGroup([marker1, marker2])
+ * 	.addLayer(polyline)
+ * 	.addTo(map);
+ * ```
+ */
+
+export class LayerGroup extends Layer {
+  public _layers: Record<number, Layer> = {};
+
+  constructor(layers?: Layer[], options?: Partial<LayerOptions>) {
+    super();
+    setOptions(this, options);
+
+    if (layers) {
+      for (let i = 0, len = layers.length; i < len; i++) {
+        this.addLayer(layers[i]);
+      }
+    }
+  }
+
+  // @method addLayer(layer: Layer): this
+  // Adds the given layer to the group.
+  public addLayer(layer: Layer): this {
+    const id = this.getLayerId(layer);
+
+    this._layers[id] = layer;
+
+    if (this._map) {
+      this._map.addLayer(layer);
+    }
+
+    return this;
+  }
+
+  // @method removeLayer(layer: Layer): this
+  // Removes the given layer from the group.
+  // @alternative
+  // @method removeLayer(id: Number): this
+  // Removes the layer with the given internal ID from the group.
+  public removeLayer(layer: Layer | number): this {
+    const id = typeof layer === 'number' ? layer : this.getLayerId(layer);
+
+    if (this._map && this._layers[id]) {
+      this._map.removeLayer(this._layers[id]);
+    }
+
+    delete this._layers[id];
+
+    return this;
+  }
+
+  // @method hasLayer(layer: Layer): Boolean
+  // Returns `true` if the given layer is currently added to the group.
+  // @alternative
+  // @method hasLayer(id: Number): Boolean
+  // Returns `true` if the given internal ID is currently added to the group.
+  public hasLayer(layer: Layer | number): boolean {
+    if (!layer && layer !== 0) {
+      return false;
+    }
+    const id = typeof layer === 'number' ? layer : this.getLayerId(layer);
+    return id in this._layers;
+  }
+
+  // @method clearLayers(): this
+  // Removes all the layers from the group.
+  public clearLayers(): this {
+    return this.eachLayer(this.removeLayer, this);
+  }
+
+  // @method invoke(methodName: String, …): this
+  // Calls `methodName` on every layer contained in this group, passing any
+  // additional parameters. Has no effect if the layers contained do not
+  // implement `methodName`.
+  public invoke(methodName: string, ...args: unknown[]): this {
+    for (const i in this._layers) {
+      const layer = (this._layers[i] as unknown) as Record<string, unknown>;
+      const method = layer[methodName];
+
+      if (typeof method === 'function') {
+        method.apply(layer, args);
+      }
+    }
+
+    return this;
+  }
+
+  public onAdd(map: Map): this {
+    this.eachLayer(map.addLayer, map);
+    return this;
+  }
+
+  public onRemove(map: Map): this {
+    this.eachLayer(map.removeLayer, map);
+    return this;
+  }
+
+  // @method eachLayer(fn: Function, context?: Object): this
+  // Iterates over the layers of the group, optionally specifying context of the iterator function.
+  // ```js
+  // group.eachLayer(function (layer) {
+  // 	layer.bindTooltip('Hello');
+  // });
+  // ```
+  public eachLayer(method: (layer: Layer) => void, context?: unknown): this {
+    for (const i in this._layers) {
+      method.call(context, this._layers[i]);
+    }
+    return this;
+  }
+
+  // @method getLayer(id: Number): Layer
+  // Returns the layer with the given internal ID.
+  public getLayer(id: number): Layer | undefined {
+    return this._layers[id];
+  }
+
+  // @method getLayers(): Layer[]
+  // Returns an array of all the layers added to the group.
+  public getLayers(): Layer[] {
+    const layers: Layer[] = [];
+    this.eachLayer(layers.push, layers);
+    return layers;
+  }
+
+  // @method setZIndex(zIndex: Number): this
+  // Calls `setZIndex` on every layer contained in this group, passing the z-index.
+  public setZIndex(zIndex: number): this {
+    return this.invoke('setZIndex', zIndex);
+  }
+
+  // @method getLayerId(layer: Layer): Number
+  // Returns the internal ID for a layer
+  public getLayerId(layer: Layer): number {
+    return stamp(layer);
+  }
+}
+
+// @factory L.layerGroup(layers?: Layer[], options?: Object)
+// Create a layer group, optionally given an initial set of layers and an `options` object.
+export function layerGroup(
+  layers?: Layer[],
+  options?: Partial<LayerOptions>,
+): LayerGroup {
+  return new LayerGroup(layers, options);
+}
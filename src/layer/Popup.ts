@@ -0,0 +1,537 @@
+import { LeafletEvent, Listener } from '@/core/Events';
+import { setOptions } from '@/core/Util';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng, LatLngLike } from '@/geo/LatLng';
+import { Point, PointLike, toPoint } from '@/geometry/Point';
+import { Map, ZoomAnimEvent } from '@/map/Map';
+import { DivOverlay, DivOverlayContent, DivOverlayOptions } from './DivOverlay';
+import { Layer } from './Layer';
+import { Path } from './vector/Path';
+
+/*
+ * @class Popup
+ * @inherits DivOverlay
+ * @aka L.Popup
+ * Used to open popups in certain places of the map. Use [Map.openPopup](#map-openpopup) to
+ * open popups while making sure that only one popup is open at one time
+ * (recommended for usability), or use [Map.addLayer](#map-addlayer) to open as many as you want.
+ *
+ * @example
+ *
+ * If you want to just bind a popup to marker click and then open it, it's really easy:
+ *
+ * ```js
+ * marker.bindPopup(popupContent).openPopup();
+ * ```
+ * Path overlays like polylines also have a `bindPopup` method.
+ * Here's a more complicated way to open a popup on a map:
+ *
+ * ```js
+ * var popup = L.popup()
+ * 	.setLatLng(latlng)
+ * 	.setContent('<p>Hello world!<br />This is a nice popup.</p>')
+ * 	.openOn(map);
+ * ```
+ */
+
+export interface PopupOptions extends DivOverlayOptions {
+  maxWidth: number;
+  minWidth: number;
+  maxHeight?: number;
+  autoPan: boolean;
+  autoPanPaddingTopLeft?: PointLike;
+  autoPanPaddingBottomRight?: PointLike;
+  autoPanPadding: PointLike;
+  keepInView: boolean;
+  closeButton: boolean;
+  autoClose: boolean;
+  closeOnEscapeKey: boolean;
+  closeOnClick?: boolean;
+}
+
+export class Popup extends DivOverlay {
+  // @section
+  // @aka Popup options
+  public options: PopupOptions = {
+    ...this.options,
+
+    // @option maxWidth: Number = 300
+    // Max width of the popup, in pixels.
+    maxWidth: 300,
+
+    // @option minWidth: Number = 50
+    // Min width of the popup, in pixels.
+    minWidth: 50,
+
+    // @option maxHeight: Number = null
+    // If set, creates a scrollable container of the given height
+    // inside a popup if its content exceeds it.
+    maxHeight: undefined,
+
+    // @option autoPan: Boolean = true
+    // Set it to `false` if you don't want the map to do panning animation
+    // to fit the opened popup.
+    autoPan: true,
+
+    // @option autoPanPaddingTopLeft: Point = null
+    // The margin between the popup and the top left corner of the map
+    // view after autopanning was performed.
+    autoPanPaddingTopLeft: undefined,
+
+    // @option autoPanPaddingBottomRight: Point = null
+    // The margin between the popup and the bottom right corner of the map
+    // view after autopanning was performed.
+    autoPanPaddingBottomRight: undefined,
+
+    // @option autoPanPadding: Point = Point(5, 5)
+    // Equivalent of setting both top left and bottom right autopan padding to the same value.
+    autoPanPadding: [5, 5],
+
+    // @option keepInView: Boolean = false
+    // Set it to `true` if you want to prevent users from panning the popup
+    // off of the screen while it is open.
+    keepInView: false,
+
+    // @option closeButton: Boolean = true
+    // Controls the presence of a close button in the popup.
+    closeButton: true,
+
+    // @option autoClose: Boolean = true
+    // Set it to `false` if you want to override the default behavior of
+    // the popup closing when another popup is opened.
+    autoClose: true,
+
+    // @option closeOnEscapeKey: Boolean = true
+    // Set it to `false` if you want to override the default behavior of
+    // the ESC key for closing of the popup.
+    closeOnEscapeKey: true,
+
+    // @option closeOnClick: Boolean = *
+    // Set it if you want to override the default behavior of the popup closing when user clicks
+    // on the map. Defaults to the map's [`closePopupOnClick`](#map-closepopuponclick) option.
+    closeOnClick: undefined,
+
+    // @option className: String = ''
+    // A custom CSS class name to assign to the popup.
+    className: '',
+  };
+
+  protected _wrapper?: HTMLElement;
+  protected _tipContainer?: HTMLElement;
+  protected _tip?: HTMLElement;
+  protected _closeButton?: HTMLAnchorElement;
+
+  constructor(options?: Partial<PopupOptions>, source?: Layer) {
+    super(undefined, source);
+    setOptions(this, options);
+  }
+
+  // @namespace Popup
+  // @method openOn(map: Map): this
+  // Adds the popup to the map and closes the previous one. The same as `map.openPopup(popup)`.
+  public openOn(map: Map): this {
+    map.openPopup(this);
+    return this;
+  }
+
+  public onAdd(map: Map): this {
+    super.onAdd(map);
+
+    // @namespace Map
+    // @section Popup events
+    // @event popupopen: PopupEvent
+    // Fired when a popup is opened in the map
+    map.fire('popupopen', { popup: this });
+
+    if (this._source) {
+      // @namespace Layer
+      // @section Popup events
+      // @event popupopen: PopupEvent
+      // Fired when a popup bound to this layer is opened
+      this._source.fire('popupopen', { popup: this }, true);
+
+      // For non-path layers, we toggle the popup when clicking
+      // again the layer, so prevent the map to reopen it.
+      if (!(this._source instanceof Path)) {
+        this._source.on('preclick', DomEvent.stopPropagation);
+      }
+    }
+    return this;
+  }
+
+  public onRemove(map: Map): this {
+    super.onRemove(map);
+
+    // @namespace Map
+    // @section Popup events
+    // @event popupclose: PopupEvent
+    // Fired when a popup in the map is closed
+    map.fire('popupclose', { popup: this });
+
+    if (this._source) {
+      // @namespace Layer
+      // @section Popup events
+      // @event popupclose: PopupEvent
+      // Fired when a popup bound to this layer is closed
+      this._source.fire('popupclose', { popup: this }, true);
+      if (!(this._source instanceof Path)) {
+        this._source.off('preclick', DomEvent.stopPropagation);
+      }
+    }
+    return this;
+  }
+
+  public getEvents(): Record<string, Listener> {
+    const events = super.getEvents();
+    const closeOnClick =
+      this.options.closeOnClick !== undefined
+        ? this.options.closeOnClick
+        : (this._map as Map).options.closePopupOnClick;
+
+    if (closeOnClick) {
+      events.preclick = this._close;
+    }
+
+    if (this.options.keepInView) {
+      events.moveend = this._adjustPan;
+    }
+
+    return events;
+  }
+
+  public _close(): void {
+    if (this._map) {
+      this._map.closePopup(this);
+    }
+  }
+
+  protected _initLayout(): void {
+    const prefix = 'leaflet-popup';
+    const container = (this._container = DomUtil.create(
+      'div',
+      prefix + ' ' + (this.options.className || '') + ' leaflet-zoom-animated',
+    ));
+
+    const wrapper = (this._wrapper = DomUtil.create(
+      'div',
+      prefix + '-content-wrapper',
+      container,
+    ));
+    this._contentNode = DomUtil.create('div', prefix + '-content', wrapper);
+
+    this._tipContainer = DomUtil.create(
+      'div',
+      prefix + '-tip-container',
+      container,
+    );
+    this._tip = DomUtil.create('div', prefix + '-tip', this._tipContainer);
+
+    if (this.options.closeButton) {
+      const closeButton = (this._closeButton = DomUtil.create(
+        'a',
+        prefix + '-close-button',
+        container,
+      ) as HTMLAnchorElement);
+      closeButton.href = '#close';
+      closeButton.innerHTML = '&#215;';
+
+      DomEvent.on(closeButton, 'click', this._onCloseButtonClick, this);
+    }
+
+    DomEvent.disableClickPropagation(wrapper);
+
+    DomEvent.disableScrollPropagation(this._contentNode);
+    DomEvent.on(wrapper, 'contextmenu', DomEvent.stopPropagation);
+  }
+
+  protected _updateLayout(): void {
+    const container = this._contentNode;
+    const style = container.style;
+
+    style.width = '';
+    style.whiteSpace = 'nowrap';
+
+    let width = container.offsetWidth;
+    width = Math.min(width, this.options.maxWidth);
+    width = Math.max(width, this.options.minWidth);
+
+    style.width = width + 1 + 'px';
+    style.whiteSpace = '';
+
+    style.height = '';
+
+    const height = container.offsetHeight;
+    const maxHeight = this.options.maxHeight;
+    const scrolledClass = 'leaflet-popup-scrolled';
+
+    if (maxHeight && height > maxHeight) {
+      style.height = maxHeight + 'px';
+      DomUtil.addClass(container, scrolledClass);
+    } else {
+      DomUtil.removeClass(container, scrolledClass);
+    }
+
+    this._containerWidth = (this._container as HTMLElement).offsetWidth;
+  }
+
+  protected _adjustPan(): void {
+    if (!this.options.autoPan || !this._map) {
+      return;
+    }
+    if (this._map._panAnim) {
+      this._map._panAnim.stop();
+    }
+
+    const map = this._map;
+    const container = this._container as HTMLElement;
+    const marginBottom =
+      parseInt(DomUtil.getStyle(container, 'marginBottom') as string, 10) || 0;
+    const containerHeight = container.offsetHeight + marginBottom;
+    const containerWidth = this._containerWidth;
+    const layerPos = new Point(
+      this._containerLeft,
+      -containerHeight - this._containerBottom,
+    );
+
+    layerPos._add(DomUtil.getPosition(container));
+
+    const containerPos = map.layerPointToContainerPoint(layerPos);
+    const padding = toPoint(this.options.autoPanPadding);
+    const paddingTL = toPoint(this.options.autoPanPaddingTopLeft || padding);
+    const paddingBR = toPoint(
+      this.options.autoPanPaddingBottomRight || padding,
+    );
+    const size = map.getSize();
+    let dx = 0;
+    let dy = 0;
+
+    if (containerPos.x + containerWidth + paddingBR.x > size.x) {
+      // right
+      dx = containerPos.x + containerWidth - size.x + paddingBR.x;
+    }
+    if (containerPos.x - dx - paddingTL.x < 0) {
+      // left
+      dx = containerPos.x - paddingTL.x;
+    }
+    if (containerPos.y + containerHeight + paddingBR.y > size.y) {
+      // bottom
+      dy = containerPos.y + containerHeight - size.y + paddingBR.y;
+    }
+    if (containerPos.y - dy - paddingTL.y < 0) {
+      // top
+      dy = containerPos.y - paddingTL.y;
+    }
+
+    // @namespace Map
+    // @section Popup events
+    // @event autopanstart: Event
+    // Fired when the map starts autopanning when opening a popup.
+    if (dx || dy) {
+      map.fire('autopanstart').panBy([dx, dy]);
+    }
+  }
+
+  protected _animateZoom(e: ZoomAnimEvent): void {
+    const map = this._map as Map;
+    const pos = map._latLngToNewLayerPoint(this._latlng, e.zoom, e.center);
+    const anchor = this._getAnchor();
+    DomUtil.setPosition(this._container as HTMLElement, pos.add(anchor));
+  }
+
+  protected _onCloseButtonClick(e: MouseEvent): void {
+    this._close();
+    DomEvent.stop(e);
+  }
+
+  protected _getAnchor(): Point {
+    // Where should we anchor the popup on the source layer?
+    return toPoint(
+      this._source && this._source._getPopupAnchor
+        ? this._source._getPopupAnchor()
+        : [0, 0],
+    );
+  }
+}
+
+// @namespace Popup
+// @factory L.popup(options?: Popup options, source?: Layer)
+// Instantiates a `Popup` object given an optional `options` object that describes its appearance and location and an optional `source` object that is used to tag the popup with a reference to the Layer to which it refers.
+export function popup(options?: Partial<PopupOptions>, source?: Layer): Popup {
+  return new Popup(options, source);
+}
+
+/* @namespace Layer
+ * @section Popup methods
+ *
+ * All layers share a set of methods convenient for binding popups to it.
+ *
+ * ```js
+ * var layer = L.Polygon(latlngs).bindPopup('Hi There!').addTo(map);
+ * layer.openPopup();
+ * layer.closePopup();
+ * ```
+ *
+ * Popups will also be automatically opened when the layer is clicked on and closed when the layer is removed from the map or another popup is opened.
+ */
+declare module './Layer' {
+  interface Layer {
+    _popup?: Popup;
+    _popupHandlersAdded?: boolean;
+    _getPopupAnchor?(): PointLike;
+    bindPopup(
+      content: DivOverlayContent | Popup,
+      options?: Partial<PopupOptions>,
+    ): this;
+    unbindPopup(): this;
+    openPopup(layer?: Layer | LatLngLike, latlng?: LatLngLike): this;
+    closePopup(): this;
+    togglePopup(target?: Layer): this;
+    isPopupOpen(): boolean;
+    setPopupContent(content: DivOverlayContent): this;
+    getPopup(): Popup | undefined;
+    _openPopup(e: LeafletEvent): void;
+    _movePopup(e: LeafletEvent): void;
+    _onKeyPress(e: LeafletEvent): void;
+  }
+}
+
+function popupHandlers(layer: Layer): Record<string, Listener> {
+  return {
+    click: layer._openPopup,
+    keypress: layer._onKeyPress,
+    remove: layer.closePopup,
+    move: layer._movePopup,
+  };
+}
+
+// @method bindPopup(content: String|HTMLElement|Function|Popup, options?: Popup options): this
+// Binds a popup to the layer with the passed `content` and sets up the
+// necessary event listeners. If a `Function` is passed it will receive
+// the layer as the first argument and should return a `String` or `HTMLElement`.
+Layer.prototype.bindPopup = function (content, options) {
+  if (content instanceof Popup) {
+    setOptions(content, options);
+    this._popup = content;
+    content._source = this;
+  } else {
+    if (!this._popup || options) {
+      this._popup = new Popup(options, this);
+    }
+    this._popup.setContent(content);
+  }
+
+  if (!this._popupHandlersAdded) {
+    this.on(popupHandlers(this), this);
+    this._popupHandlersAdded = true;
+  }
+
+  return this;
+};
+
+// @method unbindPopup(): this
+// Removes the popup previously bound with `bindPopup`.
+Layer.prototype.unbindPopup = function () {
+  if (this._popup) {
+    this.off(popupHandlers(this), this);
+    this._popupHandlersAdded = false;
+    this._popup = undefined;
+  }
+  return this;
+};
+
+// @method openPopup(latlng?: LatLng): this
+// Opens the bound popup at the specified `latlng` or at the default popup anchor if no `latlng` is passed.
+Layer.prototype.openPopup = function (layer, latlng) {
+  if (!(layer instanceof Layer)) {
+    latlng = layer;
+    layer = this;
+  }
+
+  if (this._popup && this._map) {
+    // open the popup on the map
+    this._map.openPopup(this._popup, this._popup._prepareOpen(layer, latlng));
+  }
+
+  return this;
+};
+
+// @method closePopup(): this
+// Closes the popup bound to this layer if it is open.
+Layer.prototype.closePopup = function () {
+  if (this._popup) {
+    this._popup._close();
+  }
+  return this;
+};
+
+// @method togglePopup(): this
+// Opens or closes the popup bound to this layer depending on its current state.
+Layer.prototype.togglePopup = function (target) {
+  if (this._popup) {
+    if (this._popup._map) {
+      this.closePopup();
+    } else {
+      this.openPopup(target);
+    }
+  }
+  return this;
+};
+
+// @method isPopupOpen(): boolean
+// Returns `true` if the popup bound to this layer is currently open.
+Layer.prototype.isPopupOpen = function () {
+  return this._popup ? this._popup.isOpen() : false;
+};
+
+// @method setPopupContent(content: String|HTMLElement|Popup): this
+// Sets the content of the popup bound to this layer.
+Layer.prototype.setPopupContent = function (content) {
+  if (this._popup) {
+    this._popup.setContent(content);
+  }
+  return this;
+};
+
+// @method getPopup(): Popup
+// Returns the popup bound to this layer.
+Layer.prototype.getPopup = function () {
+  return this._popup;
+};
+
+Layer.prototype._openPopup = function (e) {
+  const layer = (e.layer || e.target) as Layer;
+  const popup = this._popup;
+
+  if (!popup || !this._map) {
+    return;
+  }
+
+  // prevent map click
+  DomEvent.stopPropagation(e);
+
+  // if this inherits from Path its a vector and we can just
+  // open the popup at the new location
+  if (layer instanceof Path) {
+    this.openPopup(layer, e.latlng as LatLng | undefined);
+    return;
+  }
+
+  // otherwise treat it like a marker and figure out
+  // if we should toggle it open/closed
+  if (this._map.hasLayer(popup) && popup._source === layer) {
+    this.closePopup();
+  } else {
+    this.openPopup(layer, e.latlng as LatLng | undefined);
+  }
+};
+
+Layer.prototype._movePopup = function (e) {
+  (this._popup as Popup).setLatLng(e.latlng as LatLng);
+};
+
+Layer.prototype._onKeyPress = function (e) {
+  if ((e.originalEvent as KeyboardEvent).keyCode === 13) {
+    this._openPopup(e);
+  }
+};
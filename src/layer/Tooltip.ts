@@ -0,0 +1,453 @@
+import * as Browser from '@/core/Browser';
+import { LeafletEvent, Listener } from '@/core/Events';
+import { setOptions } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng, LatLngLike } from '@/geo/LatLng';
+import { Point, PointLike, toPoint } from '@/geometry/Point';
+import { Map, ZoomAnimEvent } from '@/map/Map';
+import { DivOverlay, DivOverlayContent, DivOverlayOptions } from './DivOverlay';
+import { Layer } from './Layer';
+
+/*
+ * @class Tooltip
+ * @inherits DivOverlay
+ * @aka L.Tooltip
+ * Used to display small texts on top of map layers.
+ *
+ * @example
+ *
+ * ```js
+ * marker.bindTooltip("my tooltip text").openTooltip();
+ * ```
+ * Note about tooltip offset. Leaflet takes two options in consideration
+ * for computing tooltip offsetting:
+ * - the `offset` Tooltip option: it defaults to [0, 0], and it's specific to one tooltip.
+ *   Add a positive x offset to move the tooltip to the right, and a positive y offset to
+ *   move it to the bottom. Negatives will move to the left and top.
+ * - the `tooltipAnchor` Icon option: this will only be considered for Marker. You
+ *   should adapt this value if you use a custom icon.
+ */
+
+export type TooltipDirection =
+  | 'right'
+  | 'left'
+  | 'top'
+  | 'bottom'
+  | 'center'
+  | 'auto';
+
+export interface TooltipOptions extends DivOverlayOptions {
+  direction: TooltipDirection;
+  permanent: boolean;
+  sticky: boolean;
+  interactive: boolean;
+  opacity: number;
+}
+
+export class Tooltip extends DivOverlay {
+  // @section
+  // @aka Tooltip options
+  public options: TooltipOptions = {
+    ...this.options,
+
+    // @option pane: String = 'tooltipPane'
+    // `Map pane` where the tooltip will be added.
+    pane: 'tooltipPane',
+
+    // @option offset: Point = Point(0, 0)
+    // Optional offset of the tooltip position.
+    offset: [0, 0],
+
+    // @option direction: String = 'auto'
+    // Direction where to open the tooltip. Possible values are: `right`, `left`,
+    // `top`, `bottom`, `center`, `auto`.
+    // `auto` will dynamically switch between `right` and `left` according to the tooltip
+    // position on the map.
+    direction: 'auto',
+
+    // @option permanent: Boolean = false
+    // Whether to open the tooltip permanently or only on mouseover.
+    permanent: false,
+
+    // @option sticky: Boolean = false
+    // If true, the tooltip will follow the mouse instead of being fixed at the feature center.
+    sticky: false,
+
+    // @option interactive: Boolean = false
+    // If true, the tooltip will listen to the feature events.
+    interactive: false,
+
+    // @option opacity: Number = 0.9
+    // Tooltip container opacity.
+    opacity: 0.9,
+  };
+
+  constructor(options?: Partial<TooltipOptions>, source?: Layer) {
+    super(undefined, source);
+    setOptions(this, options);
+  }
+
+  public onAdd(map: Map): this {
+    super.onAdd(map);
+    this.setOpacity(this.options.opacity);
+
+    // @namespace Map
+    // @section Tooltip events
+    // @event tooltipopen: TooltipEvent
+    // Fired when a tooltip is opened in the map.
+    map.fire('tooltipopen', { tooltip: this });
+
+    if (this._source) {
+      // @namespace Layer
+      // @section Tooltip events
+      // @event tooltipopen: TooltipEvent
+      // Fired when a tooltip bound to this layer is opened.
+      this._source.fire('tooltipopen', { tooltip: this }, true);
+    }
+    return this;
+  }
+
+  public onRemove(map: Map): this {
+    super.onRemove(map);
+
+    // @namespace Map
+    // @section Tooltip events
+    // @event tooltipclose: TooltipEvent
+    // Fired when a tooltip in the map is closed.
+    map.fire('tooltipclose', { tooltip: this });
+
+    if (this._source) {
+      // @namespace Layer
+      // @section Tooltip events
+      // @event tooltipclose: TooltipEvent
+      // Fired when a tooltip bound to this layer is closed.
+      this._source.fire('tooltipclose', { tooltip: this }, true);
+    }
+    return this;
+  }
+
+  public getEvents(): Record<string, Listener> {
+    const events = super.getEvents();
+
+    if (Browser.touch && !this.options.permanent) {
+      events.preclick = this._close;
+    }
+
+    return events;
+  }
+
+  public _close(): void {
+    if (this._map) {
+      this._map.closeTooltip(this);
+    }
+  }
+
+  protected _initLayout(): void {
+    const prefix = 'leaflet-tooltip';
+    const className =
+      prefix +
+      ' ' +
+      (this.options.className || '') +
+      ' leaflet-zoom-' +
+      (this._zoomAnimated ? 'animated' : 'hide');
+
+    this._contentNode = this._container = DomUtil.create('div', className);
+  }
+
+  // tooltips are sized by their content and never pan the map
+  protected _updateLayout(): void {
+    return;
+  }
+
+  protected _adjustPan(): void {
+    return;
+  }
+
+  protected _setPosition(pos: Point): void {
+    const map = this._map as Map;
+    const container = this._container as HTMLElement;
+    const centerPoint = map.latLngToContainerPoint(map.getCenter());
+    const tooltipPoint = map.layerPointToContainerPoint(pos);
+    const tooltipWidth = container.offsetWidth;
+    const tooltipHeight = container.offsetHeight;
+    const offset = toPoint(this.options.offset);
+    const anchor = this._getAnchor();
+    let direction = this.options.direction;
+    let subX = tooltipWidth / 2;
+    let subY = tooltipHeight / 2;
+
+    if (direction === 'top') {
+      subY = tooltipHeight;
+    } else if (direction === 'bottom') {
+      subY = 0;
+    } else if (direction === 'right') {
+      subX = 0;
+    } else if (direction === 'left') {
+      subX = tooltipWidth;
+    } else if (direction === 'auto' && tooltipPoint.x < centerPoint.x) {
+      direction = 'right';
+      subX = 0;
+    } else if (direction === 'auto') {
+      direction = 'left';
+      subX = tooltipWidth + (offset.x + anchor.x) * 2;
+    }
+
+    pos = pos.subtract(new Point(subX, subY, true)).add(offset).add(anchor);
+
+    DomUtil.removeClass(container, 'leaflet-tooltip-right');
+    DomUtil.removeClass(container, 'leaflet-tooltip-left');
+    DomUtil.removeClass(container, 'leaflet-tooltip-top');
+    DomUtil.removeClass(container, 'leaflet-tooltip-bottom');
+    DomUtil.addClass(container, 'leaflet-tooltip-' + direction);
+    DomUtil.setPosition(container, pos);
+  }
+
+  protected _animateZoom(e: ZoomAnimEvent): void {
+    const map = this._map as Map;
+    const pos = map._latLngToNewLayerPoint(this._latlng, e.zoom, e.center);
+    this._setPosition(pos);
+  }
+
+  protected _updatePosition(): void {
+    if (!this._map) {
+      return;
+    }
+    const pos = this._map.latLngToLayerPoint(this._latlng);
+    this._setPosition(pos);
+  }
+
+  // @method setOpacity(opacity: Number): null
+  // Sets the opacity of the tooltip.
+  public setOpacity(opacity: number): void {
+    this.options.opacity = opacity;
+
+    if (this._container) {
+      DomUtil.setOpacity(this._container, opacity);
+    }
+  }
+
+  protected _getAnchor(): Point {
+    // Where should we anchor the tooltip on the source layer?
+    return toPoint(
+      this._source && this._source._getTooltipAnchor && !this.options.sticky
+        ? this._source._getTooltipAnchor()
+        : [0, 0],
+    );
+  }
+}
+
+// @namespace Tooltip
+// @factory L.tooltip(options?: Tooltip options, source?: Layer)
+// Instantiates a Tooltip object given an optional `options` object that describes its appearance and location and an optional `source` object that is used to tag the tooltip with a reference to the Layer to which it refers.
+export function tooltip(
+  options?: Partial<TooltipOptions>,
+  source?: Layer,
+): Tooltip {
+  return new Tooltip(options, source);
+}
+
+/* @namespace Layer
+ * @section Tooltip methods
+ *
+ * All layers share a set of methods convenient for binding tooltips to it.
+ *
+ * ```js
+ * var layer = L.Polygon(latlngs).bindTooltip('Hi There!').addTo(map);
+ * layer.openTooltip();
+ * layer.closeTooltip();
+ * ```
+ */
+declare module './Layer' {
+  interface Layer {
+    _tooltip?: Tooltip;
+    _tooltipHandlersAdded?: boolean;
+    _getTooltipAnchor?(): PointLike;
+    bindTooltip(
+      content: DivOverlayContent | Tooltip,
+      options?: Partial<TooltipOptions>,
+    ): this;
+    unbindTooltip(): this;
+    openTooltip(layer?: Layer | LatLngLike, latlng?: LatLngLike): this;
+    closeTooltip(): this;
+    toggleTooltip(target?: Layer): this;
+    isTooltipOpen(): boolean;
+    setTooltipContent(content: DivOverlayContent): this;
+    getTooltip(): Tooltip | undefined;
+    _initTooltipInteractions(remove?: boolean): void;
+    _openTooltip(e: LeafletEvent): void;
+    _moveTooltip(e: LeafletEvent): void;
+  }
+}
+
+// @method bindTooltip(content: String|HTMLElement|Function|Tooltip, options?: Tooltip options): this
+// Binds a tooltip to the layer with the passed `content` and sets up the
+// necessary event listeners. If a `Function` is passed it will receive
+// the layer as the first argument and should return a `String` or `HTMLElement`.
+Layer.prototype.bindTooltip = function (content, options) {
+  if (content instanceof Tooltip) {
+    setOptions(content, options);
+    this._tooltip = content;
+    content._source = this;
+  } else {
+    if (!this._tooltip || options) {
+      this._tooltip = new Tooltip(options, this);
+    }
+    this._tooltip.setContent(content);
+  }
+
+  this._initTooltipInteractions();
+
+  if (
+    this._tooltip.options.permanent &&
+    this._map &&
+    this._map.hasLayer(this)
+  ) {
+    this.openTooltip();
+  }
+
+  return this;
+};
+
+// @method unbindTooltip(): this
+// Removes the tooltip previously bound with `bindTooltip`.
+Layer.prototype.unbindTooltip = function () {
+  if (this._tooltip) {
+    this._initTooltipInteractions(true);
+    this.closeTooltip();
+    this._tooltip = undefined;
+  }
+  return this;
+};
+
+Layer.prototype._initTooltipInteractions = function (remove) {
+  if (!this._tooltip || (!remove && this._tooltipHandlersAdded)) {
+    return;
+  }
+  const options = this._tooltip.options;
+  const events: Record<string, Listener> = {
+    remove: this.closeTooltip,
+    move: this._moveTooltip,
+  };
+
+  if (!options.permanent) {
+    events.mouseover = this._openTooltip;
+    events.mouseout = this.closeTooltip;
+    if (options.sticky) {
+      events.mousemove = this._moveTooltip;
+    }
+    if (Browser.touch) {
+      events.click = this._openTooltip;
+    }
+  } else {
+    events.add = this._openTooltip;
+  }
+
+  if (remove) {
+    this.off(events, this);
+  } else {
+    this.on(events, this);
+  }
+  this._tooltipHandlersAdded = !remove;
+};
+
+// @method openTooltip(latlng?: LatLng): this
+// Opens the bound tooltip at the specified `latlng` or at the default tooltip anchor if no `latlng` is passed.
+Layer.prototype.openTooltip = function (layer, latlng) {
+  if (!(layer instanceof Layer)) {
+    latlng = layer;
+    layer = this;
+  }
+
+  const tooltip = this._tooltip;
+  if (tooltip && this._map) {
+    // open the tooltip on the map
+    this._map.openTooltip(tooltip, tooltip._prepareOpen(layer, latlng));
+
+    // Tooltip container may not be defined if not permanent and never
+    // opened.
+    if (tooltip.options.interactive && tooltip._container) {
+      DomUtil.addClass(tooltip._container, 'leaflet-clickable');
+      this.addInteractiveTarget(tooltip._container);
+    }
+  }
+
+  return this;
+};
+
+// @method closeTooltip(): this
+// Closes the tooltip bound to this layer if it is open.
+Layer.prototype.closeTooltip = function () {
+  const tooltip = this._tooltip;
+  if (tooltip) {
+    tooltip._close();
+    if (tooltip.options.interactive && tooltip._container && this._map) {
+      DomUtil.removeClass(tooltip._container, 'leaflet-clickable');
+      this.removeInteractiveTarget(tooltip._container);
+    }
+  }
+  return this;
+};
+
+// @method toggleTooltip(): this
+// Opens or closes the tooltip bound to this layer depending on its current state.
+Layer.prototype.toggleTooltip = function (target) {
+  if (this._tooltip) {
+    if (this._tooltip._map) {
+      this.closeTooltip();
+    } else {
+      this.openTooltip(target);
+    }
+  }
+  return this;
+};
+
+// @method isTooltipOpen(): boolean
+// Returns `true` if the tooltip bound to this layer is currently open.
+Layer.prototype.isTooltipOpen = function () {
+  return this._tooltip ? this._tooltip.isOpen() : false;
+};
+
+// @method setTooltipContent(content: String|HTMLElement|Tooltip): this
+// Sets the content of the tooltip bound to this layer.
+Layer.prototype.setTooltipContent = function (content) {
+  if (this._tooltip) {
+    this._tooltip.setContent(content);
+  }
+  return this;
+};
+
+// @method getTooltip(): Tooltip
+// Returns the tooltip bound to this layer.
+Layer.prototype.getTooltip = function () {
+  return this._tooltip;
+};
+
+Layer.prototype._openTooltip = function (e) {
+  const layer = (e.layer || e.target) as Layer;
+
+  if (!this._tooltip || !this._map) {
+    return;
+  }
+  this.openTooltip(
+    layer,
+    this._tooltip.options.sticky ? (e.latlng as LatLng) : undefined,
+  );
+};
+
+Layer.prototype._moveTooltip = function (e) {
+  const map = this._map;
+  const tooltip = this._tooltip;
+  let latlng = e.latlng as LatLng;
+
+  if (!tooltip) {
+    return;
+  }
+  if (tooltip.options.sticky && e.originalEvent && map) {
+    const containerPoint = map.mouseEventToContainerPoint(
+      e.originalEvent as MouseEvent,
+    );
+    const layerPoint = map.containerPointToLayerPoint(containerPoint);
+    latlng = map.layerPointToLatLng(layerPoint);
+  }
+  tooltip.setLatLng(latlng);
+};
@@ -0,0 +1,10 @@
+export { Layer } from './Layer';
+export { LayerGroup, layerGroup } from './LayerGroup';
+export { FeatureGroup, featureGroup } from './FeatureGroup';
+export { GeoJSON, geoJSON, geoJSON as geoJson } from './GeoJSON';
+export { DivOverlay } from './DivOverlay';
+export { Popup, popup } from './Popup';
+export { Tooltip, tooltip } from './Tooltip';
+export * from './marker/index';
+export * from './tile/index';
+export * from './vector/index';
@@ -0,0 +1,90 @@
+import { setOptions } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { PointLike, toPoint } from '@/geometry/Point';
+import { Icon, IconOptions } from './Icon';
+
+/*
+ * @class DivIcon
+ * @aka L.DivIcon
+ * @inherits Icon
+ *
+ * Represents a lightweight icon for markers that uses a simple `<div>`
+ * element instead of an image. Inherits from `Icon` but ignores the `iconUrl` and shadow options.
+ *
+ * @example
+ * ```js
+ * var myIcon = L.divIcon({className: 'my-div-icon'});
+ * // you can set .my-div-icon styles in CSS
+ *
+ * L.marker([50.505, 30.57], {icon: myIcon}).addTo(map);
+ * ```
+ *
+ * By default, it has a 'leaflet-div-icon' CSS class and is styled as a little white square with a shadow.
+ */
+
+export interface DivIconOptions extends IconOptions {
+  html: string | HTMLElement | false;
+  bgPos?: PointLike;
+}
+
+export class DivIcon extends Icon {
+  public options: DivIconOptions = {
+    ...this.options,
+
+    // @section
+    // @aka DivIcon options
+    iconSize: [12, 12], // also can be set through CSS
+
+    // iconAnchor: (Point),
+    // popupAnchor: (Point),
+
+    // @option html: String|HTMLElement = ''
+    // Custom HTML code to put inside the div element, empty by default. Alternatively,
+    // an instance of `HTMLElement`.
+    html: false,
+
+    // @option bgPos: Point = [0, 0]
+    // Optional relative position of the background, in pixels
+    bgPos: undefined,
+
+    className: 'leaflet-div-icon',
+  };
+
+  constructor(options?: Partial<DivIconOptions>) {
+    super();
+    setOptions(this, options);
+  }
+
+  public createIcon(oldIcon?: HTMLElement): HTMLElement {
+    const div =
+      oldIcon && oldIcon.tagName === 'DIV'
+        ? oldIcon
+        : document.createElement('div');
+    const options = this.options;
+
+    if (options.html instanceof Element) {
+      DomUtil.empty(div);
+      div.appendChild(options.html);
+    } else {
+      div.innerHTML = options.html !== false ? options.html : '';
+    }
+
+    if (options.bgPos) {
+      const bgPos = toPoint(options.bgPos);
+      div.style.backgroundPosition = -bgPos.x + 'px ' + -bgPos.y + 'px';
+    }
+    this._setIconStyles(div, 'icon');
+
+    return div;
+  }
+
+  public createShadow(): null {
+    return null;
+  }
+}
+
+// @factory L.divIcon(options: DivIcon options)
+// Creates a `DivIcon` instance with the given options.
+export function divIcon(options?: Partial<DivIconOptions>): DivIcon {
+  return new DivIcon(options);
+}
@@ -0,0 +1,82 @@
+import { setOptions } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { Icon, IconOptions } from './Icon';
+
+/*
+ * @miniclass Icon.Default (Icon)
+ * @aka L.Icon.Default
+ * @section
+ *
+ * A trivial subclass of `Icon`, represents the icon to use in `Marker`s when
+ * no icon is specified. Points to the blue marker image distributed with Leaflet
+ * releases.
+ *
+ * In order to customize the default icon, just change the properties of `L.Icon.Default.prototype.options`
+ * (which is a set of `Icon options`).
+ *
+ * If you want to _completely_ replace the default icon, override the
+ * `L.Marker.prototype.options.icon` with your own icon instead.
+ */
+
+export interface IconDefaultOptions extends IconOptions {
+  imagePath?: string;
+}
+
+export class IconDefault extends Icon {
+  // @property imagePath: String
+  // `Icon.Default` will try to auto-detect the location of the
+  // blue icon images. If you are placing these images in a non-standard
+  // way, set this option to point to the right path.
+  public static imagePath?: string;
+
+  public options: IconDefaultOptions = {
+    ...this.options,
+    iconUrl: 'marker-icon.png',
+    iconRetinaUrl: 'marker-icon-2x.png',
+    shadowUrl: 'marker-shadow.png',
+    iconSize: [25, 41],
+    iconAnchor: [12, 41],
+    popupAnchor: [1, -34],
+    tooltipAnchor: [16, -28],
+    shadowSize: [41, 41],
+  };
+
+  constructor(options?: Partial<IconDefaultOptions>) {
+    super();
+    setOptions(this, options);
+  }
+
+  protected _getIconUrl(name: 'icon' | 'shadow'): string {
+    if (!IconDefault.imagePath) {
+      // Deprecated, backwards-compatibility only
+      IconDefault.imagePath = this._detectIconPath();
+    }
+
+    // @option imagePath: String
+    // `Icon.Default` will try to auto-detect the location of the
+    // blue icon images. If you are placing these images in a non-standard
+    // way, set this option to point to the right path.
+    return (
+      (this.options.imagePath || IconDefault.imagePath) +
+      super._getIconUrl(name)
+    );
+  }
+
+  protected _detectIconPath(): string {
+    const el = DomUtil.create(
+      'div',
+      'leaflet-default-icon-path',
+      document.body,
+    );
+    const path = DomUtil.getStyle(el, 'backgroundImage') as string | null;
+
+    document.body.removeChild(el);
+
+    if (path === null || path.indexOf('url') !== 0) {
+      return '';
+    }
+    return path
+      .replace(/^url\(["']?/, '')
+      .replace(/marker-icon\.png["']?\)$/, '');
+  }
+}
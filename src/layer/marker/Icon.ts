@@ -0,0 +1,195 @@
+import * as Browser from '@/core/Browser';
+import { setOptions } from '@/core/Util';
+import { PointLike, toPoint } from '@/geometry/Point';
+
+/*
+ * @class Icon
+ * @aka L.Icon
+ *
+ * Represents an icon to provide when creating a marker.
+ *
+ * @example
+ *
+ * ```js
+ * var myIcon = L.icon({
+ *     iconUrl: 'my-icon.png',
+ *     iconRetinaUrl: 'my-icon@2x.png',
+ *     iconSize: [38, 95],
+ *     iconAnchor: [22, 94],
+ *     popupAnchor: [-3, -76],
+ *     shadowUrl: 'my-icon-shadow.png',
+ *     shadowRetinaUrl: 'my-icon-shadow@2x.png',
+ *     shadowSize: [68, 95],
+ *     shadowAnchor: [22, 94]
+ * });
+ *
+ * L.marker([50.505, 30.57], {icon: myIcon}).addTo(map);
+ * ```
+ *
+ * `L.Icon.Default` extends `L.Icon` and is the blue icon Leaflet uses for markers by default.
+ *
+ */
+
+export type IconSize = PointLike | number;
+
+export interface IconOptions {
+  iconUrl?: string;
+  iconRetinaUrl?: string;
+  iconSize?: IconSize;
+  iconAnchor?: PointLike;
+  popupAnchor: PointLike;
+  tooltipAnchor: PointLike;
+  shadowUrl?: string;
+  shadowRetinaUrl?: string;
+  shadowSize?: IconSize;
+  shadowAnchor?: PointLike;
+  className: string;
+  crossOrigin: boolean | string;
+}
+
+type IconName = 'icon' | 'shadow';
+
+export class Icon {
+  // @section
+  // @aka Icon options
+  public options: IconOptions = {
+    // @option iconUrl: String = null
+    // **(required)** The URL to the icon image (absolute or relative to your script path).
+
+    // @option iconRetinaUrl: String = null
+    // The URL to a retina sized version of the icon image (absolute or relative to your
+    // script path). Used for Retina screen devices.
+
+    // @option iconSize: Point = null
+    // Size of the icon image in pixels.
+
+    // @option iconAnchor: Point = null
+    // The coordinates of the "tip" of the icon (relative to its top left corner). The icon
+    // will be aligned so that this point is at the marker's geographical location. Centered
+    // by default if size is specified, also can be set in CSS with negative margins.
+
+    // @option popupAnchor: Point = [0, 0]
+    // The coordinates of the point from which popups will "open", relative to the icon anchor.
+    popupAnchor: [0, 0],
+
+    // @option tooltipAnchor: Point = [0, 0]
+    // The coordinates of the point from which tooltips will "open", relative to the icon anchor.
+    tooltipAnchor: [0, 0],
+
+    // @option shadowUrl: String = null
+    // The URL to the icon shadow image. If not specified, no shadow image will be created.
+
+    // @option shadowRetinaUrl: String = null
+
+    // @option shadowSize: Point = null
+    // Size of the shadow image in pixels.
+
+    // @option shadowAnchor: Point = null
+    // The coordinates of the "tip" of the shadow (relative to its top left corner) (the same
+    // as iconAnchor if not specified).
+
+    // @option className: String = ''
+    // A custom class name to assign to both icon and shadow images. Empty by default.
+    className: '',
+
+    // @option crossOrigin: Boolean|String = false
+    // Whether the crossOrigin attribute will be added to the tiles.
+    // If a String is provided, all tiles will have their crossOrigin attribute set to the String provided. This is needed if you want to access tile pixel data.
+    // Refer to [CORS Settings](https://developer.mozilla.org/en-US/docs/Web/HTML/CORS_settings_attributes) for valid String values.
+    crossOrigin: false,
+  };
+
+  constructor(options?: Partial<IconOptions>) {
+    setOptions(this, options);
+  }
+
+  // @method createIcon(oldIcon?: HTMLElement): HTMLElement
+  // Called internally when the icon has to be shown, returns a `<img>` HTML element
+  // styled according to the options.
+  public createIcon(oldIcon?: HTMLElement): HTMLElement {
+    return this._createIcon('icon', oldIcon) as HTMLElement;
+  }
+
+  // @method createShadow(oldIcon?: HTMLElement): HTMLElement
+  // As `createIcon`, but for the shadow beneath it.
+  public createShadow(oldIcon?: HTMLElement): HTMLElement | null {
+    return this._createIcon('shadow', oldIcon);
+  }
+
+  protected _createIcon(
+    name: IconName,
+    oldIcon?: HTMLElement,
+  ): HTMLElement | null {
+    const src = this._getIconUrl(name);
+
+    if (!src) {
+      if (name === 'icon') {
+        throw new Error('iconUrl not set in Icon options (see the docs).');
+      }
+      return null;
+    }
+
+    const img = this._createImg(
+      src,
+      oldIcon && oldIcon.tagName === 'IMG' ? oldIcon : undefined,
+    );
+    this._setIconStyles(img, name);
+
+    if (this.options.crossOrigin || this.options.crossOrigin === '') {
+      (img as HTMLImageElement).crossOrigin =
+        this.options.crossOrigin === true ? '' : this.options.crossOrigin;
+    }
+
+    return img;
+  }
+
+  protected _setIconStyles(img: HTMLElement, name: IconName): void {
+    const options = this.options;
+    let sizeOption = options[name === 'icon' ? 'iconSize' : 'shadowSize'];
+
+    if (typeof sizeOption === 'number') {
+      sizeOption = [sizeOption, sizeOption];
+    }
+
+    const size = sizeOption === undefined ? undefined : toPoint(sizeOption);
+    const anchorOption =
+      (name === 'shadow' && options.shadowAnchor) || options.iconAnchor;
+    const anchor =
+      anchorOption !== undefined
+        ? toPoint(anchorOption)
+        : size && size.divideBy(2);
+
+    img.className = 'leaflet-marker-' + name + ' ' + (options.className || '');
+
+    if (anchor) {
+      img.style.marginLeft = -anchor.x + 'px';
+      img.style.marginTop = -anchor.y + 'px';
+    }
+
+    if (size) {
+      img.style.width = size.x + 'px';
+      img.style.height = size.y + 'px';
+    }
+  }
+
+  protected _createImg(src: string, el?: HTMLElement): HTMLElement {
+    const img = (el || document.createElement('img')) as HTMLImageElement;
+    img.src = src;
+    return img;
+  }
+
+  protected _getIconUrl(name: IconName): string | undefined {
+    const options = this.options;
+    return (
+      (Browser.retina &&
+        options[(name + 'RetinaUrl') as 'iconRetinaUrl' | 'shadowRetinaUrl']) ||
+      options[(name + 'Url') as 'iconUrl' | 'shadowUrl']
+    );
+  }
+}
+
+// @factory L.icon(options: Icon options)
+// Creates an icon instance with the given options.
+export function icon(options?: Partial<IconOptions>): Icon {
+  return new Icon(options);
+}
@@ -0,0 +1,389 @@
+import { Listener } from '@/core/Events';
+import { setOptions } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng, LatLngLike, toLatLng } from '@/geo/LatLng';
+import { Point, PointLike } from '@/geometry/Point';
+import { Map, ZoomAnimEvent } from '@/map/Map';
+import { Layer, LayerOptions } from '../Layer';
+import { Icon } from './Icon';
+import { IconDefault } from './Icon.Default';
+
+/*
+ * @class Marker
+ * @inherits Interactive layer
+ * @aka L.Marker
+ * L.Marker is used to display clickable/draggable icons on the map. Extends `Layer`.
+ *
+ * @example
+ *
+ * ```js
+ * L.marker([50.5, 30.5]).addTo(map);
+ * ```
+ *
+ * @event move: Event
+ * Fired when the marker is moved via [`setLatLng`](#marker-setlatlng) or by [dragging](#marker-dragging). Old and new coordinates are included in event arguments as `oldLatLng`, `latlng`.
+ */
+
+export interface MarkerOptions extends LayerOptions {
+  icon: Icon;
+  interactive: boolean;
+  keyboard: boolean;
+  title: string;
+  alt: string;
+  zIndexOffset: number;
+  opacity: number;
+  riseOnHover: boolean;
+  riseOffset: number;
+  shadowPane: string;
+  bubblingMouseEvents: boolean;
+}
+
+// shared by all markers created without an explicit `icon`
+const defaultIcon = new IconDefault();
+
+export class Marker extends Layer {
+  // @section
+  // @aka Marker options
+  public options: MarkerOptions = {
+    ...this.options,
+
+    // @option icon: Icon = *
+    // Icon instance to use for rendering the marker.
+    // See [Icon documentation](#L.Icon) for details on how to customize the marker icon.
+    // If not specified, a common instance of `L.Icon.Default` is used.
+    icon: defaultIcon,
+
+    // Option inherited from "Interactive layer" abstract class
+    interactive: true,
+
+    // @option keyboard: Boolean = true
+    // Whether the marker can be tabbed to with a keyboard and clicked by pressing enter.
+    keyboard: true,
+
+    // @option title: String = ''
+    // Text for the browser tooltip that appear on marker hover (no tooltip by default).
+    title: '',
+
+    // @option alt: String = ''
+    // Text for the `alt` attribute of the icon image (useful for accessibility).
+    alt: '',
+
+    // @option zIndexOffset: Number = 0
+    // By default, marker images zIndex is set automatically based on its latitude. Use this option if you want to put the marker on top of all others (or below), specifying a high value like `1000` (or high negative value, respectively).
+    zIndexOffset: 0,
+
+    // @option opacity: Number = 1.0
+    // The opacity of the marker.
+    opacity: 1,
+
+    // @option riseOnHover: Boolean = false
+    // If `true`, the marker will get on top of others when you hover the mouse over it.
+    riseOnHover: false,
+
+    // @option riseOffset: Number = 250
+    // The z-index offset used for the `riseOnHover` feature.
+    riseOffset: 250,
+
+    // @option pane: String = 'markerPane'
+    // `Map pane` where the markers icon will be added.
+    pane: 'markerPane',
+
+    // @option shadowPane: String = 'shadowPane'
+    // `Map pane` where the markers shadow will be added.
+    shadowPane: 'shadowPane',
+
+    // @option bubblingMouseEvents: Boolean = false
+    // When `true`, a mouse event on this marker will trigger the same event on the map
+    // (unless [`L.DomEvent.stopPropagation`](#domevent-stoppropagation) is used).
+    bubblingMouseEvents: false,
+  };
+
+  protected _latlng: LatLng;
+  protected _icon?: HTMLElement;
+  protected _shadow?: HTMLElement;
+  protected _zIndex = 0;
+
+  /* @section
+   *
+   * In addition to [shared layer methods](#Layer) like `addTo()` and `remove()` and [popup methods](#Popup) like bindPopup() you can also use the following methods:
+   */
+
+  constructor(latlng: LatLngLike, options?: Partial<MarkerOptions>) {
+    super();
+    setOptions(this, options);
+    this._latlng = toLatLng(latlng) as LatLng;
+  }
+
+  public onAdd(map: Map): this {
+    this._zoomAnimated = this._zoomAnimated && map.options.markerZoomAnimation;
+
+    if (this._zoomAnimated) {
+      map.on('zoomanim', this._animateZoom, this);
+    }
+
+    this._initIcon();
+    this.update();
+    return this;
+  }
+
+  public onRemove(map: Map): this {
+    if (this._zoomAnimated) {
+      map.off('zoomanim', this._animateZoom, this);
+    }
+
+    this._removeIcon();
+    this._removeShadow();
+    return this;
+  }
+
+  public getEvents(): Record<string, Listener> {
+    return {
+      zoom: this.update,
+      viewreset: this.update,
+    };
+  }
+
+  // @method getLatLng: LatLng
+  // Returns the current geographical position of the marker.
+  public getLatLng(): LatLng {
+    return this._latlng;
+  }
+
+  // @method setLatLng(latlng: LatLng): this
+  // Changes the marker position to the given point.
+  public setLatLng(latlng: LatLngLike): this {
+    const oldLatLng = this._latlng;
+    this._latlng = toLatLng(latlng) as LatLng;
+    this.update();
+
+    // @event move: Event
+    // Fired when the marker is moved via [`setLatLng`](#marker-setlatlng) or by [dragging](#marker-dragging). Old and new coordinates are included in event arguments as `oldLatLng`, `latlng`.
+    return this.fire('move', { oldLatLng, latlng: this._latlng });
+  }
+
+  // @method setZIndexOffset(offset: Number): this
+  // Changes the [zIndex offset](#marker-zindexoffset) of the marker.
+  public setZIndexOffset(offset: number): this {
+    this.options.zIndexOffset = offset;
+    return this.update();
+  }
+
+  // @method getIcon: Icon
+  // Returns the current icon used by the marker
+  public getIcon(): Icon {
+    return this.options.icon;
+  }
+
+  // @method setIcon(icon: Icon): this
+  // Changes the marker icon.
+  public setIcon(icon: Icon): this {
+    this.options.icon = icon;
+
+    if (this._map) {
+      this._initIcon();
+      this.update();
+    }
+    return this;
+  }
+
+  // @method getElement(): HTMLElement
+  // Returns the HTML element of the marker icon.
+  public getElement(): HTMLElement | undefined {
+    return this._icon;
+  }
+
+  // @method update(): this
+  // Updates the marker position, useful if coordinates were changed directly
+  // on the marker's `LatLng` object.
+  public update(): this {
+    if (this._icon && this._map) {
+      const pos = this._map.latLngToLayerPoint(this._latlng).round();
+      this._setPos(pos);
+    }
+    return this;
+  }
+
+  // @method setOpacity(opacity: Number): this
+  // Changes the opacity of the marker.
+  public setOpacity(opacity: number): this {
+    this.options.opacity = opacity;
+    if (this._map) {
+      this._updateOpacity();
+    }
+    return this;
+  }
+
+  protected _initIcon(): void {
+    const options = this.options;
+    const classToAdd =
+      'leaflet-zoom-' + (this._zoomAnimated ? 'animated' : 'hide');
+
+    const icon = options.icon.createIcon(this._icon);
+    let addIcon = false;
+
+    // if we're not reusing the icon, remove the old one and init new one
+    if (icon !== this._icon) {
+      if (this._icon) {
+        this._removeIcon();
+      }
+      addIcon = true;
+
+      if (options.title) {
+        icon.title = options.title;
+      }
+
+      if (icon.tagName === 'IMG') {
+        (icon as HTMLImageElement).alt = options.alt || '';
+      }
+    }
+
+    DomUtil.addClass(icon, classToAdd);
+
+    if (options.keyboard) {
+      icon.tabIndex = 0;
+    }
+
+    this._icon = icon;
+
+    if (options.riseOnHover) {
+      this.on(
+        {
+          mouseover: this._bringToFront,
+          mouseout: this._resetZIndex,
+        },
+        this,
+      );
+    }
+
+    this._initShadow(classToAdd);
+
+    if (options.opacity < 1) {
+      this._updateOpacity();
+    }
+
+    if (addIcon) {
+      (this.getPane() as HTMLElement).appendChild(this._icon);
+    }
+    this._initInteraction();
+  }
+
+  protected _initShadow(classToAdd: string): void {
+    const newShadow = this.options.icon.createShadow(this._shadow) || undefined;
+    let addShadow = false;
+
+    if (newShadow !== this._shadow) {
+      this._removeShadow();
+      addShadow = true;
+    }
+
+    if (newShadow) {
+      DomUtil.addClass(newShadow, classToAdd);
+      (newShadow as HTMLImageElement).alt = '';
+    }
+    this._shadow = newShadow;
+
+    if (newShadow && addShadow) {
+      const pane = this.getPane(this.options.shadowPane) as HTMLElement;
+      pane.appendChild(newShadow);
+    }
+  }
+
+  protected _removeIcon(): void {
+    if (this.options.riseOnHover) {
+      this.off(
+        {
+          mouseover: this._bringToFront,
+          mouseout: this._resetZIndex,
+        },
+        this,
+      );
+    }
+
+    if (this._icon) {
+      DomUtil.remove(this._icon);
+      this.removeInteractiveTarget(this._icon);
+    }
+
+    this._icon = undefined;
+  }
+
+  protected _removeShadow(): void {
+    if (this._shadow) {
+      DomUtil.remove(this._shadow);
+    }
+    this._shadow = undefined;
+  }
+
+  protected _setPos(pos: Point): void {
+    if (this._icon) {
+      DomUtil.setPosition(this._icon, pos);
+    }
+
+    if (this._shadow) {
+      DomUtil.setPosition(this._shadow, pos);
+    }
+
+    this._zIndex = pos.y + this.options.zIndexOffset;
+
+    this._resetZIndex();
+  }
+
+  protected _animateZoom(e: ZoomAnimEvent): void {
+    const map = this._map as Map;
+    const pos = map._latLngToNewLayerPoint(this._latlng, e.zoom, e.center);
+    this._setPos(pos.round());
+  }
+
+  protected _updateZIndex(offset: number): void {
+    if (this._icon) {
+      this._icon.style.zIndex = String(this._zIndex + offset);
+    }
+  }
+
+  protected _initInteraction(): void {
+    if (!this.options.interactive || !this._icon) {
+      return;
+    }
+
+    DomUtil.addClass(this._icon, 'leaflet-interactive');
+
+    this.addInteractiveTarget(this._icon);
+  }
+
+  protected _updateOpacity(): void {
+    const opacity = this.options.opacity;
+
+    if (this._icon) {
+      DomUtil.setOpacity(this._icon, opacity);
+    }
+
+    if (this._shadow) {
+      DomUtil.setOpacity(this._shadow, opacity);
+    }
+  }
+
+  public _getPopupAnchor(): PointLike {
+    return this.options.icon.options.popupAnchor;
+  }
+
+  public _getTooltipAnchor(): PointLike {
+    return this.options.icon.options.tooltipAnchor;
+  }
+
+  protected _bringToFront(): void {
+    this._updateZIndex(this.options.riseOffset);
+  }
+
+  protected _resetZIndex(): void {
+    this._updateZIndex(0);
+  }
+}
+
+// @factory L.marker(latlng: LatLng, options? : Marker options)
+// Instantiates a Marker object given a geographical point and optionally an options object.
+export function marker(
+  latlng: LatLngLike,
+  options?: Partial<MarkerOptions>,
+): Marker {
+  return new Marker(latlng, options);
+}
@@ -0,0 +1,4 @@
+export { Icon, icon } from './Icon';
+export { IconDefault } from './Icon.Default';
+export { DivIcon, divIcon } from './DivIcon';
+export { Marker, marker } from './Marker';
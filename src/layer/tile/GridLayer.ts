@@ -0,0 +1,1129 @@
+import * as Browser from '@/core/Browser';
+import { Listener, LeafletEvent } from '@/core/Events';
+import {
+  cancelAnimFrame,
+  falseFn,
+  requestAnimFrame,
+  setOptions,
+  throttle,
+  wrapNum,
+} from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng } from '@/geo/LatLng';
+import {
+  LatLngBounds,
+  LatLngBoundsLike,
+  toLatLngBounds,
+} from '@/geo/LatLngBounds';
+import { Bounds } from '@/geometry/Bounds';
+import { Point } from '@/geometry/Point';
+import { Map, ZoomAnimEvent } from '@/map/Map';
+import { Layer, LayerOptions } from '../Layer';
+
+/*
+ * @class GridLayer
+ * @inherits Layer
+ * @aka L.GridLayer
+ *
+ * Generic class for handling a tiled grid of HTML elements. This is the base class for all tile layers and replaces `TileLayer.Canvas`.
+ * GridLayer can be extended to create a tiled grid of HTML elements like `<canvas>`, `<img>` or `<div>`. GridLayer will handle creating and animating these DOM elements for you.
+ *
+ *
+ * @section Synchronous usage
+ * @example
+ *
+ * To create a custom layer, extend GridLayer and implement the `createTile()` method, which will be passed a `Point` object with the `x`, `y`, and `z` (zoom level) coordinates to draw your tile.
+ *
+ * ```js
+ * class CanvasLayer extends GridLayer {
+ *     createTile(coords) {
+ *         // create a <canvas> element for drawing
+ *         var tile = DomUtil.create('canvas', 'leaflet-tile');
+ *
+ *         // setup tile width and height according to the options
+ *         var size = this.getTileSize();
+ *         tile.width = size.x;
+ *         tile.height = size.y;
+ *
+ *         // get a canvas context and draw something on it using coords.x, coords.y and coords.z
+ *         var ctx = tile.getContext('2d');
+ *
+ *         // return the tile so it can be rendered on screen
+ *         return tile;
+ *     }
+ * }
+ * ```
+ *
+ * @section Asynchronous usage
+ * @example
+ *
+ * Tile creation can also be asynchronous, this is useful when using a third-party drawing library. Once the tile is finished drawing it can be passed to the `done()` callback.
+ *
+ * ```js
+ * class CanvasLayer extends GridLayer {
+ *     createTile(coords, done) {
+ *         var error;
+ *
+ *         // create a <canvas> element for drawing
+ *         var tile = DomUtil.create('canvas', 'leaflet-tile');
+ *
+ *         // setup tile width and height according to the options
+ *         var size = this.getTileSize();
+ *         tile.width = size.x;
+ *         tile.height = size.y;
+ *
+ *         // draw something asynchronously and pass the tile to the done() callback
+ *         setTimeout(function() {
+ *             done(error, tile);
+ *         }, 1000);
+ *
+ *         return tile;
+ *     }
+ * }
+ * ```
+ *
+ * @section
+ */
+
+// tile coordinates: `x` and `y` position in the grid plus the zoom level `z`
+export interface Coords extends Point {
+  z: number;
+}
+
+export type DoneCallback = (
+  err?: Error | Event | string | null,
+  tile?: HTMLElement,
+) => void;
+
+export interface Tile {
+  el: HTMLElement;
+  coords: Coords;
+  current: boolean;
+  active?: boolean;
+  retain?: boolean;
+  loaded?: number;
+}
+
+export interface Level {
+  el: HTMLElement;
+  origin: Point;
+  zoom: number;
+}
+
+export interface GridLayerOptions extends LayerOptions {
+  tileSize: number | Point;
+  opacity: number;
+  updateWhenIdle: boolean;
+  updateWhenZooming: boolean;
+  updateInterval: number;
+  zIndex: number;
+  bounds?: LatLngBoundsLike;
+  minZoom: number;
+  maxZoom?: number;
+  maxNativeZoom?: number;
+  minNativeZoom?: number;
+  noWrap: boolean;
+  className: string;
+  keepBuffer: number;
+}
+
+export function toCoords(x: number, y: number, z: number): Coords {
+  const coords = new Point(x, y) as Coords;
+  coords.z = z;
+  return coords;
+}
+
+function isFiniteRange(range: Bounds): boolean {
+  return (
+    isFinite(range.min.x) &&
+    isFinite(range.min.y) &&
+    isFinite(range.max.x) &&
+    isFinite(range.max.y)
+  );
+}
+
+export class GridLayer extends Layer {
+  // @section
+  // @aka GridLayer options
+  public options: GridLayerOptions = {
+    ...this.options,
+
+    // @option tileSize: Number|Point = 256
+    // Width and height of tiles in the grid. Use a number if width and height are equal, or `L.point(width, height)` otherwise.
+    tileSize: 256,
+
+    // @option opacity: Number = 1.0
+    // Opacity of the tiles. Can be used in the `createTile()` function.
+    opacity: 1,
+
+    // @option updateWhenIdle: Boolean = (depends)
+    // Load new tiles only when panning ends.
+    // `true` by default on mobile browsers, in order to avoid too many requests and keep smooth navigation.
+    // `false` otherwise in order to display new tiles _during_ panning, since it is easy to pan outside the
+    // [`keepBuffer`](#gridlayer-keepbuffer) option in desktop browsers.
+    updateWhenIdle: Browser.mobile,
+
+    // @option updateWhenZooming: Boolean = true
+    // By default, a smooth zoom animation (during a [touch zoom](#map-touchzoom) or a [`flyTo()`](#map-flyto)) will update grid layers every integer zoom level. Setting this option to `false` will update the grid layer only when the smooth animation ends.
+    updateWhenZooming: true,
+
+    // @option updateInterval: Number = 200
+    // Tiles will not update more than once every `updateInterval` milliseconds when panning.
+    updateInterval: 200,
+
+    // @option zIndex: Number = 1
+    // The explicit zIndex of the tile layer.
+    zIndex: 1,
+
+    // @option bounds: LatLngBounds = undefined
+    // If set, tiles will only be loaded inside the set `LatLngBounds`.
+    bounds: undefined,
+
+    // @option minZoom: Number = 0
+    // The minimum zoom level down to which this layer will be displayed (inclusive).
+    minZoom: 0,
+
+    // @option maxZoom: Number = undefined
+    // The maximum zoom level up to which this layer will be displayed (inclusive).
+    maxZoom: undefined,
+
+    // @option maxNativeZoom: Number = undefined
+    // Maximum zoom number the tile source has available. If it is specified,
+    // the tiles on all zoom levels higher than `maxNativeZoom` will be loaded
+    // from `maxNativeZoom` level and auto-scaled.
+    maxNativeZoom: undefined,
+
+    // @option minNativeZoom: Number = undefined
+    // Minimum zoom number the tile source has available. If it is specified,
+    // the tiles on all zoom levels lower than `minNativeZoom` will be loaded
+    // from `minNativeZoom` level and auto-scaled.
+    minNativeZoom: undefined,
+
+    // @option noWrap: Boolean = false
+    // Whether the layer is wrapped around the antimeridian. If `true`, the
+    // GridLayer will only be displayed once at low zoom levels. Has no
+    // effect when the [map CRS](#map-crs) doesn't wrap around. Can be used
+    // in combination with [`bounds`](#gridlayer-bounds) to prevent requesting
+    // tiles outside the CRS limits.
+    noWrap: false,
+
+    // @option pane: String = 'tilePane'
+    // `Map pane` where the grid layer will be added.
+    pane: 'tilePane',
+
+    // @option className: String = ''
+    // A custom class name to assign to the tile layer. Empty by default.
+    className: '',
+
+    // @option keepBuffer: Number = 2
+    // When panning the map, keep this many rows and columns of tiles before unloading them.
+    keepBuffer: 2,
+  };
+
+  protected _container?: HTMLElement;
+  protected _levels: Record<number, Level> = {};
+  protected _level!: Level;
+  protected _tiles: Record<string, Tile> = {};
+  protected _tileZoom?: number;
+  protected _tileSize!: Point;
+  protected _globalTileRange!: Bounds;
+  protected _wrapX: [number, number] | false = false;
+  protected _wrapY: [number, number] | false = false;
+  protected _loading = false;
+  protected _noPrune = false;
+  private _fadeFrame?: number;
+  private _onMove?: Listener;
+
+  constructor(options?: Partial<GridLayerOptions>) {
+    super();
+    setOptions(this, options);
+  }
+
+  public onAdd(): this {
+    this._initContainer();
+
+    this._levels = {};
+    this._tiles = {};
+
+    this._resetView();
+    this._update();
+    return this;
+  }
+
+  public beforeAdd(map: Map): this {
+    map._addZoomLimit(this);
+    return this;
+  }
+
+  public onRemove(map: Map): this {
+    this._removeAllTiles();
+    if (this._container) {
+      DomUtil.remove(this._container);
+    }
+    map._removeZoomLimit(this);
+    this._container = undefined;
+    this._tileZoom = undefined;
+    return this;
+  }
+
+  // @method bringToFront: this
+  // Brings the tile layer to the top of all tile layers.
+  public bringToFront(): this {
+    if (this._map && this._container) {
+      DomUtil.toFront(this._container);
+      this._setAutoZIndex(Math.max);
+    }
+    return this;
+  }
+
+  // @method bringToBack: this
+  // Brings the tile layer to the bottom of all tile layers.
+  public bringToBack(): this {
+    if (this._map && this._container) {
+      DomUtil.toBack(this._container);
+      this._setAutoZIndex(Math.min);
+    }
+    return this;
+  }
+
+  // @method getContainer: HTMLElement
+  // Returns the HTML element that contains the tiles for this layer.
+  public getContainer(): HTMLElement | undefined {
+    return this._container;
+  }
+
+  // @method setOpacity(opacity: Number): this
+  // Changes the [opacity](#gridlayer-opacity) of the grid layer.
+  public setOpacity(opacity: number): this {
+    this.options.opacity = opacity;
+    this._updateOpacity();
+    return this;
+  }
+
+  // @method setZIndex(zIndex: Number): this
+  // Changes the [zIndex](#gridlayer-zindex) of the grid layer.
+  public setZIndex(zIndex: number): this {
+    this.options.zIndex = zIndex;
+    this._updateZIndex();
+
+    return this;
+  }
+
+  // @method isLoading: Boolean
+  // Returns `true` if any tile in the grid layer has not finished loading.
+  public isLoading(): boolean {
+    return this._loading;
+  }
+
+  // @method redraw: this
+  // Causes the layer to clear all the tiles and request them again.
+  public redraw(): this {
+    if (this._map) {
+      this._removeAllTiles();
+      const tileZoom = this._clampZoom(this._map.getZoom());
+      if (tileZoom !== this._tileZoom) {
+        this._tileZoom = tileZoom;
+        this._updateLevels();
+      }
+      this._update();
+    }
+    return this;
+  }
+
+  public getEvents(): Record<string, Listener> {
+    const events: Record<string, Listener> = {
+      viewprereset: this._invalidateAll,
+      viewreset: this._resetView,
+      zoom: this._resetView,
+      moveend: this._onMoveEnd,
+    };
+
+    if (!this.options.updateWhenIdle) {
+      // update tiles on move, but not more often than once per given interval
+      if (!this._onMove) {
+        this._onMove = throttle(
+          this._onMoveEnd,
+          this.options.updateInterval,
+          this,
+        );
+      }
+
+      events.move = this._onMove;
+    }
+
+    if (this._zoomAnimated) {
+      events.zoomanim = this._animateZoom;
+    }
+
+    return events;
+  }
+
+  // @section Extension methods
+  // Layers extending `GridLayer` shall reimplement the following method.
+  // @method createTile(coords: Object, done?: Function): HTMLElement
+  // Called only internally, must be overridden by classes extending `GridLayer`.
+  // Returns the `HTMLElement` corresponding to the given `coords`. If the `done` callback
+  // is specified, it must be called when the tile has finished loading and drawing.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public createTile(_coords: Coords): HTMLElement {
+    return document.createElement('div');
+  }
+
+  // @section
+  // @method getTileSize: Point
+  // Normalizes the [tileSize option](#gridlayer-tilesize) into a point. Used by the `createTile()` method.
+  public getTileSize(): Point {
+    const s = this.options.tileSize;
+    return s instanceof Point ? s : new Point(s, s);
+  }
+
+  // stops loading all tiles that do not belong to the current zoom
+  protected _abortLoading?(): void;
+
+  protected _updateZIndex(): void {
+    if (
+      this._container &&
+      this.options.zIndex !== undefined &&
+      this.options.zIndex !== null
+    ) {
+      this._container.style.zIndex = String(this.options.zIndex);
+    }
+  }
+
+  protected _setAutoZIndex(compare: (...values: number[]) => number): void {
+    // go through all other layers of the same pane, set zIndex to max + 1 (front) or min - 1 (back)
+
+    const pane = this.getPane();
+    const layers = pane ? pane.children : [];
+    let edgeZIndex = -compare(-Infinity, Infinity); // -Infinity for max, Infinity for min
+
+    for (let i = 0, len = layers.length, zIndex; i < len; i++) {
+      zIndex = (layers[i] as HTMLElement).style.zIndex;
+
+      if (layers[i] !== this._container && zIndex) {
+        edgeZIndex = compare(edgeZIndex, +zIndex);
+      }
+    }
+
+    if (isFinite(edgeZIndex)) {
+      this.options.zIndex = edgeZIndex + compare(-1, 1);
+      this._updateZIndex();
+    }
+  }
+
+  protected _updateOpacity(): void {
+    if (!this._map || !this._container) {
+      return;
+    }
+
+    // IE doesn't inherit filter opacity properly, so we're forced to set it on tiles
+    if (Browser.ielt9) {
+      return;
+    }
+
+    DomUtil.setOpacity(this._container, this.options.opacity);
+
+    const now = +new Date();
+    let nextFrame = false;
+    let willPrune = false;
+
+    for (const key in this._tiles) {
+      const tile = this._tiles[key];
+      if (!tile.current || !tile.loaded) {
+        continue;
+      }
+
+      const fade = Math.min(1, (now - tile.loaded) / 200);
+
+      DomUtil.setOpacity(tile.el, fade);
+      if (fade < 1) {
+        nextFrame = true;
+      } else {
+        willPrune = willPrune || !!tile.active;
+        tile.active = true;
+      }
+    }
+
+    if (willPrune && !this._noPrune) {
+      this._pruneTiles();
+    }
+
+    if (nextFrame) {
+      cancelAnimFrame(this._fadeFrame);
+      this._fadeFrame = requestAnimFrame(this._updateOpacity, this);
+    }
+  }
+
+  protected _initContainer(): void {
+    if (this._container) {
+      return;
+    }
+
+    this._container = DomUtil.create(
+      'div',
+      'leaflet-layer ' + (this.options.className || ''),
+    );
+    this._updateZIndex();
+
+    if (this.options.opacity < 1) {
+      this._updateOpacity();
+    }
+
+    const pane = this.getPane();
+    if (pane) {
+      pane.appendChild(this._container);
+    }
+  }
+
+  protected _updateLevels(): Level | undefined {
+    const zoom = this._tileZoom;
+    const maxZoom = this.options.maxZoom;
+
+    if (zoom === undefined || !this._map) {
+      return undefined;
+    }
+
+    for (const key in this._levels) {
+      const z = Number(key);
+      if (this._levels[z].el.children.length || z === zoom) {
+        this._levels[z].el.style.zIndex = String(
+          (maxZoom as number) - Math.abs(zoom - z),
+        );
+      } else {
+        DomUtil.remove(this._levels[z].el);
+        this._removeTilesAtZoom(z);
+        delete this._levels[z];
+      }
+    }
+
+    let level = this._levels[zoom];
+    const map = this._map;
+
+    if (!level) {
+      const el = DomUtil.create(
+        'div',
+        'leaflet-tile-container leaflet-zoom-animated',
+        this._container,
+      );
+      el.style.zIndex = String(maxZoom);
+
+      level = this._levels[zoom] = {
+        el: el,
+        origin: map.project(map.unproject(map.getPixelOrigin()), zoom).round(),
+        zoom: zoom,
+      };
+
+      this._setZoomTransform(level, map.getCenter(), map.getZoom());
+
+      // force the browser to consider the newly added element for transition
+      void level.el.offsetWidth;
+    }
+
+    this._level = level;
+
+    return level;
+  }
+
+  protected _pruneTiles(): void {
+    if (!this._map) {
+      return;
+    }
+
+    let key;
+    let tile;
+
+    const zoom = this._map.getZoom();
+    if (
+      (this.options.maxZoom !== undefined && zoom > this.options.maxZoom) ||
+      zoom < this.options.minZoom
+    ) {
+      this._removeAllTiles();
+      return;
+    }
+
+    for (key in this._tiles) {
+      tile = this._tiles[key];
+      tile.retain = tile.current;
+    }
+
+    for (key in this._tiles) {
+      tile = this._tiles[key];
+      if (tile.current && !tile.active) {
+        const coords = tile.coords;
+        if (!this._retainParent(coords.x, coords.y, coords.z, coords.z - 5)) {
+          this._retainChildren(coords.x, coords.y, coords.z, coords.z + 2);
+        }
+      }
+    }
+
+    for (key in this._tiles) {
+      if (!this._tiles[key].retain) {
+        this._removeTile(key);
+      }
+    }
+  }
+
+  protected _removeTilesAtZoom(zoom: number): void {
+    for (const key in this._tiles) {
+      if (this._tiles[key].coords.z !== zoom) {
+        continue;
+      }
+      this._removeTile(key);
+    }
+  }
+
+  protected _removeAllTiles(): void {
+    for (const key in this._tiles) {
+      this._removeTile(key);
+    }
+  }
+
+  protected _invalidateAll(): void {
+    for (const z in this._levels) {
+      DomUtil.remove(this._levels[z].el);
+      delete this._levels[z];
+    }
+    this._removeAllTiles();
+
+    this._tileZoom = undefined;
+  }
+
+  protected _retainParent(
+    x: number,
+    y: number,
+    z: number,
+    minZoom: number,
+  ): boolean {
+    const x2 = Math.floor(x / 2);
+    const y2 = Math.floor(y / 2);
+    const z2 = z - 1;
+    const coords2 = toCoords(x2, y2, z2);
+
+    const key = this._tileCoordsToKey(coords2);
+    const tile = this._tiles[key];
+
+    if (tile && tile.active) {
+      tile.retain = true;
+      return true;
+    } else if (tile && tile.loaded) {
+      tile.retain = true;
+    }
+
+    if (z2 > minZoom) {
+      return this._retainParent(x2, y2, z2, minZoom);
+    }
+
+    return false;
+  }
+
+  protected _retainChildren(
+    x: number,
+    y: number,
+    z: number,
+    maxZoom: number,
+  ): void {
+    for (let i = 2 * x; i < 2 * x + 2; i++) {
+      for (let j = 2 * y; j < 2 * y + 2; j++) {
+        const coords = toCoords(i, j, z + 1);
+
+        const key = this._tileCoordsToKey(coords);
+        const tile = this._tiles[key];
+
+        if (tile && tile.active) {
+          tile.retain = true;
+          continue;
+        } else if (tile && tile.loaded) {
+          tile.retain = true;
+        }
+
+        if (z + 1 < maxZoom) {
+          this._retainChildren(i, j, z + 1, maxZoom);
+        }
+      }
+    }
+  }
+
+  protected _resetView(e?: LeafletEvent): void {
+    if (!this._map) {
+      return;
+    }
+    const animating = !!(e && (e.pinch || e.flyTo));
+    this._setView(
+      this._map.getCenter(),
+      this._map.getZoom(),
+      animating,
+      animating,
+    );
+  }
+
+  protected _animateZoom(e: ZoomAnimEvent): void {
+    this._setView(e.center, e.zoom, true, e.noUpdate);
+  }
+
+  protected _clampZoom(zoom: number): number {
+    const options = this.options;
+
+    if (undefined !== options.minNativeZoom && zoom < options.minNativeZoom) {
+      return options.minNativeZoom;
+    }
+
+    if (undefined !== options.maxNativeZoom && options.maxNativeZoom < zoom) {
+      return options.maxNativeZoom;
+    }
+
+    return zoom;
+  }
+
+  protected _setView(
+    center: LatLng,
+    zoom: number,
+    noPrune?: boolean,
+    noUpdate?: boolean,
+  ): void {
+    let tileZoom: number | undefined = Math.round(zoom);
+    if (
+      (this.options.maxZoom !== undefined && tileZoom > this.options.maxZoom) ||
+      (this.options.minZoom !== undefined && tileZoom < this.options.minZoom)
+    ) {
+      tileZoom = undefined;
+    } else {
+      tileZoom = this._clampZoom(tileZoom);
+    }
+
+    const tileZoomChanged =
+      this.options.updateWhenZooming && tileZoom !== this._tileZoom;
+
+    if (!noUpdate || tileZoomChanged) {
+      this._tileZoom = tileZoom;
+
+      if (this._abortLoading) {
+        this._abortLoading();
+      }
+
+      this._updateLevels();
+      this._resetGrid();
+
+      if (tileZoom !== undefined) {
+        this._update(center);
+      }
+
+      if (!noPrune) {
+        this._pruneTiles();
+      }
+
+      // Flag to prevent _updateOpacity from pruning tiles during
+      // a zoom anim or a pinch gesture
+      this._noPrune = !!noPrune;
+    }
+
+    this._setZoomTransforms(center, zoom);
+  }
+
+  protected _setZoomTransforms(center: LatLng, zoom: number): void {
+    for (const i in this._levels) {
+      this._setZoomTransform(this._levels[i], center, zoom);
+    }
+  }
+
+  protected _setZoomTransform(
+    level: Level,
+    center: LatLng,
+    zoom: number,
+  ): void {
+    const map = this._map as Map;
+    const scale = map.getZoomScale(zoom, level.zoom);
+    const translate = level.origin
+      .multiplyBy(scale)
+      .subtract(map._getNewPixelOrigin(center, zoom))
+      .round();
+
+    if (Browser.any3d) {
+      DomUtil.setTransform(level.el, translate, scale);
+    } else {
+      DomUtil.setPosition(level.el, translate);
+    }
+  }
+
+  protected _resetGrid(): void {
+    const map = this._map as Map;
+    const crs = map.options.crs;
+    const tileSize = (this._tileSize = this.getTileSize());
+    const tileZoom = this._tileZoom;
+
+    const bounds = map.getPixelWorldBounds(this._tileZoom);
+    if (bounds) {
+      this._globalTileRange = this._pxBoundsToTileRange(bounds);
+    }
+
+    this._wrapX = !!crs.wrapLng &&
+      !this.options.noWrap &&
+      tileZoom !== undefined && [
+        Math.floor(map.project([0, crs.wrapLng[0]], tileZoom).x / tileSize.x),
+        Math.ceil(map.project([0, crs.wrapLng[1]], tileZoom).x / tileSize.y),
+      ];
+    this._wrapY = !!crs.wrapLat &&
+      !this.options.noWrap &&
+      tileZoom !== undefined && [
+        Math.floor(map.project([crs.wrapLat[0], 0], tileZoom).y / tileSize.x),
+        Math.ceil(map.project([crs.wrapLat[1], 0], tileZoom).y / tileSize.y),
+      ];
+  }
+
+  protected _onMoveEnd(): void {
+    if (!this._map || this._map._animatingZoom) {
+      return;
+    }
+
+    this._update();
+  }
+
+  protected _getTiledPixelBounds(center: LatLng): Bounds {
+    const map = this._map as Map;
+    const mapZoom = map.getZoom();
+    const scale = map.getZoomScale(mapZoom, this._tileZoom);
+    const pixelCenter = map.project(center, this._tileZoom).floor();
+    const halfSize = map.getSize().divideBy(scale * 2);
+
+    return new Bounds(
+      pixelCenter.subtract(halfSize),
+      pixelCenter.add(halfSize),
+    );
+  }
+
+  // Private method to load tiles in the grid's active zoom level according to map bounds
+  protected _update(center?: LatLng): void {
+    const map = this._map;
+    if (!map) {
+      return;
+    }
+    const zoom = this._clampZoom(map.getZoom());
+
+    if (center === undefined) {
+      center = map.getCenter();
+    }
+    if (this._tileZoom === undefined) {
+      return;
+    } // if out of minzoom/maxzoom
+
+    const pixelBounds = this._getTiledPixelBounds(center);
+    const tileRange = this._pxBoundsToTileRange(pixelBounds);
+    const tileCenter = tileRange.getCenter();
+    const margin = this.options.keepBuffer;
+    const noPruneRange = new Bounds(
+      tileRange.getBottomLeft().subtract(new Point(margin, -margin)),
+      tileRange.getTopRight().add(new Point(margin, -margin)),
+    );
+
+    // Sanity check: panic if the tile range contains Infinity somewhere.
+    if (!isFiniteRange(tileRange)) {
+      throw new Error('Attempted to load an infinite number of tiles');
+    }
+
+    for (const key in this._tiles) {
+      const c = this._tiles[key].coords;
+      if (
+        c.z !== this._tileZoom ||
+        !noPruneRange.contains(new Point(c.x, c.y))
+      ) {
+        this._tiles[key].current = false;
+      }
+    }
+
+    // _update just loads more tiles. If the tile zoom level differs too much
+    // from the map's, let _setView reset levels and prune old tiles.
+    if (Math.abs(zoom - this._tileZoom) > 1) {
+      this._setView(center, zoom);
+      return;
+    }
+
+    // create a queue of coordinates to load tiles from
+    const queue = this._getTileQueue(tileRange, this._tileZoom);
+
+    // sort tile queue to load tiles in order of their distance to center
+    queue.sort(function (a, b) {
+      return a.distanceTo(tileCenter) - b.distanceTo(tileCenter);
+    });
+
+    if (queue.length !== 0) {
+      // if it's the first batch of tiles to load
+      if (!this._loading) {
+        this._loading = true;
+        // @event loading: Event
+        // Fired when the grid layer starts loading tiles.
+        this.fire('loading');
+      }
+
+      // create DOM fragment to append tiles in one batch
+      const fragment = document.createDocumentFragment();
+
+      for (let i = 0; i < queue.length; i++) {
+        this._addTile(queue[i], fragment);
+      }
+
+      this._level.el.appendChild(fragment);
+    }
+  }
+
+  // marks the tiles of the range that are already loaded as current and
+  // returns the coordinates of the missing ones
+  protected _getTileQueue(tileRange: Bounds, tileZoom: number): Coords[] {
+    const queue = [];
+
+    for (let j = tileRange.min.y; j <= tileRange.max.y; j++) {
+      for (let i = tileRange.min.x; i <= tileRange.max.x; i++) {
+        const coords = toCoords(i, j, tileZoom);
+
+        if (!this._isValidTile(coords)) {
+          continue;
+        }
+
+        const tile = this._tiles[this._tileCoordsToKey(coords)];
+        if (tile) {
+          tile.current = true;
+        } else {
+          queue.push(coords);
+        }
+      }
+    }
+
+    return queue;
+  }
+
+  protected _isValidTile(coords: Coords): boolean {
+    const crs = (this._map as Map).options.crs;
+
+    if (!crs.infinite) {
+      // don't load tile if it's out of bounds and not wrapped
+      const bounds = this._globalTileRange;
+      if (
+        (!crs.wrapLng &&
+          (coords.x < bounds.min.x || coords.x > bounds.max.x)) ||
+        (!crs.wrapLat && (coords.y < bounds.min.y || coords.y > bounds.max.y))
+      ) {
+        return false;
+      }
+    }
+
+    if (!this.options.bounds) {
+      return true;
+    }
+
+    // don't load tile if it doesn't intersect the bounds in options
+    const tileBounds = this._tileCoordsToBounds(coords);
+    return toLatLngBounds(this.options.bounds).overlaps(
+      tileBounds,
+      !!crs.wrapLng,
+    );
+  }
+
+  protected _keyToBounds(key: string): LatLngBounds {
+    return this._tileCoordsToBounds(this._keyToTileCoords(key));
+  }
+
+  protected _tileCoordsToNwSe(coords: Coords): [LatLng, LatLng] {
+    const map = this._map as Map;
+    const tileSize = this.getTileSize();
+    const nwPoint = coords.scaleBy(tileSize);
+    const sePoint = nwPoint.add(tileSize);
+    const nw = map.unproject(nwPoint, coords.z);
+    const se = map.unproject(sePoint, coords.z);
+    return [nw, se];
+  }
+
+  // converts tile coordinates to its geographical bounds
+  protected _tileCoordsToBounds(coords: Coords): LatLngBounds {
+    const bp = this._tileCoordsToNwSe(coords);
+    let bounds = new LatLngBounds(bp[0], bp[1]);
+
+    if (!this.options.noWrap) {
+      bounds = (this._map as Map).wrapLatLngBounds(bounds);
+    }
+    return bounds;
+  }
+
+  // converts tile coordinates to key for the tile cache
+  protected _tileCoordsToKey(coords: Coords): string {
+    return coords.x + ':' + coords.y + ':' + coords.z;
+  }
+
+  // converts tile cache key to coordinates
+  protected _keyToTileCoords(key: string): Coords {
+    const k = key.split(':');
+    return toCoords(+k[0], +k[1], +k[2]);
+  }
+
+  protected _removeTile(key: string): void {
+    const tile = this._tiles[key];
+    if (!tile) {
+      return;
+    }
+
+    DomUtil.remove(tile.el);
+
+    delete this._tiles[key];
+
+    // @event tileunload: TileEvent
+    // Fired when a tile is removed (e.g. when a tile goes off the screen).
+    this.fire('tileunload', {
+      tile: tile.el,
+      coords: this._keyToTileCoords(key),
+    });
+  }
+
+  protected _initTile(tile: HTMLElement): void {
+    DomUtil.addClass(tile, 'leaflet-tile');
+
+    const tileSize = this.getTileSize();
+    tile.style.width = tileSize.x + 'px';
+    tile.style.height = tileSize.y + 'px';
+
+    tile.onselectstart = falseFn;
+    tile.onmousemove = falseFn;
+
+    // update opacity on tiles in IE7-8 because of filter inheritance problems
+    if (Browser.ielt9 && this.options.opacity < 1) {
+      DomUtil.setOpacity(tile, this.options.opacity);
+    }
+
+    // without this hack, tiles disappear after zoom on Chrome for Android
+    // https://github.com/Leaflet/Leaflet/issues/2078
+    if (Browser.android && !Browser.android23) {
+      tile.style.setProperty('-webkit-backface-visibility', 'hidden');
+    }
+  }
+
+  protected _addTile(coords: Coords, container: Node): void {
+    const tilePos = this._getTilePos(coords);
+    const key = this._tileCoordsToKey(coords);
+
+    // implementations may take a second `done` argument to signal that the
+    // tile is loaded asynchronously
+    const createTile = this.createTile as (
+      coords: Coords,
+      done: DoneCallback,
+    ) => HTMLElement;
+    const tile = createTile.call(this, this._wrapCoords(coords), (err, el) =>
+      this._tileReady(coords, err, el),
+    );
+
+    this._initTile(tile);
+
+    // if createTile is defined with a second argument ("done" callback),
+    // we know that tile is async and will be ready later; otherwise
+    if (createTile.length < 2) {
+      // mark tile as ready, but delay one frame for opacity animation to happen
+      requestAnimFrame(() => this._tileReady(coords, null, tile));
+    }
+
+    DomUtil.setPosition(tile, tilePos);
+
+    // save tile in cache
+    this._tiles[key] = {
+      el: tile,
+      coords: coords,
+      current: true,
+    };
+
+    container.appendChild(tile);
+    // @event tileloadstart: TileEvent
+    // Fired when a tile is requested and starts loading.
+    this.fire('tileloadstart', {
+      tile: tile,
+      coords: coords,
+    });
+  }
+
+  protected _tileReady(
+    coords: Coords,
+    err?: Error | Event | string | null,
+    el?: HTMLElement,
+  ): void {
+    if (err) {
+      // @event tileerror: TileErrorEvent
+      // Fired when there is an error loading a tile.
+      this.fire('tileerror', {
+        error: err,
+        tile: el,
+        coords: coords,
+      });
+    }
+
+    const key = this._tileCoordsToKey(coords);
+
+    const tile = this._tiles[key];
+    if (!tile || !this._map) {
+      return;
+    }
+
+    tile.loaded = +new Date();
+    if (this._map._fadeAnimated) {
+      DomUtil.setOpacity(tile.el, 0);
+      cancelAnimFrame(this._fadeFrame);
+      this._fadeFrame = requestAnimFrame(this._updateOpacity, this);
+    } else {
+      tile.active = true;
+      this._pruneTiles();
+    }
+
+    if (!err) {
+      DomUtil.addClass(tile.el, 'leaflet-tile-loaded');
+
+      // @event tileload: TileEvent
+      // Fired when a tile loads.
+      this.fire('tileload', {
+        tile: tile.el,
+        coords: coords,
+      });
+    }
+
+    if (this._noTilesToLoad()) {
+      this._loading = false;
+      // @event load: Event
+      // Fired when the grid layer loaded all visible tiles.
+      this.fire('load');
+
+      if (Browser.ielt9 || !this._map._fadeAnimated) {
+        requestAnimFrame(this._pruneTiles, this);
+      } else {
+        // Wait a bit more than 0.2 secs (the duration of the tile fade-in)
+        // to trigger a pruning.
+        setTimeout(() => this._pruneTiles(), 250);
+      }
+    }
+  }
+
+  protected _getTilePos(coords: Coords): Point {
+    return coords.scaleBy(this.getTileSize()).subtract(this._level.origin);
+  }
+
+  protected _wrapCoords(coords: Coords): Coords {
+    return toCoords(
+      this._wrapX ? wrapNum(coords.x, this._wrapX) : coords.x,
+      this._wrapY ? wrapNum(coords.y, this._wrapY) : coords.y,
+      coords.z,
+    );
+  }
+
+  protected _pxBoundsToTileRange(bounds: Bounds): Bounds {
+    const tileSize = this.getTileSize();
+    return new Bounds(
+      bounds.min.unscaleBy(tileSize).floor(),
+      bounds.max.unscaleBy(tileSize).ceil().subtract(new Point(1, 1)),
+    );
+  }
+
+  protected _noTilesToLoad(): boolean {
+    for (const key in this._tiles) {
+      if (!this._tiles[key].loaded) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+// @factory L.gridLayer(options?: GridLayer options)
+// Creates a new instance of GridLayer with the supplied options.
+export function gridLayer(options?: Partial<GridLayerOptions>): GridLayer {
+  return new GridLayer(options);
+}
@@ -0,0 +1,174 @@
+import * as Browser from '@/core/Browser';
+import { extend, getParamString, setOptions } from '@/core/Util';
+import { CRS } from '@/geo/crs/CRS';
+import { EPSG4326 } from '@/geo/crs/CRS.EPSG4326';
+import { toBounds } from '@/geometry/Bounds';
+import { Map } from '@/map/Map';
+import { Coords } from './GridLayer';
+import { TileLayer, TileLayerOptions } from './TileLayer';
+
+/*
+ * @class TileLayer.WMS
+ * @inherits TileLayer
+ * @aka L.TileLayer.WMS
+ * Used to display [WMS](https://en.wikipedia.org/wiki/Web_Map_Service) services as tile layers on the map. Extends `TileLayer`.
+ *
+ * @example
+ *
+ * ```js
+ * var nexrad = L.tileLayer.wms("http://mesonet.agron.iastate.edu/cgi-bin/wms/nexrad/n0r.cgi", {
+ * 	layers: 'nexrad-n0r-900913',
+ * 	format: 'image/png',
+ * 	transparent: true,
+ * 	attribution: "Weather data © 2012 IEM Nexrad"
+ * });
+ * ```
+ */
+
+export interface WMSParams {
+  service: string;
+  request: string;
+  layers: string;
+  styles: string;
+  format: string;
+  transparent: boolean;
+  version: string;
+  width?: number;
+  height?: number;
+  crs?: string;
+  srs?: string;
+  // any other custom parameter sent to the WMS server
+  [key: string]: unknown;
+}
+
+export interface WMSOptions extends TileLayerOptions {
+  crs?: CRS;
+  uppercase: boolean;
+}
+
+export class TileLayerWMS extends TileLayer {
+  // @section
+  // @aka TileLayer.WMS options
+  // If any custom options not documented here are used, they will be sent to the
+  // WMS server as extra parameters in each request URL. This can be useful for
+  // [non-standard vendor WMS parameters](http://docs.geoserver.org/stable/en/user/services/wms/vendor.html).
+  public defaultWmsParams: WMSParams = {
+    service: 'WMS',
+    request: 'GetMap',
+
+    // @option layers: String = ''
+    // **(required)** Comma-separated list of WMS layers to show.
+    layers: '',
+
+    // @option styles: String = ''
+    // Comma-separated list of WMS styles.
+    styles: '',
+
+    // @option format: String = 'image/jpeg'
+    // WMS image format (use `'image/png'` for layers with transparency).
+    format: 'image/jpeg',
+
+    // @option transparent: Boolean = false
+    // If `true`, the WMS service will return images with transparency.
+    transparent: false,
+
+    // @option version: String = '1.1.1'
+    // Version of the WMS service to use
+    version: '1.1.1',
+  };
+
+  public options: WMSOptions = {
+    ...this.options,
+
+    // @option crs: CRS = null
+    // Coordinate Reference System to use for the WMS requests, defaults to
+    // map CRS. Don't change this if you're not sure what it means.
+    crs: undefined,
+
+    // @option uppercase: Boolean = false
+    // If `true`, WMS request parameter keys will be uppercase.
+    uppercase: false,
+  };
+
+  public wmsParams: WMSParams;
+  protected _crs?: CRS;
+  protected _wmsVersion = 0;
+
+  constructor(url: string, options?: Partial<WMSOptions>) {
+    super(url);
+
+    const wmsParams = extend({}, this.defaultWmsParams) as WMSParams;
+
+    // all keys that are not TileLayer options go to WMS params
+    for (const i in options) {
+      if (!(i in this.options)) {
+        wmsParams[i] = options[i];
+      }
+    }
+
+    const opts = setOptions(this, options);
+
+    const realRetina = opts.detectRetina && Browser.retina ? 2 : 1;
+    const tileSize = this.getTileSize();
+    wmsParams.width = tileSize.x * realRetina;
+    wmsParams.height = tileSize.y * realRetina;
+
+    this.wmsParams = wmsParams;
+  }
+
+  public onAdd(): this {
+    const map = this._map as Map;
+    this._crs = this.options.crs || map.options.crs;
+    this._wmsVersion = parseFloat(this.wmsParams.version);
+
+    const projectionKey = this._wmsVersion >= 1.3 ? 'crs' : 'srs';
+    this.wmsParams[projectionKey] = this._crs.code;
+
+    return super.onAdd();
+  }
+
+  public getTileUrl(coords: Coords): string {
+    const tileBounds = this._tileCoordsToNwSe(coords);
+    const crs = this._crs as CRS;
+    const bounds = toBounds(
+      crs.project(tileBounds[0]),
+      crs.project(tileBounds[1]),
+    );
+    const min = bounds.min;
+    const max = bounds.max;
+    // WMS 1.3.0 uses the axis order of the CRS definition, which is
+    // latitude first for EPSG:4326
+    const bbox = (this._wmsVersion >= 1.3 && crs === EPSG4326
+      ? [min.y, min.x, max.y, max.x]
+      : [min.x, min.y, max.x, max.y]
+    ).join(',');
+    const url = super.getTileUrl(coords);
+    return (
+      url +
+      getParamString(this.wmsParams, url, this.options.uppercase) +
+      (this.options.uppercase ? '&BBOX=' : '&bbox=') +
+      bbox
+    );
+  }
+
+  // @method setParams(params: Object, noRedraw?: Boolean): this
+  // Merges an object with the new parameters and re-requests tiles on the current screen (unless `noRedraw` was set to true).
+  public setParams(params: Partial<WMSParams>, noRedraw?: boolean): this {
+    extend(this.wmsParams, params);
+
+    if (!noRedraw) {
+      this.redraw();
+    }
+
+    return this;
+  }
+}
+
+// @factory L.tileLayer.wms(baseUrl: String, options: TileLayer.WMS options)
+// Instantiates a WMS tile layer object given a base URL of the WMS service and a WMS parameters/options object.
+export function tileLayerWMS(
+  url: string,
+  options?: Partial<WMSOptions>,
+): TileLayerWMS {
+  return new TileLayerWMS(url, options);
+}
@@ -0,0 +1,308 @@
+import * as Browser from '@/core/Browser';
+import { LeafletEvent } from '@/core/Events';
+import { emptyImageUrl, extend, setOptions, template } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { Coords, DoneCallback, GridLayer, GridLayerOptions } from './GridLayer';
+
+/*
+ * @class TileLayer
+ * @inherits GridLayer
+ * @aka L.TileLayer
+ * Used to load and display tile layers on the map. Note that most tile servers require attribution, which you can set under `Layer`. Extends `GridLayer`.
+ *
+ * @example
+ *
+ * ```js
+ * L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png?{foo}', {foo: 'bar', attribution: 'Map data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'}).addTo(map);
+ * ```
+ *
+ * @section URL template
+ * @example
+ *
+ * A string of the following form:
+ *
+ * ```
+ * 'https://{s}.somedomain.com/blabla/{z}/{x}/{y}{r}.png'
+ * ```
+ *
+ * `{s}` means one of the available subdomains (used sequentially to help with browser parallel requests per domain limitation; subdomain values are specified in options; `a`, `b` or `c` by default, can be omitted), `{z}` — zoom level, `{x}` and `{y}` — tile coordinates. `{r}` can be used to add "&commat;2x" to the URL to load retina tiles.
+ *
+ * You can use custom keys in the template, which will be [evaluated](#util-template) from TileLayer options, like this:
+ *
+ * ```
+ * L.tileLayer('https://{s}.somedomain.com/{foo}/{z}/{x}/{y}.png', {foo: 'bar'});
+ * ```
+ */
+
+export interface TileLayerOptions extends GridLayerOptions {
+  maxZoom: number;
+  subdomains: string | string[];
+  errorTileUrl: string;
+  zoomOffset: number;
+  tms: boolean;
+  zoomReverse: boolean;
+  detectRetina: boolean;
+  crossOrigin: boolean | string;
+  // custom keys used in the URL template
+  [key: string]: unknown;
+}
+
+export class TileLayer extends GridLayer {
+  // @section
+  // @aka TileLayer options
+  public options: TileLayerOptions = {
+    ...this.options,
+
+    // @option minZoom: Number = 0
+    // The minimum zoom level down to which this layer will be displayed (inclusive).
+    minZoom: 0,
+
+    // @option maxZoom: Number = 18
+    // The maximum zoom level up to which this layer will be displayed (inclusive).
+    maxZoom: 18,
+
+    // @option subdomains: String|String[] = 'abc'
+    // Subdomains of the tile service. Can be passed in the form of one string (where each letter is a subdomain name) or an array of strings.
+    subdomains: 'abc',
+
+    // @option errorTileUrl: String = ''
+    // URL to the tile image to show in place of the tile that failed to load.
+    errorTileUrl: '',
+
+    // @option zoomOffset: Number = 0
+    // The zoom number used in tile URLs will be offset with this value.
+    zoomOffset: 0,
+
+    // @option tms: Boolean = false
+    // If `true`, inverses Y axis numbering for tiles (turn this on for [TMS](https://en.wikipedia.org/wiki/Tile_Map_Service) services).
+    tms: false,
+
+    // @option zoomReverse: Boolean = false
+    // If set to true, the zoom number used in tile URLs will be reversed (`maxZoom - zoom` instead of `zoom`)
+    zoomReverse: false,
+
+    // @option detectRetina: Boolean = false
+    // If `true` and user is on a retina display, it will request four tiles of half the specified size and a bigger zoom level in place of one to utilize the high resolution.
+    detectRetina: false,
+
+    // @option crossOrigin: Boolean|String = false
+    // Whether the crossOrigin attribute will be added to the tiles.
+    // If a String is provided, all tiles will have their crossOrigin attribute set to the String provided. This is needed if you want to access tile pixel data.
+    // Refer to [CORS Settings](https://developer.mozilla.org/en-US/docs/Web/HTML/CORS_settings_attributes) for valid String values.
+    crossOrigin: false,
+  };
+
+  protected _url: string;
+
+  constructor(url: string, options?: Partial<TileLayerOptions>) {
+    super();
+
+    this._url = url;
+
+    options = setOptions(this, options);
+
+    // detecting retina displays, adjusting tileSize and zoom levels
+    if (options.detectRetina && Browser.retina && this.options.maxZoom > 0) {
+      this.options.tileSize = Math.floor((this.options.tileSize as number) / 2);
+
+      if (!options.zoomReverse) {
+        this.options.zoomOffset++;
+        this.options.maxZoom--;
+      } else {
+        this.options.zoomOffset--;
+        this.options.minZoom++;
+      }
+
+      this.options.minZoom = Math.max(0, this.options.minZoom);
+    }
+
+    if (typeof options.subdomains === 'string') {
+      this.options.subdomains = options.subdomains.split('');
+    }
+
+    // for https://github.com/Leaflet/Leaflet/issues/137
+    if (!Browser.android) {
+      this.on('tileunload', this._onTileRemove);
+    }
+  }
+
+  // @method setUrl(url: String, noRedraw?: Boolean): this
+  // Updates the layer's URL template and redraws it (unless `noRedraw` is set to `true`).
+  // If the URL does not change, the layer will not be redrawn unless
+  // the noRedraw parameter is set to false.
+  public setUrl(url: string, noRedraw?: boolean): this {
+    if (this._url === url && noRedraw === undefined) {
+      noRedraw = true;
+    }
+
+    this._url = url;
+
+    if (!noRedraw) {
+      this.redraw();
+    }
+    return this;
+  }
+
+  // @method createTile(coords: Object, done?: Function): HTMLElement
+  // Called only internally, overrides GridLayer's [`createTile()`](#gridlayer-createtile)
+  // to return an `<img>` HTML element with the appropriate image URL given `coords`. The `done`
+  // callback is called when the tile has been loaded.
+  public createTile(coords: Coords, done?: DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+
+    tile.onload = () => this._tileOnLoad(tile, done);
+    tile.onerror = (e) => this._tileOnError(tile, e, done);
+
+    if (this.options.crossOrigin || this.options.crossOrigin === '') {
+      tile.crossOrigin =
+        this.options.crossOrigin === true ? '' : this.options.crossOrigin;
+    }
+
+    /*
+     Alt tag is set to empty string to keep screen readers from reading URL and for compliance reasons
+     http://www.w3.org/TR/WCAG20-TECHS/H67
+    */
+    tile.alt = '';
+
+    /*
+     Set role="presentation" to force screen readers to ignore this
+     https://www.w3.org/TR/wai-aria/roles#textalternativecomputation
+    */
+    tile.setAttribute('role', 'presentation');
+
+    tile.src = this.getTileUrl(coords);
+
+    return tile;
+  }
+
+  // @section Extension methods
+  // @uninheritable
+  // Layers extending `TileLayer` might reimplement the following method.
+  // @method getTileUrl(coords: Object): String
+  // Called only internally, returns the URL for a tile given its coordinates.
+  // Classes extending `TileLayer` can override this function to provide custom tile URL naming schemes.
+  public getTileUrl(coords: Coords): string {
+    const data: Record<string, unknown> = {
+      r: Browser.retina ? '@2x' : '',
+      s: this._getSubdomain(coords),
+      x: coords.x,
+      y: coords.y,
+      z: this._getZoomForUrl(),
+    };
+    if (this._map && !this._map.options.crs.infinite) {
+      const bounds = this._globalTileRange;
+      const invertedY = bounds.max.y - coords.y;
+      if (this.options.tms) {
+        data.y = invertedY;
+      }
+      data['-y'] = invertedY;
+    }
+
+    return template(this._url, extend(data, this.options));
+  }
+
+  protected _tileOnLoad(tile: HTMLElement, done?: DoneCallback): void {
+    if (!done) {
+      return;
+    }
+    // For https://github.com/Leaflet/Leaflet/issues/3332
+    if (Browser.ielt9) {
+      setTimeout(() => done(null, tile), 0);
+    } else {
+      done(null, tile);
+    }
+  }
+
+  protected _tileOnError(
+    tile: HTMLImageElement,
+    e: Event | string,
+    done?: DoneCallback,
+  ): void {
+    const errorUrl = this.options.errorTileUrl;
+    if (errorUrl && tile.getAttribute('src') !== errorUrl) {
+      tile.src = errorUrl;
+    }
+    if (done) {
+      done(e, tile);
+    }
+  }
+
+  protected _onTileRemove(e: LeafletEvent): void {
+    const tile = e.tile as HTMLImageElement;
+    tile.onload = null;
+  }
+
+  protected _getZoomForUrl(): number {
+    let zoom = this._tileZoom as number;
+    const maxZoom = this.options.maxZoom;
+    const zoomReverse = this.options.zoomReverse;
+    const zoomOffset = this.options.zoomOffset;
+
+    if (zoomReverse) {
+      zoom = maxZoom - zoom;
+    }
+
+    return zoom + zoomOffset;
+  }
+
+  protected _getSubdomain(tilePoint: Coords): string {
+    const subdomains = this.options.subdomains;
+    const index = Math.abs(tilePoint.x + tilePoint.y) % subdomains.length;
+    return subdomains[index];
+  }
+
+  // stops loading all tiles in the background layer
+  protected _abortLoading(): void {
+    for (const i in this._tiles) {
+      if (this._tiles[i].coords.z !== this._tileZoom) {
+        const tile = this._tiles[i].el as HTMLImageElement;
+
+        tile.onload = null;
+        tile.onerror = null;
+
+        if (!tile.complete) {
+          tile.src = emptyImageUrl;
+          DomUtil.remove(tile);
+          delete this._tiles[i];
+        }
+      }
+    }
+  }
+
+  protected _removeTile(key: string): void {
+    const tile = this._tiles[key];
+    if (!tile) {
+      return;
+    }
+
+    // Cancels any pending http requests associated with the tile
+    // unless we're on Android's stock browser,
+    // see https://github.com/Leaflet/Leaflet/issues/137
+    if (!Browser.androidStock) {
+      tile.el.setAttribute('src', emptyImageUrl);
+    }
+
+    super._removeTile(key);
+  }
+
+  protected _tileReady(
+    coords: Coords,
+    err?: Error | Event | string | null,
+    el?: HTMLElement,
+  ): void {
+    if (!this._map || (el && el.getAttribute('src') === emptyImageUrl)) {
+      return;
+    }
+
+    super._tileReady(coords, err, el);
+  }
+}
+
+// @factory L.tilelayer(urlTemplate: String, options?: TileLayer options)
+// Instantiates a tile layer object given a `URL template` and optionally an options object.
+export function tileLayer(
+  url: string,
+  options?: Partial<TileLayerOptions>,
+): TileLayer {
+  return new TileLayer(url, options);
+}
@@ -0,0 +1,3 @@
+export { GridLayer, gridLayer } from './GridLayer';
+export { TileLayer, tileLayer } from './TileLayer';
+export { TileLayerWMS, tileLayerWMS } from './TileLayer.WMS';
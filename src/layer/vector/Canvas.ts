@@ -0,0 +1,566 @@
+import * as Browser from '@/core/Browser';
+import { Listener } from '@/core/Events';
+import { cancelAnimFrame, requestAnimFrame, stamp } from '@/core/Util';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { Bounds } from '@/geometry/Bounds';
+import { Point } from '@/geometry/Point';
+import { Map } from '@/map/Map';
+import { CircleMarker } from './CircleMarker';
+import { Path } from './Path';
+import { Polyline } from './Polyline';
+import { Renderer, RendererOptions } from './Renderer';
+
+/*
+ * @class Canvas
+ * @inherits Renderer
+ * @aka L.Canvas
+ *
+ * Allows vector layers to be displayed with [`<canvas>`](https://developer.mozilla.org/docs/Web/API/Canvas_API).
+ * Inherits `Renderer`.
+ *
+ * Due to [technical limitations](http://caniuse.com/#search=canvas), Canvas is not
+ * available in all web browsers, notably IE8, and overlapping geometries might
+ * not display properly in some edge cases.
+ *
+ * @example
+ *
+ * Use Canvas by default for all paths in the map:
+ *
+ * ```js
+ * var map = L.map('map', {
+ * 	renderer: L.canvas()
+ * });
+ * ```
+ *
+ * Use a Canvas renderer with extra padding for specific vector geometries:
+ *
+ * ```js
+ * var map = L.map('map');
+ * var myRenderer = L.canvas({ padding: 0.5 });
+ * var line = L.polyline( coordinates, { renderer: myRenderer } );
+ * var circle = L.circle( center, { renderer: myRenderer } );
+ * ```
+ */
+
+// node of the doubly-linked list that keeps the drawing order of the layers
+export interface DrawOrder {
+  layer: Path;
+  prev: DrawOrder | null;
+  next: DrawOrder | null;
+}
+
+export class Canvas extends Renderer {
+  protected _container?: HTMLCanvasElement;
+  private _ctx?: CanvasRenderingContext2D;
+  private _postponeUpdatePaths = false;
+  private _redrawRequest?: number;
+  private _redrawBounds?: Bounds;
+  private _drawing = false;
+  private _drawFirst: DrawOrder | null = null;
+  private _drawLast: DrawOrder | null = null;
+  private _hoveredLayer?: Path;
+  private _mouseHoverThrottled = false;
+
+  public getEvents(): Record<string, Listener> {
+    const events = super.getEvents();
+    events.viewprereset = this._onViewPreReset;
+    return events;
+  }
+
+  protected _onViewPreReset(): void {
+    // Set a flag so that a viewprereset+moveend+viewreset only updates&redraws once
+    this._postponeUpdatePaths = true;
+  }
+
+  public onAdd(): this {
+    super.onAdd();
+
+    // Redraw vectors since canvas is cleared upon removal,
+    // in case of removing the renderer itself from the map.
+    this._draw();
+    return this;
+  }
+
+  protected _initContainer(): void {
+    const container = (this._container = document.createElement('canvas'));
+
+    DomEvent.on(container, 'mousemove', this._onMouseMove, this);
+    DomEvent.on(
+      container,
+      'click dblclick mousedown mouseup contextmenu',
+      this._onClick,
+      this,
+    );
+    DomEvent.on(container, 'mouseout', this._handleMouseOut, this);
+
+    this._ctx = container.getContext('2d') as CanvasRenderingContext2D;
+  }
+
+  protected _destroyContainer(): void {
+    cancelAnimFrame(this._redrawRequest);
+    this._ctx = undefined;
+
+    const container = this._container;
+    if (container) {
+      DomUtil.remove(container);
+      DomEvent.off(container);
+    }
+    this._container = undefined;
+  }
+
+  protected _updatePaths(): void {
+    if (this._postponeUpdatePaths) {
+      return;
+    }
+
+    this._redrawBounds = undefined;
+    for (const id in this._layers) {
+      this._layers[id]._update();
+    }
+    this._redraw();
+  }
+
+  protected _update(): void {
+    if ((this._map as Map)._animatingZoom && this._bounds) {
+      return;
+    }
+
+    super._update();
+
+    const b = this._bounds;
+    const container = this._container as HTMLCanvasElement;
+    const ctx = this._ctx as CanvasRenderingContext2D;
+    const size = b.getSize();
+    const m = Browser.retina ? 2 : 1;
+
+    DomUtil.setPosition(container, b.min);
+
+    // set canvas size (also clearing it); use double size on retina
+    container.width = m * size.x;
+    container.height = m * size.y;
+    container.style.width = size.x + 'px';
+    container.style.height = size.y + 'px';
+
+    if (Browser.retina) {
+      ctx.scale(2, 2);
+    }
+
+    // translate so we use the same path coordinates after canvas element moves
+    ctx.translate(-b.min.x, -b.min.y);
+
+    // Tell paths to redraw themselves
+    this.fire('update');
+  }
+
+  protected _reset(): void {
+    super._reset();
+
+    if (this._postponeUpdatePaths) {
+      this._postponeUpdatePaths = false;
+      this._updatePaths();
+    }
+  }
+
+  public _initPath(layer: Path): void {
+    this._updateDashArray(layer);
+    this._layers[stamp(layer)] = layer;
+
+    const order: DrawOrder = {
+      layer: layer,
+      prev: this._drawLast,
+      next: null,
+    };
+    layer._order = order;
+    if (this._drawLast) {
+      this._drawLast.next = order;
+    }
+    this._drawLast = order;
+    this._drawFirst = this._drawFirst || this._drawLast;
+  }
+
+  public _addPath(layer: Path): void {
+    this._requestRedraw(layer);
+  }
+
+  public _removePath(layer: Path): void {
+    const order = layer._order;
+    if (!order) {
+      return;
+    }
+    const next = order.next;
+    const prev = order.prev;
+
+    if (next) {
+      next.prev = prev;
+    } else {
+      this._drawLast = prev;
+    }
+    if (prev) {
+      prev.next = next;
+    } else {
+      this._drawFirst = next;
+    }
+
+    layer._order = undefined;
+
+    delete this._layers[stamp(layer)];
+
+    this._requestRedraw(layer);
+  }
+
+  public _updatePath(layer: Path): void {
+    // Redraw the union of the layer's old pixel
+    // bounding box and the new pixel bounding box.
+    this._extendRedrawBounds(layer);
+    layer._project();
+    layer._update();
+    // The redraw will extend the redraw bounds
+    // with the new pixel bounding box.
+    this._requestRedraw(layer);
+  }
+
+  public _updateStyle(layer: Path): void {
+    this._updateDashArray(layer);
+    this._requestRedraw(layer);
+  }
+
+  protected _updateDashArray(layer: Path): void {
+    const dashArray = layer.options.dashArray;
+    if (typeof dashArray === 'string') {
+      const parts = dashArray.split(/[, ]+/);
+      const converted = [];
+      for (let i = 0; i < parts.length; i++) {
+        const dashValue = Number(parts[i]);
+        // Ignore dash array containing invalid lengths
+        if (isNaN(dashValue)) {
+          return;
+        }
+        converted.push(dashValue);
+      }
+      layer._dashArray = converted;
+    } else {
+      layer._dashArray = dashArray;
+    }
+  }
+
+  protected _requestRedraw(layer: Path): void {
+    if (!this._map) {
+      return;
+    }
+
+    this._extendRedrawBounds(layer);
+    this._redrawRequest =
+      this._redrawRequest || requestAnimFrame(this._redraw, this);
+  }
+
+  protected _extendRedrawBounds(layer: Path): void {
+    if (layer._pxBounds) {
+      const padding = (layer.options.weight || 0) + 1;
+      const p = new Point(padding, padding);
+      this._redrawBounds = this._redrawBounds || new Bounds([]);
+      this._redrawBounds.extend(layer._pxBounds.min.subtract(p));
+      this._redrawBounds.extend(layer._pxBounds.max.add(p));
+    }
+  }
+
+  protected _redraw(): void {
+    this._redrawRequest = undefined;
+
+    if (this._redrawBounds) {
+      this._redrawBounds.min._floor();
+      this._redrawBounds.max._ceil();
+    }
+
+    this._clear(); // clear layers in redraw bounds
+    this._draw(); // draw layers
+
+    this._redrawBounds = undefined;
+  }
+
+  protected _clear(): void {
+    const bounds = this._redrawBounds;
+    const ctx = this._ctx;
+    if (!ctx) {
+      return;
+    }
+
+    if (bounds) {
+      const size = bounds.getSize();
+      ctx.clearRect(bounds.min.x, bounds.min.y, size.x, size.y);
+    } else {
+      const container = this._container as HTMLCanvasElement;
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, container.width, container.height);
+      ctx.restore();
+    }
+  }
+
+  protected _draw(): void {
+    const bounds = this._redrawBounds;
+    const ctx = this._ctx;
+    if (!ctx) {
+      return;
+    }
+
+    ctx.save();
+    if (bounds) {
+      const size = bounds.getSize();
+      ctx.beginPath();
+      ctx.rect(bounds.min.x, bounds.min.y, size.x, size.y);
+      ctx.clip();
+    }
+
+    this._drawing = true;
+
+    for (let order = this._drawFirst; order; order = order.next) {
+      const layer = order.layer;
+      if (!bounds || (layer._pxBounds && layer._pxBounds.intersects(bounds))) {
+        layer._updatePath();
+      }
+    }
+
+    this._drawing = false;
+
+    ctx.restore(); // Restore state before clipping.
+  }
+
+  public _updatePoly(layer: Polyline, closed?: boolean): void {
+    if (!this._drawing) {
+      return;
+    }
+
+    const parts = layer._parts;
+    const len = parts.length;
+    const ctx = this._ctx as CanvasRenderingContext2D;
+
+    if (!len) {
+      return;
+    }
+
+    ctx.beginPath();
+
+    for (let i = 0; i < len; i++) {
+      for (let j = 0, len2 = parts[i].length; j < len2; j++) {
+        const p = parts[i][j];
+        ctx[j ? 'lineTo' : 'moveTo'](p.x, p.y);
+      }
+      if (closed) {
+        ctx.closePath();
+      }
+    }
+
+    this._fillStroke(ctx, layer);
+
+    // TODO optimization: 1 fill/stroke for all features with equal style instead of 1 for each feature
+  }
+
+  public _updateCircle(layer: CircleMarker): void {
+    if (!this._drawing || layer._empty()) {
+      return;
+    }
+
+    const p = layer._point;
+    const ctx = this._ctx as CanvasRenderingContext2D;
+    const r = Math.max(Math.round(layer._radius), 1);
+    const s = (Math.max(Math.round(layer._radiusY || 0), 1) || r) / r;
+
+    if (s !== 1) {
+      ctx.save();
+      ctx.scale(1, s);
+    }
+
+    ctx.beginPath();
+    ctx.arc(p.x, p.y / s, r, 0, Math.PI * 2, false);
+
+    if (s !== 1) {
+      ctx.restore();
+    }
+
+    this._fillStroke(ctx, layer);
+  }
+
+  protected _fillStroke(ctx: CanvasRenderingContext2D, layer: Path): void {
+    const options = layer.options;
+
+    if (options.fill) {
+      ctx.globalAlpha = options.fillOpacity;
+      ctx.fillStyle = options.fillColor || options.color;
+      ctx.fill((options.fillRule || 'evenodd') as CanvasFillRule);
+    }
+
+    if (options.stroke && options.weight !== 0) {
+      if (ctx.setLineDash) {
+        ctx.setLineDash((layer && layer._dashArray) || []);
+      }
+      ctx.globalAlpha = options.opacity;
+      ctx.lineWidth = options.weight;
+      ctx.strokeStyle = options.color;
+      ctx.lineCap = options.lineCap as CanvasLineCap;
+      ctx.lineJoin = options.lineJoin as CanvasLineJoin;
+      ctx.stroke();
+    }
+  }
+
+  // Canvas obviously doesn't have mouse events for individual drawn objects,
+  // so we emulate that by calculating what's under the mouse on mousemove/click manually
+
+  protected _onClick(e: MouseEvent): void {
+    const point = this._mouseEventToLayerPoint(e);
+    let clickedLayer;
+
+    for (let order = this._drawFirst; order; order = order.next) {
+      const layer = order.layer;
+      if (layer.options.interactive && layer._containsPoint(point)) {
+        clickedLayer = layer;
+      }
+    }
+    if (clickedLayer) {
+      DomEvent.fakeStop(e);
+      this._fireEvent([clickedLayer], e);
+    }
+  }
+
+  protected _onMouseMove(e: MouseEvent): void {
+    if (!this._map || this._map.dragging.moving() || this._map._animatingZoom) {
+      return;
+    }
+
+    const point = this._mouseEventToLayerPoint(e);
+    this._handleMouseHover(e, point);
+  }
+
+  protected _handleMouseOut(e: MouseEvent): void {
+    const layer = this._hoveredLayer;
+    if (layer) {
+      // if we're leaving the layer, fire mouseout
+      DomUtil.removeClass(
+        this._container as HTMLCanvasElement,
+        'leaflet-interactive',
+      );
+      this._fireEvent([layer], e, 'mouseout');
+      this._hoveredLayer = undefined;
+      this._mouseHoverThrottled = false;
+    }
+  }
+
+  protected _handleMouseHover(e: MouseEvent, point: Point): void {
+    if (this._mouseHoverThrottled) {
+      return;
+    }
+
+    let candidateHoveredLayer;
+
+    for (let order = this._drawFirst; order; order = order.next) {
+      const layer = order.layer;
+      if (layer.options.interactive && layer._containsPoint(point)) {
+        candidateHoveredLayer = layer;
+      }
+    }
+
+    if (candidateHoveredLayer !== this._hoveredLayer) {
+      this._handleMouseOut(e);
+
+      if (candidateHoveredLayer) {
+        DomUtil.addClass(
+          this._container as HTMLCanvasElement,
+          'leaflet-interactive',
+        ); // change cursor
+        this._fireEvent([candidateHoveredLayer], e, 'mouseover');
+        this._hoveredLayer = candidateHoveredLayer;
+      }
+    }
+
+    if (this._hoveredLayer) {
+      // the map gets the event through the layer, don't fire it twice
+      DomEvent.fakeStop(e);
+      this._fireEvent([this._hoveredLayer], e);
+    }
+
+    this._mouseHoverThrottled = true;
+    setTimeout(() => {
+      this._mouseHoverThrottled = false;
+    }, 32);
+  }
+
+  protected _mouseEventToLayerPoint(e: MouseEvent): Point {
+    return (this._map as Map).mouseEventToLayerPoint(e);
+  }
+
+  protected _fireEvent(layers: Path[], e: MouseEvent, type?: string): void {
+    (this._map as Map)._fireDOMEvent(e, type || e.type, layers);
+  }
+
+  public _bringToFront(layer: Path): void {
+    const order = layer._order;
+
+    if (!order) {
+      return;
+    }
+
+    const next = order.next;
+    const prev = order.prev;
+
+    if (next) {
+      next.prev = prev;
+    } else {
+      // Already last
+      return;
+    }
+    if (prev) {
+      prev.next = next;
+    } else if (next) {
+      // Update first entry unless this is the
+      // single entry
+      this._drawFirst = next;
+    }
+
+    order.prev = this._drawLast;
+    (this._drawLast as DrawOrder).next = order;
+
+    order.next = null;
+    this._drawLast = order;
+
+    this._requestRedraw(layer);
+  }
+
+  public _bringToBack(layer: Path): void {
+    const order = layer._order;
+
+    if (!order) {
+      return;
+    }
+
+    const next = order.next;
+    const prev = order.prev;
+
+    if (prev) {
+      prev.next = next;
+    } else {
+      // Already first
+      return;
+    }
+    if (next) {
+      next.prev = prev;
+    } else if (prev) {
+      // Update last entry unless this is the
+      // single entry
+      this._drawLast = prev;
+    }
+
+    order.prev = null;
+
+    order.next = this._drawFirst;
+    (this._drawFirst as DrawOrder).prev = order;
+    this._drawFirst = order;
+
+    this._requestRedraw(layer);
+  }
+}
+
+// @factory L.canvas(options?: Renderer options)
+// Creates a Canvas renderer with the given options.
+export function canvas(options?: Partial<RendererOptions>): Canvas | null {
+  return Browser.canvas ? new Canvas(options) : null;
+}
@@ -0,0 +1,143 @@
+import { Earth } from '@/geo/crs/CRS.Earth';
+import { LatLngLike } from '@/geo/LatLng';
+import { LatLngBounds } from '@/geo/LatLngBounds';
+import { Point } from '@/geometry/Point';
+import { Map } from '@/map/Map';
+import { CircleMarker, CircleMarkerOptions } from './CircleMarker';
+import { Path, PathOptions } from './Path';
+
+/*
+ * @class Circle
+ * @aka L.Circle
+ * @inherits CircleMarker
+ *
+ * A class for drawing circle overlays on a map. Extends `CircleMarker`.
+ *
+ * It's an approximation and starts to diverge from a real circle closer to poles (due to projection distortion).
+ *
+ * @example
+ *
+ * ```js
+ * L.circle([50.5, 30.5], {radius: 200}).addTo(map);
+ * ```
+ */
+
+export class Circle extends CircleMarker {
+  public _mRadius: number;
+
+  // @section
+  // @aka Circle options
+  // @option radius: Number; Radius of the circle, in meters.
+  constructor(latlng: LatLngLike, options?: Partial<CircleMarkerOptions>);
+  // @alternative
+  // Obsolete way of instantiating a circle, for compatibility with 0.7.x code.
+  // Do not use in new applications or plugins.
+  constructor(
+    latlng: LatLngLike,
+    radius: number,
+    options?: Partial<PathOptions>,
+  );
+  constructor(
+    latlng: LatLngLike,
+    options?: Partial<CircleMarkerOptions> | number,
+    legacyOptions?: Partial<PathOptions>,
+  ) {
+    if (typeof options === 'number') {
+      // Backwards compatibility with 0.7.x factory (latlng, radius, options?)
+      options = { ...legacyOptions, radius: options };
+    }
+    super(latlng, options);
+
+    if (isNaN(this.options.radius)) {
+      throw new Error('Circle radius cannot be NaN');
+    }
+
+    this._mRadius = this.options.radius;
+  }
+
+  // @method setRadius(radius: Number): this
+  // Sets the radius of a circle. Units are in meters.
+  public setRadius(radius: number): this {
+    this._mRadius = radius;
+    return this.redraw();
+  }
+
+  // @method getRadius(): Number
+  // Returns the current radius of a circle. Units are in meters.
+  public getRadius(): number {
+    return this._mRadius;
+  }
+
+  // @method getBounds(): LatLngBounds
+  // Returns the `LatLngBounds` of the path.
+  public getBounds(): LatLngBounds {
+    const map = this._map as Map;
+    const half = new Point(this._radius, this._radiusY || this._radius);
+
+    return new LatLngBounds(
+      map.layerPointToLatLng(this._point.subtract(half)),
+      map.layerPointToLatLng(this._point.add(half)),
+    );
+  }
+
+  public setStyle(options?: Partial<CircleMarkerOptions>): this {
+    // the radius of a circle is in meters, skip the pixel radius handling
+    // of CircleMarker
+    return Path.prototype.setStyle.call(this, options) as this;
+  }
+
+  public _project(): void {
+    const lng = this._latlng.lng;
+    const lat = this._latlng.lat;
+    const map = this._map as Map;
+    const crs = map.options.crs;
+
+    if (crs instanceof Earth) {
+      const d = Math.PI / 180;
+      const latR = this._mRadius / Earth.R / d;
+      const top = map.project([lat + latR, lng]);
+      const bottom = map.project([lat - latR, lng]);
+      const p = top.add(bottom).divideBy(2);
+      const lat2 = map.unproject(p).lat;
+      let lngR =
+        Math.acos(
+          (Math.cos(latR * d) - Math.sin(lat * d) * Math.sin(lat2 * d)) /
+            (Math.cos(lat * d) * Math.cos(lat2 * d)),
+        ) / d;
+
+      if (isNaN(lngR) || lngR === 0) {
+        lngR = latR / Math.cos((Math.PI / 180) * lat); // Fallback for edge case, #2425
+      }
+
+      this._point = p.subtract(map.getPixelOrigin());
+      this._radius = isNaN(lngR) ? 0 : p.x - map.project([lat2, lng - lngR]).x;
+      this._radiusY = p.y - top.y;
+    } else {
+      const latlng2 = crs.unproject(
+        crs.project(this._latlng).subtract(new Point(this._mRadius, 0)),
+      );
+
+      this._point = map.latLngToLayerPoint(this._latlng);
+      this._radius = this._point.x - map.latLngToLayerPoint(latlng2).x;
+    }
+
+    this._updateBounds();
+  }
+}
+
+// @factory L.circle(latlng: LatLng, options?: Circle options)
+// Instantiates a circle object given a geographical point, and an options object
+// which contains the circle radius.
+// @alternative
+// @factory L.circle(latlng: LatLng, radius: Number, options?: Circle options)
+// Obsolete way of instantiating a circle, for compatibility with 0.7.x code.
+// Do not use in new applications or plugins.
+export function circle(
+  latlng: LatLngLike,
+  options?: Partial<CircleMarkerOptions> | number,
+  legacyOptions?: Partial<PathOptions>,
+): Circle {
+  return typeof options === 'number'
+    ? new Circle(latlng, options, legacyOptions)
+    : new Circle(latlng, options);
+}
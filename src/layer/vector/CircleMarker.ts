@@ -0,0 +1,126 @@
+import { setOptions } from '@/core/Util';
+import { LatLng, LatLngLike, toLatLng } from '@/geo/LatLng';
+import { Bounds } from '@/geometry/Bounds';
+import { Point } from '@/geometry/Point';
+import { Map } from '@/map/Map';
+import { Path, PathOptions } from './Path';
+
+/*
+ * @class CircleMarker
+ * @aka L.CircleMarker
+ * @inherits Path
+ *
+ * A circle of a fixed size with radius specified in pixels. Extends `Path`.
+ */
+
+export interface CircleMarkerOptions extends PathOptions {
+  radius: number;
+}
+
+export class CircleMarker extends Path {
+  // @section
+  // @aka CircleMarker options
+  public options: CircleMarkerOptions = {
+    ...this.options,
+
+    fill: true,
+
+    // @option radius: Number = 10
+    // Radius of the circle marker, in pixels
+    radius: 10,
+  };
+
+  public _latlng: LatLng;
+  public _point!: Point;
+  public _radius: number;
+  public _radiusY?: number;
+
+  constructor(latlng: LatLngLike, options?: Partial<CircleMarkerOptions>) {
+    super();
+    setOptions(this, options);
+    this._latlng = toLatLng(latlng) as LatLng;
+    this._radius = this.options.radius;
+  }
+
+  // @method setLatLng(latLng: LatLng): this
+  // Sets the position of a circle marker to a new location.
+  public setLatLng(latlng: LatLngLike): this {
+    const oldLatLng = this._latlng;
+    this._latlng = toLatLng(latlng) as LatLng;
+    this.redraw();
+
+    // @event move: Event
+    // Fired when the marker is moved via [`setLatLng`](#circlemarker-setlatlng). Old and new coordinates are included in event arguments as `oldLatLng`, `latlng`.
+    return this.fire('move', { oldLatLng: oldLatLng, latlng: this._latlng });
+  }
+
+  // @method getLatLng(): LatLng
+  // Returns the current geographical position of the circle marker
+  public getLatLng(): LatLng {
+    return this._latlng;
+  }
+
+  // @method setRadius(radius: Number): this
+  // Sets the radius of a circle marker. Units are in pixels.
+  public setRadius(radius: number): this {
+    this.options.radius = this._radius = radius;
+    return this.redraw();
+  }
+
+  // @method getRadius(): Number
+  // Returns the current radius of the circle
+  public getRadius(): number {
+    return this._radius;
+  }
+
+  public setStyle(options?: Partial<CircleMarkerOptions>): this {
+    const radius = (options && options.radius) || this._radius;
+    super.setStyle(options);
+    this.setRadius(radius);
+    return this;
+  }
+
+  public _project(): void {
+    this._point = (this._map as Map).latLngToLayerPoint(this._latlng);
+    this._updateBounds();
+  }
+
+  public _updateBounds(): void {
+    const r = this._radius;
+    const r2 = this._radiusY || r;
+    const w = this._clickTolerance();
+    const p = new Point(r + w, r2 + w);
+    this._pxBounds = new Bounds(this._point.subtract(p), this._point.add(p));
+  }
+
+  public _update(): void {
+    if (this._map) {
+      this._updatePath();
+    }
+  }
+
+  public _updatePath(): void {
+    this._renderer._updateCircle(this);
+  }
+
+  public _empty(): boolean {
+    return (
+      !!this._radius &&
+      !this._renderer._bounds.intersects(this._pxBounds as Bounds)
+    );
+  }
+
+  // Needed by the `Canvas` renderer for interactivity
+  public _containsPoint(p: Point): boolean {
+    return p.distanceTo(this._point) <= this._radius + this._clickTolerance();
+  }
+}
+
+// @factory L.circleMarker(latlng: LatLng, options?: CircleMarker options)
+// Instantiates a circle marker object given a geographical point, and an optional options object.
+export function circleMarker(
+  latlng: LatLngLike,
+  options?: Partial<CircleMarkerOptions>,
+): CircleMarker {
+  return new CircleMarker(latlng, options);
+}
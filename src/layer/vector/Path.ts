@@ -0,0 +1,213 @@
+import { setOptions } from '@/core/Util';
+import { Bounds } from '@/geometry/Bounds';
+import { Point } from '@/geometry/Point';
+import { Map } from '@/map/Map';
+import { Layer, LayerOptions } from '../Layer';
+import { DrawOrder } from './Canvas';
+import { Renderer } from './Renderer';
+
+/*
+ * @class Path
+ * @aka L.Path
+ * @inherits Layer
+ *
+ * An abstract class that contains options and constants shared between vector
+ * overlays (Polygon, Polyline, Circle). Do not use it directly. Extends `Layer`.
+ */
+
+export interface PathOptions extends LayerOptions {
+  renderer?: Renderer;
+  stroke: boolean;
+  color: string;
+  weight: number;
+  opacity: number;
+  lineCap: string;
+  lineJoin: string;
+  dashArray?: string | number[];
+  dashOffset?: string;
+  fill: boolean;
+  fillColor?: string;
+  fillOpacity: number;
+  fillRule: string;
+  className?: string;
+  interactive: boolean;
+  bubblingMouseEvents: boolean;
+}
+
+export abstract class Path extends Layer {
+  // @section
+  // @aka Path options
+  public options: PathOptions = {
+    ...this.options,
+
+    // @option renderer: Renderer
+    // Use this specific instance of `Renderer` for this path. Takes
+    // precedence over the map's [default renderer](#map-renderer).
+    renderer: undefined,
+
+    // @option stroke: Boolean = true
+    // Whether to draw stroke along the path. Set it to `false` to disable borders on polygons or circles.
+    stroke: true,
+
+    // @option color: String = '#3388ff'
+    // Stroke color
+    color: '#3388ff',
+
+    // @option weight: Number = 3
+    // Stroke width in pixels
+    weight: 3,
+
+    // @option opacity: Number = 1.0
+    // Stroke opacity
+    opacity: 1,
+
+    // @option lineCap: String= 'round'
+    // A string that defines [shape to be used at the end](https://developer.mozilla.org/docs/Web/SVG/Attribute/stroke-linecap) of the stroke.
+    lineCap: 'round',
+
+    // @option lineJoin: String = 'round'
+    // A string that defines [shape to be used at the corners](https://developer.mozilla.org/docs/Web/SVG/Attribute/stroke-linejoin) of the stroke.
+    lineJoin: 'round',
+
+    // @option dashArray: String = null
+    // A string that defines the stroke [dash pattern](https://developer.mozilla.org/docs/Web/SVG/Attribute/stroke-dasharray). Doesn't work on `Canvas`-powered layers in [some old browsers](https://developer.mozilla.org/docs/Web/API/CanvasRenderingContext2D/setLineDash#Browser_compatibility).
+    dashArray: undefined,
+
+    // @option dashOffset: String = null
+    // A string that defines the [distance into the dash pattern to start the dash](https://developer.mozilla.org/docs/Web/SVG/Attribute/stroke-dashoffset). Doesn't work on `Canvas`-powered layers in [some old browsers](https://developer.mozilla.org/docs/Web/API/CanvasRenderingContext2D/setLineDash#Browser_compatibility).
+    dashOffset: undefined,
+
+    // @option fill: Boolean = depends
+    // Whether to fill the path with color. Set it to `false` to disable filling on polygons or circles.
+    fill: false,
+
+    // @option fillColor: String = *
+    // Fill color. Defaults to the value of the [`color`](#path-color) option
+    fillColor: undefined,
+
+    // @option fillOpacity: Number = 0.2
+    // Fill opacity.
+    fillOpacity: 0.2,
+
+    // @option fillRule: String = 'evenodd'
+    // A string that defines [how the inside of a shape](https://developer.mozilla.org/docs/Web/SVG/Attribute/fill-rule) is determined.
+    fillRule: 'evenodd',
+
+    // className: '',
+
+    // Option inherited from "Interactive layer" abstract class
+
+    // @option interactive: Boolean = true
+    // If `false`, the layer will not emit mouse events and will act as a part of the underlying map.
+    interactive: true,
+
+    // @option bubblingMouseEvents: Boolean = true
+    // When `true`, a mouse event on this path will trigger the same event on the map
+    // (unless [`L.DomEvent.stopPropagation`](#domevent-stoppropagation) is used).
+    bubblingMouseEvents: true,
+  };
+
+  public _renderer!: Renderer;
+  public _path?: SVGElement;
+  public _pxBounds?: Bounds;
+  // drawing order and parsed dash pattern, used by the `Canvas` renderer
+  public _order?: DrawOrder;
+  public _dashArray?: number[];
+
+  public beforeAdd(map: Map): this {
+    // Renderer is set here because we need to call renderer.getEvents
+    // before this.getEvents.
+    this._renderer = map.getRenderer(this);
+    return this;
+  }
+
+  public onAdd(): this {
+    this._renderer._initPath(this);
+    this._reset();
+    this._renderer._addPath(this);
+    return this;
+  }
+
+  public onRemove(): this {
+    this._renderer._removePath(this);
+    return this;
+  }
+
+  // @method redraw(): this
+  // Redraws the layer. Sometimes useful after you changed the coordinates that the path uses.
+  public redraw(): this {
+    if (this._map) {
+      this._renderer._updatePath(this);
+    }
+    return this;
+  }
+
+  // @method setStyle(style: Path options): this
+  // Changes the appearance of a Path based on the options in the `Path options` object.
+  public setStyle(style?: Partial<PathOptions>): this {
+    setOptions(this, style);
+    if (this._renderer) {
+      this._renderer._updateStyle(this);
+      if (
+        this.options.stroke &&
+        style &&
+        Object.prototype.hasOwnProperty.call(style, 'weight')
+      ) {
+        this._updateBounds();
+      }
+    }
+    return this;
+  }
+
+  // @method bringToFront(): this
+  // Brings the layer to the top of all path layers.
+  public bringToFront(): this {
+    if (this._renderer) {
+      this._renderer._bringToFront(this);
+    }
+    return this;
+  }
+
+  // @method bringToBack(): this
+  // Brings the layer to the bottom of all path layers.
+  public bringToBack(): this {
+    if (this._renderer) {
+      this._renderer._bringToBack(this);
+    }
+    return this;
+  }
+
+  // @method getElement(): SVGElement
+  // Returns the SVG element of the path, if the path is rendered by the `SVG` renderer.
+  public getElement(): SVGElement | undefined {
+    return this._path;
+  }
+
+  public _reset(): void {
+    this._project();
+    this._update();
+  }
+
+  // projects the geometry into layer pixel coordinates for the current zoom
+  public abstract _project(): void;
+
+  // clips and simplifies the projected geometry, then redraws the path
+  public abstract _update(): void;
+
+  // asks the renderer to draw the geometry
+  public abstract _updatePath(): void;
+
+  // updates the pixel bounds of the path, including its click tolerance
+  public abstract _updateBounds(): void;
+
+  // returns `true` if the layer point `p` hits the path
+  public abstract _containsPoint(p: Point): boolean;
+
+  public _clickTolerance(): number {
+    // used when doing hit detection for Canvas layers
+    return (
+      (this.options.stroke ? this.options.weight / 2 : 0) +
+      this._renderer.options.tolerance
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { LatLng } from '@/geo/LatLng';
+import { Bounds } from '@/geometry/Bounds';
+import * as LineUtil from '@/geometry/LineUtil';
+import { Point } from '@/geometry/Point';
+import * as PolyUtil from '@/geometry/PolyUtil';
+import { LatLngs, LatLngsLike, Polyline, PolylineOptions } from './Polyline';
+
+/*
+ * @class Polygon
+ * @aka L.Polygon
+ * @inherits Polyline
+ *
+ * A class for drawing polygon overlays on a map. Extends `Polyline`.
+ *
+ * Note that points you pass when creating a polygon shouldn't have an additional last point equal to the first one — it's better to filter out such points.
+ *
+ *
+ * @example
+ *
+ * ```js
+ * // create a red polygon from an array of LatLng points
+ * var latlngs = [[37, -109.05],[41, -109.03],[41, -102.05],[37, -102.04]];
+ *
+ * var polygon = L.polygon(latlngs, {color: 'red'}).addTo(map);
+ *
+ * // zoom the map to the polygon
+ * map.fitBounds(polygon.getBounds());
+ * ```
+ *
+ * You can also pass an array of arrays of latlngs, with the first array representing the outer shape and the other arrays representing holes in the outer shape:
+ *
+ * ```js
+ * var latlngs = [
+ *   [[37, -109.05],[41, -109.03],[41, -102.05],[37, -102.04]], // outer ring
+ *   [[37.29, -108.58],[40.71, -108.58],[40.71, -102.50],[37.29, -102.50]] // hole
+ * ];
+ * ```
+ *
+ * Additionally, you can pass a multi-dimensional array to represent a MultiPolygon shape.
+ *
+ * ```js
+ * var latlngs = [
+ *   [ // first polygon
+ *     [[37, -109.05],[41, -109.03],[41, -102.05],[37, -102.04]], // outer ring
+ *     [[37.29, -108.58],[40.71, -108.58],[40.71, -102.50],[37.29, -102.50]] // hole
+ *   ],
+ *   [ // second polygon
+ *     [[41, -111.03],[45, -111.04],[45, -104.05],[41, -104.05]]
+ *   ]
+ * ];
+ * ```
+ */
+
+export class Polygon extends Polyline {
+  constructor(latlngs: LatLngsLike, options?: Partial<PolylineOptions>) {
+    // unlike polylines, polygons are filled by default
+    super(latlngs, { fill: true, ...options });
+  }
+
+  public isEmpty(): boolean {
+    return !this._latlngs.length || !(this._latlngs[0] as LatLngs).length;
+  }
+
+  public getCenter(): LatLng | null {
+    // throws error when not yet added to map as this center calculation requires projected coordinates
+    if (!this._map) {
+      throw new Error('Must add layer to map before using getCenter()');
+    }
+
+    const points = this._rings[0];
+    const len = points.length;
+
+    if (!len) {
+      return null;
+    }
+
+    // polygon centroid algorithm; only uses the first ring if there are multiple
+
+    let area = 0;
+    let x = 0;
+    let y = 0;
+
+    for (let i = 0, j = len - 1; i < len; j = i++) {
+      const p1 = points[i];
+      const p2 = points[j];
+
+      const f = p1.y * p2.x - p2.y * p1.x;
+      x += (p1.x + p2.x) * f;
+      y += (p1.y + p2.y) * f;
+      area += f * 3;
+    }
+
+    // Polygon is so small that all points are on same pixel.
+    const center = area === 0 ? points[0] : new Point(x / area, y / area);
+    return this._map.layerPointToLatLng(center);
+  }
+
+  protected _convertLatLngs(latlngs: LatLngsLike): LatLngs {
+    const result = super._convertLatLngs(latlngs);
+    const len = result.length;
+
+    // remove last point if it equals first one
+    if (
+      len >= 2 &&
+      result[0] instanceof LatLng &&
+      result[0].equals(result[len - 1] as LatLng)
+    ) {
+      result.pop();
+    }
+    return result;
+  }
+
+  protected _setLatLngs(latlngs: LatLngsLike): void {
+    super._setLatLngs(latlngs);
+    if (LineUtil.isFlat(this._latlngs)) {
+      this._latlngs = [this._latlngs];
+    }
+  }
+
+  protected _defaultShape(): LatLng[] {
+    return (LineUtil.isFlat(this._latlngs[0] as LatLngs)
+      ? this._latlngs[0]
+      : (this._latlngs[0] as LatLngs[])[0]) as LatLng[];
+  }
+
+  protected _clipPoints(): void {
+    // polygons need a different clipping algorithm so we redefine that
+
+    let bounds = this._renderer._bounds;
+    const w = this.options.weight;
+    const p = new Point(w, w);
+
+    // increase clip padding by stroke width to avoid stroke on clip edges
+    bounds = new Bounds(bounds.min.subtract(p), bounds.max.add(p));
+
+    this._parts = [];
+    if (!this._pxBounds || !this._pxBounds.intersects(bounds)) {
+      return;
+    }
+
+    if (this.options.noClip) {
+      this._parts = this._rings;
+      return;
+    }
+
+    for (let i = 0, len = this._rings.length; i < len; i++) {
+      const clipped = PolyUtil.clipPolygon(this._rings[i], bounds, true);
+      if (clipped.length) {
+        this._parts.push(clipped);
+      }
+    }
+  }
+
+  public _updatePath(): void {
+    this._renderer._updatePoly(this, true);
+  }
+
+  // Needed by the `Canvas` renderer for interactivity
+  public _containsPoint(p: Point): boolean {
+    let inside = false;
+
+    if (!this._pxBounds || !this._pxBounds.contains(p)) {
+      return false;
+    }
+
+    // ray casting algorithm for detecting if point is in polygon
+    for (let i = 0, len = this._parts.length; i < len; i++) {
+      const part = this._parts[i];
+
+      for (let j = 0, len2 = part.length, k = len2 - 1; j < len2; k = j++) {
+        const p1 = part[j];
+        const p2 = part[k];
+
+        if (
+          p1.y > p.y !== p2.y > p.y &&
+          p.x < ((p2.x - p1.x) * (p.y - p1.y)) / (p2.y - p1.y) + p1.x
+        ) {
+          inside = !inside;
+        }
+      }
+    }
+
+    // also check if it's on polygon stroke
+    return inside || super._containsPoint(p, true);
+  }
+}
+
+// @factory L.polygon(latlngs: LatLng[], options?: Polyline options)
+export function polygon(
+  latlngs: LatLngsLike,
+  options?: Partial<PolylineOptions>,
+): Polygon {
+  return new Polygon(latlngs, options);
+}
@@ -0,0 +1,378 @@
+import { setOptions } from '@/core/Util';
+import { LatLng, LatLngLike, toLatLng } from '@/geo/LatLng';
+import { LatLngBounds } from '@/geo/LatLngBounds';
+import { Bounds } from '@/geometry/Bounds';
+import * as LineUtil from '@/geometry/LineUtil';
+import { Point } from '@/geometry/Point';
+import { Map } from '@/map/Map';
+import { Path, PathOptions } from './Path';
+
+/*
+ * @class Polyline
+ * @aka L.Polyline
+ * @inherits Path
+ *
+ * A class for drawing polyline overlays on a map. Extends `Path`.
+ *
+ * @example
+ *
+ * ```js
+ * // create a red polyline from an array of LatLng points
+ * var latlngs = [
+ * 	[45.51, -122.68],
+ * 	[37.77, -122.43],
+ * 	[34.04, -118.2]
+ * ];
+ *
+ * var polyline = L.polyline(latlngs, {color: 'red'}).addTo(map);
+ *
+ * // zoom the map to the polyline
+ * map.fitBounds(polyline.getBounds());
+ * ```
+ *
+ * You can also pass a multi-dimensional array to represent a `MultiPolyline` shape:
+ *
+ * ```js
+ * // create a red polyline from an array of arrays of LatLng points
+ * var latlngs = [
+ * 	[[45.51, -122.68],
+ * 	 [37.77, -122.43],
+ * 	 [34.04, -118.2]],
+ * 	[[40.78, -73.91],
+ * 	 [41.83, -87.62],
+ * 	 [32.76, -96.72]]
+ * ];
+ * ```
+ */
+
+// (possibly nested) arrays of coordinates, as accepted by polylines and polygons
+export type LatLngsLike = LatLngLike[] | LatLngsLike[];
+
+// (possibly nested) arrays of `LatLng`s, as stored by polylines and polygons
+export type LatLngs = LatLng[] | LatLngs[];
+
+export interface PolylineOptions extends PathOptions {
+  smoothFactor: number;
+  noClip: boolean;
+}
+
+export class Polyline extends Path {
+  // @section
+  // @aka Polyline options
+  public options: PolylineOptions = {
+    ...this.options,
+
+    // @option smoothFactor: Number = 1.0
+    // How much to simplify the polyline on each zoom level. More means
+    // better performance and smoother look, and less means more accurate representation.
+    smoothFactor: 1.0,
+
+    // @option noClip: Boolean = false
+    // Disable polyline clipping.
+    noClip: false,
+  };
+
+  public _latlngs!: LatLngs;
+  public _bounds!: LatLngBounds;
+  public _rings: Point[][] = [];
+  public _parts: Point[][] = [];
+  protected _rawPxBounds?: Bounds;
+
+  constructor(latlngs: LatLngsLike, options?: Partial<PolylineOptions>) {
+    super();
+    setOptions(this, options);
+    this._setLatLngs(latlngs);
+  }
+
+  // @method getLatLngs(): LatLng[]
+  // Returns an array of the points in the path, or nested arrays of points in case of multi-polyline.
+  public getLatLngs(): LatLngs {
+    return this._latlngs;
+  }
+
+  // @method setLatLngs(latlngs: LatLng[]): this
+  // Replaces all the points in the polyline with the given array of geographical points.
+  public setLatLngs(latlngs: LatLngsLike): this {
+    this._setLatLngs(latlngs);
+    return this.redraw();
+  }
+
+  // @method isEmpty(): Boolean
+  // Returns `true` if the Polyline has no LatLngs.
+  public isEmpty(): boolean {
+    return !this._latlngs.length;
+  }
+
+  // @method closestLayerPoint(p: Point): Point
+  // Returns the point closest to `p` on the Polyline.
+  public closestLayerPoint(p: Point): (Point & { distance: number }) | null {
+    let minDistance = Infinity;
+    let minPoint: (Point & { distance?: number }) | null = null;
+    const closest = LineUtil.sqClosestPointOnSegment;
+
+    for (let j = 0, jLen = this._parts.length; j < jLen; j++) {
+      const points = this._parts[j];
+
+      for (let i = 1, len = points.length; i < len; i++) {
+        const p1 = points[i - 1];
+        const p2 = points[i];
+
+        const sqDist = closest(p, p1, p2, true);
+
+        if (sqDist < minDistance) {
+          minDistance = sqDist;
+          minPoint = closest(p, p1, p2);
+        }
+      }
+    }
+    if (minPoint) {
+      minPoint.distance = Math.sqrt(minDistance);
+    }
+    return minPoint as (Point & { distance: number }) | null;
+  }
+
+  // @method getCenter(): LatLng
+  // Returns the center ([centroid](http://en.wikipedia.org/wiki/Centroid)) of the polyline.
+  public getCenter(): LatLng | null {
+    // throws error when not yet added to map as this center calculation requires projected coordinates
+    if (!this._map) {
+      throw new Error('Must add layer to map before using getCenter()');
+    }
+
+    const points = this._rings[0];
+    const len = points.length;
+
+    if (!len) {
+      return null;
+    }
+
+    // polyline centroid algorithm; only uses the first ring if
+    // there are multiple
+
+    let halfDist = 0;
+    for (let i = 0; i < len - 1; i++) {
+      halfDist += points[i].distanceTo(points[i + 1]) / 2;
+    }
+
+    // The line is so small in the current view that all points are on the same pixel.
+    if (halfDist === 0) {
+      return this._map.layerPointToLatLng(points[0]);
+    }
+
+    for (let i = 0, dist = 0; i < len - 1; i++) {
+      const p1 = points[i];
+      const p2 = points[i + 1];
+      const segDist = p1.distanceTo(p2);
+      dist += segDist;
+
+      if (dist > halfDist) {
+        const ratio = (dist - halfDist) / segDist;
+        return this._map.layerPointToLatLng(
+          new Point(p2.x - ratio * (p2.x - p1.x), p2.y - ratio * (p2.y - p1.y)),
+        );
+      }
+    }
+    return null;
+  }
+
+  // @method getBounds(): LatLngBounds
+  // Returns the `LatLngBounds` of the path.
+  public getBounds(): LatLngBounds {
+    return this._bounds;
+  }
+
+  // @method addLatLng(latlng: LatLng, latlngs?: LatLng[]): this
+  // Adds a given point to the polyline. By default, adds to the first ring of
+  // the polyline in case of a multi-polyline, but can be overridden by passing
+  // a specific ring as a LatLng array (that you can earlier access with [`getLatLngs`](#polyline-getlatlngs)).
+  public addLatLng(latlng: LatLngLike, latlngs?: LatLng[]): this {
+    latlngs = latlngs || this._defaultShape();
+    const converted = toLatLng(latlng) as LatLng;
+    latlngs.push(converted);
+    this._bounds.extend(converted);
+    return this.redraw();
+  }
+
+  protected _setLatLngs(latlngs: LatLngsLike): void {
+    this._bounds = new LatLngBounds([]);
+    this._latlngs = this._convertLatLngs(latlngs);
+  }
+
+  protected _defaultShape(): LatLng[] {
+    return (LineUtil.isFlat(this._latlngs)
+      ? this._latlngs
+      : this._latlngs[0]) as LatLng[];
+  }
+
+  // recursively convert latlngs input into actual LatLng instances; calculate bounds along the way
+  protected _convertLatLngs(latlngs: LatLngsLike): LatLngs {
+    const result: LatLngs = [];
+    const flat = LineUtil.isFlat(latlngs);
+
+    for (let i = 0, len = latlngs.length; i < len; i++) {
+      if (flat) {
+        const latlng = toLatLng(latlngs[i] as LatLngLike) as LatLng;
+        (result as LatLng[])[i] = latlng;
+        this._bounds.extend(latlng);
+      } else {
+        (result as LatLngs[])[i] = this._convertLatLngs(
+          latlngs[i] as LatLngsLike,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  public _project(): void {
+    const pxBounds = new Bounds([]);
+    this._rings = [];
+    this._projectLatlngs(this._latlngs, this._rings, pxBounds);
+
+    if (this._bounds.isValid() && pxBounds.isValid()) {
+      this._rawPxBounds = pxBounds;
+      this._updateBounds();
+    }
+  }
+
+  public _updateBounds(): void {
+    if (!this._rawPxBounds) {
+      return;
+    }
+    const w = this._clickTolerance();
+    const p = new Point(w, w);
+    this._pxBounds = new Bounds([
+      this._rawPxBounds.min.subtract(p),
+      this._rawPxBounds.max.add(p),
+    ]);
+  }
+
+  // recursively turns latlngs into a set of rings with projected coordinates
+  protected _projectLatlngs(
+    latlngs: LatLngs,
+    result: Point[][],
+    projectedBounds: Bounds,
+  ): void {
+    const map = this._map as Map;
+    const flat = latlngs[0] instanceof LatLng;
+    const len = latlngs.length;
+
+    if (flat) {
+      const ring = [];
+      for (let i = 0; i < len; i++) {
+        ring[i] = map.latLngToLayerPoint(latlngs[i] as LatLng);
+        projectedBounds.extend(ring[i]);
+      }
+      result.push(ring);
+    } else {
+      for (let i = 0; i < len; i++) {
+        this._projectLatlngs(latlngs[i] as LatLngs, result, projectedBounds);
+      }
+    }
+  }
+
+  // clip polyline by renderer bounds so that we have less to render for performance
+  protected _clipPoints(): void {
+    const bounds = this._renderer._bounds;
+
+    this._parts = [];
+    if (!this._pxBounds || !this._pxBounds.intersects(bounds)) {
+      return;
+    }
+
+    if (this.options.noClip) {
+      this._parts = this._rings;
+      return;
+    }
+
+    const parts = this._parts;
+
+    for (let i = 0, k = 0, len = this._rings.length; i < len; i++) {
+      const points = this._rings[i];
+
+      for (let j = 0, len2 = points.length; j < len2 - 1; j++) {
+        const segment = LineUtil.clipSegment(
+          points[j],
+          points[j + 1],
+          bounds,
+          j > 0,
+          true,
+        );
+
+        if (!segment) {
+          continue;
+        }
+
+        parts[k] = parts[k] || [];
+        parts[k].push(segment[0]);
+
+        // if segment goes out of screen, or it's the last one, it's the end of the line part
+        if (segment[1] !== points[j + 1] || j === len2 - 2) {
+          parts[k].push(segment[1]);
+          k++;
+        }
+      }
+    }
+  }
+
+  // simplify each clipped part of the polyline for performance
+  protected _simplifyPoints(): void {
+    const parts = this._parts;
+    const tolerance = this.options.smoothFactor;
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      parts[i] = LineUtil.simplify(parts[i], tolerance);
+    }
+  }
+
+  public _update(): void {
+    if (!this._map) {
+      return;
+    }
+
+    this._clipPoints();
+    this._simplifyPoints();
+    this._updatePath();
+  }
+
+  public _updatePath(): void {
+    this._renderer._updatePoly(this);
+  }
+
+  // Needed by the `Canvas` renderer for interactivity
+  public _containsPoint(p: Point, closed?: boolean): boolean {
+    const w = this._clickTolerance();
+
+    if (!this._pxBounds || !this._pxBounds.contains(p)) {
+      return false;
+    }
+
+    // hit detection for polylines
+    for (let i = 0, len = this._parts.length; i < len; i++) {
+      const part = this._parts[i];
+
+      for (let j = 0, len2 = part.length, k = len2 - 1; j < len2; k = j++) {
+        if (!closed && j === 0) {
+          continue;
+        }
+
+        if (LineUtil.pointToSegmentDistance(p, part[k], part[j]) <= w) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+}
+
+// @factory L.polyline(latlngs: LatLng[], options?: Polyline options)
+// Instantiates a polyline object given an array of geographical points and
+// optionally an options object. You can create a `Polyline` object with
+// multiple separate lines (`MultiPolyline`) by passing an array of arrays
+// of geographic points.
+export function polyline(
+  latlngs: LatLngsLike,
+  options?: Partial<PolylineOptions>,
+): Polyline {
+  return new Polyline(latlngs, options);
+}
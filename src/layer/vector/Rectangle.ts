@@ -0,0 +1,63 @@
+import { LatLng } from '@/geo/LatLng';
+import { LatLngBoundsLike, toLatLngBounds } from '@/geo/LatLngBounds';
+import { Polygon } from './Polygon';
+import { PolylineOptions } from './Polyline';
+
+/*
+ * L.Rectangle extends Polygon and creates a rectangle when passed a LatLngBounds object.
+ */
+
+/*
+ * @class Rectangle
+ * @aka L.Rectangle
+ * @inherits Polygon
+ *
+ * A class for drawing rectangle overlays on a map. Extends `Polygon`.
+ *
+ * @example
+ *
+ * ```js
+ * // define rectangle geographical bounds
+ * var bounds = [[54.559322, -5.767822], [56.1210604, -3.021240]];
+ *
+ * // create an orange rectangle
+ * L.rectangle(bounds, {color: "#ff7800", weight: 1}).addTo(map);
+ *
+ * // zoom the map to the rectangle bounds
+ * map.fitBounds(bounds);
+ * ```
+ *
+ */
+
+function boundsToLatLngs(latLngBounds: LatLngBoundsLike): LatLng[] {
+  const bounds = toLatLngBounds(latLngBounds);
+  return [
+    bounds.getSouthWest(),
+    bounds.getNorthWest(),
+    bounds.getNorthEast(),
+    bounds.getSouthEast(),
+  ];
+}
+
+export class Rectangle extends Polygon {
+  constructor(
+    latLngBounds: LatLngBoundsLike,
+    options?: Partial<PolylineOptions>,
+  ) {
+    super(boundsToLatLngs(latLngBounds), options);
+  }
+
+  // @method setBounds(latLngBounds: LatLngBounds): this
+  // Redraws the rectangle with the passed bounds.
+  public setBounds(latLngBounds: LatLngBoundsLike): this {
+    return this.setLatLngs(boundsToLatLngs(latLngBounds));
+  }
+}
+
+// @factory L.rectangle(latLngBounds: LatLngBounds, options?: Polyline options)
+export function rectangle(
+  latLngBounds: LatLngBoundsLike,
+  options?: Partial<PolylineOptions>,
+): Rectangle {
+  return new Rectangle(latLngBounds, options);
+}
@@ -0,0 +1,201 @@
+import * as Browser from '@/core/Browser';
+import { Listener } from '@/core/Events';
+import { setOptions, stamp } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng } from '@/geo/LatLng';
+import { Bounds } from '@/geometry/Bounds';
+import { Map, ZoomAnimEvent } from '@/map/Map';
+import { Layer, LayerOptions } from '../Layer';
+import { CircleMarker } from './CircleMarker';
+import { Path } from './Path';
+import { Polyline } from './Polyline';
+
+/*
+ * @class Renderer
+ * @inherits Layer
+ * @aka L.Renderer
+ *
+ * Base class for vector renderer implementations (`SVG`, `Canvas`). Handles the
+ * DOM container of the renderer, its bounds, and its zoom animation.
+ *
+ * A `Renderer` works as an implicit layer group for all `Path`s - the renderer
+ * itself can be added or removed to the map. All paths use a renderer, which can
+ * be implicit (the map will decide the type of renderer and use it automatically)
+ * or explicit (using the [`renderer`](#path-renderer) option of the path).
+ *
+ * Do not use this class directly, use `SVG` and `Canvas` instead.
+ *
+ * @event update: Event
+ * Fired when the renderer updates its bounds, center and zoom, for example when
+ * its map has moved
+ */
+
+export interface RendererOptions extends LayerOptions {
+  padding: number;
+  tolerance: number;
+}
+
+export abstract class Renderer extends Layer {
+  // @section
+  // @aka Renderer options
+  public options: RendererOptions = {
+    ...this.options,
+
+    // @option padding: Number = 0.1
+    // How much to extend the clip area around the map view (relative to its size)
+    // e.g. 0.1 would be 10% of map view in each direction
+    padding: 0.1,
+
+    // @option tolerance: Number = 0
+    // How much to extend click tolerance round a path/object on the map
+    tolerance: 0,
+  };
+
+  public _bounds!: Bounds;
+  protected _container?: HTMLElement | SVGElement;
+  protected _layers: Record<number, Path> = {};
+  protected _center!: LatLng;
+  protected _zoom!: number;
+
+  constructor(options?: Partial<RendererOptions>) {
+    super();
+    setOptions(this, options);
+    stamp(this);
+  }
+
+  public onAdd(): this {
+    const isNew = !this._container;
+    if (isNew) {
+      this._initContainer(); // defined by renderer implementations
+    }
+    const container = this._container as SVGElement;
+
+    if (isNew && this._zoomAnimated) {
+      DomUtil.addClass(container, 'leaflet-zoom-animated');
+    }
+
+    const pane = this.getPane();
+    if (pane) {
+      pane.appendChild(container);
+    }
+    this._update();
+    this.on('update', this._updatePaths, this);
+    return this;
+  }
+
+  public onRemove(): this {
+    this.off('update', this._updatePaths, this);
+    this._destroyContainer();
+    return this;
+  }
+
+  public getEvents(): Record<string, Listener> {
+    const events: Record<string, Listener> = {
+      viewreset: this._reset,
+      zoom: this._onZoom,
+      moveend: this._update,
+      zoomend: this._onZoomEnd,
+    };
+    if (this._zoomAnimated) {
+      events.zoomanim = this._onAnimZoom;
+    }
+    return events;
+  }
+
+  // @section Extension methods
+  // Renderer implementations shall implement the following methods.
+
+  // creates the DOM container of the renderer
+  protected abstract _initContainer(): void;
+
+  // removes the DOM container and releases its resources
+  protected abstract _destroyContainer(): void;
+
+  // prepares the rendering of `layer` (e.g. creates its SVG element)
+  public abstract _initPath(layer: Path): void;
+
+  public abstract _addPath(layer: Path): void;
+
+  public abstract _removePath(layer: Path): void;
+
+  // re-projects and redraws `layer`
+  public abstract _updatePath(layer: Path): void;
+
+  // applies the style options of `layer`
+  public abstract _updateStyle(layer: Path): void;
+
+  public abstract _bringToFront(layer: Path): void;
+
+  public abstract _bringToBack(layer: Path): void;
+
+  // draws the clipped parts of a polyline, or of a polygon if `closed` is set
+  public abstract _updatePoly(layer: Polyline, closed?: boolean): void;
+
+  public abstract _updateCircle(layer: CircleMarker): void;
+
+  protected _onAnimZoom(e: ZoomAnimEvent): void {
+    this._updateTransform(e.center, e.zoom);
+  }
+
+  protected _onZoom(): void {
+    const map = this._map as Map;
+    this._updateTransform(map.getCenter(), map.getZoom());
+  }
+
+  protected _updateTransform(center: LatLng, zoom: number): void {
+    const map = this._map as Map;
+    const container = this._container as HTMLElement | SVGElement;
+    const scale = map.getZoomScale(zoom, this._zoom);
+    const position = DomUtil.getPosition(container);
+    const viewHalf = map.getSize().multiplyBy(0.5 + this.options.padding);
+    const currentCenterPoint = map.project(this._center, zoom);
+    const destCenterPoint = map.project(center, zoom);
+    const centerOffset = destCenterPoint.subtract(currentCenterPoint);
+    const topLeftOffset = viewHalf
+      .multiplyBy(-scale)
+      .add(position)
+      .add(viewHalf)
+      .subtract(centerOffset);
+
+    if (Browser.any3d) {
+      DomUtil.setTransform(container, topLeftOffset, scale);
+    } else {
+      DomUtil.setPosition(container, topLeftOffset);
+    }
+  }
+
+  protected _reset(): void {
+    this._update();
+    this._updateTransform(this._center, this._zoom);
+
+    for (const id in this._layers) {
+      this._layers[id]._reset();
+    }
+  }
+
+  protected _onZoomEnd(): void {
+    for (const id in this._layers) {
+      this._layers[id]._project();
+    }
+  }
+
+  protected _updatePaths(): void {
+    for (const id in this._layers) {
+      this._layers[id]._update();
+    }
+  }
+
+  // Update pixel bounds of renderer container (for positioning/sizing/clipping later)
+  // Subclasses are responsible of firing the 'update' event.
+  protected _update(): void {
+    const map = this._map as Map;
+    const p = this.options.padding;
+    const size = map.getSize();
+    const min = map.containerPointToLayerPoint(size.multiplyBy(-p)).round();
+
+    this._bounds = new Bounds(min, min.add(size.multiplyBy(1 + p * 2)).round());
+
+    this._center = map.getCenter();
+    this._zoom = map.getZoom();
+  }
+}
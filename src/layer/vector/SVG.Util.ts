@@ -0,0 +1,43 @@
+import * as Browser from '@/core/Browser';
+import { Point } from '@/geometry/Point';
+
+// @namespace SVG; @section
+// There are several static functions which can be called without instantiating L.SVG:
+
+// @function create(name: String): SVGElement
+// Returns a instance of [SVGElement](https://developer.mozilla.org/docs/Web/API/SVGElement),
+// corresponding to the class name passed. For example, using 'line' will return
+// an instance of [SVGLineElement](https://developer.mozilla.org/docs/Web/API/SVGLineElement).
+export function svgCreate<K extends keyof SVGElementTagNameMap>(
+  name: K,
+): SVGElementTagNameMap[K] {
+  return document.createElementNS('http://www.w3.org/2000/svg', name);
+}
+
+// @function pointsToPath(rings: Point[], closed: Boolean): String
+// Generates a SVG path string for multiple rings, with each ring turning
+// into "M..L..L.." instructions
+export function pointsToPath(rings: Point[][], closed?: boolean): string {
+  let str = '';
+  let i;
+  let j;
+  let len;
+  let len2;
+  let points;
+  let p;
+
+  for (i = 0, len = rings.length; i < len; i++) {
+    points = rings[i];
+
+    for (j = 0, len2 = points.length; j < len2; j++) {
+      p = points[j];
+      str += (j ? 'L' : 'M') + p.x + ' ' + p.y;
+    }
+
+    // closes the ring for polygons; "x" is VML syntax
+    str += closed ? (Browser.svg ? 'z' : 'x') : '';
+  }
+
+  // SVG complains about empty path strings
+  return str || 'M0 0';
+}
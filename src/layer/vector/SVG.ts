@@ -0,0 +1,244 @@
+import * as Browser from '@/core/Browser';
+import { Listener } from '@/core/Events';
+import { stamp } from '@/core/Util';
+import * as DomUtil from '@/dom/DomUtil';
+import { Point } from '@/geometry/Point';
+import { Map } from '@/map/Map';
+import { CircleMarker } from './CircleMarker';
+import { Path } from './Path';
+import { Polyline } from './Polyline';
+import { Renderer, RendererOptions } from './Renderer';
+import { pointsToPath, svgCreate } from './SVG.Util';
+
+/*
+ * @class SVG
+ * @inherits Renderer
+ * @aka L.SVG
+ *
+ * Allows vector layers to be displayed with [SVG](https://developer.mozilla.org/docs/Web/SVG).
+ * Inherits `Renderer`.
+ *
+ * Due to [technical limitations](http://caniuse.com/#search=svg), SVG is not
+ * available in all web browsers, notably Android 2.x and 3.x.
+ *
+ * Although SVG is not available on IE7 and IE8, these browsers support
+ * [VML](https://en.wikipedia.org/wiki/Vector_Markup_Language)
+ * (a now deprecated technology), and the SVG renderer will fall back to VML in
+ * this case.
+ *
+ * @example
+ *
+ * Use SVG by default for all paths in the map:
+ *
+ * ```js
+ * var map = L.map('map', {
+ * 	renderer: L.svg()
+ * });
+ * ```
+ *
+ * Use a SVG renderer with extra padding for specific vector geometries:
+ *
+ * ```js
+ * var map = L.map('map');
+ * var myRenderer = L.svg({ padding: 0.5 });
+ * var line = L.polyline( coordinates, { renderer: myRenderer } );
+ * var circle = L.circle( center, { renderer: myRenderer } );
+ * ```
+ */
+
+export class SVG extends Renderer {
+  protected _container?: SVGSVGElement;
+  private _rootGroup?: SVGGElement;
+  private _svgSize?: Point;
+
+  public getEvents(): Record<string, Listener> {
+    const events = super.getEvents();
+    events.zoomstart = this._onZoomStart;
+    return events;
+  }
+
+  protected _initContainer(): void {
+    this._container = svgCreate('svg');
+
+    // makes it possible to click through svg root; we'll reset it back in individual paths
+    this._container.setAttribute('pointer-events', 'none');
+
+    this._rootGroup = svgCreate('g');
+    this._container.appendChild(this._rootGroup);
+  }
+
+  protected _destroyContainer(): void {
+    if (this._container) {
+      DomUtil.remove(this._container);
+    }
+    this._container = undefined;
+    this._rootGroup = undefined;
+    this._svgSize = undefined;
+  }
+
+  protected _onZoomStart(): void {
+    // Drag-then-pinch interactions might mess up the center and zoom.
+    // In this case, the easiest way to prevent this is re-do the renderer
+    //   bounds and padding when the zooming starts.
+    this._update();
+  }
+
+  protected _update(): void {
+    if ((this._map as Map)._animatingZoom && this._bounds) {
+      return;
+    }
+
+    super._update();
+
+    const b = this._bounds;
+    const size = b.getSize();
+    const container = this._container as SVGSVGElement;
+
+    // set size of svg-container if changed
+    if (!this._svgSize || !this._svgSize.equals(size)) {
+      this._svgSize = size;
+      container.setAttribute('width', String(size.x));
+      container.setAttribute('height', String(size.y));
+    }
+
+    // movement: update container viewBox so that we don't have to change coordinates of individual layers
+    DomUtil.setPosition(container, b.min);
+    container.setAttribute(
+      'viewBox',
+      [b.min.x, b.min.y, size.x, size.y].join(' '),
+    );
+
+    this.fire('update');
+  }
+
+  // methods below are called by vector layers implementations
+
+  public _initPath(layer: Path): void {
+    const path = (layer._path = svgCreate('path'));
+
+    // @namespace Path
+    // @option className: String = null
+    // Custom class name set on an element. Only for SVG renderer.
+    if (layer.options.className) {
+      DomUtil.addClass(path, layer.options.className);
+    }
+
+    if (layer.options.interactive) {
+      DomUtil.addClass(path, 'leaflet-interactive');
+    }
+
+    this._updateStyle(layer);
+    this._layers[stamp(layer)] = layer;
+  }
+
+  public _addPath(layer: Path): void {
+    if (!this._rootGroup) {
+      this._initContainer();
+    }
+    (this._rootGroup as SVGGElement).appendChild(layer._path as SVGElement);
+    layer.addInteractiveTarget(layer._path as SVGElement);
+  }
+
+  public _removePath(layer: Path): void {
+    if (layer._path) {
+      DomUtil.remove(layer._path);
+      layer.removeInteractiveTarget(layer._path);
+    }
+    delete this._layers[stamp(layer)];
+  }
+
+  public _updatePath(layer: Path): void {
+    layer._project();
+    layer._update();
+  }
+
+  public _updateStyle(layer: Path): void {
+    const path = layer._path;
+    const options = layer.options;
+
+    if (!path) {
+      return;
+    }
+
+    if (options.stroke) {
+      path.setAttribute('stroke', options.color);
+      path.setAttribute('stroke-opacity', String(options.opacity));
+      path.setAttribute('stroke-width', String(options.weight));
+      path.setAttribute('stroke-linecap', options.lineCap);
+      path.setAttribute('stroke-linejoin', options.lineJoin);
+
+      if (options.dashArray) {
+        path.setAttribute('stroke-dasharray', String(options.dashArray));
+      } else {
+        path.removeAttribute('stroke-dasharray');
+      }
+
+      if (options.dashOffset) {
+        path.setAttribute('stroke-dashoffset', options.dashOffset);
+      } else {
+        path.removeAttribute('stroke-dashoffset');
+      }
+    } else {
+      path.setAttribute('stroke', 'none');
+    }
+
+    if (options.fill) {
+      path.setAttribute('fill', options.fillColor || options.color);
+      path.setAttribute('fill-opacity', String(options.fillOpacity));
+      path.setAttribute('fill-rule', options.fillRule || 'evenodd');
+    } else {
+      path.setAttribute('fill', 'none');
+    }
+  }
+
+  public _updatePoly(layer: Polyline, closed?: boolean): void {
+    this._setPath(layer, pointsToPath(layer._parts, closed));
+  }
+
+  public _updateCircle(layer: CircleMarker): void {
+    const p = layer._point;
+    const r = Math.max(Math.round(layer._radius), 1);
+    const r2 = Math.max(Math.round(layer._radiusY || 0), 1) || r;
+    const arc = 'a' + r + ',' + r2 + ' 0 1,0 ';
+
+    // drawing a circle with two half-arcs
+    const d = layer._empty()
+      ? 'M0 0'
+      : 'M' +
+        (p.x - r) +
+        ',' +
+        p.y +
+        arc +
+        r * 2 +
+        ',0 ' +
+        arc +
+        -r * 2 +
+        ',0 ';
+
+    this._setPath(layer, d);
+  }
+
+  protected _setPath(layer: Path, path: string): void {
+    (layer._path as SVGElement).setAttribute('d', path);
+  }
+
+  // SVG does not have the concept of zIndex so we resort to changing the DOM order of elements
+  public _bringToFront(layer: Path): void {
+    if (layer._path) {
+      DomUtil.toFront(layer._path);
+    }
+  }
+
+  public _bringToBack(layer: Path): void {
+    if (layer._path) {
+      DomUtil.toBack(layer._path);
+    }
+  }
+}
+
+// @namespace SVG
+// @factory L.svg(options?: Renderer options)
+// Creates a SVG renderer with the given options.
+export function svg(options?: Partial<RendererOptions>): SVG | null {
+  return Browser.svg ? new SVG(options) : null;
+}
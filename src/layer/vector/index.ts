@@ -0,0 +1,9 @@
+export { Renderer } from './Renderer';
+export { SVG, svg } from './SVG';
+export { Canvas, canvas } from './Canvas';
+export { Path } from './Path';
+export { Polyline, polyline } from './Polyline';
+export { Polygon, polygon } from './Polygon';
+export { Rectangle, rectangle } from './Rectangle';
+export { CircleMarker, circleMarker } from './CircleMarker';
+export { Circle, circle } from './Circle';
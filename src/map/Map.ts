@@ -1,31 +1,175 @@
-import { Evented } from '@/core/Events';
-import { stamp } from '@/core/Util';
+import { Evented, LeafletEvent, Listener } from '@/core/Events';
+import {
+  cancelAnimFrame,
+  extend,
+  isArray,
+  requestAnimFrame,
+  stamp,
+} from '@/core/Util';
 import * as Browser from '@/core/Browser';
+import * as DomEvent from '@/dom/DomEvent';
 import * as DomUtil from '@/dom/DomUtil';
+import { PosAnimation } from '@/dom/PosAnimation';
 import { CRS, EPSG3857 } from '@/geo/crs';
-import { LatLng } from '@/geo/LatLng';
-import { LatLngBounds } from '@/geo/LatLngBounds';
-import { Point } from '@/geometry/Point';
+import { LatLng, LatLngLike, toLatLng } from '@/geo/LatLng';
+import {
+  LatLngBounds,
+  LatLngBoundsLike,
+  toLatLngBounds,
+} from '@/geo/LatLngBounds';
+import { Bounds, toBounds } from '@/geometry/Bounds';
+import { Point, PointLike, toPoint } from '@/geometry/Point';
+import { Handler, HandlerClass } from '@/core/Handler';
+import { Control } from '@/control/Control';
+import { ControlAttribution } from '@/control/Control.Attribution';
+import { ControlZoom } from '@/control/Control.Zoom';
+import { DivOverlayContent, OverlaySource } from '@/layer/DivOverlay';
+import { Layer } from '@/layer/Layer';
+import { Popup, PopupOptions } from '@/layer/Popup';
+import { Tooltip, TooltipOptions } from '@/layer/Tooltip';
+import { Path } from '@/layer/vector/Path';
+import { canvas } from '@/layer/vector/Canvas';
+import { Renderer, RendererOptions } from '@/layer/vector/Renderer';
+import { svg } from '@/layer/vector/SVG';
+import { BoxZoom } from './handler/Map.BoxZoom';
+import { DoubleClickZoom } from './handler/Map.DoubleClickZoom';
+import { DragPan } from './handler/Map.DragPan';
+import { Keyboard } from './handler/Map.Keyboard';
+import { ScrollWheelZoom } from './handler/Map.ScrollWheelZoom';
+import { Tap } from './handler/Map.Tap';
+import { TouchZoom } from './handler/Map.TouchZoom';
 
-interface MapOptions {
-  crs?: CRS;
-  center?: LatLng;
+export interface MapOptions {
+  crs: CRS;
+  center?: LatLngLike;
   zoom?: number;
   minZoom?: number;
   maxZoom?: number;
-  layers?: any[];
+  layers: Layer[];
   maxBounds?: LatLngBounds;
-  renderer?: any;
-  zoomAnimation?: boolean;
-  zoomAnimationThreshold?: number;
-  fadeAnimation?: boolean;
-  markerZoomAnimation?: boolean;
-  transform3DLimit?: number;
-  zoomSnap?: number;
-  zoomDelta?: number;
-  trackResize?: boolean;
+  renderer?: Renderer;
+  zoomAnimation: boolean;
+  zoomAnimationThreshold: number;
+  fadeAnimation: boolean;
+  markerZoomAnimation: boolean;
+  transform3DLimit: number;
+  zoomSnap: number;
+  zoomDelta: number;
+  trackResize: boolean;
+  preferCanvas: boolean;
+  closePopupOnClick: boolean;
+  zoomControl: boolean;
+  attributionControl: boolean;
+  boxZoom: boolean;
+  doubleClickZoom: boolean | 'center';
+  dragging: boolean;
+  inertia: boolean;
+  inertiaDeceleration: number;
+  inertiaMaxSpeed: number;
+  easeLinearity: number;
+  worldCopyJump: boolean;
+  maxBoundsViscosity: number;
+  keyboard: boolean;
+  keyboardPanDelta: number;
+  scrollWheelZoom: boolean | 'center';
+  wheelDebounceTime: number;
+  wheelPxPerZoomLevel: number;
+  tap: boolean;
+  tapTolerance: number;
+  touchZoom: boolean | 'center';
+  bounceAtZoomLimits: boolean;
 }
 
+export interface ZoomOptions {
+  // If not specified, zoom animation will happen if the zoom origin is inside the
+  // current view. If `true`, the map will attempt animating zoom disregarding where
+  // zoom origin is. Setting `false` will make it always reset the view completely
+  // without animation.
+  animate?: boolean;
+}
+
+export interface PanOptions {
+  // If `true`, panning will always be animated if possible. If `false`, it will
+  // not animate panning, either resetting the map view if panning more than a
+  // screen away, or just setting a new offset for the map pane (except for `panBy`
+  // which always does the latter).
+  animate?: boolean;
+  // Duration of animated panning, in seconds.
+  duration?: number;
+  // The curvature factor of panning animation easing (third parameter of the
+  // [Cubic Bezier curve](http://cubic-bezier.com/)). 1.0 means linear animation,
+  // and the smaller this number, the more bowed the curve.
+  easeLinearity?: number;
+  // If `true`, panning won't fire `movestart` event on start (used internally for
+  // panning inertia).
+  noMoveStart?: boolean;
+}
+
+export interface ZoomPanOptions extends ZoomOptions, PanOptions {
+  // If `true`, the map view will be completely reset (without any animations).
+  reset?: boolean;
+  // Sets the options for the panning (without the zoom change) if it occurs.
+  pan?: PanOptions;
+  // Sets the options for the zoom change if it occurs.
+  zoom?: ZoomOptions;
+}
+
+export interface FitBoundsOptions extends ZoomPanOptions {
+  // Sets the amount of padding in the top left corner of a map container that
+  // shouldn't be accounted for when setting the view to fit bounds. Useful if you
+  // have some control overlays on the map like a sidebar and you don't want them
+  // to obscure objects you're zooming to.
+  paddingTopLeft?: PointLike;
+  // The same for the bottom right corner of the map.
+  paddingBottomRight?: PointLike;
+  // Equivalent of setting both top left and bottom right padding to the same value.
+  padding?: PointLike;
+  // The maximum possible zoom to use.
+  maxZoom?: number;
+}
+
+export interface InvalidateSizeOptions {
+  // If `true`, the map center is kept fixed with an animated pan.
+  animate?: boolean;
+  // If `false`, the top left corner of the map stays fixed instead of its center.
+  pan?: boolean;
+  // If `true`, the `moveend` event is fired only once no further resize happened
+  // for 200ms (used when tracking the container size).
+  debounceMoveend?: boolean;
+}
+
+// minimal typing of the `ResizeObserver` API, missing from the DOM typings we build with
+interface ContainerObserver {
+  observe(target: Element): void;
+  disconnect(): void;
+}
+
+type ContainerObserverClass = new (callback: () => void) => ContainerObserver;
+
+// layers that take part in the map's zoom range have `minZoom`/`maxZoom` options
+interface ZoomBoundOptions {
+  options: { minZoom?: number; maxZoom?: number };
+}
+
+// @miniclass ZoomAnimEvent (Event objects)
+// @property center: LatLng
+// The current center of the map
+// @property zoom: Number
+// The current zoom level of the map
+// @property origin: Point
+// The layer point that stays fixed on screen during the zoom
+// @property noUpdate: Boolean
+// Whether layers should update their contents due to this event
+export type ZoomAnimEvent = LeafletEvent & {
+  center: LatLng;
+  zoom: number;
+  origin: Point;
+  noUpdate?: boolean;
+};
+
+// the map container, stamped with the id of the map using it
+type MapContainer = HTMLElement & { _leaflet_id?: number };
+
 interface Panes {
   [name: string]: HTMLElement;
 }
@@ -34,6 +178,35 @@ interface ControlCorners {
   [name: string]: HTMLElement;
 }
 
+// events that don't bubble to the map from layers with `bubblingMouseEvents: false`
+const mouseEvents = [
+  'click',
+  'dblclick',
+  'mouseover',
+  'mouseout',
+  'contextmenu',
+];
+
+// whether the event is a click (or preclick) that wasn't simulated
+function isRealClick(e: Event, type: string): boolean {
+  return (
+    (type === 'click' || type === 'preclick') &&
+    !(e as Event & { _simulated?: boolean })._simulated
+  );
+}
+
+// whether the event doesn't go on from the target to the next ones (and the
+// map): when a listener stopped it, or for the mouse events of layers with
+// `bubblingMouseEvents: false`
+function stopsAt(target: Layer | Map, e: Event, type: string): boolean {
+  const options = target.options as { bubblingMouseEvents?: boolean };
+
+  return (
+    !!((e as unknown) as { _stopped?: boolean })._stopped ||
+    (options.bubblingMouseEvents === false && mouseEvents.indexOf(type) !== -1)
+  );
+}
+
 export class Map extends Evented {
   public options: MapOptions = {
     // @section Map State Options
@@ -122,189 +295,2210 @@ export class Map extends Evented {
     zoomDelta: 1,
 
     // @option trackResize: Boolean = true
-    // Whether the map automatically handles browser window resize to update itself.
+    // Whether the map automatically handles resizes of its container (or of the
+    // browser window where `ResizeObserver` is not available) to update itself.
     trackResize: true,
+
+    // @option preferCanvas: Boolean = false
+    // Whether `Path`s should be rendered on a `Canvas` renderer.
+    // By default, all `Path`s are rendered in a `SVG` renderer.
+    preferCanvas: false,
+
+    // @option closePopupOnClick: Boolean = true
+    // Set it to `false` if you don't want popups to close when user clicks the map.
+    closePopupOnClick: true,
+
+    // @section Control options
+    // @option zoomControl: Boolean = true
+    // Whether a [zoom control](#control-zoom) is added to the map by default.
+    zoomControl: true,
+
+    // @option attributionControl: Boolean = true
+    // Whether a [attribution control](#control-attribution) is added to the map by default.
+    attributionControl: true,
+
+    // @section Interaction Options
+    // @option boxZoom: Boolean = true
+    // Whether the map can be zoomed to a rectangular area specified by
+    // dragging the mouse while pressing the shift key.
+    boxZoom: true,
+
+    // @option doubleClickZoom: Boolean|String = true
+    // Whether the map can be zoomed in by double clicking on it and
+    // zoomed out by double clicking while holding shift. If passed
+    // `'center'`, double-click zoom will zoom to the center of the
+    //  view regardless of where the mouse was.
+    doubleClickZoom: true,
+
+    // @option dragging: Boolean = true
+    // Whether the map be draggable with mouse/touch or not.
+    dragging: true,
+
+    // @section Panning Inertia Options
+    // @option inertia: Boolean = *
+    // If enabled, panning of the map will have an inertia effect where
+    // the map builds momentum while dragging and continues moving in
+    // the same direction for some time. Feels especially nice on touch
+    // devices. Enabled by default unless running on old Android devices.
+    inertia: !Browser.android23,
+
+    // @option inertiaDeceleration: Number = 3400
+    // The rate with which the inertial movement slows down, in pixels/second².
+    inertiaDeceleration: 3400, // px/s^2
+
+    // @option inertiaMaxSpeed: Number = Infinity
+    // Max speed of the inertial movement, in pixels/second.
+    inertiaMaxSpeed: Infinity, // px/s
+
+    // @option easeLinearity: Number = 0.2
+    easeLinearity: 0.2,
+
+    // @option worldCopyJump: Boolean = false
+    // With this option enabled, the map tracks when you pan to another "copy"
+    // of the world and seamlessly jumps to the original one so that all overlays
+    // like markers and vector layers are still visible.
+    worldCopyJump: false,
+
+    // @option maxBoundsViscosity: Number = 0.0
+    // If `maxBounds` is set, this option will control how solid the bounds
+    // are when dragging the map around. The default value of `0.0` allows the
+    // user to drag outside the bounds at normal speed, higher values will
+    // slow down map dragging outside bounds, and `1.0` makes the bounds fully
+    // solid, preventing the user from dragging outside the bounds.
+    maxBoundsViscosity: 0.0,
+
+    // @section Keyboard Navigation Options
+    // @option keyboard: Boolean = true
+    // Makes the map focusable and allows users to navigate the map with keyboard
+    // arrows and `+`/`-` keys.
+    keyboard: true,
+
+    // @option keyboardPanDelta: Number = 80
+    // Amount of pixels to pan when pressing an arrow key.
+    keyboardPanDelta: 80,
+
+    // @section Mouse wheel options
+    // @option scrollWheelZoom: Boolean|String = true
+    // Whether the map can be zoomed by using the mouse wheel. If passed `'center'`,
+    // it will zoom to the center of the view regardless of where the mouse was.
+    scrollWheelZoom: true,
+
+    // @option wheelDebounceTime: Number = 40
+    // Limits the rate at which a wheel can fire (in milliseconds). By default
+    // user can't zoom via wheel more often than once per 40 ms.
+    wheelDebounceTime: 40,
+
+    // @option wheelPxPerZoomLevel: Number = 60
+    // How many scroll pixels (as reported by [L.DomEvent.getWheelDelta](#domevent-getwheeldelta))
+    // mean a change of one full zoom level. Smaller values will make wheel-zooming
+    // faster (and vice versa).
+    wheelPxPerZoomLevel: 60,
+
+    // @section Touch interaction options
+    // @option tap: Boolean = true
+    // Enables mobile hacks for supporting instant taps (fixing 200ms click
+    // delay on iOS/Android) and touch holds (fired as `contextmenu` events).
+    tap: true,
+
+    // @option tapTolerance: Number = 15
+    // The max number of pixels a user can shift his finger during touch
+    // for it to be considered a valid tap.
+    tapTolerance: 15,
+
+    // @option touchZoom: Boolean|String = *
+    // Whether the map can be zoomed by touch-dragging with two fingers. If
+    // passed `'center'`, it will zoom to the center of the view regardless of
+    // where the touch events (fingers) were. Enabled for touch-capable web
+    // browsers except for old Androids.
+    touchZoom: Browser.touch && !Browser.android23,
+
+    // @option bounceAtZoomLimits: Boolean = true
+    // Set it to false if you don't want the map to zoom beyond min/max zoom
+    // and then bounce back when pinch-zooming.
+    bounceAtZoomLimits: true,
   };
+
+  // @section Controls
+  // @property zoomControl: Control.Zoom
+  // The default zoom control (only available if the
+  // [`zoomControl` option](#map-zoomcontrol) was `true` when creating the map).
+  public zoomControl?: ControlZoom;
+
+  // @property attributionControl: Control.Attribution
+  // The default attribution control (only available if the
+  // [`attributionControl` option](#map-attributioncontrol) was `true` when creating the map).
+  public attributionControl?: ControlAttribution;
+
+  // @section Handlers
+  // @property boxZoom: Handler
+  // Box (shift-drag with mouse) zoom handler.
+  public boxZoom!: BoxZoom;
+
+  // @property doubleClickZoom: Handler
+  // Double click zoom handler.
+  public doubleClickZoom!: DoubleClickZoom;
+
+  // @property dragging: Handler
+  // Map dragging handler (by both mouse and touch).
+  public dragging!: DragPan;
+
+  // @property keyboard: Handler
+  // Keyboard navigation handler.
+  public keyboard!: Keyboard;
+
+  // @property scrollWheelZoom: Handler
+  // Scroll wheel zoom handler.
+  public scrollWheelZoom!: ScrollWheelZoom;
+
+  // @property tap: Handler
+  // Mobile touch hacks (quick tap and touch hold) handler.
+  public tap?: Tap;
+
+  // @property touchZoom: Handler
+  // Touch zoom handler.
+  public touchZoom!: TouchZoom;
+
   private _zoom!: number;
-  private _zoomAnimated!: boolean;
-  private _containerId!: number;
-  private _container!: HTMLElement;
-  private _fadeAnimated!: boolean;
-  private _mapPane!: HTMLElement;
+  public _zoomAnimated!: boolean;
+  private _containerId?: number;
+  public _container!: HTMLElement;
+  public _fadeAnimated!: boolean;
+  public _mapPane!: HTMLElement;
   private _panes!: Panes;
-  private _controlContainer!: HTMLElement;
-  private _controlCorners!: ControlCorners;
+  private _controlContainer?: HTMLElement;
+  public _controlCorners: ControlCorners = {};
+  // controls added to the map, keyed by stamp
+  public _controls: Record<number, Control> = {};
+  private _layers: Record<number, Layer> = {};
+  private _handlers: Handler[] = [];
+  // layers owning interactive DOM elements, keyed by element stamp
+  public _targets: Record<number, Layer> = {};
+  public _popup?: Popup;
+  private _renderer?: Renderer;
+  private _paneRenderers: Record<string, Renderer> = {};
+  private _zoomBoundLayers: Record<number, Layer & ZoomBoundOptions> = {};
   private _layersMinZoom?: number;
   private _layersMaxZoom?: number;
-  constructor(id: string | HTMLElement, options?: MapOptions) {
+  private _loaded = false;
+  private _lastCenter: LatLng | null = null;
+  private _pixelOrigin!: Point;
+  private _size?: Point;
+  private _sizeChanged = true;
+  public _panAnim?: PosAnimation;
+  private _flyToFrame?: number;
+  private _zoomAnimFrame?: number;
+  private _zoomAnimTimer?: number;
+  private _moveEndFrame?: number;
+  private _proxy?: HTMLElement;
+  public _animatingZoom = false;
+  private _animateToCenter!: LatLng;
+  private _animateToZoom!: number;
+  private _enforcingBounds = false;
+  private _sizeTimer?: number;
+  private _resizeRequest?: number;
+  private _resizeObserver?: ContainerObserver;
+  constructor(id: string | HTMLElement, options?: Partial<MapOptions>) {
     super();
     options = this.options = { ...this.options, ...options };
     this._initContainer(id);
     this._initLayout();
+    this._initEvents();
+
+    if (options.maxBounds) {
+      this.setMaxBounds(options.maxBounds);
+    }
 
     if (options.zoom !== undefined) {
       this._zoom = this._limitZoom(options.zoom);
     }
 
+    if (options.center && options.zoom !== undefined) {
+      this.setView(options.center, options.zoom, { reset: true });
+    }
+
     this._zoomAnimated = !!(
       DomUtil.TRANSITION &&
       Browser.any3d &&
       !Browser.mobileOpera &&
       this.options.zoomAnimation
     );
+
+    // zoom transitions run with the same duration for all layers, so if one of transitionend events
+    // happens after starting zoom animation (propagating to the map pane), we know that it ended globally
+    if (this._zoomAnimated) {
+      this._createAnimProxy();
+      DomEvent.on(
+        this._proxy as HTMLElement,
+        DomUtil.TRANSITION_END,
+        this._catchTransitionEnd,
+        this,
+      );
+    }
+
+    this._initHandlers();
+    this._initControls();
+    this._addLayers(this.options.layers);
+  }
+
+  // @section Methods for modifying map state
+
+  // @method setView(center: LatLng, zoom: Number, options?: Zoom/pan options): this
+  // Sets the view of the map (geographical center and zoom) with the given
+  // animation options.
+  public setView(
+    center: LatLngLike,
+    zoom?: number,
+    options: ZoomPanOptions = {},
+  ): this {
+    zoom = zoom === undefined ? this._zoom : this._limitZoom(zoom);
+    const latlng = this._limitCenter(
+      toLatLng(center) as LatLng,
+      zoom,
+      this.options.maxBounds,
+    );
+
+    this._stop();
+
+    if (this._loaded && !options.reset) {
+      if (options.animate !== undefined) {
+        options.zoom = { animate: options.animate, ...options.zoom };
+        options.pan = {
+          animate: options.animate,
+          duration: options.duration,
+          ...options.pan,
+        };
+      }
+
+      // try animating pan or zoom
+      const moved =
+        this._zoom !== zoom
+          ? this._tryAnimatedZoom(latlng, zoom, options.zoom)
+          : this._tryAnimatedPan(latlng, options.pan);
+
+      if (moved) {
+        // prevent resize handler call, the view will refresh after animation anyway
+        clearTimeout(this._sizeTimer);
+        return this;
+      }
+    }
+
+    // animation didn't start, just reset the map view
+    this._resetView(latlng, zoom);
+    return this;
   }
 
-  // @method getMinZoom(): Number
-  // Returns the minimum zoom level of the map (if set in the `minZoom` option of the map or of any layers), or `0` by default.
-  public getMinZoom(): number {
-    return this.options.minZoom === undefined
-      ? this._layersMinZoom || 0
-      : this.options.minZoom;
+  // @method setZoom(zoom: Number, options?: Zoom/pan options): this
+  // Sets the zoom of the map.
+  public setZoom(zoom: number, options?: ZoomOptions): this {
+    if (!this._loaded) {
+      this._zoom = zoom;
+      return this;
+    }
+    return this.setView(this.getCenter(), zoom, { zoom: options });
   }
 
-  // @method getMaxZoom(): Number
-  // Returns the maximum zoom level of the map (if set in the `maxZoom` option of the map or of any layers).
-  public getMaxZoom(): number {
-    return this.options.maxZoom === undefined
-      ? this._layersMaxZoom === undefined
-        ? Infinity
-        : this._layersMaxZoom
-      : this.options.maxZoom;
+  // @method zoomIn(delta?: Number, options?: Zoom options): this
+  // Increases the zoom of the map by `delta` ([`zoomDelta`](#map-zoomdelta) by default).
+  public zoomIn(delta?: number, options?: ZoomOptions): this {
+    delta = delta || (Browser.any3d ? this.options.zoomDelta : 1);
+    return this.setZoom(this._zoom + delta, options);
   }
 
-  // @section Other Methods
-  // @method createPane(name: String, container?: HTMLElement): HTMLElement
-  // Creates a new [map pane](#map-pane) with the given name if it doesn't exist already,
-  // then returns it. The pane is created as a child of `container`, or
-  // as a child of the main map pane if not set.
-  public createPane(name: string, container?: HTMLElement): HTMLElement {
-    const className =
-      'leaflet-pane' +
-      (name ? ' leaflet-' + name.replace('Pane', '') + '-pane' : '');
-    const pane = DomUtil.create('div', className, container || this._mapPane);
+  // @method zoomOut(delta?: Number, options?: Zoom options): this
+  // Decreases the zoom of the map by `delta` ([`zoomDelta`](#map-zoomdelta) by default).
+  public zoomOut(delta?: number, options?: ZoomOptions): this {
+    delta = delta || (Browser.any3d ? this.options.zoomDelta : 1);
+    return this.setZoom(this._zoom - delta, options);
+  }
 
-    if (name) {
-      this._panes[name] = pane;
+  // @method setZoomAround(latlng: LatLng, zoom: Number, options: Zoom options): this
+  // Zooms the map while keeping a specified geographical point on the map
+  // stationary (e.g. used internally for scroll zoom and double-click zoom).
+  // @alternative
+  // @method setZoomAround(offset: Point, zoom: Number, options: Zoom options): this
+  // Zooms the map while keeping a specified pixel on the map (relative to the top-left corner) stationary.
+  public setZoomAround(
+    latlng: LatLngLike | Point,
+    zoom: number,
+    options?: ZoomOptions,
+  ): this {
+    const scale = this.getZoomScale(zoom);
+    const viewHalf = this.getSize().divideBy(2);
+    const containerPoint =
+      latlng instanceof Point ? latlng : this.latLngToContainerPoint(latlng);
+    const centerOffset = containerPoint
+      .subtract(viewHalf)
+      .multiplyBy(1 - 1 / scale);
+    const newCenter = this.containerPointToLatLng(viewHalf.add(centerOffset));
+
+    return this.setView(newCenter, zoom, { zoom: options });
+  }
+
+  // @method fitBounds(bounds: LatLngBounds, options?: fitBounds options): this
+  // Sets a map view that contains the given geographical bounds with the
+  // maximum zoom level possible.
+  public fitBounds(bounds: LatLngBoundsLike, options?: FitBoundsOptions): this {
+    const latLngBounds = toLatLngBounds(bounds);
+
+    if (!latLngBounds.isValid()) {
+      throw new Error('Bounds are not valid.');
     }
-    return pane;
+
+    const target = this._getBoundsCenterZoom(latLngBounds, options);
+    return this.setView(target.center, target.zoom, options);
   }
 
-  // map initialization methods
-  private _initContainer(id: string | HTMLElement): void {
-    const container = DomUtil.get(id);
-    if (!container) {
-      throw new Error('Map container not found.');
-    } else if ((container as any)._leaflet_id) {
-      throw new Error('Map container is already initialized.');
+  // @method fitWorld(options?: fitBounds options): this
+  // Sets a map view that mostly contains the whole world with the maximum
+  // zoom level possible.
+  public fitWorld(options?: FitBoundsOptions): this {
+    return this.fitBounds(
+      [
+        [-90, -180],
+        [90, 180],
+      ],
+      options,
+    );
+  }
+
+  // @method panTo(latlng: LatLng, options?: Pan options): this
+  // Pans the map to a given center.
+  public panTo(center: LatLngLike, options?: PanOptions): this {
+    return this.setView(center, this._zoom, { pan: options });
+  }
+
+  // @method panBy(offset: Point, options?: Pan options): this
+  // Pans the map by a given number of pixels (animated).
+  public panBy(offset: PointLike, options: PanOptions = {}): this {
+    const delta = toPoint(offset).round();
+
+    if (!delta.x && !delta.y) {
+      return this.fire('moveend');
+    }
+    // If we pan too far, Chrome gets issues with tiles
+    // and makes them disappear or appear in the wrong place (slightly offset) #2602
+    if (options.animate !== true && !this.getSize().contains(delta)) {
+      this._resetView(
+        this.unproject(this.project(this.getCenter()).add(delta)),
+        this.getZoom(),
+      );
+      return this;
     }
 
-    this._container = container;
-    this._containerId = stamp(container);
+    if (!this._panAnim) {
+      this._panAnim = new PosAnimation();
+
+      this._panAnim.on(
+        {
+          step: this._onPanTransitionStep,
+          end: this._onPanTransitionEnd,
+        },
+        this,
+      );
+    }
+
+    // don't fire movestart if animating inertia
+    this._moveStart(false, options.noMoveStart);
+
+    // animate pan unless animate: false specified
+    if (options.animate !== false) {
+      DomUtil.addClass(this._mapPane, 'leaflet-pan-anim');
+
+      const newPos = this._getMapPanePos().subtract(delta).round();
+      this._panAnim.run(
+        this._mapPane,
+        newPos,
+        options.duration || 0.25,
+        options.easeLinearity,
+      );
+    } else {
+      this._rawPanBy(delta);
+      this.fire('move').fire('moveend');
+    }
+
+    return this;
   }
 
-  private _initLayout() {
-    const container = this._container;
+  // @method invalidateSize(options: Zoom/pan options): this
+  // Checks if the map container size changed and updates the map if so —
+  // call it after you've changed the map size dynamically, also animating
+  // pan by default. If `options.pan` is `false`, panning will not occur.
+  // If `options.debounceMoveend` is `true`, it will delay `moveend` event so
+  // that it doesn't happen often even if the method is called many
+  // times in a row.
+  //
+  // @alternative
+  // @method invalidateSize(animate: Boolean): this
+  // Checks if the map container size changed and updates the map if so —
+  // call it after you've changed the map size dynamically, also animating
+  // pan by default.
+  public invalidateSize(options?: InvalidateSizeOptions | boolean): this {
+    if (!this._loaded) {
+      return this;
+    }
 
-    this._fadeAnimated = !!(this.options.fadeAnimation && Browser.any3d);
+    const sizeOptions: InvalidateSizeOptions = {
+      animate: false,
+      pan: true,
+      ...(options === true ? { animate: true } : options || {}),
+    };
 
-    DomUtil.addClass(
-      container,
-      'leaflet-container' +
-        (Browser.touch ? ' leaflet-touch' : '') +
-        (Browser.retina ? ' leaflet-retina' : '') +
-        (Browser.ielt9 ? ' leaflet-oldie' : '') +
-        (Browser.safari ? ' leaflet-safari' : '') +
-        (this._fadeAnimated ? ' leaflet-fade-anim' : ''),
-    );
+    const oldSize = this.getSize();
+    this._sizeChanged = true;
+    this._lastCenter = null;
 
-    const position = DomUtil.getStyle(container, 'position');
+    const newSize = this.getSize();
+    const oldCenter = oldSize.divideBy(2).round();
+    const newCenter = newSize.divideBy(2).round();
+    const offset = oldCenter.subtract(newCenter);
 
-    if (
-      position !== 'absolute' &&
-      position !== 'relative' &&
-      position !== 'fixed'
-    ) {
-      container.style.position = 'relative';
+    if (!offset.x && !offset.y) {
+      return this;
     }
 
-    this._initPanes();
+    if (sizeOptions.animate && sizeOptions.pan) {
+      this.panBy(offset);
+    } else {
+      if (sizeOptions.pan) {
+        this._rawPanBy(offset);
+      }
 
-    if (this._initControlPos) {
-      this._initControlPos();
+      this.fire('move');
+
+      if (sizeOptions.debounceMoveend) {
+        clearTimeout(this._sizeTimer);
+        this._sizeTimer = window.setTimeout(() => this.fire('moveend'), 200);
+      } else {
+        this.fire('moveend');
+      }
     }
+
+    // @section Map state change events
+    // @event resize: ResizeEvent
+    // Fired when the map is resized.
+    return this.fire('resize', { oldSize, newSize });
   }
 
-  private _initPanes(): void {
-    const panes: Panes = (this._panes = {});
+  // @method flyTo(latlng: LatLng, zoom?: Number, options?: Zoom/pan options): this
+  // Sets the view of the map (geographical center and zoom) performing a smooth
+  // pan-zoom animation.
+  public flyTo(
+    targetCenter: LatLngLike,
+    targetZoom?: number,
+    options: ZoomPanOptions = {},
+  ): this {
+    if (options.animate === false || !Browser.any3d) {
+      return this.setView(targetCenter, targetZoom, options);
+    }
 
-    // @section
-    //
-    // Panes are DOM elements used to control the ordering of layers on the map. You
-    // can access panes with [`map.getPane`](#map-getpane) or
-    // [`map.getPanes`](#map-getpanes) methods. New panes can be created with the
-    // [`map.createPane`](#map-createpane) method.
-    //
-    // Every map has the following default panes that differ only in zIndex.
-    //
-    // @pane mapPane: HTMLElement = 'auto'
-    // Pane that contains all other map panes
+    this._stop();
 
-    this._mapPane = this.createPane('mapPane', this._container);
-    DomUtil.setPosition(this._mapPane, new Point(0, 0));
+    const from = this.project(this.getCenter());
+    const to = this.project(targetCenter);
+    const size = this.getSize();
+    const startZoom = this._zoom;
+    const endCenter = toLatLng(targetCenter) as LatLng;
+    const endZoom = targetZoom === undefined ? startZoom : targetZoom;
 
-    // @pane tilePane: HTMLElement = 200
-    // Pane for `GridLayer`s and `TileLayer`s
-    this.createPane('tilePane');
-    // @pane overlayPane: HTMLElement = 400
-    // Pane for vectors (`Path`s, like `Polyline`s and `Polygon`s), `ImageOverlay`s and `VideoOverlay`s
-    this.createPane('overlayPane');
-    // @pane shadowPane: HTMLElement = 500
-    // Pane for overlay shadows (e.g. `Marker` shadows)
-    this.createPane('shadowPane');
-    // @pane markerPane: HTMLElement = 600
-    // Pane for `Icon`s of `Marker`s
-    this.createPane('markerPane');
-    // @pane tooltipPane: HTMLElement = 650
-    // Pane for `Tooltip`s.
-    this.createPane('tooltipPane');
-    // @pane popupPane: HTMLElement = 700
-    // Pane for `Popup`s.
-    this.createPane('popupPane');
+    // the smooth zoom-and-pan curve follows van Wijk & Nuij, "Smooth and
+    // efficient zooming and panning" (2003): w is the visible width, u the
+    // distance travelled along the path, s the path parameter
+    const w0 = Math.max(size.x, size.y);
+    const w1 = w0 * this.getZoomScale(startZoom, endZoom);
+    const u1 = to.distanceTo(from) || 1;
+    const rho = 1.42;
+    const rho2 = rho * rho;
 
-    if (!this.options.markerZoomAnimation) {
-      DomUtil.addClass(panes.markerPane, 'leaflet-zoom-hide');
-      DomUtil.addClass(panes.shadowPane, 'leaflet-zoom-hide');
+    function r(i: number) {
+      const s1 = i ? -1 : 1;
+      const s2 = i ? w1 : w0;
+      const t1 = w1 * w1 - w0 * w0 + s1 * rho2 * rho2 * u1 * u1;
+      const b1 = 2 * s2 * rho2 * u1;
+      const b = t1 / b1;
+      const sq = Math.sqrt(b * b + 1) - b;
+
+      // workaround for floating point precision bug when sq = 0, log = -Infinite,
+      // thus triggering an infinite loop in flyTo
+      return sq < 0.000000001 ? -18 : Math.log(sq);
+    }
+
+    function sinh(n: number) {
+      return (Math.exp(n) - Math.exp(-n)) / 2;
+    }
+    function cosh(n: number) {
+      return (Math.exp(n) + Math.exp(-n)) / 2;
+    }
+    function tanh(n: number) {
+      return sinh(n) / cosh(n);
+    }
+
+    const r0 = r(0);
+
+    function w(s: number) {
+      return w0 * (cosh(r0) / cosh(r0 + rho * s));
     }
+    function u(s: number) {
+      return (w0 * (cosh(r0) * tanh(r0 + rho * s) - sinh(r0))) / rho2;
+    }
+
+    function easeOut(t: number) {
+      return 1 - Math.pow(1 - t, 1.5);
+    }
+
+    const start = Date.now();
+    const S = (r(1) - r0) / rho;
+    const duration = options.duration
+      ? 1000 * options.duration
+      : 1000 * S * 0.8;
+
+    const frame = () => {
+      const t = (Date.now() - start) / duration;
+      const s = easeOut(t) * S;
+
+      if (t <= 1) {
+        this._flyToFrame = requestAnimFrame(frame);
+
+        this._move(
+          this.unproject(
+            from.add(to.subtract(from).multiplyBy(u(s) / u1)),
+            startZoom,
+          ),
+          this.getScaleZoom(w0 / w(s), startZoom),
+          { flyTo: true },
+        );
+      } else {
+        this._move(endCenter, endZoom)._moveEnd(true);
+      }
+    };
+
+    this._moveStart(true, options.noMoveStart);
+
+    frame();
+    return this;
   }
 
-  private _initControlPos() {
-    const corners: ControlCorners = (this._controlCorners = {});
-    const l = 'leaflet-';
-    const container = (this._controlContainer = DomUtil.create(
-      'div',
-      l + 'control-container',
-      this._container,
-    ));
+  // @method flyToBounds(bounds: LatLngBounds, options?: fitBounds options): this
+  // Sets the view of the map with a smooth animation like [`flyTo`](#map-flyto),
+  // but takes a bounds parameter like [`fitBounds`](#map-fitbounds).
+  public flyToBounds(
+    bounds: LatLngBoundsLike,
+    options?: FitBoundsOptions,
+  ): this {
+    const target = this._getBoundsCenterZoom(bounds, options);
+    return this.flyTo(target.center, target.zoom, options);
+  }
 
-    function createCorner(vSide: string, hSide: string) {
-      const className = l + vSide + ' ' + l + hSide;
+  // @method setMaxBounds(bounds: LatLngBounds): this
+  // Restricts the map view to the given bounds (see the [maxBounds](#map-maxbounds) option).
+  // Passing invalid bounds (e.g. an empty array) removes the restriction.
+  public setMaxBounds(bounds: LatLngBoundsLike): this {
+    const latLngBounds = toLatLngBounds(bounds);
 
-      corners[vSide + hSide] = DomUtil.create('div', className, container);
+    if (!latLngBounds.isValid()) {
+      this.options.maxBounds = undefined;
+      return this.off('moveend', this._panInsideMaxBounds, this);
+    } else if (this.options.maxBounds) {
+      this.off('moveend', this._panInsideMaxBounds, this);
     }
 
-    createCorner('top', 'left');
-    createCorner('top', 'right');
-    createCorner('bottom', 'left');
-    createCorner('bottom', 'right');
+    this.options.maxBounds = latLngBounds;
+
+    if (this._loaded) {
+      this._panInsideMaxBounds();
+    }
+
+    return this.on('moveend', this._panInsideMaxBounds, this);
+  }
+
+  // @method panInsideBounds(bounds: LatLngBounds, options?: Pan options): this
+  // Pans the map to the closest view that would lie inside the given bounds (if it's not already), controlling the animation using the options specific, if any.
+  public panInsideBounds(bounds: LatLngBoundsLike, options?: PanOptions): this {
+    this._enforcingBounds = true;
+    const center = this.getCenter();
+    const newCenter = this._limitCenter(
+      center,
+      this._zoom,
+      toLatLngBounds(bounds),
+    );
+
+    if (!center.equals(newCenter)) {
+      this.panTo(newCenter, options);
+    }
+
+    this._enforcingBounds = false;
+    return this;
+  }
+
+  // @method stop(): this
+  // Stops the currently running `panTo` or `flyTo` animation, if any.
+  public stop(): this {
+    this.setZoom(this._limitZoom(this._zoom));
+    if (!this.options.zoomSnap) {
+      this.fire('viewreset');
+    }
+    return this._stop();
+  }
+
+  // @section Other Methods
+
+  // @method getCenter(): LatLng
+  // Returns the geographical center of the map view
+  public getCenter(): LatLng {
+    this._checkIfLoaded();
+
+    if (this._lastCenter && !this._moved()) {
+      return this._lastCenter;
+    }
+    return this.layerPointToLatLng(this._getCenterLayerPoint());
+  }
+
+  // @method getZoom(): Number
+  // Returns the current zoom level of the map view
+  public getZoom(): number {
+    return this._zoom;
+  }
+
+  // @method getBounds(): LatLngBounds
+  // Returns the geographical bounds visible in the current map view
+  public getBounds(): LatLngBounds {
+    const bounds = this.getPixelBounds();
+    const sw = this.unproject(bounds.getBottomLeft());
+    const ne = this.unproject(bounds.getTopRight());
+
+    return new LatLngBounds(sw, ne);
   }
 
-  private _limitZoom(zoom: number) {
+  // @method getBoundsZoom(bounds: LatLngBounds, inside?: Boolean, padding?: Point): Number
+  // Returns the maximum zoom level on which the given bounds fit to the map
+  // view in its entirety. If `inside` (optional) is set to `true`, the method
+  // instead returns the minimum zoom level on which the map view fits into
+  // the given bounds in its entirety.
+  public getBoundsZoom(
+    bounds: LatLngBoundsLike,
+    inside?: boolean,
+    padding?: PointLike,
+  ): number {
+    const latLngBounds = toLatLngBounds(bounds);
+    const paddingPoint = toPoint(padding || [0, 0]);
+    let zoom = this.getZoom() || 0;
     const min = this.getMinZoom();
     const max = this.getMaxZoom();
+    const nw = latLngBounds.getNorthWest();
+    const se = latLngBounds.getSouthEast();
+    const size = this.getSize().subtract(paddingPoint);
+    const boundsSize = new Bounds(
+      this.project(se, zoom),
+      this.project(nw, zoom),
+    ).getSize();
     const snap = Browser.any3d ? this.options.zoomSnap : 1;
+    const scalex = size.x / boundsSize.x;
+    const scaley = size.y / boundsSize.y;
+    const scale = inside ? Math.max(scalex, scaley) : Math.min(scalex, scaley);
+
+    zoom = this.getScaleZoom(scale, zoom);
+
     if (snap) {
-      zoom = Math.round(zoom / snap) * snap;
+      zoom = Math.round(zoom / (snap / 100)) * (snap / 100); // don't jump if within 1% of a snap level
+      zoom = inside
+        ? Math.ceil(zoom / snap) * snap
+        : Math.floor(zoom / snap) * snap;
     }
+
     return Math.max(min, Math.min(max, zoom));
   }
+
+  // @method getSize(): Point
+  // Returns the current size of the map container (in pixels).
+  public getSize(): Point {
+    if (!this._size || this._sizeChanged) {
+      this._size = new Point(
+        this._container.clientWidth || 0,
+        this._container.clientHeight || 0,
+      );
+
+      this._sizeChanged = false;
+    }
+    return this._size.clone();
+  }
+
+  // @method getPixelBounds(): Bounds
+  // Returns the bounds of the current map view in projected pixel
+  // coordinates (sometimes useful in layer and overlay implementations).
+  public getPixelBounds(center?: LatLng, zoom?: number): Bounds {
+    const topLeftPoint = this._getTopLeftPoint(center, zoom);
+    return new Bounds(topLeftPoint, topLeftPoint.add(this.getSize()));
+  }
+
+  // @method getPixelOrigin(): Point
+  // Returns the projected pixel coordinates of the top left point of
+  // the map layer (useful in custom layer and overlay implementations).
+  public getPixelOrigin(): Point {
+    this._checkIfLoaded();
+    return this._pixelOrigin;
+  }
+
+  // @method getPixelWorldBounds(zoom?: Number): Bounds
+  // Returns the world's bounds in pixel coordinates for zoom level `zoom`.
+  // If `zoom` is omitted, the map's current zoom level is used.
+  public getPixelWorldBounds(zoom?: number): Bounds | null {
+    return this.options.crs.getProjectedBounds(
+      zoom === undefined ? this.getZoom() : zoom,
+    );
+  }
+
+  // @section Conversion Methods
+
+  // @method getZoomScale(toZoom: Number, fromZoom: Number): Number
+  // Returns the scale factor to be applied to a map transition from zoom level
+  // `fromZoom` to `toZoom`. Used internally to help with zoom animations.
+  public getZoomScale(toZoom: number, fromZoom?: number): number {
+    const crs = this.options.crs;
+    fromZoom = fromZoom === undefined ? this._zoom : fromZoom;
+    return crs.scale(toZoom) / crs.scale(fromZoom);
+  }
+
+  // @method getScaleZoom(scale: Number, fromZoom: Number): Number
+  // Returns the zoom level that the map would end up at, if it is at `fromZoom`
+  // level and everything is scaled by a factor of `scale`. Inverse of
+  // [`getZoomScale`](#map-getZoomScale).
+  public getScaleZoom(scale: number, fromZoom?: number): number {
+    const crs = this.options.crs;
+    fromZoom = fromZoom === undefined ? this._zoom : fromZoom;
+    const zoom = crs.zoom(scale * crs.scale(fromZoom));
+    return isNaN(zoom) ? Infinity : zoom;
+  }
+
+  // @method project(latlng: LatLng, zoom: Number): Point
+  // Projects a geographical coordinate `LatLng` according to the projection
+  // of the map's CRS, then scales it according to `zoom` and the CRS's
+  // `Transformation`. The result is pixel coordinate relative to
+  // the CRS origin.
+  public project(latlng: LatLngLike, zoom?: number): Point {
+    zoom = zoom === undefined ? this._zoom : zoom;
+    return this.options.crs.latLngToPoint(toLatLng(latlng) as LatLng, zoom);
+  }
+
+  // @method unproject(point: Point, zoom: Number): LatLng
+  // Inverse of [`project`](#map-project).
+  public unproject(point: PointLike, zoom?: number): LatLng {
+    zoom = zoom === undefined ? this._zoom : zoom;
+    return this.options.crs.pointToLatLng(toPoint(point), zoom);
+  }
+
+  // @method layerPointToLatLng(point: Point): LatLng
+  // Given a pixel coordinate relative to the [origin pixel](#map-getpixelorigin),
+  // returns the corresponding geographical coordinate (for the current zoom level).
+  public layerPointToLatLng(point: PointLike): LatLng {
+    const projectedPoint = toPoint(point).add(this.getPixelOrigin());
+    return this.unproject(projectedPoint);
+  }
+
+  // @method latLngToLayerPoint(latlng: LatLng): Point
+  // Given a geographical coordinate, returns the corresponding pixel coordinate
+  // relative to the [origin pixel](#map-getpixelorigin).
+  public latLngToLayerPoint(latlng: LatLngLike): Point {
+    const projectedPoint = this.project(latlng)._round();
+    return projectedPoint._subtract(this.getPixelOrigin());
+  }
+
+  // @method wrapLatLng(latlng: LatLng): LatLng
+  // Returns a `LatLng` where `lat` and `lng` has been wrapped according to the
+  // map's CRS's `wrapLat` and `wrapLng` properties, if they are outside the
+  // CRS's bounds.
+  // By default this means longitude is wrapped around the dateline so its
+  // value is between -180 and +180 degrees.
+  public wrapLatLng(latlng: LatLngLike): LatLng {
+    return this.options.crs.wrapLatLng(toLatLng(latlng) as LatLng);
+  }
+
+  // @method wrapLatLngBounds(bounds: LatLngBounds): LatLngBounds
+  // Returns a `LatLngBounds` with the same size as the given one, ensuring that
+  // its center is within the CRS's bounds.
+  // By default this means the center longitude is wrapped around the dateline so its
+  // value is between -180 and +180 degrees, and the majority of the bounds
+  // overlaps the CRS's bounds.
+  public wrapLatLngBounds(bounds: LatLngBoundsLike): LatLngBounds {
+    return this.options.crs.wrapLatLngBounds(toLatLngBounds(bounds));
+  }
+
+  // @method distance(latlng1: LatLng, latlng2: LatLng): Number
+  // Returns the distance between two geographical coordinates according to
+  // the map's CRS. By default this measures distance in meters.
+  public distance(latlng1: LatLngLike, latlng2: LatLngLike): number {
+    return this.options.crs.distance(
+      toLatLng(latlng1) as LatLng,
+      toLatLng(latlng2) as LatLng,
+    );
+  }
+
+  // @method containerPointToLayerPoint(point: Point): Point
+  // Given a pixel coordinate relative to the map container, returns the corresponding
+  // pixel coordinate relative to the [origin pixel](#map-getpixelorigin).
+  public containerPointToLayerPoint(point: PointLike): Point {
+    return toPoint(point).subtract(this._getMapPanePos());
+  }
+
+  // @method layerPointToContainerPoint(point: Point): Point
+  // Given a pixel coordinate relative to the [origin pixel](#map-getpixelorigin),
+  // returns the corresponding pixel coordinate relative to the map container.
+  public layerPointToContainerPoint(point: PointLike): Point {
+    return toPoint(point).add(this._getMapPanePos());
+  }
+
+  // @method containerPointToLatLng(point: Point): LatLng
+  // Given a pixel coordinate relative to the map container, returns
+  // the corresponding geographical coordinate (for the current zoom level).
+  public containerPointToLatLng(point: PointLike): LatLng {
+    const layerPoint = this.containerPointToLayerPoint(point);
+    return this.layerPointToLatLng(layerPoint);
+  }
+
+  // @method latLngToContainerPoint(latlng: LatLng): Point
+  // Given a geographical coordinate, returns the corresponding pixel coordinate
+  // relative to the map container.
+  public latLngToContainerPoint(latlng: LatLngLike): Point {
+    return this.layerPointToContainerPoint(this.latLngToLayerPoint(latlng));
+  }
+
+  // @method mouseEventToContainerPoint(ev: MouseEvent): Point
+  // Given a MouseEvent object, returns the pixel coordinate relative to the
+  // map container where the event took place.
+  public mouseEventToContainerPoint(e: MouseEvent | Touch): Point {
+    return DomEvent.getMousePosition(e, this._container);
+  }
+
+  // @method mouseEventToLayerPoint(ev: MouseEvent): Point
+  // Given a MouseEvent object, returns the pixel coordinate relative to
+  // the [origin pixel](#map-getpixelorigin) where the event took place.
+  public mouseEventToLayerPoint(e: MouseEvent | Touch): Point {
+    return this.containerPointToLayerPoint(this.mouseEventToContainerPoint(e));
+  }
+
+  // @method mouseEventToLatLng(ev: MouseEvent): LatLng
+  // Given a MouseEvent object, returns geographical coordinate where the
+  // event took place.
+  public mouseEventToLatLng(e: MouseEvent | Touch): LatLng {
+    return this.layerPointToLatLng(this.mouseEventToLayerPoint(e));
+  }
+
+  // @method getMinZoom(): Number
+  // Returns the minimum zoom level of the map (if set in the `minZoom` option of the map or of any layers), or `0` by default.
+  public getMinZoom(): number {
+    return this.options.minZoom === undefined
+      ? this._layersMinZoom || 0
+      : this.options.minZoom;
+  }
+
+  // @method getMaxZoom(): Number
+  // Returns the maximum zoom level of the map (if set in the `maxZoom` option of the map or of any layers).
+  public getMaxZoom(): number {
+    return this.options.maxZoom === undefined
+      ? this._layersMaxZoom === undefined
+        ? Infinity
+        : this._layersMaxZoom
+      : this.options.maxZoom;
+  }
+
+  // @section Methods for Layers and Controls
+
+  // @method addLayer(layer: Layer): this
+  // Adds the given layer to the map
+  public addLayer(layer: Layer): this {
+    if (!(layer instanceof Layer)) {
+      throw new Error('The provided object is not a Layer.');
+    }
+
+    const id = stamp(layer);
+    if (this._layers[id]) {
+      return this;
+    }
+    this._layers[id] = layer;
+
+    layer._mapToAdd = this;
+
+    if (layer.beforeAdd) {
+      layer.beforeAdd(this);
+    }
+
+    this.whenReady(layer._layerAdd, layer);
+
+    return this;
+  }
+
+  // @method removeLayer(layer: Layer): this
+  // Removes the given layer from the map.
+  public removeLayer(layer: Layer): this {
+    const id = stamp(layer);
+
+    if (!this._layers[id]) {
+      return this;
+    }
+
+    if (this._loaded) {
+      layer.onRemove(this);
+    }
+
+    if (this.attributionControl) {
+      this.attributionControl.removeAttribution(layer.getAttribution());
+    }
+
+    delete this._layers[id];
+
+    if (this._loaded) {
+      // @event layerremove: LayerEvent
+      // Fired when a new layer is removed from the map.
+      this.fire('layerremove', { layer: layer });
+      layer.fire('remove');
+    }
+
+    layer._map = layer._mapToAdd = undefined;
+
+    return this;
+  }
+
+  // @method hasLayer(layer: Layer): Boolean
+  // Returns `true` if the given layer is currently added to the map
+  public hasLayer(layer: Layer): boolean {
+    return !!layer && stamp(layer) in this._layers;
+  }
+
+  /* @method eachLayer(fn: Function, context?: Object): this
+   * Iterates over the layers of the map, optionally specifying context of the iterator function.
+   * ```
+   * map.eachLayer(function(layer){
+   *     layer.bindPopup('Hello');
+   * });
+   * ```
+   */
+  public eachLayer(method: (layer: Layer) => void, context?: unknown): this {
+    for (const i in this._layers) {
+      method.call(context, this._layers[i]);
+    }
+    return this;
+  }
+
+  // @method whenReady(fn: Function, context?: Object): this
+  // Runs the given function `fn` when the map gets initialized with
+  // a view (center and zoom) and at least one layer, or immediately
+  // if it's already initialized, optionally passing a function context.
+  public whenReady(callback: Listener, context?: unknown): this {
+    if (this._loaded) {
+      const event: LeafletEvent = {
+        type: 'load',
+        target: this,
+        sourceTarget: this,
+      };
+      callback.call(context || this, event);
+    } else {
+      this.on('load', callback, context);
+    }
+    return this;
+  }
+
+  // @method getRenderer(layer: Path): Renderer
+  // Returns the instance of `Renderer` that should be used to render the given
+  // `Path`. It will ensure that the `renderer` options of the map and paths
+  // are respected, and that the renderers do exist on the map.
+  public getRenderer(layer: Path): Renderer {
+    let renderer =
+      layer.options.renderer ||
+      this._getPaneRenderer(layer.options.pane) ||
+      this.options.renderer ||
+      this._renderer;
+
+    if (!renderer) {
+      renderer = this._renderer = this._createRenderer();
+    }
+
+    if (!this.hasLayer(renderer)) {
+      this.addLayer(renderer);
+    }
+    return renderer;
+  }
+
+  // @method addHandler(name: String, HandlerClass: Function): this
+  // Adds a new `Handler` to the map, given its name and constructor function.
+  public addHandler(name: string, HandlerClass?: HandlerClass): this {
+    if (!HandlerClass) {
+      return this;
+    }
+
+    const handler = new HandlerClass(this);
+    ((this as unknown) as Record<string, Handler>)[name] = handler;
+
+    this._handlers.push(handler);
+
+    if (((this.options as unknown) as Record<string, unknown>)[name]) {
+      handler.enable();
+    }
+
+    return this;
+  }
+
+  // @method addControl(control: Control): this
+  // Adds the given control to the map
+  public addControl(control: Control): this {
+    control.addTo(this);
+    return this;
+  }
+
+  // @method removeControl(control: Control): this
+  // Removes the given control from the map
+  public removeControl(control: Control): this {
+    control.remove();
+    return this;
+  }
+
+  // @method openPopup(popup: Popup): this
+  // Opens the specified popup while closing the previously opened (to make sure only one is opened at one time for usability).
+  // @alternative
+  // @method openPopup(content: String|HTMLElement, latlng: LatLng, options?: Popup options): this
+  // Creates a popup with the specified content and options and opens it in the given point on a map.
+  public openPopup(
+    popup: Popup | DivOverlayContent,
+    latlng?: LatLngLike,
+    options?: Partial<PopupOptions>,
+  ): this {
+    if (!(popup instanceof Popup)) {
+      popup = new Popup(options).setContent(popup);
+    }
+
+    if (latlng) {
+      popup.setLatLng(latlng);
+    }
+
+    if (this.hasLayer(popup)) {
+      return this;
+    }
+
+    if (this._popup && this._popup.options.autoClose) {
+      this.closePopup();
+    }
+
+    this._popup = popup;
+    return this.addLayer(popup);
+  }
+
+  // @method closePopup(popup?: Popup): this
+  // Closes the popup previously opened with [openPopup](#map-openpopup) (or the given one).
+  public closePopup(popup?: Popup): this {
+    if (!popup || popup === this._popup) {
+      popup = this._popup;
+      this._popup = undefined;
+    }
+    if (popup) {
+      this.removeLayer(popup);
+    }
+    return this;
+  }
+
+  // @method openTooltip(tooltip: Tooltip): this
+  // Opens the specified tooltip.
+  // @alternative
+  // @method openTooltip(content: String|HTMLElement, latlng: LatLng, options?: Tooltip options): this
+  // Creates a tooltip with the specified content and options and open it.
+  public openTooltip(
+    tooltip: Tooltip | DivOverlayContent,
+    latlng?: LatLngLike,
+    options?: Partial<TooltipOptions>,
+  ): this {
+    if (!(tooltip instanceof Tooltip)) {
+      tooltip = new Tooltip(options).setContent(tooltip);
+    }
+
+    if (latlng) {
+      tooltip.setLatLng(latlng);
+    }
+
+    if (this.hasLayer(tooltip)) {
+      return this;
+    }
+
+    return this.addLayer(tooltip);
+  }
+
+  // @method closeTooltip(tooltip?: Tooltip): this
+  // Closes the tooltip given as parameter.
+  public closeTooltip(tooltip?: Tooltip): this {
+    if (tooltip) {
+      this.removeLayer(tooltip);
+    }
+    return this;
+  }
+
+  private _getPaneRenderer(name?: string): Renderer | undefined {
+    if (name === 'overlayPane' || name === undefined) {
+      return undefined;
+    }
+
+    let renderer = this._paneRenderers[name];
+    if (renderer === undefined) {
+      renderer = this._createRenderer({ pane: name });
+      this._paneRenderers[name] = renderer;
+    }
+    return renderer;
+  }
+
+  private _createRenderer(options?: Partial<RendererOptions>): Renderer {
+    const renderer =
+      (this.options.preferCanvas && canvas(options)) ||
+      svg(options) ||
+      canvas(options);
+
+    if (!renderer) {
+      throw new Error('No vector renderer available.');
+    }
+    return renderer;
+  }
+
+  private _addLayers(layers: Layer | Layer[]): void {
+    layers = layers ? (isArray(layers) ? layers : [layers]) : [];
+
+    for (let i = 0, len = layers.length; i < len; i++) {
+      this.addLayer(layers[i]);
+    }
+  }
+
+  // @section Other Methods
+  // @method remove(): this
+  // Destroys the map and clears all related event listeners.
+  public remove(): this {
+    this._initEvents(true);
+    this.off('moveend', this._panInsideMaxBounds, this);
+
+    const container = this._container as MapContainer;
+    if (this._containerId !== container._leaflet_id) {
+      throw new Error('Map container is being reused by another instance');
+    }
+
+    delete container._leaflet_id;
+    this._containerId = undefined;
+
+    this._stop();
+    clearTimeout(this._sizeTimer);
+    clearTimeout(this._zoomAnimTimer);
+    cancelAnimFrame(this._zoomAnimFrame);
+    cancelAnimFrame(this._moveEndFrame);
+
+    DomUtil.remove(this._mapPane);
+
+    for (const i in this._controls) {
+      this._controls[i].remove();
+    }
+    this._clearControlPos();
+    this._clearHandlers();
+
+    if (this._loaded) {
+      // @section Map state change events
+      // @event unload: Event
+      // Fired when the map is destroyed with [remove](#map-remove) method.
+      this.fire('unload');
+    }
+
+    for (const i in this._layers) {
+      this._layers[i].remove();
+    }
+    for (const i in this._panes) {
+      DomUtil.remove(this._panes[i]);
+    }
+
+    this._layers = {};
+    this._panes = {};
+    // lets pending zoom animation callbacks know the map is gone
+    delete (this as { _mapPane?: HTMLElement })._mapPane;
+    this._targets = {};
+    this._paneRenderers = {};
+    this._renderer = undefined;
+
+    return this;
+  }
+
+  // @method createPane(name: String, container?: HTMLElement): HTMLElement
+  // Creates a new [map pane](#map-pane) with the given name if it doesn't exist already,
+  // then returns it. The pane is created as a child of `container`, or
+  // as a child of the main map pane if not set.
+  public createPane(name: string, container?: HTMLElement): HTMLElement {
+    const className =
+      'leaflet-pane' +
+      (name ? ' leaflet-' + name.replace('Pane', '') + '-pane' : '');
+    const pane = DomUtil.create('div', className, container || this._mapPane);
+
+    if (name) {
+      this._panes[name] = pane;
+    }
+    return pane;
+  }
+
+  // @method getPane(pane: String|HTMLElement): HTMLElement
+  // Returns a [map pane](#map-pane), given its name or its HTML element (its identity).
+  public getPane(pane: string | HTMLElement): HTMLElement | undefined {
+    return typeof pane === 'string' ? this._panes[pane] : pane;
+  }
+
+  // @method getPanes(): Object
+  // Returns a plain object containing the names of all [panes](#map-pane) as keys and
+  // the panes as values.
+  public getPanes(): Panes {
+    return this._panes;
+  }
+
+  // @method getContainer: HTMLElement
+  // Returns the HTML element that contains the map.
+  public getContainer(): HTMLElement {
+    return this._container;
+  }
+
+  public _addZoomLimit(layer: Layer & ZoomBoundOptions): void {
+    const options = layer.options;
+    if (
+      options.maxZoom === undefined ||
+      isNaN(options.maxZoom) ||
+      (options.minZoom !== undefined && !isNaN(options.minZoom))
+    ) {
+      this._zoomBoundLayers[stamp(layer)] = layer;
+      this._updateZoomLevels();
+    }
+  }
+
+  public _removeZoomLimit(layer: Layer): void {
+    const id = stamp(layer);
+
+    if (this._zoomBoundLayers[id]) {
+      delete this._zoomBoundLayers[id];
+      this._updateZoomLevels();
+    }
+  }
+
+  // map initialization methods
+  private _initContainer(id: string | HTMLElement): void {
+    const container = DomUtil.get(id);
+    if (!container) {
+      throw new Error('Map container not found.');
+    } else if ((container as MapContainer)._leaflet_id) {
+      throw new Error('Map container is already initialized.');
+    }
+
+    this._container = container;
+    this._containerId = stamp(container);
+  }
+
+  private _initLayout() {
+    const container = this._container;
+
+    this._fadeAnimated = !!(this.options.fadeAnimation && Browser.any3d);
+
+    DomUtil.addClass(
+      container,
+      'leaflet-container' +
+        (Browser.touch ? ' leaflet-touch' : '') +
+        (Browser.retina ? ' leaflet-retina' : '') +
+        (Browser.ielt9 ? ' leaflet-oldie' : '') +
+        (Browser.safari ? ' leaflet-safari' : '') +
+        (this._fadeAnimated ? ' leaflet-fade-anim' : ''),
+    );
+
+    const position = DomUtil.getStyle(container, 'position');
+
+    if (
+      position !== 'absolute' &&
+      position !== 'relative' &&
+      position !== 'fixed'
+    ) {
+      container.style.position = 'relative';
+    }
+
+    this._initPanes();
+
+    if (this._initControlPos) {
+      this._initControlPos();
+    }
+  }
+
+  private _initPanes(): void {
+    const panes: Panes = (this._panes = {});
+
+    // @section
+    //
+    // Panes are DOM elements used to control the ordering of layers on the map. You
+    // can access panes with [`map.getPane`](#map-getpane) or
+    // [`map.getPanes`](#map-getpanes) methods. New panes can be created with the
+    // [`map.createPane`](#map-createpane) method.
+    //
+    // Every map has the following default panes that differ only in zIndex.
+    //
+    // @pane mapPane: HTMLElement = 'auto'
+    // Pane that contains all other map panes
+
+    this._mapPane = this.createPane('mapPane', this._container);
+    DomUtil.setPosition(this._mapPane, new Point(0, 0));
+
+    // @pane tilePane: HTMLElement = 200
+    // Pane for `GridLayer`s and `TileLayer`s
+    this.createPane('tilePane');
+    // @pane overlayPane: HTMLElement = 400
+    // Pane for vectors (`Path`s, like `Polyline`s and `Polygon`s), `ImageOverlay`s and `VideoOverlay`s
+    this.createPane('overlayPane');
+    // @pane shadowPane: HTMLElement = 500
+    // Pane for overlay shadows (e.g. `Marker` shadows)
+    this.createPane('shadowPane');
+    // @pane markerPane: HTMLElement = 600
+    // Pane for `Icon`s of `Marker`s
+    this.createPane('markerPane');
+    // @pane tooltipPane: HTMLElement = 650
+    // Pane for `Tooltip`s.
+    this.createPane('tooltipPane');
+    // @pane popupPane: HTMLElement = 700
+    // Pane for `Popup`s.
+    this.createPane('popupPane');
+
+    if (!this.options.markerZoomAnimation) {
+      DomUtil.addClass(panes.markerPane, 'leaflet-zoom-hide');
+      DomUtil.addClass(panes.shadowPane, 'leaflet-zoom-hide');
+    }
+  }
+
+  private _initHandlers(): void {
+    this.addHandler('boxZoom', BoxZoom);
+    this.addHandler('doubleClickZoom', DoubleClickZoom);
+    this.addHandler('dragging', DragPan);
+    this.addHandler('keyboard', Keyboard);
+    this.addHandler('scrollWheelZoom', ScrollWheelZoom);
+
+    if (Browser.touch && !Browser.pointer) {
+      this.addHandler('tap', Tap);
+    }
+    this.addHandler('touchZoom', TouchZoom);
+  }
+
+  private _initControls(): void {
+    if (this.options.zoomControl) {
+      this.zoomControl = new ControlZoom();
+      this.addControl(this.zoomControl);
+    }
+
+    if (this.options.attributionControl) {
+      new ControlAttribution().addTo(this);
+    }
+  }
+
+  private _initControlPos() {
+    const corners: ControlCorners = (this._controlCorners = {});
+    const l = 'leaflet-';
+    const container = (this._controlContainer = DomUtil.create(
+      'div',
+      l + 'control-container',
+      this._container,
+    ));
+
+    function createCorner(vSide: string, hSide: string) {
+      const className = l + vSide + ' ' + l + hSide;
+
+      corners[vSide + hSide] = DomUtil.create('div', className, container);
+    }
+
+    createCorner('top', 'left');
+    createCorner('top', 'right');
+    createCorner('bottom', 'left');
+    createCorner('bottom', 'right');
+  }
+
+  private _clearControlPos(): void {
+    for (const i in this._controlCorners) {
+      DomUtil.remove(this._controlCorners[i]);
+    }
+    if (this._controlContainer) {
+      DomUtil.remove(this._controlContainer);
+    }
+
+    this._controlCorners = {};
+    this._controlContainer = undefined;
+  }
+
+  private _clearHandlers(): void {
+    for (let i = 0, len = this._handlers.length; i < len; i++) {
+      this._handlers[i].disable();
+    }
+  }
+
+  // private methods that modify map state
+
+  public _resetView(center: LatLng, zoom: number): this {
+    DomUtil.setPosition(this._mapPane, new Point(0, 0));
+
+    const loading = !this._loaded;
+    this._loaded = true;
+    zoom = this._limitZoom(zoom);
+
+    this.fire('viewprereset');
+
+    const zoomChanged = this._zoom !== zoom;
+    this._moveStart(zoomChanged)._move(center, zoom)._moveEnd(zoomChanged);
+
+    // @event viewreset: Event
+    // Fired when the map needs to redraw its content (this usually happens
+    // on map zoom or load). Very useful for creating custom overlays.
+    this.fire('viewreset');
+
+    // @event load: Event
+    // Fired when the map is initialized (when its center and zoom are set
+    // for the first time).
+    if (loading) {
+      this.fire('load');
+    }
+    return this;
+  }
+
+  public _moveStart(zoomChanged: boolean, noMoveStart?: boolean): this {
+    // @event zoomstart: Event
+    // Fired when the map zoom is about to change (e.g. before zoom animation).
+    // @event movestart: Event
+    // Fired when the view of the map starts changing (e.g. user starts dragging the map).
+    if (zoomChanged) {
+      this.fire('zoomstart');
+    }
+    if (!noMoveStart) {
+      this.fire('movestart');
+    }
+    return this;
+  }
+
+  public _move(
+    center: LatLng,
+    zoom?: number,
+    data?: Record<string, unknown>,
+    supressEvent?: boolean,
+  ): this {
+    if (zoom === undefined) {
+      zoom = this._zoom;
+    }
+    const zoomChanged = this._zoom !== zoom;
+
+    this._zoom = zoom;
+    this._lastCenter = center;
+    this._pixelOrigin = this._getNewPixelOrigin(center);
+
+    if (!supressEvent) {
+      // @event zoom: Event
+      // Fired repeatedly during any change in zoom level,
+      // including zoom and fly animations.
+      if (zoomChanged || (data && data.pinch)) {
+        this.fire('zoom', data);
+      }
+
+      // @event move: Event
+      // Fired repeatedly during any movement of the map,
+      // including pan and fly animations.
+      this.fire('move', data);
+    } else if (data && data.pinch) {
+      // Always fire 'zoom' if pinching because #3530
+      this.fire('zoom', data);
+    }
+    return this;
+  }
+
+  private _moveEnd(zoomChanged: boolean): this {
+    // @event zoomend: Event
+    // Fired when the map zoom changed, after any animations.
+    if (zoomChanged) {
+      this.fire('zoomend');
+    }
+
+    // @event moveend: Event
+    // Fired when the center of the map stops changing
+    // (e.g. user stopped dragging the map or after non-centered zoom).
+    return this.fire('moveend');
+  }
+
+  public _stop(): this {
+    cancelAnimFrame(this._flyToFrame);
+    if (this._panAnim) {
+      this._panAnim.stop();
+    }
+    return this;
+  }
+
+  private _rawPanBy(offset: Point): void {
+    DomUtil.setPosition(this._mapPane, this._getMapPanePos().subtract(offset));
+  }
+
+  private _checkIfLoaded(): void {
+    if (!this._loaded) {
+      throw new Error('Set map center and zoom first.');
+    }
+  }
+
+  // DOM event handling
+
+  // @section Interaction events
+  private _initEvents(remove?: boolean): void {
+    const onOff = remove ? DomEvent.off : DomEvent.on;
+
+    // @event click: MouseEvent
+    // Fired when the user clicks (or taps) the map.
+    // @event dblclick: MouseEvent
+    // Fired when the user double-clicks (or double-taps) the map.
+    // @event mousedown: MouseEvent
+    // Fired when the user pushes the mouse button on the map.
+    // @event mouseup: MouseEvent
+    // Fired when the user releases the mouse button on the map.
+    // @event mouseover: MouseEvent
+    // Fired when the mouse enters the map.
+    // @event mouseout: MouseEvent
+    // Fired when the mouse leaves the map.
+    // @event mousemove: MouseEvent
+    // Fired while the mouse moves over the map.
+    // @event contextmenu: MouseEvent
+    // Fired when the user pushes the right mouse button on the map, prevents
+    // default browser context menu from showing if there are listeners on
+    // this event. Also fired on mobile when the user holds a single touch
+    // for a second (also called long press).
+    // @event keypress: KeyboardEvent
+    // Fired when the user presses a key from the keyboard that produces a character value while the map is focused.
+    // @event keydown: KeyboardEvent
+    // Fired when the user presses a key from the keyboard while the map is focused. Unlike the `keypress` event,
+    // the `keydown` event is fired for keys that produce a character value and for keys
+    // that do not produce a character value.
+    // @event keyup: KeyboardEvent
+    // Fired when the user releases a key from the keyboard while the map is focused.
+    onOff(
+      this._container,
+      'click dblclick mousedown mouseup ' +
+        'mouseover mouseout mousemove contextmenu keypress keydown keyup',
+      this._handleDOMEvent,
+      this,
+    );
+    onOff(this._container, 'scroll', this._onScroll, this);
+
+    if (this.options.trackResize) {
+      this._trackResize(remove);
+    }
+
+    if (Browser.any3d && this.options.transform3DLimit) {
+      if (remove) {
+        this.off('moveend', this._onMoveEnd, this);
+      } else {
+        this.on('moveend', this._onMoveEnd, this);
+      }
+    }
+  }
+
+  // watches the container itself when `ResizeObserver` is supported, so that
+  // layout changes which don't resize the window are caught as well
+  private _trackResize(remove?: boolean): void {
+    const ResizeObserverClass = (window as Window & {
+      ResizeObserver?: ContainerObserverClass;
+    }).ResizeObserver;
+
+    if (remove) {
+      if (this._resizeObserver) {
+        this._resizeObserver.disconnect();
+        this._resizeObserver = undefined;
+      }
+      DomEvent.off(window, 'resize', this._onResize, this);
+      cancelAnimFrame(this._resizeRequest);
+    } else if (ResizeObserverClass) {
+      this._resizeObserver = new ResizeObserverClass(() => this._onResize());
+      this._resizeObserver.observe(this._container);
+    } else {
+      DomEvent.on(window, 'resize', this._onResize, this);
+    }
+  }
+
+  private _onResize(): void {
+    cancelAnimFrame(this._resizeRequest);
+    this._resizeRequest = requestAnimFrame(() =>
+      this.invalidateSize({ debounceMoveend: true }),
+    );
+  }
+
+  private _onScroll(): void {
+    this._container.scrollTop = 0;
+    this._container.scrollLeft = 0;
+  }
+
+  private _onMoveEnd(): void {
+    const pos = this._getMapPanePos();
+    if (
+      Math.max(Math.abs(pos.x), Math.abs(pos.y)) >=
+      this.options.transform3DLimit
+    ) {
+      // https://bugzilla.mozilla.org/show_bug.cgi?id=1203873 but Webkit also have
+      // a pixel offset on very high values, see: http://jsfiddle.net/dg6r5hhb/
+      this._resetView(this.getCenter(), this.getZoom());
+    }
+  }
+
+  // finds the interactive layers listening to the event, from the innermost
+  // one, followed by the map itself if it listens too
+  private _findEventTargets(e: Event, type: string): Array<Layer | Map> {
+    const isHover = type === 'mouseout' || type === 'mouseover';
+    const isClick = isRealClick(e, type);
+    const targets: Array<Layer | Map> = [];
+    let src = e.target as HTMLElement | null;
+
+    while (src) {
+      const target = src === this._container ? this : this._targets[stamp(src)];
+
+      if (target) {
+        if (isClick && this._draggableMoved(target)) {
+          // don't fire click events after dragging the map or the target
+          break;
+        }
+        if (target.listens(type, true)) {
+          if (!isHover || DomEvent.isExternalTarget(src, e as MouseEvent)) {
+            targets.push(target);
+          }
+          if (isHover) {
+            // hovering only concerns the innermost target
+            break;
+          }
+        }
+      }
+      if (src === this._container) {
+        break;
+      }
+      src = src.parentNode as HTMLElement | null;
+    }
+    return targets;
+  }
+
+  private _draggableMoved(obj: Layer | Map): boolean {
+    const layer = obj as { dragging?: Handler & { moved(): boolean } };
+    const draggable =
+      layer.dragging && layer.dragging.enabled()
+        ? layer.dragging
+        : this.dragging;
+
+    return (
+      (draggable && draggable.moved()) || (this.boxZoom && this.boxZoom.moved())
+    );
+  }
+
+  private _handleDOMEvent(e: Event): void {
+    if (!this._loaded || DomEvent.skipped(e)) {
+      return;
+    }
+
+    const type = e.type;
+
+    if (
+      type === 'mousedown' ||
+      type === 'keypress' ||
+      type === 'keyup' ||
+      type === 'keydown'
+    ) {
+      // prevents outline when clicking on keyboard-focusable element
+      DomUtil.preventOutline(e.target as HTMLElement);
+    }
+
+    this._fireDOMEvent(e, type);
+  }
+
+  // fires the DOM event `e` as a Leaflet event of the given type on the
+  // given layers (e.g. hit by a canvas renderer), then on the event targets
+  public _fireDOMEvent(e: Event, type: string, targets?: Layer[]): void {
+    if (e.type === 'click') {
+      // Fire a synthetic 'preclick' event which propagates up (mainly for closing popups).
+      // @event preclick: MouseEvent
+      // Fired before mouse click on the map (sometimes useful when you
+      // want something to happen on click before any existing click
+      // handlers start running).
+      const synth = extend({}, (e as unknown) as Record<string, unknown>);
+      synth.type = 'preclick';
+      this._fireDOMEvent((synth as unknown) as Event, 'preclick', targets);
+    }
+
+    if (((e as unknown) as { _stopped?: boolean })._stopped) {
+      return;
+    }
+
+    const eventTargets = ([] as Array<Layer | Map>).concat(
+      targets || [],
+      this._findEventTargets(e, type),
+    );
+
+    if (!eventTargets.length) {
+      return;
+    }
+
+    const target = eventTargets[0];
+    if (type === 'contextmenu' && target.listens(type, true)) {
+      DomEvent.preventDefault(e);
+    }
+
+    const data: Record<string, unknown> =
+      e.type !== 'keypress' && e.type !== 'keydown' && e.type !== 'keyup'
+        ? this._getMouseEventPoints(e as MouseEvent, target)
+        : {};
+    data.originalEvent = e;
+
+    for (let i = 0; i < eventTargets.length; i++) {
+      eventTargets[i].fire(type, data, true);
+
+      if (stopsAt(eventTargets[i], e, type)) {
+        return;
+      }
+    }
+  }
+
+  // positions of a mouse event, or of the target itself if it's a marker
+  private _getMouseEventPoints(
+    e: MouseEvent,
+    target: Layer | Map,
+  ): Record<string, unknown> {
+    const source = target as Layer & OverlaySource & { _radius?: number };
+
+    if (source.getLatLng && (!source._radius || source._radius <= 10)) {
+      const latlng = source.getLatLng();
+      const containerPoint = this.latLngToContainerPoint(latlng);
+
+      return {
+        containerPoint: containerPoint,
+        layerPoint: this.containerPointToLayerPoint(containerPoint),
+        latlng: latlng,
+      };
+    }
+
+    const containerPoint = this.mouseEventToContainerPoint(e);
+    const layerPoint = this.containerPointToLayerPoint(containerPoint);
+
+    return {
+      containerPoint: containerPoint,
+      layerPoint: layerPoint,
+      latlng: this.layerPointToLatLng(layerPoint),
+    };
+  }
+
+  // private methods for working with the map pane position
+
+  private _getMapPanePos(): Point {
+    return DomUtil.getPosition(this._mapPane) || new Point(0, 0);
+  }
+
+  private _moved(): boolean {
+    const pos = this._getMapPanePos();
+    return pos && !pos.equals(new Point(0, 0));
+  }
+
+  private _getTopLeftPoint(center?: LatLng, zoom?: number): Point {
+    const pixelOrigin =
+      center && zoom !== undefined
+        ? this._getNewPixelOrigin(center, zoom)
+        : this.getPixelOrigin();
+    return pixelOrigin.subtract(this._getMapPanePos());
+  }
+
+  public _getNewPixelOrigin(center: LatLng, zoom?: number): Point {
+    const viewHalf = this.getSize()._divideBy(2);
+    return this.project(center, zoom)
+      ._subtract(viewHalf)
+      ._add(this._getMapPanePos())
+      ._round();
+  }
+
+  // layer point of `latlng` once the map is at the given center and zoom,
+  // used by layers to follow a zoom animation
+  public _latLngToNewLayerPoint(
+    latlng: LatLngLike,
+    zoom: number,
+    center: LatLng,
+  ): Point {
+    const topLeft = this._getNewPixelOrigin(center, zoom);
+    return this.project(latlng, zoom)._subtract(topLeft);
+  }
+
+  // layer point of the current center
+  private _getCenterLayerPoint(): Point {
+    return this.containerPointToLayerPoint(this.getSize()._divideBy(2));
+  }
+
+  // offset of the specified place to the current center in pixels
+  private _getCenterOffset(latlng: LatLng): Point {
+    return this.latLngToLayerPoint(latlng).subtract(
+      this._getCenterLayerPoint(),
+    );
+  }
+
+  private _getBoundsCenterZoom(
+    bounds: LatLngBoundsLike,
+    options: FitBoundsOptions = {},
+  ): { center: LatLng; zoom: number } {
+    const latLngBounds = toLatLngBounds(bounds);
+    const paddingTL = toPoint(
+      options.paddingTopLeft || options.padding || [0, 0],
+    );
+    const paddingBR = toPoint(
+      options.paddingBottomRight || options.padding || [0, 0],
+    );
+    let zoom = this.getBoundsZoom(
+      latLngBounds,
+      false,
+      paddingTL.add(paddingBR),
+    );
+
+    zoom =
+      typeof options.maxZoom === 'number'
+        ? Math.min(options.maxZoom, zoom)
+        : zoom;
+
+    if (zoom === Infinity) {
+      return {
+        center: latLngBounds.getCenter(),
+        zoom: zoom,
+      };
+    }
+
+    const paddingOffset = paddingBR.subtract(paddingTL).divideBy(2);
+    const swPoint = this.project(latLngBounds.getSouthWest(), zoom);
+    const nePoint = this.project(latLngBounds.getNorthEast(), zoom);
+    const center = this.unproject(
+      swPoint.add(nePoint).divideBy(2).add(paddingOffset),
+      zoom,
+    );
+
+    return {
+      center: center,
+      zoom: zoom,
+    };
+  }
+
+  private _panInsideMaxBounds(): void {
+    if (!this._enforcingBounds && this.options.maxBounds) {
+      this.panInsideBounds(this.options.maxBounds);
+    }
+  }
+
+  // adjust center for view to get inside bounds
+  private _limitCenter(
+    center: LatLng,
+    zoom: number,
+    bounds?: LatLngBounds,
+  ): LatLng {
+    if (!bounds) {
+      return center;
+    }
+
+    const centerPoint = this.project(center, zoom);
+    const viewHalf = this.getSize().divideBy(2);
+    const viewBounds = new Bounds(
+      centerPoint.subtract(viewHalf),
+      centerPoint.add(viewHalf),
+    );
+    const offset = this._getBoundsOffset(viewBounds, bounds, zoom);
+
+    // If offset is less than a pixel, ignore.
+    // This prevents unstable projections from getting into
+    // an infinite loop of tiny offsets.
+    if (offset.round().equals(new Point(0, 0))) {
+      return center;
+    }
+
+    return this.unproject(centerPoint.add(offset), zoom);
+  }
+
+  // adjust offset for view to get inside bounds
+  public _limitOffset(offset: Point, bounds?: LatLngBounds): Point {
+    if (!bounds) {
+      return offset;
+    }
+
+    const viewBounds = this.getPixelBounds();
+    const newBounds = new Bounds(
+      viewBounds.min.add(offset),
+      viewBounds.max.add(offset),
+    );
+
+    return offset.add(this._getBoundsOffset(newBounds, bounds));
+  }
+
+  // returns offset needed for pxBounds to get inside maxBounds at a specified zoom
+  private _getBoundsOffset(
+    pxBounds: Bounds,
+    maxBounds: LatLngBounds,
+    zoom?: number,
+  ): Point {
+    const projectedMaxBounds = toBounds(
+      this.project(maxBounds.getNorthEast(), zoom),
+      this.project(maxBounds.getSouthWest(), zoom),
+    );
+    const minOffset = projectedMaxBounds.min.subtract(pxBounds.min);
+    const maxOffset = projectedMaxBounds.max.subtract(pxBounds.max);
+    const dx = this._rebound(minOffset.x, -maxOffset.x);
+    const dy = this._rebound(minOffset.y, -maxOffset.y);
+
+    return new Point(dx, dy);
+  }
+
+  private _rebound(left: number, right: number): number {
+    return left + right > 0
+      ? Math.round(left - right) / 2
+      : Math.max(0, Math.ceil(left)) - Math.max(0, Math.floor(right));
+  }
+
+  private _onPanTransitionStep(): void {
+    this.fire('move');
+  }
+
+  private _onPanTransitionEnd(): void {
+    DomUtil.removeClass(this._mapPane, 'leaflet-pan-anim');
+    this.fire('moveend');
+  }
+
+  private _tryAnimatedPan(center: LatLng, options?: PanOptions): boolean {
+    // difference between the new and current centers in pixels
+    const offset = this._getCenterOffset(center)._trunc();
+
+    // don't animate too far unless animate: true specified in options
+    if (
+      (options && options.animate) !== true &&
+      !this.getSize().contains(offset)
+    ) {
+      return false;
+    }
+
+    this.panBy(offset, options);
+
+    return true;
+  }
+
+  // private methods for zoom animation
+
+  private _createAnimProxy(): void {
+    const proxy = (this._proxy = DomUtil.create(
+      'div',
+      'leaflet-proxy leaflet-zoom-animated',
+    ));
+    this._panes.mapPane.appendChild(proxy);
+
+    this.on('zoomanim', this._onProxyZoomAnim, this);
+    this.on('load moveend', this._animMoveEnd, this);
+    this.on('unload', this._destroyAnimProxy, this);
+  }
+
+  private _destroyAnimProxy(): void {
+    if (this._proxy) {
+      DomUtil.remove(this._proxy);
+    }
+    this.off('zoomanim', this._onProxyZoomAnim, this);
+    this.off('load moveend', this._animMoveEnd, this);
+    this._proxy = undefined;
+  }
+
+  private _onProxyZoomAnim(e: ZoomAnimEvent): void {
+    const proxy = this._proxy as HTMLElement;
+    const prop = DomUtil.TRANSFORM as keyof CSSStyleDeclaration;
+    const transform = proxy.style[prop];
+
+    DomUtil.setTransform(
+      proxy,
+      this.project(e.center, e.zoom),
+      this.getZoomScale(e.zoom, 1),
+    );
+
+    // workaround for case when transform is the same and so transitionend event is not fired
+    if (transform === proxy.style[prop] && this._animatingZoom) {
+      this._onZoomTransitionEnd();
+    }
+  }
+
+  private _animMoveEnd(): void {
+    const c = this.getCenter();
+    const z = this.getZoom();
+    DomUtil.setTransform(
+      this._proxy as HTMLElement,
+      this.project(c, z),
+      this.getZoomScale(z, 1),
+    );
+  }
+
+  private _catchTransitionEnd(e: TransitionEvent): void {
+    if (this._animatingZoom && e.propertyName.indexOf('transform') >= 0) {
+      this._onZoomTransitionEnd();
+    }
+  }
+
+  private _nothingToAnimate(): boolean {
+    return !this._container.getElementsByClassName('leaflet-zoom-animated')
+      .length;
+  }
+
+  private _tryAnimatedZoom(
+    center: LatLng,
+    zoom: number,
+    options: ZoomOptions = {},
+  ): boolean {
+    if (this._animatingZoom) {
+      return true;
+    }
+
+    // don't animate if disabled, not supported or zoom difference is too large
+    if (
+      !this._zoomAnimated ||
+      options.animate === false ||
+      this._nothingToAnimate() ||
+      Math.abs(zoom - this._zoom) > this.options.zoomAnimationThreshold
+    ) {
+      return false;
+    }
+
+    // offset is the pixel coords of the zoom origin relative to the current center
+    const scale = this.getZoomScale(zoom);
+    const offset = this._getCenterOffset(center)._divideBy(1 - 1 / scale);
+
+    // don't animate if the zoom origin isn't within one screen from the current center, unless forced
+    if (options.animate !== true && !this.getSize().contains(offset)) {
+      return false;
+    }
+
+    this._zoomAnimFrame = requestAnimFrame(() => {
+      this._moveStart(true, false)._animateZoom(center, zoom, true);
+    });
+
+    return true;
+  }
+
+  public _animateZoom(
+    center: LatLng,
+    zoom: number,
+    startAnim?: boolean,
+    noUpdate?: boolean,
+  ): void {
+    if (!this._mapPane) {
+      return;
+    }
+
+    if (startAnim) {
+      this._animatingZoom = true;
+
+      // remember what center/zoom to set after animation
+      this._animateToCenter = center;
+      this._animateToZoom = zoom;
+
+      DomUtil.addClass(this._mapPane, 'leaflet-zoom-anim');
+    }
+
+    // @section Other Events
+    // @event zoomanim: ZoomAnimEvent
+    // Fired at least once per zoom animation. For continuous zoom, like pinch zooming, fired once per frame during zoom.
+    this.fire('zoomanim', {
+      center,
+      zoom,
+      origin: this._getZoomOrigin(center, zoom),
+      noUpdate,
+    });
+
+    // Work around webkit not firing 'transitionend', see https://github.com/Leaflet/Leaflet/issues/3689, 2693
+    clearTimeout(this._zoomAnimTimer);
+    this._zoomAnimTimer = window.setTimeout(
+      () => this._onZoomTransitionEnd(),
+      250,
+    );
+  }
+
+  // layer point that keeps its position on screen while zooming to the given center and zoom
+  private _getZoomOrigin(center: LatLng, zoom: number): Point {
+    const scale = this.getZoomScale(zoom);
+    const centerPoint = this._getCenterLayerPoint();
+
+    if (scale === 1) {
+      return centerPoint;
+    }
+    return centerPoint._add(
+      this._getCenterOffset(center)._divideBy(1 - 1 / scale),
+    );
+  }
+
+  private _onZoomTransitionEnd(): void {
+    if (!this._animatingZoom) {
+      return;
+    }
+
+    if (this._mapPane) {
+      DomUtil.removeClass(this._mapPane, 'leaflet-zoom-anim');
+    }
+
+    this._animatingZoom = false;
+
+    this._move(this._animateToCenter, this._animateToZoom);
+
+    // This anim frame should prevent an obscure iOS webkit tile loading race condition.
+    this._moveEndFrame = requestAnimFrame(() => this._moveEnd(true));
+  }
+
+  private _updateZoomLevels(): void {
+    let minZoom = Infinity;
+    let maxZoom = -Infinity;
+    const oldZoomSpan = this._getZoomSpan();
+
+    for (const i in this._zoomBoundLayers) {
+      const options = this._zoomBoundLayers[i].options;
+
+      minZoom =
+        options.minZoom === undefined
+          ? minZoom
+          : Math.min(minZoom, options.minZoom);
+
+      maxZoom =
+        options.maxZoom === undefined
+          ? maxZoom
+          : Math.max(maxZoom, options.maxZoom);
+    }
+
+    this._layersMaxZoom = maxZoom === -Infinity ? undefined : maxZoom;
+    this._layersMinZoom = minZoom === Infinity ? undefined : minZoom;
+
+    // @section Map state change events
+    // @event zoomlevelschange: Event
+    // Fired when the number of zoomlevels on the map is changed due
+    // to adding or removing a layer.
+    if (oldZoomSpan !== this._getZoomSpan()) {
+      this.fire('zoomlevelschange');
+    }
+
+    if (
+      this.options.maxZoom === undefined &&
+      this._layersMaxZoom &&
+      this.getZoom() > this._layersMaxZoom
+    ) {
+      this.setZoom(this._layersMaxZoom);
+    }
+    if (
+      this.options.minZoom === undefined &&
+      this._layersMinZoom &&
+      this.getZoom() < this._layersMinZoom
+    ) {
+      this.setZoom(this._layersMinZoom);
+    }
+  }
+
+  private _getZoomSpan(): number {
+    return this.getMaxZoom() - this.getMinZoom();
+  }
+
+  public _limitZoom(zoom: number): number {
+    const min = this.getMinZoom();
+    const max = this.getMaxZoom();
+    const snap = Browser.any3d ? this.options.zoomSnap : 1;
+    if (snap) {
+      zoom = Math.round(zoom / snap) * snap;
+    }
+    return Math.max(min, Math.min(max, zoom));
+  }
+}
+
+// @section
+
+// @factory L.map(id: String, options?: Map options)
+// Instantiates a map object given the DOM ID of a `<div>` element
+// and optionally an object literal with `Map options`.
+//
+// @alternative
+// @factory L.map(el: HTMLElement, options?: Map options)
+// Instantiates a map object given an instance of a `<div>` HTML element
+// and optionally an object literal with `Map options`.
+export function createMap(
+  id: string | HTMLElement,
+  options?: Partial<MapOptions>,
+): Map {
+  return new Map(id, options);
 }
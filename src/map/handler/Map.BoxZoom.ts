@@ -0,0 +1,158 @@
+import { Handler } from '@/core/Handler';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLngBounds } from '@/geo/LatLngBounds';
+import { Bounds } from '@/geometry/Bounds';
+import { Point } from '@/geometry/Point';
+import { Map } from '../Map';
+
+/*
+ * BoxZoom is used to add shift-drag zoom interaction to the map
+ * (zoom to a selected bounding box), enabled by default.
+ */
+
+export class BoxZoom extends Handler {
+  private _container: HTMLElement;
+  private _resetStateTimeout = 0;
+  private _moved = false;
+  private _startPoint!: Point;
+  private _point!: Point;
+  private _box?: HTMLElement;
+
+  constructor(map: Map) {
+    super(map);
+    this._container = map._container;
+  }
+
+  protected addHooks(): void {
+    DomEvent.on(this._container, 'mousedown', this._onMouseDown, this);
+  }
+
+  protected removeHooks(): void {
+    DomEvent.off(this._container, 'mousedown', this._onMouseDown, this);
+  }
+
+  // @method moved(): Boolean
+  // Returns `true` if a box has been drawn since the last mousedown.
+  public moved(): boolean {
+    return this._moved;
+  }
+
+  private _resetState(): void {
+    this._resetStateTimeout = 0;
+    this._moved = false;
+  }
+
+  private _clearDeferredResetState(): void {
+    if (this._resetStateTimeout !== 0) {
+      clearTimeout(this._resetStateTimeout);
+      this._resetStateTimeout = 0;
+    }
+  }
+
+  private _onMouseDown(e: MouseEvent): void {
+    if (!e.shiftKey || (e.which !== 1 && e.button !== 1)) {
+      return;
+    }
+
+    // Clear the deferred resetState if it hasn't executed yet, otherwise it
+    // will interrupt the interaction and orphan a box element in the container.
+    this._clearDeferredResetState();
+    this._resetState();
+
+    DomUtil.disableTextSelection();
+    DomUtil.disableImageDrag();
+
+    this._startPoint = this._map.mouseEventToContainerPoint(e);
+
+    DomEvent.on(
+      document,
+      {
+        contextmenu: DomEvent.stop,
+        mousemove: this._onMouseMove,
+        mouseup: this._onMouseUp,
+        keydown: this._onKeyDown,
+      },
+      this,
+    );
+  }
+
+  private _onMouseMove(e: MouseEvent): void {
+    if (!this._moved) {
+      this._moved = true;
+
+      this._box = DomUtil.create('div', 'leaflet-zoom-box', this._container);
+      DomUtil.addClass(this._container, 'leaflet-crosshair');
+
+      // @namespace Map
+      // @section Interaction events
+      // @event boxzoomstart: Event
+      // Fired when the user starts drawing a box to zoom into.
+      this._map.fire('boxzoomstart');
+    }
+
+    this._point = this._map.mouseEventToContainerPoint(e);
+
+    const box = this._box as HTMLElement;
+    const bounds = new Bounds(this._point, this._startPoint);
+    const size = bounds.getSize();
+
+    DomUtil.setPosition(box, bounds.min);
+
+    box.style.width = size.x + 'px';
+    box.style.height = size.y + 'px';
+  }
+
+  private _finish(): void {
+    if (this._moved) {
+      DomUtil.remove(this._box as HTMLElement);
+      DomUtil.removeClass(this._container, 'leaflet-crosshair');
+    }
+
+    DomUtil.enableTextSelection();
+    DomUtil.enableImageDrag();
+
+    DomEvent.off(
+      document,
+      {
+        contextmenu: DomEvent.stop,
+        mousemove: this._onMouseMove,
+        mouseup: this._onMouseUp,
+        keydown: this._onKeyDown,
+      },
+      this,
+    );
+  }
+
+  private _onMouseUp(e: MouseEvent): void {
+    if (e.which !== 1 && e.button !== 1) {
+      return;
+    }
+
+    this._finish();
+
+    if (!this._moved) {
+      return;
+    }
+    // Postpone to next JS tick so internal click event handling
+    // still see it as "moved".
+    this._clearDeferredResetState();
+    this._resetStateTimeout = window.setTimeout(() => this._resetState(), 0);
+
+    const map = this._map;
+    const bounds = new LatLngBounds(
+      map.containerPointToLatLng(this._startPoint),
+      map.containerPointToLatLng(this._point),
+    );
+
+    // @event boxzoomend: BoxZoomEvent
+    // Fired when the user finishes drawing a box to zoom into.
+    map.fitBounds(bounds).fire('boxzoomend', { boxZoomBounds: bounds });
+  }
+
+  private _onKeyDown(e: KeyboardEvent): void {
+    if (e.keyCode === 27) {
+      this._finish();
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { LeafletEvent } from '@/core/Events';
+import { Handler } from '@/core/Handler';
+import { Point } from '@/geometry/Point';
+
+/*
+ * DoubleClickZoom is used to handle double-click zoom on the map, enabled by default.
+ */
+
+export class DoubleClickZoom extends Handler {
+  protected addHooks(): void {
+    this._map.on('dblclick', this._onDoubleClick, this);
+  }
+
+  protected removeHooks(): void {
+    this._map.off('dblclick', this._onDoubleClick, this);
+  }
+
+  private _onDoubleClick(e: LeafletEvent): void {
+    const map = this._map;
+    const oldZoom = map.getZoom();
+    const delta = map.options.zoomDelta;
+    const zoom = (e.originalEvent as MouseEvent).shiftKey
+      ? oldZoom - delta
+      : oldZoom + delta;
+
+    if (map.options.doubleClickZoom === 'center') {
+      map.setZoom(zoom);
+    } else {
+      map.setZoomAround(e.containerPoint as Point, zoom);
+    }
+  }
+}
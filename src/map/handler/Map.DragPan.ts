@@ -0,0 +1,226 @@
+import { Handler } from '@/core/Handler';
+import { LeafletEvent } from '@/core/Events';
+import { requestAnimFrame } from '@/core/Util';
+import { Draggable } from '@/dom/Draggable';
+import * as DomUtil from '@/dom/DomUtil';
+import { toLatLngBounds } from '@/geo/LatLngBounds';
+import { Bounds } from '@/geometry/Bounds';
+import { Point } from '@/geometry/Point';
+
+/*
+ * DragPan is used to make the map draggable (with panning inertia), enabled by default.
+ */
+
+export class DragPan extends Handler {
+  private _draggable?: Draggable;
+  private _positions: Point[] = [];
+  private _times: number[] = [];
+  private _lastTime = 0;
+  private _lastPos!: Point;
+  private _offsetLimit: Bounds | null = null;
+  private _viscosity = 0;
+  private _initialWorldOffset = 0;
+  private _worldWidth = 0;
+
+  protected addHooks(): void {
+    if (!this._draggable) {
+      const map = this._map;
+
+      this._draggable = new Draggable(map._mapPane, map._container);
+
+      this._draggable.on(
+        {
+          dragstart: this._onDragStart,
+          drag: this._onDrag,
+          dragend: this._onDragEnd,
+        },
+        this,
+      );
+
+      this._draggable.on('predrag', this._onPreDragLimit, this);
+      if (map.options.worldCopyJump) {
+        this._draggable.on('predrag', this._onPreDragWrap, this);
+        map.on('zoomend', this._onZoomEnd, this);
+
+        map.whenReady(this._onZoomEnd, this);
+      }
+    }
+    DomUtil.addClass(this._map._container, 'leaflet-grab leaflet-touch-drag');
+    this._draggable.enable();
+    this._positions = [];
+    this._times = [];
+  }
+
+  protected removeHooks(): void {
+    DomUtil.removeClass(this._map._container, 'leaflet-grab');
+    DomUtil.removeClass(this._map._container, 'leaflet-touch-drag');
+    (this._draggable as Draggable).disable();
+  }
+
+  // @method moved(): Boolean
+  // Returns `true` if the map has been dragged since the last drag start.
+  public moved(): boolean {
+    return !!this._draggable && this._draggable._moved;
+  }
+
+  // @method moving(): Boolean
+  // Returns `true` while the map is being dragged.
+  public moving(): boolean {
+    return !!this._draggable && this._draggable._moving;
+  }
+
+  private _onDragStart(): void {
+    const map = this._map;
+
+    map._stop();
+    if (map.options.maxBounds && map.options.maxBoundsViscosity) {
+      const bounds = toLatLngBounds(map.options.maxBounds);
+
+      this._offsetLimit = new Bounds(
+        map.latLngToContainerPoint(bounds.getNorthWest()).multiplyBy(-1),
+        map
+          .latLngToContainerPoint(bounds.getSouthEast())
+          .multiplyBy(-1)
+          .add(map.getSize()),
+      );
+
+      this._viscosity = Math.min(
+        1.0,
+        Math.max(0.0, map.options.maxBoundsViscosity),
+      );
+    } else {
+      this._offsetLimit = null;
+    }
+
+    // @namespace Map
+    // @section Interaction events
+    // @event dragstart: Event
+    // Fired when the user starts dragging the map.
+    map.fire('movestart').fire('dragstart');
+
+    if (map.options.inertia) {
+      this._positions = [];
+      this._times = [];
+    }
+  }
+
+  private _onDrag(e: LeafletEvent): void {
+    if (this._map.options.inertia) {
+      const draggable = this._draggable as Draggable;
+      const time = (this._lastTime = +new Date());
+      const pos = (this._lastPos = draggable._absPos || draggable._newPos);
+
+      this._positions.push(pos);
+      this._times.push(time);
+
+      this._prunePositions(time);
+    }
+
+    // @event drag: Event
+    // Fired repeatedly while the user drags the map.
+    this._map.fire('move', e).fire('drag', e);
+  }
+
+  private _prunePositions(time: number): void {
+    while (this._positions.length > 1 && time - this._times[0] > 50) {
+      this._positions.shift();
+      this._times.shift();
+    }
+  }
+
+  private _onZoomEnd(): void {
+    const pxCenter = this._map.getSize().divideBy(2);
+    const pxWorldCenter = this._map.latLngToLayerPoint([0, 0]);
+
+    this._initialWorldOffset = pxWorldCenter.subtract(pxCenter).x;
+    this._worldWidth = (this._map.getPixelWorldBounds() as Bounds).getSize().x;
+  }
+
+  private _viscousLimit(value: number, threshold: number): number {
+    return value - (value - threshold) * this._viscosity;
+  }
+
+  private _onPreDragLimit(): void {
+    if (!this._viscosity || !this._offsetLimit) {
+      return;
+    }
+
+    const draggable = this._draggable as Draggable;
+    const offset = draggable._newPos.subtract(draggable._startPos);
+
+    const limit = this._offsetLimit;
+    if (offset.x < limit.min.x) {
+      offset.x = this._viscousLimit(offset.x, limit.min.x);
+    }
+    if (offset.y < limit.min.y) {
+      offset.y = this._viscousLimit(offset.y, limit.min.y);
+    }
+    if (offset.x > limit.max.x) {
+      offset.x = this._viscousLimit(offset.x, limit.max.x);
+    }
+    if (offset.y > limit.max.y) {
+      offset.y = this._viscousLimit(offset.y, limit.max.y);
+    }
+
+    draggable._newPos = draggable._startPos.add(offset);
+  }
+
+  private _onPreDragWrap(): void {
+    const draggable = this._draggable as Draggable;
+    const worldWidth = this._worldWidth;
+    const halfWidth = Math.round(worldWidth / 2);
+    const dx = this._initialWorldOffset;
+    const x = draggable._newPos.x;
+    const newX1 = ((x - halfWidth + dx) % worldWidth) + halfWidth - dx;
+    const newX2 = ((x + halfWidth + dx) % worldWidth) - halfWidth - dx;
+    const newX = Math.abs(newX1 + dx) < Math.abs(newX2 + dx) ? newX1 : newX2;
+
+    draggable._absPos = draggable._newPos.clone();
+    draggable._newPos.x = newX;
+  }
+
+  private _onDragEnd(e: LeafletEvent): void {
+    const map = this._map;
+    const options = map.options;
+    const noInertia = !options.inertia || this._times.length < 2;
+
+    // @event dragend: DragEndEvent
+    // Fired when the user stops dragging the map.
+    map.fire('dragend', e);
+
+    if (noInertia) {
+      map.fire('moveend');
+      return;
+    }
+
+    this._prunePositions(+new Date());
+
+    const direction = this._lastPos.subtract(this._positions[0]);
+    const duration = (this._lastTime - this._times[0]) / 1000;
+    const ease = options.easeLinearity;
+    const speedVector = direction.multiplyBy(ease / duration);
+    const speed = speedVector.distanceTo(new Point(0, 0));
+    const limitedSpeed = Math.min(options.inertiaMaxSpeed, speed);
+    const limitedSpeedVector = speedVector.multiplyBy(limitedSpeed / speed);
+    const decelerationDuration =
+      limitedSpeed / (options.inertiaDeceleration * ease);
+    let offset = limitedSpeedVector
+      .multiplyBy(-decelerationDuration / 2)
+      .round();
+
+    if (!offset.x && !offset.y) {
+      map.fire('moveend');
+    } else {
+      offset = map._limitOffset(offset, map.options.maxBounds);
+
+      requestAnimFrame(() => {
+        map.panBy(offset, {
+          duration: decelerationDuration,
+          easeLinearity: ease,
+          noMoveStart: true,
+          animate: true,
+        });
+      });
+    }
+  }
+}
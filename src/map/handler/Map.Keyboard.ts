@@ -0,0 +1,187 @@
+import { Handler } from '@/core/Handler';
+import * as DomEvent from '@/dom/DomEvent';
+import { Point } from '@/geometry/Point';
+import { Map } from '../Map';
+
+/*
+ * Keyboard is used by Map to enable keyboard navigation on the map:
+ * panning with the arrow keys and zooming with `+`/`-`, enabled by default.
+ */
+
+export class Keyboard extends Handler {
+  public keyCodes = {
+    left: [37],
+    right: [39],
+    down: [40],
+    up: [38],
+    zoomIn: [187, 107, 61, 171],
+    zoomOut: [189, 109, 54, 173],
+  };
+
+  private _panKeys: Record<number, Point> = {};
+  private _zoomKeys: Record<number, number> = {};
+  private _focused = false;
+
+  constructor(map: Map) {
+    super(map);
+
+    this._setPanDelta(map.options.keyboardPanDelta);
+    this._setZoomDelta(map.options.zoomDelta);
+  }
+
+  protected addHooks(): void {
+    const container = this._map._container;
+
+    // make the container focusable by tabbing
+    if (container.tabIndex <= 0) {
+      container.tabIndex = 0;
+    }
+
+    DomEvent.on(
+      container,
+      {
+        focus: this._onFocus,
+        blur: this._onBlur,
+        mousedown: this._onMouseDown,
+      },
+      this,
+    );
+
+    this._map.on(
+      {
+        focus: this._addHooks,
+        blur: this._removeHooks,
+      },
+      this,
+    );
+  }
+
+  protected removeHooks(): void {
+    this._removeHooks();
+
+    DomEvent.off(
+      this._map._container,
+      {
+        focus: this._onFocus,
+        blur: this._onBlur,
+        mousedown: this._onMouseDown,
+      },
+      this,
+    );
+
+    this._map.off(
+      {
+        focus: this._addHooks,
+        blur: this._removeHooks,
+      },
+      this,
+    );
+  }
+
+  private _onMouseDown(): void {
+    if (this._focused) {
+      return;
+    }
+
+    const body = document.body;
+    const docEl = document.documentElement;
+    const top = body.scrollTop || docEl.scrollTop;
+    const left = body.scrollLeft || docEl.scrollLeft;
+
+    this._map._container.focus();
+
+    window.scrollTo(left, top);
+  }
+
+  private _onFocus(): void {
+    this._focused = true;
+    // @namespace Map
+    // @section Interaction events
+    // @event focus: Event
+    // Fired when the map gains focus (keyboard navigation).
+    this._map.fire('focus');
+  }
+
+  private _onBlur(): void {
+    this._focused = false;
+    // @event blur: Event
+    // Fired when the map loses focus.
+    this._map.fire('blur');
+  }
+
+  private _setPanDelta(panDelta: number): void {
+    const keys = (this._panKeys = {} as Record<number, Point>);
+    const codes = this.keyCodes;
+
+    for (let i = 0, len = codes.left.length; i < len; i++) {
+      keys[codes.left[i]] = new Point(-1 * panDelta, 0);
+    }
+    for (let i = 0, len = codes.right.length; i < len; i++) {
+      keys[codes.right[i]] = new Point(panDelta, 0);
+    }
+    for (let i = 0, len = codes.down.length; i < len; i++) {
+      keys[codes.down[i]] = new Point(0, panDelta);
+    }
+    for (let i = 0, len = codes.up.length; i < len; i++) {
+      keys[codes.up[i]] = new Point(0, -1 * panDelta);
+    }
+  }
+
+  private _setZoomDelta(zoomDelta: number): void {
+    const keys = (this._zoomKeys = {} as Record<number, number>);
+    const codes = this.keyCodes;
+
+    for (let i = 0, len = codes.zoomIn.length; i < len; i++) {
+      keys[codes.zoomIn[i]] = zoomDelta;
+    }
+    for (let i = 0, len = codes.zoomOut.length; i < len; i++) {
+      keys[codes.zoomOut[i]] = -zoomDelta;
+    }
+  }
+
+  private _addHooks(): void {
+    DomEvent.on(document, 'keydown', this._onKeyDown, this);
+  }
+
+  private _removeHooks(): void {
+    DomEvent.off(document, 'keydown', this._onKeyDown, this);
+  }
+
+  private _onKeyDown(e: KeyboardEvent): void {
+    if (e.altKey || e.ctrlKey || e.metaKey) {
+      return;
+    }
+
+    const key = e.keyCode;
+    const map = this._map;
+
+    if (key in this._panKeys) {
+      this._pan(this._panKeys[key], e.shiftKey);
+    } else if (key in this._zoomKeys) {
+      map.setZoom(map.getZoom() + (e.shiftKey ? 3 : 1) * this._zoomKeys[key]);
+    } else if (
+      key === 27 &&
+      map._popup &&
+      map._popup.options.closeOnEscapeKey
+    ) {
+      map.closePopup();
+    } else {
+      return;
+    }
+
+    DomEvent.stop(e);
+  }
+
+  private _pan(offset: Point, fast: boolean): void {
+    const map = this._map;
+    if (map._panAnim && map._panAnim._inProgress) {
+      return;
+    }
+
+    map.panBy(fast ? offset.multiplyBy(3) : offset);
+
+    if (map.options.maxBounds) {
+      map.panInsideBounds(map.options.maxBounds);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { Handler } from '@/core/Handler';
+import * as DomEvent from '@/dom/DomEvent';
+import { Point } from '@/geometry/Point';
+
+/*
+ * ScrollWheelZoom is used by Map to enable mouse scroll wheel zoom on the map.
+ */
+
+export class ScrollWheelZoom extends Handler {
+  private _delta = 0;
+  private _lastMousePos!: Point;
+  private _startTime: number | null = null;
+  private _timer?: number;
+
+  protected addHooks(): void {
+    DomEvent.on(this._map._container, 'wheel', this._onWheelScroll, this);
+
+    this._delta = 0;
+  }
+
+  protected removeHooks(): void {
+    DomEvent.off(this._map._container, 'wheel', this._onWheelScroll, this);
+  }
+
+  private _onWheelScroll(e: WheelEvent): void {
+    const delta = DomEvent.getWheelDelta(e);
+
+    const debounce = this._map.options.wheelDebounceTime;
+
+    this._delta += delta;
+    this._lastMousePos = this._map.mouseEventToContainerPoint(e);
+
+    if (!this._startTime) {
+      this._startTime = +new Date();
+    }
+
+    const left = Math.max(debounce - (+new Date() - this._startTime), 0);
+
+    clearTimeout(this._timer);
+    this._timer = window.setTimeout(() => this._performZoom(), left);
+
+    DomEvent.stop(e);
+  }
+
+  private _performZoom(): void {
+    const map = this._map;
+    const zoom = map.getZoom();
+    const snap = map.options.zoomSnap || 0;
+
+    map._stop(); // stop panning and fly animations if any
+
+    // map the delta with a sigmoid function to -4..4 range leaning on -1..1
+    const d2 = this._delta / (map.options.wheelPxPerZoomLevel * 4);
+    const d3 = (4 * Math.log(2 / (1 + Math.exp(-Math.abs(d2))))) / Math.LN2;
+    const d4 = snap ? Math.ceil(d3 / snap) * snap : d3;
+    const delta = map._limitZoom(zoom + (this._delta > 0 ? d4 : -d4)) - zoom;
+
+    this._delta = 0;
+    this._startTime = null;
+
+    if (!delta) {
+      return;
+    }
+
+    if (map.options.scrollWheelZoom === 'center') {
+      map.setZoom(zoom + delta);
+    } else {
+      map.setZoomAround(this._lastMousePos, zoom + delta);
+    }
+  }
+}
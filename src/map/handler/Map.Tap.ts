@@ -0,0 +1,139 @@
+import { Handler } from '@/core/Handler';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { Point } from '@/geometry/Point';
+
+/*
+ * Tap is used to enable mobile hacks like quick taps and long hold.
+ */
+
+// mouse event dispatched in place of a touch, ignored by the handlers
+// that already process the touch itself
+type SimulatedMouseEvent = MouseEvent & { _simulated?: boolean };
+
+export class Tap extends Handler {
+  private _fireClick = false;
+  private _holdTimeout?: number;
+  private _startPos!: Point;
+  private _newPos!: Point;
+
+  protected addHooks(): void {
+    DomEvent.on(this._map._container, 'touchstart', this._onDown, this);
+  }
+
+  protected removeHooks(): void {
+    DomEvent.off(this._map._container, 'touchstart', this._onDown, this);
+  }
+
+  private _onDown(e: TouchEvent): void {
+    if (!e.touches) {
+      return;
+    }
+
+    DomEvent.preventDefault(e);
+
+    this._fireClick = true;
+
+    // don't simulate click or track longpress if more than 1 touch
+    if (e.touches.length > 1) {
+      this._fireClick = false;
+      clearTimeout(this._holdTimeout);
+      return;
+    }
+
+    const first = e.touches[0];
+    const el = first.target as HTMLElement;
+
+    this._startPos = this._newPos = new Point(first.clientX, first.clientY);
+
+    // if touching a link, highlight it
+    if (el.tagName && el.tagName.toLowerCase() === 'a') {
+      DomUtil.addClass(el, 'leaflet-active');
+    }
+
+    // simulate long hold but setting a timeout
+    this._holdTimeout = window.setTimeout(() => {
+      if (this._isTapValid()) {
+        this._fireClick = false;
+        this._endTap();
+        this._simulateEvent('contextmenu', first);
+      }
+    }, 1000);
+
+    this._simulateEvent('mousedown', first);
+
+    DomEvent.on(
+      document,
+      {
+        touchmove: this._onMove,
+        touchend: this._onUp,
+      },
+      this,
+    );
+  }
+
+  private _endTap(): void {
+    clearTimeout(this._holdTimeout);
+
+    DomEvent.off(
+      document,
+      {
+        touchmove: this._onMove,
+        touchend: this._onUp,
+      },
+      this,
+    );
+  }
+
+  private _onUp(e: TouchEvent): void {
+    this._endTap();
+
+    if (this._fireClick && e.changedTouches) {
+      const first = e.changedTouches[0];
+      const el = first.target as HTMLElement;
+
+      if (el && el.tagName && el.tagName.toLowerCase() === 'a') {
+        DomUtil.removeClass(el, 'leaflet-active');
+      }
+
+      this._simulateEvent('mouseup', first);
+
+      // simulate click if the touch didn't move too much
+      if (this._isTapValid()) {
+        this._simulateEvent('click', first);
+      }
+    }
+  }
+
+  private _isTapValid(): boolean {
+    return (
+      this._newPos.distanceTo(this._startPos) <= this._map.options.tapTolerance
+    );
+  }
+
+  private _onMove(e: TouchEvent): void {
+    const first = e.touches[0];
+    this._newPos = new Point(first.clientX, first.clientY);
+    this._simulateEvent('mousemove', first);
+  }
+
+  private _simulateEvent(type: string, touch: Touch): void {
+    const simulatedEvent: SimulatedMouseEvent = new MouseEvent(type, {
+      bubbles: true,
+      cancelable: true,
+      view: window,
+      detail: 1,
+      screenX: touch.screenX,
+      screenY: touch.screenY,
+      clientX: touch.clientX,
+      clientY: touch.clientY,
+    });
+
+    simulatedEvent._simulated = true;
+    ((touch.target as unknown) as {
+      _simulatedClick?: boolean;
+    })._simulatedClick = true;
+
+    touch.target.dispatchEvent(simulatedEvent);
+  }
+}
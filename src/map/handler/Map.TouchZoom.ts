@@ -0,0 +1,153 @@
+import { Handler } from '@/core/Handler';
+import { cancelAnimFrame, requestAnimFrame } from '@/core/Util';
+import * as DomEvent from '@/dom/DomEvent';
+import * as DomUtil from '@/dom/DomUtil';
+import { LatLng } from '@/geo/LatLng';
+import { Point } from '@/geometry/Point';
+
+/*
+ * TouchZoom is used by Map to add pinch zoom on supported mobile browsers.
+ */
+
+export class TouchZoom extends Handler {
+  private _zooming = false;
+  private _moved = false;
+  private _centerPoint!: Point;
+  private _startLatLng!: LatLng;
+  private _pinchStartLatLng!: LatLng;
+  private _startDist = 0;
+  private _startZoom = 0;
+  private _zoom = 0;
+  private _center!: LatLng;
+  private _animRequest?: number;
+
+  protected addHooks(): void {
+    DomUtil.addClass(this._map._container, 'leaflet-touch-zoom');
+    DomEvent.on(this._map._container, 'touchstart', this._onTouchStart, this);
+  }
+
+  protected removeHooks(): void {
+    DomUtil.removeClass(this._map._container, 'leaflet-touch-zoom');
+    DomEvent.off(this._map._container, 'touchstart', this._onTouchStart, this);
+  }
+
+  private _onTouchStart(e: TouchEvent): void {
+    const map = this._map;
+    if (
+      !e.touches ||
+      e.touches.length !== 2 ||
+      map._animatingZoom ||
+      this._zooming
+    ) {
+      return;
+    }
+
+    const p1 = map.mouseEventToContainerPoint(e.touches[0]);
+    const p2 = map.mouseEventToContainerPoint(e.touches[1]);
+
+    this._centerPoint = map.getSize()._divideBy(2);
+    this._startLatLng = map.containerPointToLatLng(this._centerPoint);
+    if (map.options.touchZoom !== 'center') {
+      this._pinchStartLatLng = map.containerPointToLatLng(
+        p1.add(p2)._divideBy(2),
+      );
+    }
+
+    this._startDist = p1.distanceTo(p2);
+    this._startZoom = map.getZoom();
+
+    this._moved = false;
+    this._zooming = true;
+
+    map._stop();
+
+    DomEvent.on(document, 'touchmove', this._onTouchMove, this);
+    DomEvent.on(document, 'touchend', this._onTouchEnd, this);
+
+    DomEvent.preventDefault(e);
+  }
+
+  private _onTouchMove(e: TouchEvent): void {
+    if (!e.touches || e.touches.length !== 2 || !this._zooming) {
+      return;
+    }
+
+    const map = this._map;
+    const p1 = map.mouseEventToContainerPoint(e.touches[0]);
+    const p2 = map.mouseEventToContainerPoint(e.touches[1]);
+    const scale = p1.distanceTo(p2) / this._startDist;
+
+    this._zoom = this._getPinchZoom(scale);
+
+    if (map.options.touchZoom === 'center') {
+      this._center = this._startLatLng;
+      if (scale === 1) {
+        return;
+      }
+    } else {
+      // Get delta from pinch to center, so centerLatLng is delta applied to initial pinchLatLng
+      const delta = p1._add(p2)._divideBy(2)._subtract(this._centerPoint);
+      if (scale === 1 && delta.x === 0 && delta.y === 0) {
+        return;
+      }
+      this._center = map.unproject(
+        map.project(this._pinchStartLatLng, this._zoom).subtract(delta),
+        this._zoom,
+      );
+    }
+
+    if (!this._moved) {
+      map._moveStart(true, false);
+      this._moved = true;
+    }
+
+    cancelAnimFrame(this._animRequest);
+
+    const center = this._center;
+    const zoom = this._zoom;
+    this._animRequest = requestAnimFrame(
+      () => map._move(center, zoom, { pinch: true, round: false }),
+      this,
+      true,
+    );
+
+    DomEvent.preventDefault(e);
+  }
+
+  private _getPinchZoom(scale: number): number {
+    const map = this._map;
+    const zoom = map.getScaleZoom(scale, this._startZoom);
+
+    if (
+      !map.options.bounceAtZoomLimits &&
+      ((zoom < map.getMinZoom() && scale < 1) ||
+        (zoom > map.getMaxZoom() && scale > 1))
+    ) {
+      return map._limitZoom(zoom);
+    }
+    return zoom;
+  }
+
+  private _onTouchEnd(): void {
+    if (!this._moved || !this._zooming) {
+      this._zooming = false;
+      return;
+    }
+
+    this._zooming = false;
+    cancelAnimFrame(this._animRequest);
+
+    DomEvent.off(document, 'touchmove', this._onTouchMove, this);
+    DomEvent.off(document, 'touchend', this._onTouchEnd, this);
+
+    const map = this._map;
+    const zoom = map._limitZoom(this._zoom);
+
+    // Pinch updates GridLayers' levels only when zoomSnap is off, so zoomSnap becomes noUpdate.
+    if (map.options.zoomAnimation) {
+      map._animateZoom(this._center, zoom, true, !!map.options.zoomSnap);
+    } else {
+      map._resetView(this._center, zoom);
+    }
+  }
+}
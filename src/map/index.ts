@@ -0,0 +1,9 @@
+export { Map, createMap as map } from './Map';
+export { Handler } from '@/core/Handler';
+export { BoxZoom } from './handler/Map.BoxZoom';
+export { DoubleClickZoom } from './handler/Map.DoubleClickZoom';
+export { DragPan } from './handler/Map.DragPan';
+export { Keyboard } from './handler/Map.Keyboard';
+export { ScrollWheelZoom } from './handler/Map.ScrollWheelZoom';
+export { Tap } from './handler/Map.Tap';
+export { TouchZoom } from './handler/Map.TouchZoom';